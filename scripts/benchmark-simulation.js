@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+
+/**
+ * Measure simulation cost per tick as the unit count grows, and how much the
+ * unit spatial index saves over scanning every unit for neighborhood queries.
+ * Bundles src/lib with esbuild (installed with Vite), like simulate-matches.js.
+ *
+ * Usage:
+ *   npm run benchmark
+ *   npm run benchmark -- --units 100,200,400,800 --ticks 300 --map open --seed 7
+ */
+
+import { build } from 'esbuild';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { dirname, join } from 'path';
+import { parseArgs } from './parse-args.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, '..');
+
+const args = parseArgs(process.argv.slice(2));
+const unitCounts = String(args.units ?? '100,200,400').split(',').map(Number);
+const tickCount = Number(args.ticks ?? 300);
+const mapId = args.map ?? 'open';
+const seed = Number(args.seed ?? 1);
+
+const SPAWN_SPACING = 1.2; // meters between spawned units
+const SPAWN_COLUMNS = 20;
+const QUERY_RADIUS = 4; // meters, the widest flocking query
+const QUERY_REPEATS = 20;
+
+// Fill each side with an army marching on the enemy base, so the timed ticks cover movement and combat
+function createBenchmarkState(lib, unitCount) {
+  const state = lib.createHeadlessMatchState({ seed, mapId });
+  const types = [...state.settings.enabledUnits].filter((type) => type !== 'miningDrone');
+  const perSide = Math.floor(unitCount / 2);
+
+  state.bases.forEach((base, owner) => {
+    const enemyBase = state.bases.find((other) => other.owner !== owner);
+    const towardEnemy = Math.sign(enemyBase.position.y - base.position.y);
+    state.players[owner].photons = Number.MAX_SAFE_INTEGER;
+
+    for (let i = 0; i < perSide; i++) {
+      const column = i % SPAWN_COLUMNS;
+      const row = Math.floor(i / SPAWN_COLUMNS);
+      const spawnPos = {
+        x: base.position.x + (column - (SPAWN_COLUMNS - 1) / 2) * SPAWN_SPACING,
+        y: base.position.y + towardEnemy * (6 + row * SPAWN_SPACING),
+      };
+      lib.spawnUnit(state, owner, types[i % types.length], spawnPos, enemyBase.position);
+    }
+  });
+
+  return state;
+}
+
+// Average milliseconds per updateGame tick, and the average number of units alive while measuring
+function timeTicks(lib, state) {
+  let unitTotal = 0;
+  let ticks = 0;
+  const startedAt = performance.now();
+  while (ticks < tickCount && state.winner === null) {
+    unitTotal += state.units.length;
+    lib.updateGame(state, lib.HEADLESS_TIME_STEP);
+    ticks++;
+  }
+  const elapsed = performance.now() - startedAt;
+  return { msPerTick: elapsed / Math.max(1, ticks), averageUnits: unitTotal / Math.max(1, ticks) };
+}
+
+// The same neighbor query for every unit, answered by a linear scan and by the spatial grid
+function timeQueries(lib, units) {
+  let scanMatches = 0;
+  const scanStartedAt = performance.now();
+  for (let repeat = 0; repeat < QUERY_REPEATS; repeat++) {
+    for (const unit of units) {
+      for (const other of units) {
+        const dx = other.position.x - unit.position.x;
+        const dy = other.position.y - unit.position.y;
+        if (dx * dx + dy * dy <= QUERY_RADIUS * QUERY_RADIUS) scanMatches++;
+      }
+    }
+  }
+  const scanMs = performance.now() - scanStartedAt;
+
+  let gridMatches = 0;
+  const grid = new lib.SpatialGrid(4, 60, 90);
+  const gridStartedAt = performance.now();
+  for (let repeat = 0; repeat < QUERY_REPEATS; repeat++) {
+    grid.rebuild(units);
+    for (const unit of units) {
+      gridMatches += grid.queryRadius(unit.position.x, unit.position.y, QUERY_RADIUS).length;
+    }
+  }
+  const gridMs = performance.now() - gridStartedAt;
+
+  if (scanMatches !== gridMatches) {
+    throw new Error(`Spatial grid found ${gridMatches} neighbors, linear scan found ${scanMatches}`);
+  }
+  return { scanMs: scanMs / QUERY_REPEATS, gridMs: gridMs / QUERY_REPEATS };
+}
+
+const outDir = mkdtempSync(join(tmpdir(), 'sol-rts-benchmark-'));
+const outFile = join(outDir, 'benchmark.mjs');
+
+try {
+  await build({
+    stdin: {
+      contents: [
+        "export { createHeadlessMatchState, HEADLESS_TIME_STEP } from './headless';",
+        "export { updateGame, spawnUnit } from './simulation';",
+        "export { SpatialGrid } from './objectPool';",
+      ].join('\n'),
+      resolveDir: join(projectRoot, 'src/lib'),
+      loader: 'ts',
+    },
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    outfile: outFile,
+    logLevel: 'error',
+  });
+
+  const lib = await import(pathToFileURL(outFile).href);
+  console.log(`map=${mapId} seed=${seed} ticks=${tickCount}`);
+  console.log('units  alive  ms/tick  scan ms  grid ms  query speedup');
+
+  for (const unitCount of unitCounts) {
+    const state = createBenchmarkState(lib, unitCount);
+    const queries = timeQueries(lib, state.units);
+    const ticks = timeTicks(lib, state);
+    console.log(
+      `${String(unitCount).padStart(5)}  ${ticks.averageUnits.toFixed(0).padStart(5)}  ${ticks.msPerTick.toFixed(2).padStart(7)}` +
+      `  ${queries.scanMs.toFixed(2).padStart(7)}  ${queries.gridMs.toFixed(2).padStart(7)}  ${(queries.scanMs / queries.gridMs).toFixed(1).padStart(12)}x`
+    );
+  }
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
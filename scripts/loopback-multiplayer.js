@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * Exercise online multiplayer end to end on one machine over the loopback store.
+ * Two MultiplayerManager instances create/join/start a lobby, stream lockstep turn messages to each
+ * other under simulated latency, jitter, loss and reordering, and the guest drops offline for a while
+ * partway through to check that polling resumes where it left off.
+ *
+ * Usage:
+ *   npm run loopback -- --turns 200 --latency 40 --jitter 30 --loss 0.05 --reorder 0.1 --seed 7
+ *   npm run loopback -- --turns 100 --outage 1500
+ */
+
+import { build } from 'esbuild';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { dirname, join } from 'path';
+import { parseArgs } from './parse-args.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, '..');
+
+const args = parseArgs(process.argv.slice(2));
+const turnCount = Number(args.turns ?? 100);
+const turnIntervalMs = Number(args.interval ?? 10);
+const pollIntervalMs = Number(args.poll ?? 25);
+const outageMs = Number(args.outage ?? 1000);
+const seed = Number(args.seed ?? 1);
+const link = {
+  latencyMs: Number(args.latency ?? 30),
+  jitterMs: Number(args.jitter ?? 20),
+  packetLoss: Number(args.loss ?? 0.02),
+  reorderChance: Number(args.reorder ?? 0.05),
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Send every turn in order, resending a turn until the store accepts it
+async function streamTurns(manager, label, report) {
+  for (let turn = 0; turn < turnCount; turn++) {
+    for (;;) {
+      try {
+        await manager.sendCommand({ turn, commands: [] });
+        break;
+      } catch {
+        report.resends++;
+        await sleep(pollIntervalMs);
+      }
+    }
+    await sleep(turnIntervalMs);
+  }
+  console.log(`${label}: sent ${turnCount} turns (${report.resends} resends)`);
+}
+
+// Poll the opponent's stream until every turn has been seen
+async function receiveTurns(manager, opponentIndex, label, report) {
+  let lastSeq = 0;
+  let highestTurn = -1;
+  const seen = new Set();
+  while (seen.size < turnCount) {
+    try {
+      const { commands, latestSeq } = await manager.getCommands(opponentIndex, lastSeq);
+      lastSeq = latestSeq;
+      commands.forEach((message) => {
+        if (seen.has(message.turn)) {
+          report.duplicates++;
+          return;
+        }
+        if (message.turn < highestTurn) report.outOfOrder++;
+        highestTurn = Math.max(highestTurn, message.turn);
+        seen.add(message.turn);
+      });
+    } catch {
+      report.failedPolls++;
+    }
+    await sleep(pollIntervalMs);
+  }
+  console.log(
+    `${label}: received ${seen.size}/${turnCount} turns ` +
+      `(${report.outOfOrder} out of order, ${report.duplicates} duplicates, ${report.failedPolls} failed polls)`,
+  );
+}
+
+const outDir = mkdtempSync(join(tmpdir(), 'sol-rts-loopback-'));
+const entryFile = join(outDir, 'entry.ts');
+const outFile = join(outDir, 'loopback.mjs');
+
+try {
+  // Bundle only the multiplayer pieces; the manager and store never touch the DOM
+  writeFileSync(
+    entryFile,
+    [
+      `export { MultiplayerManager } from ${JSON.stringify(join(projectRoot, 'src/lib/multiplayer.ts'))};`,
+      `export { LoopbackNetwork } from ${JSON.stringify(join(projectRoot, 'src/lib/loopbackStore.ts'))};`,
+    ].join('\n'),
+  );
+  await build({
+    entryPoints: [entryFile],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    outfile: outFile,
+    logLevel: 'error',
+  });
+
+  const { MultiplayerManager, LoopbackNetwork } = await import(pathToFileURL(outFile).href);
+  const network = new LoopbackNetwork(seed);
+  const hostStore = network.createStore(link);
+  const guestStore = network.createStore(link);
+  const host = new MultiplayerManager('loopback-host', hostStore);
+  const guest = new MultiplayerManager('loopback-guest', guestStore);
+
+  console.log(`Link: ${link.latencyMs}ms ±${link.jitterMs}ms, ${link.packetLoss * 100}% loss, ${link.reorderChance * 100}% reorder`);
+
+  // Lobby flow runs on a clean link; loss there would just be retried by the player
+  hostStore.setLinkOptions({ packetLoss: 0 });
+  guestStore.setLinkOptions({ packetLoss: 0 });
+  const gameId = await host.createGame('Host', '#00ffff', 'open', ['marine', 'warrior', 'snaker']);
+  const lobbies = await guest.getAvailableLobbies();
+  if (!lobbies.some((lobby) => lobby.gameId === gameId)) throw new Error('Lobby not listed for guest');
+  if (!(await guest.joinGame(gameId, 'Guest', '#ff00ff'))) throw new Error('Guest failed to join');
+  await host.startGame();
+  const lobby = await guest.getLobby(gameId);
+  if (lobby?.status !== 'playing') throw new Error(`Lobby status is ${lobby?.status}, expected playing`);
+  console.log(`Lobby ${gameId} created, joined and started`);
+  hostStore.setLinkOptions({ packetLoss: link.packetLoss });
+  guestStore.setLinkOptions({ packetLoss: link.packetLoss });
+
+  const hostReport = { resends: 0, outOfOrder: 0, duplicates: 0, failedPolls: 0 };
+  const guestReport = { resends: 0, outOfOrder: 0, duplicates: 0, failedPolls: 0 };
+  const startedAt = Date.now();
+
+  // Drop the guest partway through the stream to exercise reconnection
+  const outage = (async () => {
+    if (outageMs <= 0) return;
+    await sleep((turnCount * turnIntervalMs) / 2);
+    guestStore.setOnline(false);
+    console.log(`Guest offline for ${outageMs}ms`);
+    await sleep(outageMs);
+    guestStore.setOnline(true);
+    console.log('Guest back online');
+  })();
+
+  await Promise.all([
+    streamTurns(host, 'Host', hostReport),
+    streamTurns(guest, 'Guest', guestReport),
+    receiveTurns(host, 1, 'Host', hostReport),
+    receiveTurns(guest, 0, 'Guest', guestReport),
+    outage,
+  ]);
+
+  await host.endGame();
+  const { appended, dropped, reordered, polls } = network.stats;
+  console.log('');
+  console.log(`Network: ${appended} appends, ${dropped} dropped, ${reordered} held back, ${polls} polls`);
+  console.log(`Completed in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+/**
+ * Self-hostable WebSocket relay for online multiplayer.
+ * Holds lobby and match keys plus per-player command logs in memory, and pushes new command-log
+ * entries to subscribed clients instead of making them poll. Keys and command logs left idle for
+ * half an hour are dropped. Pair with VITE_RELAY_URL in the client.
+ *
+ * Usage:
+ *   npm run relay -- --port 8787
+ *   RELAY_PORT=8787 npm run relay
+ */
+
+import { WebSocketServer } from 'ws';
+import { parseArgs } from './parse-args.js';
+
+const args = parseArgs(process.argv.slice(2));
+const port = Number(args.port ?? process.env.RELAY_PORT ?? 8787);
+
+// Online matches end at their 5 minute time limit (matchTimeLimit in App.tsx) and send about 10 turns a second
+const MATCH_TIME_LIMIT_SECONDS = 300;
+const TURNS_PER_SECOND = 10;
+// Twice a full match of turns, leaving room for the countdown and resent turns, so a rejoining player can
+// replay it from the start; catching up from before the oldest kept entry is refused
+const MAX_COMMAND_LOG_ENTRIES = 2 * MATCH_TIME_LIMIT_SECONDS * TURNS_PER_SECOND;
+// Largest message accepted from a client
+const MAX_MESSAGE_BYTES = 256 * 1024;
+// Ping clients this often and drop the ones that didn't answer the previous ping
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Forget command logs nobody has touched for this long
+const STREAM_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Forget lobby and match keys nobody has read or written for this long (listing doesn't count; a
+// match's command streams keep its keys alive)
+const KEY_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// key -> { value, lastActivity }; values are kept as received JSON so the relay never interprets game data
+const data = new Map();
+// streamKey -> { lastSeq, entries: [{ seq, payload }], subscribers: Set<WebSocket>, lastActivity }
+const streams = new Map();
+
+function getStream(streamKey) {
+  let stream = streams.get(streamKey);
+  if (!stream) {
+    stream = { lastSeq: 0, entries: [], subscribers: new Set(), lastActivity: Date.now() };
+    streams.set(streamKey, stream);
+  }
+  stream.lastActivity = Date.now();
+  touchMatchKeys(streamKey);
+  return stream;
+}
+
+// Command streams are named game:<id>:commands:<player>; while one is in use its lobby and match state
+// keys are too, even though clients stop reading them once the match runs
+function touchMatchKeys(streamKey) {
+  const match = /^game:(.+):commands:[^:]+$/.exec(streamKey);
+  if (!match) return;
+  [`lobby:${match[1]}`, `game:${match[1]}:state`].forEach((key) => {
+    const record = data.get(key);
+    if (record) record.lastActivity = Date.now();
+  });
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Run one client request and return its result; throws on malformed requests
+function handleRequest(socket, request) {
+  switch (request.type) {
+    case 'get': {
+      const record = data.get(request.key);
+      if (!record) return null;
+      record.lastActivity = Date.now();
+      return record.value;
+    }
+    case 'set':
+      data.set(request.key, { value: request.value, lastActivity: Date.now() });
+      return null;
+    case 'delete':
+      data.delete(request.key);
+      return null;
+    case 'list':
+      return Array.from(data.entries())
+        .filter(([key]) => key.startsWith(request.prefix))
+        .map(([key, record]) => ({ key, value: record.value }));
+    case 'append': {
+      const stream = getStream(request.streamKey);
+      const entry = { seq: stream.lastSeq + 1, payload: request.payload };
+      stream.lastSeq = entry.seq;
+      stream.entries.push(entry);
+      if (stream.entries.length > MAX_COMMAND_LOG_ENTRIES) {
+        stream.entries.splice(0, stream.entries.length - MAX_COMMAND_LOG_ENTRIES);
+      }
+      stream.subscribers.forEach((subscriber) =>
+        send(subscriber, { type: 'command', streamKey: request.streamKey, ...entry }),
+      );
+      return entry.seq;
+    }
+    case 'subscribe': {
+      const stream = getStream(request.streamKey);
+      // Entries after sinceSeq that were trimmed can't be sent, and a gap would desync the lockstep match
+      const oldestSeq = stream.entries.length > 0 ? stream.entries[0].seq : stream.lastSeq + 1;
+      if (request.sinceSeq < oldestSeq - 1) {
+        throw new Error(`Command log ${request.streamKey} no longer has entries after ${request.sinceSeq}`);
+      }
+      stream.subscribers.add(socket);
+      socket.subscriptions.add(request.streamKey);
+      // Push the backlog before answering so the client's buffer is complete when its request resolves
+      stream.entries
+        .filter((entry) => entry.seq > request.sinceSeq)
+        .forEach((entry) => send(socket, { type: 'command', streamKey: request.streamKey, ...entry }));
+      return null;
+    }
+    default:
+      throw new Error(`Unknown request type: ${request.type}`);
+  }
+}
+
+const server = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket, req) => {
+  socket.isAlive = true;
+  socket.subscriptions = new Set();
+  console.log(`Client connected from ${req.socket.remoteAddress} (${server.clients.size} online)`);
+
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (raw) => {
+    let request;
+    try {
+      request = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    try {
+      const result = handleRequest(socket, request);
+      send(socket, { type: 'response', id: request.id, ok: true, result });
+    } catch (error) {
+      send(socket, { type: 'response', id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  socket.on('close', () => {
+    socket.subscriptions.forEach((streamKey) => streams.get(streamKey)?.subscribers.delete(socket));
+    console.log(`Client disconnected (${server.clients.size} online)`);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach((socket) => {
+    if (!socket.isAlive) {
+      socket.terminate();
+      return;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  });
+
+  const now = Date.now();
+  streams.forEach((stream, streamKey) => {
+    if (stream.subscribers.size > 0) {
+      touchMatchKeys(streamKey);
+    } else if (now - stream.lastActivity > STREAM_IDLE_TIMEOUT_MS) {
+      streams.delete(streamKey);
+    }
+  });
+  data.forEach((record, key) => {
+    if (now - record.lastActivity > KEY_IDLE_TIMEOUT_MS) {
+      data.delete(key);
+    }
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+server.on('listening', () => {
+  console.log(`Relay listening on ws://localhost:${port}`);
+});
+
+server.on('close', () => clearInterval(heartbeat));
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Run the *.test.ts files under src with Node's built-in test runner.
+ * Each file is bundled with esbuild (installed with Vite), like the other scripts in this folder.
+ *
+ * Usage:
+ *   npm test
+ *   npm test -- src/lib/navigation.test.ts
+ */
+
+import { build } from 'esbuild';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { dirname, join, relative, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, '..');
+
+// Every *.test.ts below a directory
+function findTestFiles(directory) {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) return findTestFiles(path);
+    return entry.name.endsWith('.test.ts') ? [path] : [];
+  });
+}
+
+const requested = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+const testFiles = requested.length > 0 ? requested.map((file) => resolve(file)) : findTestFiles(join(projectRoot, 'src'));
+if (testFiles.length === 0) {
+  console.log('No test files found');
+  process.exit(0);
+}
+
+const outDir = mkdtempSync(join(tmpdir(), 'sol-rts-tests-'));
+let status = 1;
+
+try {
+  const bundles = await Promise.all(
+    testFiles.map(async (file) => {
+      const outfile = join(outDir, relative(projectRoot, file).replace(/[\\/]/g, '_').replace(/\.ts$/, '.mjs'));
+      await build({
+        entryPoints: [file],
+        bundle: true,
+        platform: 'node',
+        format: 'esm',
+        outfile,
+        logLevel: 'error',
+      });
+      return outfile;
+    })
+  );
+
+  status = spawnSync(process.execPath, ['--test', ...bundles], { stdio: 'inherit' }).status ?? 1;
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
+
+process.exit(status);
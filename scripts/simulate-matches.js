@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+/**
+ * Run batches of headless AI-vs-AI matches from Node for balance work.
+ * Bundles src/lib/headless.ts with esbuild (installed with Vite) and prints a summary.
+ *
+ * Usage:
+ *   npm run simulate -- --matches 100 --map open --p1 radiant --p2 aurum --seed 42
+ *   npm run simulate -- --matches 20 --json > results.json
+ */
+
+import { build } from 'esbuild';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { dirname, join } from 'path';
+import { parseArgs } from './parse-args.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, '..');
+
+const args = parseArgs(process.argv.slice(2));
+const matchCount = Number(args.matches ?? 10);
+const options = {
+  mapId: args.map ?? 'open',
+  playerFaction: args.p1 ?? 'radiant',
+  enemyFaction: args.p2 ?? 'radiant',
+  playerBaseType: args.base1 ?? 'standard',
+  enemyBaseType: args.base2 ?? 'standard',
+  aiDifficulty: args.difficulty ?? 'medium',
+  seed: args.seed !== undefined ? Number(args.seed) : undefined,
+  timeStep: args.step !== undefined ? 1 / Number(args.step) : undefined,
+};
+
+const outDir = mkdtempSync(join(tmpdir(), 'sol-rts-headless-'));
+const outFile = join(outDir, 'headless.mjs');
+
+try {
+  await build({
+    entryPoints: [join(projectRoot, 'src/lib/headless.ts')],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    outfile: outFile,
+    logLevel: 'error',
+  });
+
+  const { runHeadlessBatch } = await import(pathToFileURL(outFile).href);
+  const startedAt = Date.now();
+  const results = runHeadlessBatch(matchCount, options, (result, index) => {
+    if (!args.json) {
+      const outcome = result.winner === null ? 'unfinished' : result.winner === -1 ? 'draw' : `P${result.winner + 1} wins`;
+      console.log(`#${index + 1} seed=${result.seed} ${outcome} in ${result.duration.toFixed(1)}s`);
+    }
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify({ options, results }, null, 2));
+  } else {
+    const wins = [0, 0];
+    let draws = 0;
+    let totalDuration = 0;
+    results.forEach((result) => {
+      if (result.winner === 0 || result.winner === 1) wins[result.winner]++;
+      else draws++;
+      totalDuration += result.duration;
+    });
+    const pct = (n) => `${((n / Math.max(1, results.length)) * 100).toFixed(1)}%`;
+    console.log('');
+    console.log(`${options.playerFaction}/${options.playerBaseType} vs ${options.enemyFaction}/${options.enemyBaseType} on ${options.mapId}`);
+    console.log(`P1 wins: ${wins[0]} (${pct(wins[0])})  P2 wins: ${wins[1]} (${pct(wins[1])})  Draws/unfinished: ${draws} (${pct(draws)})`);
+    console.log(`Average duration: ${(totalDuration / Math.max(1, results.length)).toFixed(1)}s`);
+    console.log(`Simulated ${results.length} matches in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  }
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
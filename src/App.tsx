@@ -1,24 +1,26 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useKV } from './hooks/useKV';
 import { useKeyboardControls } from './hooks/useKeyboardControls';
-import { GameState, COLORS, UnitType, BASE_SIZE_METERS, UNIT_DEFINITIONS, FactionType, FACTION_DEFINITIONS, BASE_TYPE_DEFINITIONS, BaseType, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, STRUCTURE_DEFINITIONS, StructureType, Structure } from './lib/types';
-import { generateId, generateTopographyLines, generateStarfield, generateNebulaClouds, shouldUsePortraitCoordinates, updateViewportScale, calculateDefaultRallyPoint, createMiningDepots, createInitialMiningDrones, getArenaHeight } from './lib/gameUtils';
-import { updateGame, spawnUnit } from './lib/simulation';
-import { updateAI } from './lib/ai';
+import { GameState, COLORS, UnitType, BASE_SIZE_METERS, UNIT_DEFINITIONS, FactionType, FACTION_DEFINITIONS, BASE_TYPE_DEFINITIONS, BaseType, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, STRUCTURE_DEFINITIONS, StructureType, Structure, UnitStance } from './lib/types';
+import { generateId, generateTopographyLines, generateStarfield, generateNebulaClouds, shouldUsePortraitCoordinates, updateViewportScale, calculateDefaultRallyPoint, createMiningDepots, createInitialMiningDrones, getArenaHeight, getLocalPlayerIndex, setPlayfieldFlipped } from './lib/gameUtils';
+import { createDeterministicState, createRandomSeed, hashStringToSeed } from './lib/determinism';
+import { createMatchState } from './lib/matchSetup';
+import { ReplayData, startReplayRecording, finishReplayRecording, storeReplay, isReplayPlayable, createReplayPlayback, advanceReplayPlayback, seekReplay } from './lib/replay';
+import { issueGameplayCommand, isValidStructurePlacement } from './lib/commands';
 import { renderGame } from './lib/renderer';
 import { handleTouchStart, handleTouchMove, handleTouchEnd, handleMouseDown, handleMouseMove, handleMouseUp, getActiveSelectionRect } from './lib/input';
 import { initializeCamera, updateCamera, zoomCamera, panCamera, resetCamera, worldToScreen } from './lib/camera';
-import { updateVisualEffects, createCelebrationParticles, initializeFogParticles, updateFogParticles } from './lib/visualEffects';
+import { createCelebrationParticles } from './lib/visualEffects';
+import { attachEffects, getEffects, updateEffects } from './lib/effects';
 import { FormationType, getFormationName } from './lib/formations';
-import { initializeFloaters, updateFloaters } from './lib/floaters';
-import { initializeFieldParticles, updateFieldParticles } from './lib/fieldParticles';
+import { STANCE_DEFINITIONS, getNextStance } from './lib/stances';
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
 import { Label } from './components/ui/label';
 import { Switch } from './components/ui/switch';
 import { Checkbox } from './components/ui/checkbox';
 import { Slider } from './components/ui/slider';
-import { GameController, Robot, ListChecks, GearSix, ArrowLeft, Flag, MapPin, WifiHigh, ChartBar, SpeakerHigh, SpeakerSlash, Info, Book, GraduationCap } from '@phosphor-icons/react';
+import { GameController, Robot, ListChecks, GearSix, ArrowLeft, Flag, MapPin, WifiHigh, ChartBar, SpeakerHigh, SpeakerSlash, Info, Book, GraduationCap, Eye, ArrowsLeftRight, SignOut, Play } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { UnitSelectionScreen } from './components/UnitSelectionScreen';
 import { MapSelectionScreen } from './components/MapSelectionScreen';
@@ -31,6 +33,8 @@ import { ModifierHelpScreen } from './components/ModifierHelpScreen';
 import { UnitInformationScreen } from './components/UnitInformationScreen';
 import { TutorialScreen } from './components/TutorialScreen';
 import { VictoryScreen } from './components/VictoryScreen';
+import { ReplayControls } from './components/ReplayControls';
+import { StanceBar } from './components/StanceBar';
 import { AnimatedBackground } from './components/AnimatedBackground';
 import { MenuTransition } from './components/ScreenTransition';
 import { getMapById, getValidBasePositions, createBoundaryObstacles } from './lib/maps';
@@ -38,12 +42,16 @@ import { MultiplayerManager, LobbyData } from './lib/multiplayer';
 import { createRealtimeStore } from './lib/realtimeStore';
 import { LANKVStore } from './lib/lanStore';
 import { PlayerStatistics, MatchStats, createEmptyStatistics, updateStatistics, calculateMMRChange } from './lib/statistics';
-import { soundManager } from './lib/sound';
-import { MultiplayerSync, initializeMultiplayerSync, updateMultiplayerSync, sendSpawnCommand } from './lib/multiplayerGame';
+import { soundManager, playGameplayEventSound } from './lib/sound';
+import { subscribeGameplayEvents } from './lib/gameplayEvents';
+import { SimulationThread, startSimulationThread, updateSimulationThread, stopSimulationThread, saveSimulationThread } from './lib/simulationThread';
+import { SavedMatch, isSavedMatchResumable, restoreMatch } from './lib/savedMatch';
+import { MultiplayerSync, initializeMultiplayerSync, initializeSpectatorSync, updateMultiplayerSync, advanceLockstep, loadMatchHistory, getForfeitCountdownSeconds } from './lib/multiplayerGame';
 
 // Matchmaking configuration
 const MATCHMAKING_AUTO_START_DELAY_MS = 2000; // Delay before auto-starting matchmaking game
 const LAN_CONNECTION_WAIT_MS = 1000; // Wait for LAN connection to establish
+const AUTOSAVE_INTERVAL_MS = 10000; // How often an AI match in progress is saved for resuming
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -53,6 +61,12 @@ function App() {
   const lastTimeRef = useRef<number>(Date.now());
   const multiplayerManagerRef = useRef<MultiplayerManager | null>(null);
   const multiplayerSyncRef = useRef<MultiplayerSync | null>(null);
+  // Worker running the current offline match, if it has started simulating
+  const simulationThreadRef = useRef<SimulationThread | null>(null);
+  // Fixed-step stepping of the menu background battle
+  const backgroundThreadRef = useRef<SimulationThread | null>(null);
+  // Last rejoin/forfeit overlay state shown, so the loop only re-renders when it changes
+  const networkOverlayRef = useRef<string>('');
   const lanStoreRef = useRef<LANKVStore | null>(null);
   const lobbyCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [multiplayerLobbies, setMultiplayerLobbies] = useState<LobbyData[]>([]);
@@ -65,9 +79,12 @@ function App() {
   const [unitSlots, setUnitSlots] = useKV<Record<string, UnitType>>('unit-slots', { left: 'marine', up: 'warrior', down: 'snaker', right: 'tank' });
   const [selectedMap, setSelectedMap] = useKV('selected-map', 'open');
   const [playerStatistics, setPlayerStatistics] = useKV<PlayerStatistics>('player-statistics', createEmptyStatistics());
+  const [matchReplays, setMatchReplays] = useKV<Record<string, ReplayData>>('match-replays', {});
+  const [savedMatch, setSavedMatch, deleteSavedMatch] = useKV<SavedMatch>('saved-match');
   const [soundEnabled, setSoundEnabled] = useKV<boolean>('sound-enabled', true);
   const [sfxVolume, setSfxVolume] = useKV<number>('sfx-volume', 0.7);
   const [musicVolume, setMusicVolume] = useKV<number>('music-volume', 0.5);
+  const [spectatorDelaySeconds, setSpectatorDelaySeconds] = useKV<number>('spectator-delay-seconds', 0);
   const [showNumericHP, setShowNumericHP] = useKV<boolean>('show-numeric-hp', true);
   const [showHealthBarsOnlyWhenDamaged, setShowHealthBarsOnlyWhenDamaged] = useKV<boolean>('show-health-bars-only-when-damaged', false);
   const [showMinimap, setShowMinimap] = useKV<boolean>('show-minimap', true);
@@ -90,6 +107,7 @@ function App() {
 
   const gameState = gameStateRef.current;
   const lastVictoryStateRef = useRef<boolean>(false);
+  const lastAutosaveRef = useRef<number>(0);
   // Use Vite's base URL to build sprite paths that work in subdirectory deployments.
   const assetBaseUrl = import.meta.env.BASE_URL;
 
@@ -107,6 +125,19 @@ function App() {
       setUserId(uid);
       // Initialize multiplayer with the best available realtime backend (Spark or Supabase).
       multiplayerManagerRef.current = new MultiplayerManager(uid, createRealtimeStore());
+
+      // Offer to rejoin an online match this browser dropped out of (reload, crash, closed tab)
+      try {
+        const activeLobby = await multiplayerManagerRef.current.resumeGame();
+        if (activeLobby) {
+          toast('You left an online match in progress', {
+            duration: 20000,
+            action: { label: 'Rejoin', onClick: () => startOnlineGame(activeLobby, true) },
+          });
+        }
+      } catch (error) {
+        console.warn('Failed to check for a match to rejoin:', error);
+      }
     };
     initUser();
     // Preload available UI and system sound effects from the bundled assets folder.
@@ -121,6 +152,9 @@ function App() {
     soundManager.setMusicVolume(musicVolume ?? 0.5);
   }, []);
 
+  // Gameplay sounds follow the simulation's event stream
+  useEffect(() => subscribeGameplayEvents(playGameplayEventSound), []);
+
   useEffect(() => {
     soundManager.setEnabled(soundEnabled ?? true);
   }, [soundEnabled]);
@@ -135,7 +169,7 @@ function App() {
 
   useEffect(() => {
     if (currentLobby && currentLobby.status === 'playing' && gameState.mode === 'multiplayerLobby') {
-      startOnlineGame();
+      startOnlineGame(currentLobby);
     }
   }, [currentLobby]);
 
@@ -232,6 +266,12 @@ function App() {
         gameStateRef.current.lastFpsUpdate = now;
       }
 
+      // Stop the simulation worker once its match is gone (back to the menu or a new match)
+      if (simulationThreadRef.current && simulationThreadRef.current.state !== gameStateRef.current) {
+        stopSimulationThread(simulationThreadRef.current);
+        simulationThreadRef.current = null;
+      }
+
       // Update background battle when in menu mode
       if (gameStateRef.current.mode === 'menu') {
         // Initialize background battle if it doesn't exist
@@ -243,15 +283,14 @@ function App() {
         // Set volume to 20% for background sounds
         soundManager.setVolumeScale(0.2);
 
-        // Update the background battle
+        // Update the background battle on the main thread; both players are AI
         const bg = gameStateRef.current.backgroundBattle;
-        updateGame(bg, deltaTime);
-        updateFloaters(bg, deltaTime);
-        updateFieldParticles(bg, deltaTime);
-        updateFogParticles(bg, deltaTime, ARENA_WIDTH_METERS, getArenaHeight());
-        updateAI(bg, deltaTime, true); // Both players are AI
+        if (backgroundThreadRef.current?.state !== bg) {
+          backgroundThreadRef.current = startSimulationThread(bg, { useWorker: false, bothPlayersAI: true });
+        }
+        updateSimulationThread(backgroundThreadRef.current, deltaTime * 1000);
+        updateEffects(bg, deltaTime, getArenaHeight());
         updateCamera(bg, deltaTime);
-        updateVisualEffects(bg, deltaTime);
 
         // Restart battle if one side wins
         if (bg.winner !== null) {
@@ -278,11 +317,8 @@ function App() {
           soundManager.playCountdown();
         }
         
-        // Update floaters during countdown
-        updateFloaters(gameStateRef.current, deltaTime);
-        updateFieldParticles(gameStateRef.current, deltaTime);
-        updateFogParticles(gameStateRef.current, deltaTime, ARENA_WIDTH_METERS, getArenaHeight());
-        updateVisualEffects(gameStateRef.current, deltaTime);
+        // Update floaters and effects during countdown
+        updateEffects(gameStateRef.current, deltaTime, getArenaHeight());
         
         if (elapsed >= 3000) {
           gameStateRef.current.mode = 'game';
@@ -313,38 +349,62 @@ function App() {
         }
 
         if (!gameStateRef.current.matchStartAnimation || (gameStateRef.current.matchStartAnimation.phase === 'go')) {
-          updateGame(gameStateRef.current, deltaTime);
-          
-          // Update floaters physics
-          updateFloaters(gameStateRef.current, deltaTime);
-          
-          // Update field particles physics
-          updateFieldParticles(gameStateRef.current, deltaTime);
-          
-          // Update fog particles physics
-          updateFogParticles(gameStateRef.current, deltaTime, ARENA_WIDTH_METERS, getArenaHeight());
-          
-          // Update multiplayer synchronization for online games
-          if (gameStateRef.current.vsMode === 'online' && multiplayerManagerRef.current && multiplayerSyncRef.current) {
-            const localPlayerIndex = multiplayerManagerRef.current.getIsHost() ? 0 : 1;
-            updateMultiplayerSync(
-              gameStateRef.current,
-              multiplayerManagerRef.current,
-              multiplayerSyncRef.current,
-              localPlayerIndex
-            ).catch(err => console.warn('Multiplayer sync error:', err));
+          const multiplayerManager = multiplayerManagerRef.current;
+          const multiplayerSync = multiplayerSyncRef.current;
+          if (gameStateRef.current.vsMode === 'online') {
+            // Online matches advance in fixed lockstep ticks once both players' input for a turn is known.
+            // The sync is missing only while a rejoining player's command history is still loading.
+            if (multiplayerManager && multiplayerSync) {
+              const hadDesync = Boolean(gameStateRef.current.networkStatus?.desync);
+              updateMultiplayerSync(gameStateRef.current, multiplayerManager, multiplayerSync)
+                .catch(err => console.warn('Multiplayer sync error:', err));
+              advanceLockstep(gameStateRef.current, multiplayerManager, multiplayerSync, deltaTime * 1000);
+              if (!hadDesync && gameStateRef.current.networkStatus?.desync) {
+                toast.error('Match out of sync with opponent');
+                setRenderTrigger(prev => prev + 1);
+              }
+            }
+
+            // Re-render when the rejoin or waiting-for-player overlay changes
+            const overlayKey = `${gameStateRef.current.networkStatus?.resuming ?? false}:${getForfeitCountdownSeconds(gameStateRef.current) ?? ''}`;
+            if (overlayKey !== networkOverlayRef.current) {
+              networkOverlayRef.current = overlayKey;
+              setRenderTrigger(prev => prev + 1);
+            }
+          } else {
+            // Offline matches simulate on the fixed timestep, in a worker when the browser allows it
+            simulationThreadRef.current ??= startSimulationThread(gameStateRef.current);
+            updateSimulationThread(simulationThreadRef.current, deltaTime * 1000);
+
+            // Keep a recent save of AI matches so closing the tab doesn't lose them
+            const state = gameStateRef.current;
+            if (state.vsMode === 'ai' && state.mode === 'game' && now - lastAutosaveRef.current >= AUTOSAVE_INTERVAL_MS) {
+              saveSimulationThread(simulationThreadRef.current, state.replayRecorder?.settings.arenaHeight ?? getArenaHeight(), (saved) => {
+                // The worker answers later; by then the match may be over or left
+                if (gameStateRef.current !== state || state.mode !== 'game') return;
+                lastAutosaveRef.current = Date.now();
+                setSavedMatch(saved);
+              });
+            }
           }
           
-          updateAI(gameStateRef.current, deltaTime);
+          // Turn this frame's effect events into effects and animate floaters, particles and trails
+          updateEffects(gameStateRef.current, deltaTime, getArenaHeight());
           
-          // Update camera and visual effects
-          if (enableCameraControls) {
+          // Update camera (spectators always have camera controls)
+          if (enableCameraControls || gameStateRef.current.spectating) {
             updateCamera(gameStateRef.current, deltaTime);
           }
-          updateVisualEffects(gameStateRef.current, deltaTime);
           
-          // Check if mode changed to victory (base destroyed or time limit reached)
+          // Check if mode changed to victory (base destroyed, time limit reached or online forfeit)
           if (gameStateRef.current.mode === 'victory') {
+            if (gameStateRef.current.networkStatus?.opponentForfeited) {
+              toast.success('Your opponent forfeited the match');
+            }
+            // A finished match can't be resumed
+            if (gameStateRef.current.vsMode === 'ai') {
+              deleteSavedMatch();
+            }
             setRenderTrigger(prev => prev + 1);
           }
         }
@@ -360,14 +420,24 @@ function App() {
         }
       }
       
+      // Advance replay playback and its presentation layers
+      if (gameStateRef.current.mode === 'replay' && gameStateRef.current.replayPlayback) {
+        const playback = gameStateRef.current.replayPlayback;
+        advanceReplayPlayback(playback, deltaTime * 1000);
+        updateEffects(playback.state, deltaTime, playback.replay.settings.arenaHeight);
+        if (enableCameraControls) {
+          updateCamera(playback.state, deltaTime);
+        }
+      }
+
       // Update visual effects even in victory mode
       if (gameStateRef.current.mode === 'victory') {
         // Trigger celebration particles on first victory frame
         if (!lastVictoryStateRef.current && canvas) {
-          createCelebrationParticles(gameStateRef.current, canvas.width, canvas.height);
+          createCelebrationParticles(getEffects(gameStateRef.current), canvas.width, canvas.height);
           lastVictoryStateRef.current = true;
         }
-        updateVisualEffects(gameStateRef.current, deltaTime);
+        updateEffects(gameStateRef.current, deltaTime, getArenaHeight());
       } else {
         lastVictoryStateRef.current = false;
       }
@@ -377,8 +447,15 @@ function App() {
 
       // Render background battle if in menu or related mode
       if (gameStateRef.current.mode === 'menu' && gameStateRef.current.backgroundBattle) {
+        setPlayfieldFlipped(false);
         renderGame(ctx, gameStateRef.current.backgroundBattle, canvas, null);
+      } else if (gameStateRef.current.mode === 'replay' && gameStateRef.current.replayPlayback) {
+        const playbackState = gameStateRef.current.replayPlayback.state;
+        setPlayfieldFlipped(getLocalPlayerIndex(playbackState) === 1);
+        renderGame(ctx, playbackState, canvas, null);
       } else {
+        // Players in slot 1 (online guests) see the field upside down so their base stays at the bottom
+        setPlayfieldFlipped(getLocalPlayerIndex(gameStateRef.current) === 1);
         const selectionRect = getActiveSelectionRect();
         renderGame(ctx, gameStateRef.current, canvas, selectionRect);
       }
@@ -417,10 +494,13 @@ function App() {
     
     // Add mouse wheel zoom handler
     const handleWheel = (e: WheelEvent) => {
-      if (gameStateRef.current.mode === 'game' && enableCameraControls) {
+      if (gameStateRef.current.mode === 'game' && (enableCameraControls || gameStateRef.current.spectating)) {
         e.preventDefault();
         const zoomDelta = e.deltaY > 0 ? -1 : 1;
         zoomCamera(gameStateRef.current, zoomDelta);
+      } else if (gameStateRef.current.mode === 'replay' && gameStateRef.current.replayPlayback && enableCameraControls) {
+        e.preventDefault();
+        zoomCamera(gameStateRef.current.replayPlayback.state, e.deltaY > 0 ? -1 : 1);
       }
     };
     
@@ -438,7 +518,7 @@ function App() {
 
   // Camera pan controls with WASD and Arrow keys
   useEffect(() => {
-    if (!enableCameraControls || gameState.mode !== 'game') return;
+    if ((!enableCameraControls && !gameState.spectating) || gameState.mode !== 'game') return;
 
     const pressedKeys = new Set<string>();
 
@@ -484,7 +564,7 @@ function App() {
 
     // Update camera position based on pressed keys
     const updateCameraPan = () => {
-      if (pressedKeys.size === 0 || !enableCameraControls) return;
+      if (pressedKeys.size === 0) return;
 
       const direction = { x: 0, y: 0 };
       
@@ -512,7 +592,7 @@ function App() {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [enableCameraControls, gameState.mode]);
+  }, [enableCameraControls, gameState.mode, gameState.spectating]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -549,27 +629,92 @@ function App() {
     if (!canvasRef.current) return;
     const finalMapId = mapId || gameStateRef.current.settings.selectedMap;
     gameStateRef.current = createCountdownState(mode, { ...gameStateRef.current.settings, selectedMap: finalMapId }, canvasRef.current);
+    startReplayRecording(gameStateRef.current, getArenaHeight());
     setRenderTrigger(prev => prev + 1);
   };
 
-  const startOnlineGame = () => {
-    if (!currentLobby || !canvasRef.current) return;
-    const isHost = multiplayerManagerRef.current?.getIsHost() || false;
-    gameStateRef.current = createOnlineCountdownState(currentLobby, isHost, canvasRef.current);
+  const resumeMatch = () => {
+    soundManager.playButtonClick();
+    if (!canvasRef.current) return;
+    if (!isSavedMatchResumable(savedMatch)) {
+      toast.error('This match can no longer be resumed');
+      deleteSavedMatch();
+      return;
+    }
+    gameStateRef.current = createResumedState(savedMatch, canvasRef.current);
+    // The restored match is already saved; wait a full interval before saving it again
+    lastAutosaveRef.current = Date.now();
+    setRenderTrigger(prev => prev + 1);
+  };
+
+  /**
+   * Start an online match from its lobby
+   * @param lobby - Lobby of the match
+   * @param resume - Join a match in progress (rejoining player or late spectator): skip the countdown and fast-forward through the command logs
+   */
+  const startOnlineGame = (lobby: LobbyData, resume: boolean = false) => {
+    const manager = multiplayerManagerRef.current;
+    if (!canvasRef.current || !manager) return;
+    const isSpectator = manager.getIsSpectator();
+    // Spectators start out watching from the host's side
+    const isHost = manager.getIsHost() || isSpectator;
+    gameStateRef.current = createOnlineCountdownState(lobby, isHost, gameStateRef.current.settings, canvasRef.current);
+    const state = gameStateRef.current;
+    state.spectating = isSpectator;
     
     // Set multiplayer manager in game state for input handlers to use
-    gameStateRef.current.multiplayerManager = multiplayerManagerRef.current;
+    state.multiplayerManager = manager;
     
     // Initialize network status
-    gameStateRef.current.networkStatus = {
+    state.networkStatus = {
       connected: true,
       lastSync: Date.now(),
     };
     
-    // Initialize multiplayer synchronization
-    multiplayerSyncRef.current = initializeMultiplayerSync();
-    
+    // Local input is queued for lockstep turns instead of being applied immediately
+    state.lockstepOutbox = [];
+    const sync = isSpectator
+      ? initializeSpectatorSync(spectatorDelaySeconds ?? 0)
+      : initializeMultiplayerSync(getLocalPlayerIndex(state));
+    startReplayRecording(state, lobby.arenaHeight ?? getArenaHeight());
+
+    if (!resume) {
+      multiplayerSyncRef.current = sync;
+      setRenderTrigger(prev => prev + 1);
+      return;
+    }
+
+    // Rejoining: drop straight into the match and hold the simulation until both command logs are loaded
+    multiplayerSyncRef.current = null;
+    state.mode = 'game';
+    state.networkStatus.resuming = true;
+    delete state.countdownStartTime;
+    delete state.countdownSeconds;
+    initializeCamera(state);
+    setCurrentLobby(lobby);
     setRenderTrigger(prev => prev + 1);
+
+    loadMatchHistory(manager, sync)
+      .then((complete) => {
+        if (gameStateRef.current !== state) return;
+        if (!complete) {
+          if (isSpectator) {
+            toast.error('This match has been running too long to watch from the start');
+          } else {
+            toast.error('This match can no longer be resumed');
+            manager.endGame(1 - getLocalPlayerIndex(state)).catch(err => console.warn('Failed to end match:', err));
+          }
+          returnToMenu();
+          return;
+        }
+        multiplayerSyncRef.current = sync;
+      })
+      .catch((error) => {
+        console.warn('Failed to load match history:', error);
+        if (gameStateRef.current !== state) return;
+        toast.error(isSpectator ? 'Could not load the match' : 'Could not rejoin the match');
+        returnToMenu();
+      });
   };
 
   const returnToMenu = (recordMatch: boolean = false, result?: 'victory' | 'defeat' | 'surrender' | 'draw') => {
@@ -581,6 +726,13 @@ function App() {
     
     if (recordMatch && result && gameStateRef.current.matchStats && gameStateRef.current.vsMode) {
       const duration = (Date.now() - gameStateRef.current.matchStats.startTime) / 1000;
+      const matchId = generateId();
+      
+      // Save the replay alongside the match history entry
+      const replay = finishReplayRecording(gameStateRef.current, matchId);
+      if (replay) {
+        setMatchReplays((current) => storeReplay(current, replay));
+      }
       
       setPlayerStatistics((currentStats) => {
         const stats = currentStats || createEmptyStatistics();
@@ -599,8 +751,9 @@ function App() {
           playerMMRAfter = stats.mmr + mmrChange;
         }
         
+        const localPlayerIndex = getLocalPlayerIndex(gameStateRef.current);
         const newMatch: MatchStats = {
-          matchId: generateId(),
+          matchId,
           timestamp: Date.now(),
           result,
           vsMode: gameStateRef.current.vsMode!,
@@ -613,8 +766,8 @@ function App() {
           damageDealtByPlayer: gameStateRef.current.matchStats!.damageDealtByPlayer,
           photonsSpentByPlayer: gameStateRef.current.matchStats!.photonsSpentByPlayer,
           basesDestroyedByPlayer: result === 'victory' ? 1 : 0,
-          finalPlayerColor: gameStateRef.current.settings.playerColor,
-          finalEnemyColor: gameStateRef.current.settings.enemyColor,
+          finalPlayerColor: gameStateRef.current.players[localPlayerIndex]?.color ?? gameStateRef.current.settings.playerColor,
+          finalEnemyColor: gameStateRef.current.players[1 - localPlayerIndex]?.color ?? gameStateRef.current.settings.enemyColor,
           mmrChange: gameStateRef.current.vsMode === 'online' && result !== 'surrender' ? mmrChange : undefined,
           playerMMRBefore: gameStateRef.current.vsMode === 'online' && result !== 'surrender' ? playerMMRBefore : undefined,
           playerMMRAfter: gameStateRef.current.vsMode === 'online' && result !== 'surrender' ? playerMMRAfter : undefined,
@@ -642,7 +795,14 @@ function App() {
     }
     
     if (multiplayerManagerRef.current?.getGameId()) {
-      multiplayerManagerRef.current.endGame();
+      // Record the winner on the lobby so an opponent who is stalled or rejoining sees the result
+      const localPlayerIndex = getLocalPlayerIndex(gameStateRef.current);
+      const winner = result === 'surrender' ? 1 - localPlayerIndex : gameStateRef.current.winner ?? undefined;
+      multiplayerManagerRef.current.endGame(winner);
+    }
+    // Leaving an AI match (surrender or after the result) ends it for good
+    if (gameStateRef.current.vsMode === 'ai') {
+      deleteSavedMatch();
     }
     gameStateRef.current = createInitialState();
     setCurrentLobby(null);
@@ -808,6 +968,7 @@ function App() {
 
   const backToMenu = () => {
     soundManager.playButtonClick();
+    delete gameStateRef.current.replayPlayback;
     gameStateRef.current.menuTransitionDirection = 'back';
     gameStateRef.current.mode = 'menu';
     setRenderTrigger(prev => prev + 1);
@@ -820,6 +981,57 @@ function App() {
     setRenderTrigger(prev => prev + 1);
   };
 
+  const watchReplay = (matchId: string) => {
+    const replay = matchReplays?.[matchId];
+    if (!isReplayPlayable(replay) || !canvasRef.current) {
+      soundManager.playError();
+      toast.error('This replay is no longer available');
+      return;
+    }
+    soundManager.playButtonClick();
+    const canvas = canvasRef.current;
+    const playback = createReplayPlayback(replay, gameStateRef.current.settings);
+    const arenaHeight = replay.settings.arenaHeight;
+    playback.state.topographyLines = generateTopographyLines(canvas.width, canvas.height);
+    playback.state.stars = generateStarfield(canvas.width, canvas.height);
+    playback.state.nebulaClouds = generateNebulaClouds(canvas.width, canvas.height);
+    attachEffects(playback.state, arenaHeight);
+    initializeCamera(playback.state);
+    gameStateRef.current.replayPlayback = playback;
+    gameStateRef.current.mode = 'replay';
+    setRenderTrigger(prev => prev + 1);
+  };
+
+  const exitReplay = () => {
+    soundManager.playButtonClick();
+    delete gameStateRef.current.replayPlayback;
+    gameStateRef.current.menuTransitionDirection = 'back';
+    gameStateRef.current.mode = 'statistics';
+    setRenderTrigger(prev => prev + 1);
+  };
+
+  const toggleReplayPause = () => {
+    const playback = gameStateRef.current.replayPlayback;
+    if (!playback) return;
+    playback.paused = !playback.paused;
+    setRenderTrigger(prev => prev + 1);
+  };
+
+  const seekReplayTo = (timeMs: number) => {
+    const playback = gameStateRef.current.replayPlayback;
+    if (!playback) return;
+    seekReplay(playback, timeMs);
+    setRenderTrigger(prev => prev + 1);
+  };
+
+  const setReplaySpeed = (speed: number) => {
+    const playback = gameStateRef.current.replayPlayback;
+    if (!playback) return;
+    playback.speed = speed;
+    soundManager.playSettingChange();
+    setRenderTrigger(prev => prev + 1);
+  };
+
   const goToModifierHelp = () => {
     soundManager.playButtonClick();
     gameStateRef.current.menuTransitionDirection = 'forward';
@@ -969,6 +1181,46 @@ function App() {
     }
   };
 
+  const handleLANSpectate = async (hostPeerId: string): Promise<boolean> => {
+    try {
+      // Disconnect any existing LAN store
+      if (lanStoreRef.current) {
+        lanStoreRef.current.disconnect();
+      }
+
+      const lanStore = new LANKVStore();
+      lanStoreRef.current = lanStore;
+      await lanStore.initAsGuest(hostPeerId);
+      multiplayerManagerRef.current = new MultiplayerManager(userId, lanStore);
+
+      // Wait for connection to establish
+      await new Promise(resolve => setTimeout(resolve, LAN_CONNECTION_WAIT_MS));
+
+      // A LAN host runs a single lobby; it may already be full or playing, so look it up directly
+      // Spectator keys share the prefix; the lobby record is the one keyed by its own game id
+      const lobbyEntries = await lanStore.listEntries<LobbyData>('lobby:');
+      const lobby = lobbyEntries.find((entry) => entry.value && entry.key === `lobby:${entry.value.gameId}`)?.value;
+      if (!lobby) {
+        return false;
+      }
+
+      await handleSpectateGame(lobby.gameId, `Spectator_${userId.slice(-4)}`);
+      if (!multiplayerManagerRef.current.getIsSpectator()) {
+        return false;
+      }
+
+      // A match in progress has already switched to the game; otherwise wait in the lobby
+      if (gameStateRef.current.mode === 'lanMode') {
+        gameStateRef.current.mode = 'multiplayerLobby';
+        setRenderTrigger(prev => prev + 1);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to spectate LAN game:', error);
+      return false;
+    }
+  };
+
   const handleMapSelect = (mapId: string) => {
     setSelectedMap(mapId);
     toast.success(`Map changed to ${getMapById(mapId)?.name || mapId}`);
@@ -1024,17 +1276,13 @@ function App() {
     if (state.mode !== 'game') return;
     
     const unitType = state.settings.unitSlots[slot];
-    const playerBase = state.bases.find(b => b.owner === 0);
+    const localPlayerIndex = getLocalPlayerIndex(state);
+    const playerBase = state.bases.find(b => b.owner === localPlayerIndex);
     if (!playerBase) return;
     
-    // Use spawnUnit from simulation module
-    const success = spawnUnit(state, 0, unitType, playerBase.position, playerBase.rallyPoint);
+    const success = issueGameplayCommand(state, { type: 'spawn', owner: localPlayerIndex, baseId: playerBase.id, unitType });
     if (!success) {
       soundManager.playError();
-    } else if (state.vsMode === 'online' && state.multiplayerManager) {
-      sendSpawnCommand(state.multiplayerManager, 0, unitType, playerBase.id, playerBase.rallyPoint).catch(err => 
-        console.warn('Failed to send spawn command:', err)
-      );
     }
   };
 
@@ -1044,23 +1292,53 @@ function App() {
     if (state.mode !== 'game') return;
     
     const unitType = state.settings.unitSlots[slot];
-    const playerBase = state.bases.find(b => b.owner === 0);
+    const localPlayerIndex = getLocalPlayerIndex(state);
+    const playerBase = state.bases.find(b => b.owner === localPlayerIndex);
     if (!playerBase) return;
     
-    // Use spawnUnit from simulation module
-    const success = spawnUnit(state, 0, unitType, playerBase.position, playerBase.rallyPoint);
+    const success = issueGameplayCommand(state, { type: 'spawn', owner: localPlayerIndex, baseId: playerBase.id, unitType });
     if (!success) {
       soundManager.playError();
-    } else if (state.vsMode === 'online' && state.multiplayerManager) {
-      sendSpawnCommand(state.multiplayerManager, 0, unitType, playerBase.id, playerBase.rallyPoint).catch(err => 
-        console.warn('Failed to send spawn command:', err)
-      );
     }
     
     // Hide radial menu after spawning
     state.radialMenu = undefined;
   };
 
+  // Set the stance of the local player's selected combat units; without a stance, cycle to the next one
+  const handleStanceChange = (stance?: UnitStance) => {
+    const state = gameStateRef.current;
+    if (state.mode !== 'game' || state.spectating) return;
+
+    const localPlayerIndex = getLocalPlayerIndex(state);
+    const units = state.units.filter(u => state.selectedUnits.has(u.id) && u.owner === localPlayerIndex && u.type !== 'miningDrone');
+    if (units.length === 0) return;
+
+    const nextStance = stance ?? getNextStance(units[0].stance);
+    if (issueGameplayCommand(state, { type: 'unitStance', owner: localPlayerIndex, unitIds: units.map(u => u.id), stance: nextStance })) {
+      toast.info(`Stance: ${STANCE_DEFINITIONS[nextStance].name}`, { duration: 2000 });
+      soundManager.playButtonClick();
+    }
+  };
+
+  // Arm (or disarm) follow/guard: the next tap on a friendly unit or base has the selected units escort it
+  const handleEscortMode = (mode: 'follow' | 'guard') => {
+    const state = gameStateRef.current;
+    if (state.mode !== 'game' || state.spectating) return;
+
+    if (state.escortMode === mode) {
+      state.escortMode = undefined;
+      return;
+    }
+
+    const localPlayerIndex = getLocalPlayerIndex(state);
+    if (!state.units.some(u => state.selectedUnits.has(u.id) && u.owner === localPlayerIndex)) return;
+
+    state.escortMode = mode;
+    toast.info(mode === 'guard' ? 'Guard: tap a friendly unit or base' : 'Follow: tap a friendly unit or base', { duration: 2000 });
+    soundManager.playButtonClick();
+  };
+
   // Helper function to check if any selected units are workers (mining drones)
   const hasWorkersSelected = (state: GameState): boolean => {
     const selectedUnitIds = Array.from(state.selectedUnits);
@@ -1075,40 +1353,6 @@ function App() {
     return `faction-${faction}` as StructureType;
   };
 
-  // Helper function to calculate distance between two positions
-  const calculateDistance = (pos1: { x: number; y: number }, pos2: { x: number; y: number }): number => {
-    const dx = pos1.x - pos2.x;
-    const dy = pos1.y - pos2.y;
-    return Math.sqrt(dx * dx + dy * dy);
-  };
-
-  // Minimum buffer space between structures to prevent overlap
-  const STRUCTURE_OVERLAP_BUFFER = 1;
-
-  // Helper function to validate tower placement position
-  const isValidTowerPosition = (
-    state: GameState,
-    position: { x: number; y: number },
-    towerSize: number
-  ): boolean => {
-    // Check structures - ensure minimum spacing between towers
-    const overlapsStructure = state.structures.some(s => 
-      calculateDistance(s.position, position) < (towerSize + STRUCTURE_OVERLAP_BUFFER)
-    );
-    
-    // Check bases
-    const overlapsBase = state.bases.some(b => 
-      calculateDistance(b.position, position) < (BASE_SIZE_METERS + towerSize) / 2
-    );
-    
-    // Check obstacles
-    const overlapsObstacle = state.obstacles.some(obs => 
-      calculateDistance(position, { x: obs.x, y: obs.y }) < (obs.radius + towerSize / 2)
-    );
-    
-    return !overlapsStructure && !overlapsBase && !overlapsObstacle;
-  };
-
   // Handle placing towers from button controls
   const handleButtonTowerPlace = (structureType: StructureType) => {
     const state = gameStateRef.current;
@@ -1116,7 +1360,7 @@ function App() {
 
     const selectedWorkers = Array.from(state.selectedUnits)
       .map(id => state.units.find(u => u.id === id))
-      .filter(u => u && u.type === 'miningDrone' && u.owner === 0);
+      .filter(u => u && u.type === 'miningDrone' && u.owner === getLocalPlayerIndex(state));
     
     if (selectedWorkers.length === 0) return;
 
@@ -1125,7 +1369,7 @@ function App() {
     if (!worker) return;
 
     const structureDef = STRUCTURE_DEFINITIONS[structureType];
-    const player = state.players[0];
+    const player = state.players[getLocalPlayerIndex(state)];
 
     // Check if player has enough Latticite
     if (!player.secondaryResource || player.secondaryResource < structureDef.cost) {
@@ -1135,28 +1379,13 @@ function App() {
     }
 
     // Check if position is valid
-    if (!isValidTowerPosition(state, worker.position, structureDef.size)) {
+    if (!isValidStructurePlacement(state, worker.position, structureType)) {
       soundManager.playError();
       toast.error('Cannot place tower here - position blocked');
       return;
     }
 
-    // Deduct Latticite cost
-    player.secondaryResource -= structureDef.cost;
-
-    // Create the structure
-    const newStructure: Structure = {
-      id: generateId(),
-      type: structureType,
-      owner: 0,
-      position: { x: worker.position.x, y: worker.position.y },
-      hp: structureDef.hp,
-      maxHp: structureDef.hp,
-      armor: structureDef.armor,
-      attackCooldown: 0,
-    };
-
-    state.structures.push(newStructure);
+    issueGameplayCommand(state, { type: 'buildStructure', owner: getLocalPlayerIndex(state), structureType, position: worker.position });
     soundManager.playBuildingPlace();
     toast.success(`${structureDef.name} built!`);
   };
@@ -1255,6 +1484,63 @@ function App() {
     }
   };
 
+  /**
+   * Watch a lobby or match in progress without taking a slot
+   * @param gameId - Game ID shared by the host
+   * @param spectatorName - Name shown to the players in the lobby
+   */
+  const handleSpectateGame = async (gameId: string, spectatorName: string) => {
+    if (!multiplayerManagerRef.current) return;
+    try {
+      // Clear any existing interval
+      if (lobbyCheckIntervalRef.current) {
+        clearInterval(lobbyCheckIntervalRef.current);
+        lobbyCheckIntervalRef.current = null;
+      }
+
+      const lobby = await multiplayerManagerRef.current.spectateGame(gameId, spectatorName);
+      if (!lobby) {
+        toast.error('No match found with that Game ID');
+        return;
+      }
+
+      if (lobby.status === 'playing') {
+        // Already underway: catch up from the command logs
+        startOnlineGame(lobby, true);
+        return;
+      }
+
+      setCurrentLobby(lobby);
+      toast.success('Spectating! Waiting for host to start...');
+
+      lobbyCheckIntervalRef.current = setInterval(async () => {
+        const updatedLobby = await multiplayerManagerRef.current?.getLobby(gameId);
+        if (updatedLobby) {
+          setCurrentLobby(updatedLobby);
+          if (updatedLobby.status === 'playing') {
+            if (lobbyCheckIntervalRef.current) {
+              clearInterval(lobbyCheckIntervalRef.current);
+              lobbyCheckIntervalRef.current = null;
+            }
+          }
+        }
+      }, 1000);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to spectate game';
+      toast.error(message);
+    }
+  };
+
+  // Spectators can watch from either player's side of the field
+  const switchSpectatorView = () => {
+    const state = gameStateRef.current;
+    if (!state.spectating) return;
+    soundManager.playButtonClick();
+    state.localPlayerIndex = 1 - getLocalPlayerIndex(state);
+    state.selectedUnits.clear();
+    setRenderTrigger(prev => prev + 1);
+  };
+
   const handleStartMultiplayerGame = async () => {
     if (!multiplayerManagerRef.current) return;
     try {
@@ -1280,8 +1566,11 @@ function App() {
   // Keyboard controls for desktop
   useKeyboardControls({
     onEscape: () => {
-      if (gameState.mode === 'game') {
-        // Deselect all units
+      if (gameState.mode === 'replay') {
+        exitReplay();
+      } else if (gameState.mode === 'game') {
+        // Deselect all units and cancel a pending follow/guard
+        gameStateRef.current.escortMode = undefined;
         gameStateRef.current.selectedUnits.clear();
         gameStateRef.current.bases.forEach(b => b.isSelected = false);
         setRenderTrigger(prev => prev + 1);
@@ -1294,7 +1583,7 @@ function App() {
         // Select all player units
         gameStateRef.current.selectedUnits.clear();
         gameStateRef.current.units
-          .filter(u => u.owner === 0)
+          .filter(u => u.owner === getLocalPlayerIndex(gameStateRef.current))
           .forEach(u => gameStateRef.current.selectedUnits.add(u.id));
         setRenderTrigger(prev => prev + 1);
         soundManager.playButtonClick();
@@ -1307,6 +1596,21 @@ function App() {
         setRenderTrigger(prev => prev + 1);
       }
     },
+    onCycleStance: () => {
+      if (gameState.mode === 'game') {
+        handleStanceChange();
+      }
+    },
+    onGuard: () => {
+      if (gameState.mode === 'game') {
+        handleEscortMode('guard');
+      }
+    },
+    onFollow: () => {
+      if (gameState.mode === 'game') {
+        handleEscortMode('follow');
+      }
+    },
     onNumberKey: (num: number) => {
       if (gameState.mode === 'game') {
         // Ctrl/Cmd + number = assign selected units to control group
@@ -1347,7 +1651,7 @@ function App() {
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-background" onClick={handleCanvasSurrenderReset}>
       {/* Animated background for menu screens */}
-      {gameState.mode !== 'game' && gameState.mode !== 'countdown' && (
+      {gameState.mode !== 'game' && gameState.mode !== 'countdown' && gameState.mode !== 'replay' && (
         <AnimatedBackground 
           particleCount={60} 
           color={playerColor || COLORS.playerDefault}
@@ -1360,7 +1664,7 @@ function App() {
         className="absolute inset-0 transition-opacity duration-300"
       />
 
-      {gameState.mode === 'game' && (
+      {gameState.mode === 'game' && !gameState.spectating && (
         <>
           <Button
             onClick={handleSurrenderClick}
@@ -1390,6 +1694,8 @@ function App() {
             </Label>
           </div>
 
+          <StanceBar state={gameState} onStanceChange={handleStanceChange} />
+
           {/* Button Mode: Spawn Unit Buttons or Tower Placement Buttons */}
           {gameState.settings.controlMode === 'buttons' && (() => {
             const workersSelected = hasWorkersSelected(gameState);
@@ -1397,7 +1703,7 @@ function App() {
             
             if (workersSelected) {
               // Show tower options when workers are selected
-              const playerLatticite = gameState.players[0]?.secondaryResource ?? 0;
+              const playerLatticite = gameState.players[getLocalPlayerIndex(gameState)]?.secondaryResource ?? 0;
               const playerFaction = gameState.settings.playerFaction;
               // Note: Offensive tower appears twice (slots 1 and 4) to provide 4 options
               // while giving players quick access to multiple basic assault cannons
@@ -1444,7 +1750,7 @@ function App() {
                   {(['left', 'up', 'down', 'right'] as const).map((slot, index) => {
                     const unitType = gameState.settings.unitSlots[slot];
                     const unitDef = UNIT_DEFINITIONS[unitType];
-                    const playerPhotons = gameState.players[0]?.photons ?? 0;
+                    const playerPhotons = gameState.players[getLocalPlayerIndex(gameState)]?.photons ?? 0;
                     const canAfford = playerPhotons >= unitDef.cost;
                     
                     return (
@@ -1475,12 +1781,13 @@ function App() {
 
           {/* Desktop Info Panel - Right Side */}
           {gameState.settings.controlMode === 'buttons' && !gameState.isMobile && (() => {
-            const playerBase = gameState.bases.find(b => b.owner === 0);
-            const enemyBase = gameState.bases.find(b => b.owner === 1);
-            const playerUnits = gameState.units.filter(u => u.owner === 0);
-            const enemyUnits = gameState.units.filter(u => u.owner === 1);
-            const playerPhotons = gameState.players[0]?.photons ?? 0;
-            const playerLatticite = gameState.players[0]?.secondaryResource ?? 0;
+            const localPlayerIndex = getLocalPlayerIndex(gameState);
+            const playerBase = gameState.bases.find(b => b.owner === localPlayerIndex);
+            const enemyBase = gameState.bases.find(b => b.owner !== localPlayerIndex);
+            const playerUnits = gameState.units.filter(u => u.owner === localPlayerIndex);
+            const enemyUnits = gameState.units.filter(u => u.owner !== localPlayerIndex);
+            const playerPhotons = gameState.players[localPlayerIndex]?.photons ?? 0;
+            const playerLatticite = gameState.players[localPlayerIndex]?.secondaryResource ?? 0;
             
             return (
               <div className="absolute right-0 top-1/2 -translate-y-1/2 w-48 p-4 bg-gray-800/90 backdrop-blur-sm border-l border-gray-600 space-y-3">
@@ -1548,7 +1855,7 @@ function App() {
               
               if (workersSelected) {
                 // Show tower options when workers are selected
-                const playerLatticite = gameState.players[0]?.secondaryResource ?? 0;
+                const playerLatticite = gameState.players[getLocalPlayerIndex(gameState)]?.secondaryResource ?? 0;
                 const playerFaction = gameState.settings.playerFaction;
                 
                 // Note: Offensive tower appears twice (left and bottom) to provide 4 options
@@ -1619,7 +1926,7 @@ function App() {
                 );
               } else {
                 // Show unit spawn buttons when no workers selected
-                const playerPhotons = gameState.players[0]?.photons ?? 0;
+                const playerPhotons = gameState.players[getLocalPlayerIndex(gameState)]?.photons ?? 0;
                 
                 const directions = [
                   { slot: 'left' as const, angle: Math.PI, label: '◀' },
@@ -1692,6 +1999,48 @@ function App() {
         </>
       )}
 
+      {gameState.mode === 'game' && gameState.spectating && (() => {
+        const viewedIndex = getLocalPlayerIndex(gameState);
+        const playerNames = [currentLobby?.hostName || 'Host', currentLobby?.guestName || 'Guest'];
+        return (
+          <>
+            <Button
+              onClick={() => returnToMenu()}
+              className="absolute top-4 left-4 orbitron animate-in fade-in slide-in-from-left-2"
+              variant="outline"
+              size="sm"
+            >
+              <SignOut className="mr-2" size={16} />
+              Leave
+            </Button>
+
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-background/80 backdrop-blur-sm px-3 py-2 rounded-md border border-border animate-in fade-in">
+              <Eye size={16} className="text-primary" />
+              <span className="text-xs orbitron">
+                Spectating · {playerNames[viewedIndex]}'s view
+                {(spectatorDelaySeconds ?? 0) > 0 && ` · ${spectatorDelaySeconds}s delay`}
+              </span>
+              <Button onClick={switchSpectatorView} variant="secondary" size="sm" className="orbitron">
+                <ArrowsLeftRight className="mr-2" size={16} />
+                {playerNames[1 - viewedIndex]}
+              </Button>
+            </div>
+
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-6 bg-background/80 backdrop-blur-sm px-4 py-2 rounded-md border border-border text-xs orbitron">
+              {gameState.players.map((player, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: player.color }} />
+                  <span>{playerNames[index]}</span>
+                  <span className="text-muted-foreground">
+                    {Math.floor(player.photons)}◈ · {gameState.units.filter(u => u.owner === index).length} units
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        );
+      })()}
+
       {gameState.mode === 'countdown' && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-300">
           <div className="text-center animate-in slide-in-from-bottom-4 duration-500">
@@ -1717,6 +2066,59 @@ function App() {
         </div>
       )}
 
+      {gameState.mode === 'game' && gameState.networkStatus?.resuming && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-none">
+          <div className="orbitron text-2xl font-bold text-primary animate-pulse">
+            {gameState.spectating ? 'Catching up to the match...' : 'Rejoining match...'}
+          </div>
+        </div>
+      )}
+
+      {gameState.mode === 'game' && !gameState.networkStatus?.desync && (() => {
+        const forfeitSeconds = getForfeitCountdownSeconds(gameState);
+        if (forfeitSeconds === null) return null;
+        const opponentName = (getLocalPlayerIndex(gameState) === 0 ? currentLobby?.guestName : currentLobby?.hostName) || 'opponent';
+        return (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+            <Card className="w-80 max-w-[90vw]">
+              <CardHeader>
+                <CardTitle className="orbitron">{gameState.spectating ? 'Waiting for players' : `Waiting for ${opponentName}`}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {gameState.spectating
+                    ? 'A player lost connection. The match resumes if they rejoin.'
+                    : 'Your opponent lost connection. The match resumes when they rejoin.'}
+                </p>
+                <p className="text-sm">
+                  They forfeit in <span className="font-bold text-primary">{forfeitSeconds}s</span>
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        );
+      })()}
+
+      {gameState.mode === 'game' && gameState.networkStatus?.desync && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+          <Card className="w-80 max-w-[90vw]">
+            <CardHeader>
+              <CardTitle className="orbitron text-destructive">Desync Detected</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {gameState.spectating
+                  ? `Your view of the match diverged from the players' at turn ${gameState.networkStatus.desync.turn}.`
+                  : `Your game diverged from your opponent's at turn ${gameState.networkStatus.desync.turn}. The match cannot continue.`}
+              </p>
+              <Button className="w-full orbitron" onClick={() => returnToMenu()}>
+                Return to Menu
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {gameState.mode === 'menu' && (
         <>
           {/* 50% transparent black overlay */}
@@ -1737,6 +2139,17 @@ function App() {
                 />
               </div>
 
+              {isSavedMatchResumable(savedMatch) && (
+                <Button
+                  onClick={resumeMatch}
+                  className="h-14 text-lg orbitron uppercase tracking-wider transition-all duration-300 hover:scale-105 hover:shadow-lg hover:shadow-primary/50"
+                  variant="default"
+                >
+                  <Play className="mr-2" size={24} />
+                  Resume Match
+                </Button>
+              )}
+
               <Button
                 onClick={goToLevelSelection}
                 className="h-14 text-lg orbitron uppercase tracking-wider transition-all duration-300 hover:scale-105 hover:shadow-lg hover:shadow-primary/50"
@@ -2262,6 +2675,9 @@ function App() {
             onBack={backToMenu}
             onHost={handleLANHost}
             onJoin={handleLANJoin}
+            onSpectate={handleLANSpectate}
+            spectatorDelaySeconds={spectatorDelaySeconds ?? 0}
+            onSpectatorDelayChange={setSpectatorDelaySeconds}
           />
         </MenuTransition>
       )}
@@ -2272,9 +2688,13 @@ function App() {
             onBack={backToMenu}
             onCreateGame={handleCreateGame}
             onJoinGame={handleJoinGame}
+            onSpectateGame={handleSpectateGame}
+            spectatorDelaySeconds={spectatorDelaySeconds ?? 0}
+            onSpectatorDelayChange={setSpectatorDelaySeconds}
             lobbies={multiplayerLobbies}
             currentLobby={currentLobby}
             isHost={multiplayerManagerRef.current?.getIsHost() || false}
+            isSpectator={multiplayerManagerRef.current?.getIsSpectator() || false}
             onStartGame={handleStartMultiplayerGame}
             onLeaveGame={handleLeaveGame}
             onRefreshLobbies={refreshLobbies}
@@ -2286,11 +2706,23 @@ function App() {
         <MenuTransition direction={gameState.menuTransitionDirection || 'forward'}>
           <StatisticsScreen
             statistics={playerStatistics || createEmptyStatistics()}
+            replayMatchIds={Object.keys(matchReplays || {})}
+            onWatchReplay={watchReplay}
             onBack={backToMenu}
           />
         </MenuTransition>
       )}
 
+      {gameState.mode === 'replay' && gameState.replayPlayback && (
+        <ReplayControls
+          playback={gameState.replayPlayback}
+          onTogglePause={toggleReplayPause}
+          onSeek={seekReplayTo}
+          onSpeedChange={setReplaySpeed}
+          onExit={exitReplay}
+        />
+      )}
+
       {gameState.mode === 'modifierHelp' && (
         <MenuTransition direction={gameState.menuTransitionDirection || 'forward'}>
           <ModifierHelpScreen
@@ -2318,14 +2750,15 @@ function App() {
       {gameState.mode === 'victory' && (
         <VictoryScreen
           gameState={gameState}
-          onContinue={() => returnToMenu(
+          winnerName={gameState.winner === 0 ? currentLobby?.hostName : gameState.winner === 1 ? currentLobby?.guestName ?? undefined : undefined}
+          onContinue={() => gameState.spectating ? returnToMenu() : returnToMenu(
             true, 
-            gameState.winner === -1 ? 'draw' : gameState.winner === 0 ? 'victory' : 'defeat'
+            gameState.winner === -1 ? 'draw' : gameState.winner === getLocalPlayerIndex(gameState) ? 'victory' : 'defeat'
           )}
           onRematch={gameState.vsMode === 'ai' ? () => {
             // Save settings before returnToMenu resets the game state
             const savedSettings = gameState.settings;
-            returnToMenu(true, gameState.winner === -1 ? 'draw' : gameState.winner === 0 ? 'victory' : 'defeat');
+            returnToMenu(true, gameState.winner === -1 ? 'draw' : gameState.winner === getLocalPlayerIndex(gameState) ? 'victory' : 'defeat');
             // Restore settings after reset, then start game
             setTimeout(() => {
               gameStateRef.current.settings = savedSettings;
@@ -2379,12 +2812,11 @@ function createBackgroundBattle(canvas: HTMLCanvasElement): GameState {
 
   const playerBaseTypeDef = BASE_TYPE_DEFINITIONS['standard'];
 
-  return {
+  const state: GameState = {
     mode: 'game',
     vsMode: 'ai',
     units: initialDrones,
     projectiles: [],
-    shells: [],
     obstacles: obstacles,
     miningDepots: miningDepots,
     bases: [
@@ -2430,6 +2862,7 @@ function createBackgroundBattle(canvas: HTMLCanvasElement): GameState {
     patrolMode: false,
     elapsedTime: 0,
     lastIncomeTime: 0,
+    ...createDeterministicState(createRandomSeed()),
     winner: null,
     settings: {
       playerColor: COLORS.playerDefault,
@@ -2452,12 +2885,11 @@ function createBackgroundBattle(canvas: HTMLCanvasElement): GameState {
     topographyLines,
     nebulaClouds,
     stars,
-    floaters: initializeFloaters(),
-    fieldParticles: initializeFieldParticles(arenaWidth, arenaHeight),
-    fogParticles: initializeFogParticles(arenaWidth, arenaHeight),
     // Keep gameplay coordinates consistent across devices
     isPortrait: shouldUsePortraitCoordinates(),
   };
+  attachEffects(state, arenaHeight);
+  return state;
 }
 
 function createInitialState(): GameState {
@@ -2466,7 +2898,6 @@ function createInitialState(): GameState {
     vsMode: null,
     units: [],
     projectiles: [],
-    shells: [],
     bases: [],
     structures: [],
     miningDepots: [],
@@ -2481,6 +2912,7 @@ function createInitialState(): GameState {
     patrolMode: false,
     elapsedTime: 0,
     lastIncomeTime: 0,
+    ...createDeterministicState(createRandomSeed()),
     winner: null,
     settings: {
       playerColor: COLORS.playerDefault,
@@ -2507,108 +2939,56 @@ function createCountdownState(mode: 'ai' | 'player', settings: GameState['settin
   const arenaWidth = ARENA_WIDTH_METERS;
   const arenaHeight = getArenaHeight();
 
-  const selectedMapDef = getMapById(settings.selectedMap) || getMapById('open')!;
-  const mapObstacles = selectedMapDef.obstacles;
-  
-  // Add boundary obstacles to prevent units from getting stuck at screen edges
-  const boundaryObstacles = createBoundaryObstacles(arenaWidth, arenaHeight);
-  const obstacles = [...mapObstacles, ...boundaryObstacles];
-  
-  // Keep base placement aligned to the shared portrait coordinate system
-  const basePositions = getValidBasePositions(arenaWidth, arenaHeight, obstacles, shouldUsePortraitCoordinates());
+  // Bases, depots and starting drones come from the seeded match setup so replays can rebuild them
+  const matchState = createMatchState({
+    vsMode: mode,
+    settings,
+    seed: createRandomSeed(),
+    arenaHeight,
+    // Keep base placement aligned to the shared portrait coordinate system
+    isPortrait: shouldUsePortraitCoordinates(),
+    matchTimeLimit: 300,
+  });
   
   // Generate topography lines and starfield for this level
   const topographyLines = generateTopographyLines(canvas.width, canvas.height);
   const stars = generateStarfield(canvas.width, canvas.height);
   const nebulaClouds = generateNebulaClouds(canvas.width, canvas.height);
-  
-  // Create mining depots in corners
-  const miningDepots = createMiningDepots(arenaWidth, arenaHeight);
-  
-  // Create initial mining drones on diagonal deposits
-  const initialDrones = createInitialMiningDrones(miningDepots);
-
-  const playerBaseTypeDef = BASE_TYPE_DEFINITIONS[settings.playerBaseType || 'standard'];
-  const enemyBaseTypeDef = BASE_TYPE_DEFINITIONS[settings.enemyBaseType || 'standard'];
 
-  return {
+  const state: GameState = {
+    ...matchState,
     mode: 'countdown',
-    vsMode: mode,
-    units: initialDrones,
-    projectiles: [],
-    shells: [],
-    structures: [],
-    obstacles: obstacles,
-    miningDepots: miningDepots,
-    bases: [
-      {
-        id: generateId(),
-        owner: 0,
-        position: basePositions.player,
-        hp: playerBaseTypeDef.hp,
-        maxHp: playerBaseTypeDef.hp,
-        armor: playerBaseTypeDef.armor,
-        movementTarget: null,
-        rallyPoint: calculateDefaultRallyPoint(basePositions.player, basePositions.enemy),
-        isSelected: false,
-        laserCooldown: 0,
-        faction: settings.playerFaction || 'radiant',
-        baseType: settings.playerBaseType || 'standard',
-        autoAttackCooldown: 0,
-      },
-      {
-        id: generateId(),
-        owner: 1,
-        position: basePositions.enemy,
-        hp: enemyBaseTypeDef.hp,
-        maxHp: enemyBaseTypeDef.hp,
-        armor: enemyBaseTypeDef.armor,
-        movementTarget: null,
-        rallyPoint: calculateDefaultRallyPoint(basePositions.enemy, basePositions.player),
-        isSelected: false,
-        laserCooldown: 0,
-        faction: settings.enemyFaction || 'radiant',
-        baseType: settings.enemyBaseType || 'standard',
-        autoAttackCooldown: 0,
-      },
-    ],
-    players: [
-      { photons: 50, incomeRate: 0, color: settings.playerColor },
-      { photons: 50, incomeRate: 0, color: settings.enemyColor },
-    ],
-    selectedUnits: new Set(),
-    controlGroups: { 1: new Set(), 2: new Set(), 3: new Set(), 4: new Set(), 5: new Set(), 6: new Set(), 7: new Set(), 8: new Set() },
-    currentFormation: 'none',
-    patrolMode: false,
-    elapsedTime: 0,
-    lastIncomeTime: 0,
-    winner: null,
-    settings,
-    surrenderClicks: 0,
-    lastSurrenderClickTime: 0,
-    surrenderExpanded: false,
     // Seed the countdown clock so the overlay starts at 3 and ticks down.
     countdownStartTime: Date.now(),
     countdownSeconds: 3,
     matchStats: {
+      ...matchState.matchStats!,
       startTime: Date.now(),
-      unitsTrainedByPlayer: 0,
-      unitsKilledByPlayer: 0,
-      damageDealtByPlayer: 0,
-      photonsSpentByPlayer: 0,
-      damageToPlayerBase: 0,
-      damageToEnemyBase: 0,
     },
-    matchTimeLimit: 300,
     topographyLines,
     nebulaClouds,
     stars,
-    floaters: initializeFloaters(),
-    fieldParticles: initializeFieldParticles(arenaWidth, arenaHeight),
-    fogParticles: initializeFogParticles(arenaWidth, arenaHeight),
-    // Keep gameplay coordinates consistent across devices
-    isPortrait: shouldUsePortraitCoordinates(),
   };
+  attachEffects(state, arenaHeight);
+  return state;
+}
+
+function createResumedState(saved: SavedMatch, canvas: HTMLCanvasElement): GameState {
+  const arenaHeight = saved.arenaHeight;
+
+  const state: GameState = {
+    ...createInitialState(),
+    ...restoreMatch(saved),
+    // Count down again so the player can get their bearings
+    mode: 'countdown',
+    countdownStartTime: Date.now(),
+    countdownSeconds: 3,
+    topographyLines: generateTopographyLines(canvas.width, canvas.height),
+    nebulaClouds: generateNebulaClouds(canvas.width, canvas.height),
+    stars: generateStarfield(canvas.width, canvas.height),
+  };
+  attachEffects(state, arenaHeight);
+  return state;
 }
 
 function createGameState(mode: 'ai' | 'player', settings: GameState['settings']): GameState {
@@ -2634,12 +3014,11 @@ function createGameState(mode: 'ai' | 'player', settings: GameState['settings'])
   const playerBaseTypeDef = BASE_TYPE_DEFINITIONS[settings.playerBaseType || 'standard'];
   const enemyBaseTypeDef = BASE_TYPE_DEFINITIONS[settings.enemyBaseType || 'standard'];
 
-  return {
+  const state: GameState = {
     mode: 'game',
     vsMode: mode,
     units: initialDrones,
     projectiles: [],
-    shells: [],
     obstacles: obstacles,
     miningDepots: miningDepots,
     bases: [
@@ -2684,6 +3063,7 @@ function createGameState(mode: 'ai' | 'player', settings: GameState['settings'])
     patrolMode: false,
     elapsedTime: 0,
     lastIncomeTime: 0,
+    ...createDeterministicState(createRandomSeed()),
     winner: null,
     settings,
     surrenderClicks: 0,
@@ -2695,10 +3075,9 @@ function createGameState(mode: 'ai' | 'player', settings: GameState['settings'])
     },
     // Keep gameplay coordinates consistent across devices
     isPortrait: shouldUsePortraitCoordinates(),
-    floaters: initializeFloaters(),
-    fieldParticles: initializeFieldParticles(arenaWidth, arenaHeight),
-    fogParticles: initializeFogParticles(arenaWidth, arenaHeight),
   };
+  attachEffects(state, arenaHeight);
+  return state;
 }
 
 function createOnlineGameState(lobby: LobbyData, isHost: boolean): GameState {
@@ -2725,12 +3104,11 @@ function createOnlineGameState(lobby: LobbyData, isHost: boolean): GameState {
   const playerBaseTypeDef = BASE_TYPE_DEFINITIONS['standard'];
   const enemyBaseTypeDef = BASE_TYPE_DEFINITIONS['standard'];
 
-  return {
+  const state: GameState = {
     mode: 'game',
     vsMode: 'online',
     units: initialDrones,
     projectiles: [],
-    shells: [],
     obstacles: obstacles,
     miningDepots: miningDepots,
     bases: [
@@ -2775,6 +3153,7 @@ function createOnlineGameState(lobby: LobbyData, isHost: boolean): GameState {
     patrolMode: false,
     elapsedTime: 0,
     lastIncomeTime: 0,
+    ...createDeterministicState(hashStringToSeed(lobby.gameId)),
     winner: null,
     settings: {
       playerColor: isHost ? lobby.hostColor : lobby.guestColor || COLORS.playerDefault,
@@ -2798,130 +3177,60 @@ function createOnlineGameState(lobby: LobbyData, isHost: boolean): GameState {
     },
     // Keep gameplay coordinates consistent across devices
     isPortrait: shouldUsePortraitCoordinates(),
-    floaters: initializeFloaters(),
-    fieldParticles: initializeFieldParticles(arenaWidth, arenaHeight),
-    fogParticles: initializeFogParticles(arenaWidth, arenaHeight),
   };
+  attachEffects(state, arenaHeight);
+  return state;
 }
 
-function createOnlineCountdownState(lobby: LobbyData, isHost: boolean, canvas: HTMLCanvasElement): GameState {
+function createOnlineCountdownState(lobby: LobbyData, isHost: boolean, viewerSettings: GameState['settings'], canvas: HTMLCanvasElement): GameState {
   const arenaWidth = ARENA_WIDTH_METERS;
-  const arenaHeight = getArenaHeight();
-
-  const selectedMapDef = getMapById(lobby.mapId) || getMapById('open')!;
-  const mapObstacles = selectedMapDef.obstacles;
-  
-  // Add boundary obstacles to prevent units from getting stuck at screen edges
-  const boundaryObstacles = createBoundaryObstacles(arenaWidth, arenaHeight);
-  const obstacles = [...mapObstacles, ...boundaryObstacles];
-  
-  // Keep base placement aligned to the shared portrait coordinate system
-  const basePositions = getValidBasePositions(arenaWidth, arenaHeight, obstacles, shouldUsePortraitCoordinates());
-  
-  // Generate topography lines and starfield for this level
-  const topographyLines = generateTopographyLines(canvas.width, canvas.height);
-  const stars = generateStarfield(canvas.width, canvas.height);
-  const nebulaClouds = generateNebulaClouds(canvas.width, canvas.height);
-  
-  // Create mining depots in corners
-  const miningDepots = createMiningDepots(arenaWidth, arenaHeight);
-  
-  // Create initial mining drones on diagonal deposits
-  const initialDrones = createInitialMiningDrones(miningDepots);
-
-  // For online games, use standard base type for now
-  const playerBaseTypeDef = BASE_TYPE_DEFINITIONS['standard'];
-  const enemyBaseTypeDef = BASE_TYPE_DEFINITIONS['standard'];
+  // Both peers simulate the host's arena so the lockstep simulations match
+  const arenaHeight = lobby.arenaHeight ?? getArenaHeight();
 
-  return {
-    mode: 'countdown',
+  // Slot 0 is always the host and slot 1 the guest, so both peers build the identical match
+  const matchState = createMatchState({
     vsMode: 'online',
-    units: initialDrones,
-    projectiles: [],
-    shells: [],
-    obstacles: obstacles,
-    miningDepots: miningDepots,
-    bases: [
-      {
-        id: generateId(),
-        owner: 0,
-        position: basePositions.player,
-        hp: playerBaseTypeDef.hp,
-        maxHp: playerBaseTypeDef.hp,
-        armor: playerBaseTypeDef.armor,
-        movementTarget: null,
-        rallyPoint: calculateDefaultRallyPoint(basePositions.player, basePositions.enemy),
-        isSelected: false,
-        laserCooldown: 0,
-        faction: 'radiant',
-        baseType: 'standard',
-        autoAttackCooldown: 0,
-      },
-      {
-        id: generateId(),
-        owner: 1,
-        position: basePositions.enemy,
-        hp: enemyBaseTypeDef.hp,
-        maxHp: enemyBaseTypeDef.hp,
-        armor: enemyBaseTypeDef.armor,
-        movementTarget: null,
-        rallyPoint: calculateDefaultRallyPoint(basePositions.enemy, basePositions.player),
-        isSelected: false,
-        laserCooldown: 0,
-        faction: 'radiant',
-        baseType: 'standard',
-        autoAttackCooldown: 0,
-      },
-    ],
-    players: [
-      { photons: 50, incomeRate: 0, color: isHost ? lobby.hostColor : lobby.guestColor || COLORS.playerDefault },
-      { photons: 50, incomeRate: 0, color: isHost ? lobby.guestColor || COLORS.enemyDefault : lobby.hostColor },
-    ],
-    selectedUnits: new Set(),
-    controlGroups: { 1: new Set(), 2: new Set(), 3: new Set(), 4: new Set(), 5: new Set(), 6: new Set(), 7: new Set(), 8: new Set() },
-    currentFormation: 'none',
-    patrolMode: false,
-    elapsedTime: 0,
-    lastIncomeTime: 0,
-    winner: null,
     settings: {
-      playerColor: isHost ? lobby.hostColor : lobby.guestColor || COLORS.playerDefault,
-      enemyColor: isHost ? lobby.guestColor || COLORS.enemyDefault : lobby.hostColor,
+      ...viewerSettings,
+      playerColor: lobby.hostColor,
+      enemyColor: lobby.guestColor || COLORS.enemyDefault,
       enabledUnits: new Set(lobby.enabledUnits as UnitType[]),
-      unitSlots: { left: 'marine', up: 'warrior', down: 'snaker', right: 'tank' },
       selectedMap: lobby.mapId,
-      showNumericHP: true,
-      enableSprites: true,
+      // For online games, use standard factions and base types for now
       playerFaction: 'radiant',
       enemyFaction: 'radiant',
       playerBaseType: 'standard',
       enemyBaseType: 'standard',
+      chessMode: false,
     },
-    surrenderClicks: 0,
-    lastSurrenderClickTime: 0,
-    surrenderExpanded: false,
+    seed: hashStringToSeed(lobby.gameId),
+    arenaHeight,
+    isPortrait: lobby.isPortrait ?? shouldUsePortraitCoordinates(),
+    matchTimeLimit: 300,
+  });
+  
+  // Generate topography lines and starfield for this level
+  const topographyLines = generateTopographyLines(canvas.width, canvas.height);
+  const stars = generateStarfield(canvas.width, canvas.height);
+  const nebulaClouds = generateNebulaClouds(canvas.width, canvas.height);
+
+  const state: GameState = {
+    ...matchState,
+    mode: 'countdown',
+    localPlayerIndex: isHost ? 0 : 1,
     // Seed the countdown clock so the overlay starts at 3 and ticks down.
     countdownStartTime: Date.now(),
     countdownSeconds: 3,
     matchStats: {
+      ...matchState.matchStats!,
       startTime: Date.now(),
-      unitsTrainedByPlayer: 0,
-      unitsKilledByPlayer: 0,
-      damageDealtByPlayer: 0,
-      photonsSpentByPlayer: 0,
-      damageToPlayerBase: 0,
-      damageToEnemyBase: 0,
     },
-    matchTimeLimit: 300,
     topographyLines,
     nebulaClouds,
     stars,
-    floaters: initializeFloaters(),
-    fieldParticles: initializeFieldParticles(arenaWidth, arenaHeight),
-    fogParticles: initializeFogParticles(arenaWidth, arenaHeight),
-    // Keep gameplay coordinates consistent across devices
-    isPortrait: shouldUsePortraitCoordinates(),
   };
+  attachEffects(state, arenaHeight);
+  return state;
 }
 
 export default App;
@@ -3,8 +3,9 @@
  */
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { Trophy, Skull, HandshakeSlash, Target, Sword, Shield, Clock, Zap } from '@phosphor-icons/react';
-import { GameState } from '@/lib/types';
+import { Trophy, Skull, HandshakeSlash, Target, Sword, Shield, Clock, Zap, MedalMilitary } from '@phosphor-icons/react';
+import { GameState, UNIT_DEFINITIONS } from '@/lib/types';
+import { VETERANCY_RANKS, getVeteranBreakdown } from '@/lib/veterancy';
 
 interface EnhancedVictoryScreenProps {
   gameState: GameState;
@@ -25,6 +26,8 @@ export function EnhancedVictoryScreen({ gameState, onRematch, onReturnToMenu }:
   const playerBaseDamageTaken = playerBase ? (playerBase.maxHp - playerBase.hp) : 0;
   const enemyBaseDamageTaken = enemyBase ? (enemyBase.maxHp - enemyBase.hp) : 0;
   
+  const veterans = getVeteranBreakdown(gameState);
+
   const matchDuration = Math.floor(gameState.elapsedTime);
   const minutes = Math.floor(matchDuration / 60);
   const seconds = matchDuration % 60;
@@ -145,6 +148,30 @@ export function EnhancedVictoryScreen({ gameState, onRematch, onReturnToMenu }:
               </div>
             </div>
           </div>
+
+          {/* Veteran Units */}
+          {veterans.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-primary uppercase tracking-wider flex items-center gap-2">
+                <MedalMilitary size={16} />
+                Veterans
+              </h3>
+              <div className="bg-muted/30 p-3 rounded space-y-2 max-h-40 overflow-y-auto">
+                {veterans.map((veteran) => (
+                  <div key={veteran.unitId} className={`flex items-center justify-between text-xs ${veteran.fallen ? 'opacity-50' : ''}`}>
+                    <span>
+                      {UNIT_DEFINITIONS[veteran.unitType].name}
+                      <span className="ml-2 text-yellow-400">{VETERANCY_RANKS[veteran.rank].name}</span>
+                      {veteran.fallen && <span className="ml-2 text-muted-foreground">(fallen)</span>}
+                    </span>
+                    <span className="font-mono text-muted-foreground">
+                      {veteran.kills} kills · {Math.round(veteran.damageDealt)} dmg
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           
           {/* Actions */}
           <div className="flex gap-2 pt-2">
@@ -33,6 +33,9 @@ const SHORTCUTS: ShortcutItem[] = [
   { keys: ['F'], description: 'Cycle formation type', category: 'Formation' },
   { keys: ['Hold F'], description: 'Show formation menu', category: 'Formation' },
   { keys: ['P'], description: 'Toggle patrol mode', category: 'Formation' },
+  { keys: ['H'], description: 'Cycle stance of selected units', category: 'Formation' },
+  { keys: ['T'], description: 'Follow a friendly unit or base (then tap it)', category: 'Formation' },
+  { keys: ['G'], description: 'Guard a friendly unit or base (then tap it)', category: 'Formation' },
   
   // Game
   { keys: ['Esc'], description: 'Return to menu', category: 'Game' },
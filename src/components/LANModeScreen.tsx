@@ -1,22 +1,30 @@
 import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
-import { ArrowLeft, Copy, Check, MagnifyingGlass } from '@phosphor-icons/react';
+import { ArrowLeft, Copy, Check, MagnifyingGlass, Eye } from '@phosphor-icons/react';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner';
 import { LANKVStore, LANGameInfo } from '../lib/lanStore';
+import { SPECTATOR_DELAY_OPTIONS_SECONDS } from '../lib/multiplayerGame';
 
 interface LANModeScreenProps {
   onBack: () => void;
   onHost: () => Promise<string>;
   onJoin: (peerId: string) => Promise<boolean>;
+  onSpectate: (peerId: string) => Promise<boolean>;
+  spectatorDelaySeconds: number;
+  onSpectatorDelayChange: (seconds: number) => void;
 }
 
 export function LANModeScreen({
   onBack,
   onHost,
   onJoin,
+  onSpectate,
+  spectatorDelaySeconds,
+  onSpectatorDelayChange,
 }: LANModeScreenProps) {
   const [mode, setMode] = useState<'select' | 'host' | 'join' | 'browse'>('select');
   const [peerId, setPeerId] = useState('');
@@ -68,6 +76,28 @@ export function LANModeScreen({
     }
   };
 
+  const handleSpectate = async (peerId?: string) => {
+    const targetPeerId = peerId || joinPeerId.trim();
+
+    if (!targetPeerId) {
+      toast.error('Please enter a Peer ID');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const success = await onSpectate(targetPeerId);
+      if (!success) {
+        toast.error('Failed to connect. Check the Peer ID and try again.');
+      }
+    } catch (error) {
+      console.error('Failed to spectate:', error);
+      toast.error('Failed to connect. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const scanForGames = async () => {
     setIsScanning(true);
     toast.info('Scanning for available games...');
@@ -165,6 +195,32 @@ export function LANModeScreen({
               >
                 Connect to Host
               </Button>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleSpectate()}
+                  className="flex-1 orbitron uppercase tracking-wider"
+                  variant="secondary"
+                  disabled={isLoading || !joinPeerId.trim()}
+                >
+                  <Eye className="mr-2" size={20} />
+                  Spectate
+                </Button>
+                <Select
+                  value={String(spectatorDelaySeconds)}
+                  onValueChange={(value) => onSpectatorDelayChange(Number(value))}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPECTATOR_DELAY_OPTIONS_SECONDS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>
+                        {seconds === 0 ? 'Live' : `${seconds}s delay`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <Button
@@ -306,9 +362,21 @@ export function LANModeScreen({
                             <h3 className="font-semibold orbitron">{game.hostName}</h3>
                             <p className="text-sm text-muted-foreground">Map: {game.mapId}</p>
                           </div>
-                          <Button size="sm" variant="ghost">
-                            Join
-                          </Button>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSpectate(game.peerId);
+                              }}
+                            >
+                              <Eye size={16} />
+                            </Button>
+                            <Button size="sm" variant="ghost">
+                              Join
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     ))}
@@ -4,17 +4,23 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { ScrollArea } from './ui/scroll-area';
-import { ArrowLeft, Users, Plus, SignIn, Copy, Check } from '@phosphor-icons/react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ArrowLeft, Users, Plus, SignIn, Copy, Check, Eye } from '@phosphor-icons/react';
 import { LobbyData } from '@/lib/multiplayer';
+import { SPECTATOR_DELAY_OPTIONS_SECONDS } from '@/lib/multiplayerGame';
 import { toast } from 'sonner';
 
 interface MultiplayerLobbyScreenProps {
   onBack: () => void;
   onCreateGame: (playerName: string) => Promise<void>;
   onJoinGame: (gameId: string, playerName: string) => Promise<void>;
+  onSpectateGame: (gameId: string, playerName: string) => Promise<void>;
+  spectatorDelaySeconds: number;
+  onSpectatorDelayChange: (seconds: number) => void;
   lobbies: LobbyData[];
   currentLobby: LobbyData | null;
   isHost: boolean;
+  isSpectator: boolean;
   onStartGame: () => void;
   onLeaveGame: () => void;
   onRefreshLobbies: () => void;
@@ -24,9 +30,13 @@ export function MultiplayerLobbyScreen({
   onBack,
   onCreateGame,
   onJoinGame,
+  onSpectateGame,
+  spectatorDelaySeconds,
+  onSpectatorDelayChange,
   lobbies,
   currentLobby,
   isHost,
+  isSpectator,
   onStartGame,
   onLeaveGame,
   onRefreshLobbies,
@@ -34,6 +44,7 @@ export function MultiplayerLobbyScreen({
   const [playerName, setPlayerName] = useState('');
   const [showCreate, setShowCreate] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [spectateGameId, setSpectateGameId] = useState('');
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -61,6 +72,18 @@ export function MultiplayerLobbyScreen({
     await onJoinGame(gameId, playerName.trim());
   };
 
+  const handleSpectateGame = async () => {
+    if (!playerName.trim()) {
+      toast.error('Please enter your name');
+      return;
+    }
+    if (!spectateGameId.trim()) {
+      toast.error('Please enter a Game ID');
+      return;
+    }
+    await onSpectateGame(spectateGameId.trim(), playerName.trim());
+  };
+
   const handleCopyGameId = () => {
     if (currentLobby) {
       navigator.clipboard.writeText(currentLobby.gameId);
@@ -96,7 +119,7 @@ export function MultiplayerLobbyScreen({
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground">
-                Share this ID with your opponent
+                Share this ID with your opponent or spectators
               </p>
             </div>
 
@@ -128,6 +151,15 @@ export function MultiplayerLobbyScreen({
                   <p className="text-sm text-muted-foreground">Waiting for opponent...</p>
                 </div>
               )}
+
+              {currentLobby.spectators && currentLobby.spectators.length > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-muted rounded-lg">
+                  <Eye size={16} className="mt-0.5 shrink-0" />
+                  <p className="text-xs text-muted-foreground">
+                    {currentLobby.spectators.map((spectator) => spectator.name).join(', ')}
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -141,10 +173,10 @@ export function MultiplayerLobbyScreen({
                 </Button>
               )}
 
-              {!isHost && currentLobby.guestId && (
+              {!isHost && (currentLobby.guestId || isSpectator) && (
                 <div className="text-center p-3 bg-muted rounded-lg">
                   <p className="text-sm text-muted-foreground">
-                    Waiting for host to start...
+                    {isSpectator ? 'Spectating. Waiting for host to start...' : 'Waiting for host to start...'}
                   </p>
                 </div>
               )}
@@ -241,6 +273,42 @@ export function MultiplayerLobbyScreen({
                   </div>
                 </ScrollArea>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="spectate-game-id">Watch a Match</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="spectate-game-id"
+                    value={spectateGameId}
+                    onChange={(e) => setSpectateGameId(e.target.value)}
+                    placeholder="Game ID"
+                    className="font-mono text-xs"
+                  />
+                  <Select
+                    value={String(spectatorDelaySeconds)}
+                    onValueChange={(value) => onSpectatorDelayChange(Number(value))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SPECTATOR_DELAY_OPTIONS_SECONDS.map((seconds) => (
+                        <SelectItem key={seconds} value={String(seconds)}>
+                          {seconds === 0 ? 'Live' : `${seconds}s delay`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleSpectateGame}
+                    variant="secondary"
+                    disabled={!playerName.trim() || !spectateGameId.trim()}
+                  >
+                    <Eye className="mr-2" size={16} />
+                    Spectate
+                  </Button>
+                </div>
+              </div>
             </>
           ) : (
             <div className="space-y-4">
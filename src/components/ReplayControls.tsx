@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { ArrowLeft, Pause, Play, ClockCounterClockwise } from '@phosphor-icons/react';
+import { ReplayPlayback, REPLAY_SPEEDS, getReplayTimes, isReplayFinished } from '../lib/replay';
+import { formatDuration } from '../lib/statistics';
+import { getMapById } from '../lib/maps';
+
+interface ReplayControlsProps {
+  playback: ReplayPlayback;
+  onTogglePause: () => void;
+  onSeek: (timeMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+// How often the controls refresh the time readout while the replay plays
+const REFRESH_INTERVAL_MS = 250;
+
+export function ReplayControls({ playback, onTogglePause, onSeek, onSpeedChange, onExit }: ReplayControlsProps) {
+  const [, setRefreshTick] = useState(0);
+  // Scrubber position while the user is dragging it (seeking only happens on release)
+  const [dragTimeMs, setDragTimeMs] = useState<number | null>(null);
+
+  // Playback advances inside the game loop, so poll it for the readout
+  useEffect(() => {
+    const intervalId = setInterval(() => setRefreshTick((tick) => tick + 1), REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const { currentMs, totalMs } = getReplayTimes(playback);
+  const shownMs = dragTimeMs ?? currentMs;
+  const finished = isReplayFinished(playback);
+  const mapName = getMapById(playback.replay.settings.mapId)?.name || playback.replay.settings.mapId;
+
+  return (
+    <>
+      <div className="absolute top-4 left-4 flex items-center gap-2 animate-in fade-in slide-in-from-left-2">
+        <Button onClick={onExit} variant="outline" size="sm" className="orbitron">
+          <ArrowLeft className="mr-2" size={16} />
+          Exit Replay
+        </Button>
+        <div className="bg-background/80 backdrop-blur-sm px-3 py-1.5 rounded-md border border-border text-xs orbitron">
+          REPLAY · {mapName}
+        </div>
+      </div>
+
+      <div className="absolute bottom-0 left-0 right-0 p-4 bg-gray-800/90 backdrop-blur-sm border-t border-gray-600 space-y-3">
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={finished ? () => onSeek(0) : onTogglePause}
+            size="sm"
+            variant="secondary"
+            className="w-10"
+            aria-label={finished ? 'Restart replay' : playback.paused ? 'Play replay' : 'Pause replay'}
+          >
+            {finished ? <ClockCounterClockwise size={16} /> : playback.paused ? <Play size={16} /> : <Pause size={16} />}
+          </Button>
+          <span className="text-xs space-mono w-12 text-right">{formatDuration(shownMs / 1000)}</span>
+          <Slider
+            value={[shownMs]}
+            min={0}
+            max={Math.max(1, totalMs)}
+            step={100}
+            onValueChange={(values) => setDragTimeMs(values[0])}
+            onValueCommit={(values) => {
+              setDragTimeMs(null);
+              onSeek(values[0]);
+            }}
+            className="flex-1"
+          />
+          <span className="text-xs space-mono w-12">{formatDuration(totalMs / 1000)}</span>
+        </div>
+
+        <div className="flex items-center justify-center gap-2">
+          {REPLAY_SPEEDS.map((speed) => (
+            <Button
+              key={speed}
+              onClick={() => onSpeedChange(speed)}
+              size="sm"
+              variant={playback.speed === speed ? 'default' : 'outline'}
+              className="orbitron text-xs"
+            >
+              {speed}x
+            </Button>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Stance buttons for the local player's selected units
+ * Shown while combat units are selected; highlights the stance they share
+ */
+import { useEffect, useState } from 'react';
+import { GameState, UnitStance } from '../lib/types';
+import { STANCE_DEFINITIONS, UNIT_STANCES } from '../lib/stances';
+import { getLocalPlayerIndex } from '../lib/gameUtils';
+
+interface StanceBarProps {
+  state: GameState;
+  onStanceChange: (stance: UnitStance) => void;
+}
+
+// How often the bar refreshes; selection and stances change inside the game loop
+const REFRESH_INTERVAL_MS = 250;
+
+export function StanceBar({ state, onStanceChange }: StanceBarProps) {
+  const [, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setRefreshTick((tick) => tick + 1), REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const localPlayerIndex = getLocalPlayerIndex(state);
+  const selectedUnits = state.units.filter(
+    (unit) => state.selectedUnits.has(unit.id) && unit.owner === localPlayerIndex && unit.type !== 'miningDrone'
+  );
+  if (selectedUnits.length === 0) return null;
+
+  // Units without a stance share none; no button is highlighted for them
+  const stances = new Set(selectedUnits.map((unit) => unit.stance));
+  const sharedStance = stances.size === 1 ? selectedUnits[0].stance : undefined;
+
+  return (
+    <div className="absolute top-28 left-4 flex gap-1 bg-background/80 backdrop-blur-sm p-1 rounded-md border border-border animate-in fade-in">
+      {UNIT_STANCES.map((stance) => {
+        const def = STANCE_DEFINITIONS[stance];
+        const active = stance === sharedStance;
+        return (
+          <button
+            key={stance}
+            onClick={() => onStanceChange(stance)}
+            title={`${def.name}: ${def.description} (H to cycle)`}
+            aria-label={def.name}
+            aria-pressed={active}
+            className={`w-9 h-9 flex items-center justify-center rounded border text-base transition-colors ${
+              active ? 'bg-primary/30 border-primary' : 'border-transparent hover:bg-muted/50'
+            }`}
+            style={{ color: def.color }}
+          >
+            {def.icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,16 +3,18 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
 import { Separator } from './ui/separator';
-import { ArrowLeft, Trophy, Sword, Target, Lightning, Clock, TrendUp, Equals } from '@phosphor-icons/react';
+import { ArrowLeft, Trophy, Sword, Target, Lightning, Clock, TrendUp, Equals, FilmStrip } from '@phosphor-icons/react';
 import { PlayerStatistics, formatDuration, formatDate, getWinRate, getAverageMatchDuration } from '../lib/statistics';
 import { getMapById } from '../lib/maps';
 
 interface StatisticsScreenProps {
   statistics: PlayerStatistics;
+  replayMatchIds?: string[]; // Matches that have a stored replay
+  onWatchReplay?: (matchId: string) => void;
   onBack: () => void;
 }
 
-export function StatisticsScreen({ statistics, onBack }: StatisticsScreenProps) {
+export function StatisticsScreen({ statistics, replayMatchIds = [], onWatchReplay, onBack }: StatisticsScreenProps) {
   const winRate = getWinRate(statistics);
   const avgDuration = getAverageMatchDuration(statistics);
 
@@ -192,8 +194,21 @@ export function StatisticsScreen({ statistics, onBack }: StatisticsScreenProps)
                             </Badge>
                           )}
                         </div>
-                        <div className="text-xs text-muted-foreground space-mono">
-                          {formatDuration(match.duration)}
+                        <div className="flex items-center gap-2">
+                          {onWatchReplay && replayMatchIds.includes(match.matchId) && (
+                            <Button
+                              onClick={() => onWatchReplay(match.matchId)}
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs orbitron"
+                            >
+                              <FilmStrip className="mr-1" size={14} />
+                              Replay
+                            </Button>
+                          )}
+                          <div className="text-xs text-muted-foreground space-mono">
+                            {formatDuration(match.duration)}
+                          </div>
                         </div>
                       </div>
 
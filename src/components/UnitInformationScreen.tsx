@@ -11,67 +11,21 @@ import {
   UNIT_DEFINITIONS, 
   FactionType, 
   FACTION_DEFINITIONS,
-  UnitModifier 
+  UnitModifier,
+  ABILITY_LASER_DAMAGE
 } from '../lib/types';
+import { ABILITY_DEFINITIONS, getAbilityStats } from '../lib/abilities';
 
 interface UnitInformationScreenProps {
   onBack: () => void;
 }
 
-// Helper function to get ability description with damage stats
+// Helper function to get ability description; the numbers come from getAbilityStats
 function getAbilityDescription(unitType: UnitType): string {
-  const abilityDescriptions: Record<UnitType, string> = {
-    // Radiant faction
-    marine: 'Fires 10 rapid shots in a cone, each dealing 2 damage (affected by damage multiplier) to enemies in the target direction (max range: 8m). Also fires a laser dealing 10 damage.',
-    warrior: 'Compresses the sword into one point, then throws five knives at -10°, -5°, 0°, 5°, and 10° in quick succession. Knife speed scales with the drag distance and each knife deals 6 damage (affected by damage multiplier).',
-    tank: 'Creates a protective shield dome with 4m radius for 5 seconds, reducing incoming ranged damage by 50% for friendly units inside (melee damage is unaffected). Also fires a laser dealing 10 damage.',
-    scout: 'Always cloaked and cannot be targeted by enemies. Activating the ability reveals the Dagger, throws a knife after 2s in the cast direction (8 damage, affected by damage multiplier), then remains visible for 1s before recloaking. Also fires a laser dealing 10 damage.',
-    artillery: 'Launches a bombardment at target location after 1.5s delay, dealing area damage. Also fires a laser dealing 10 damage.',
-    medic: 'Heals all friendly units within 5m radius for 50 HP and bases for 100 HP. Also fires a laser dealing 10 damage.',
-    interceptor: 'Fires up to 6 missiles at nearby enemies in target direction, each dealing 15 damage (max range: 12m). Also fires a laser dealing 10 damage.',
-    guardian: 'Fires a laser dealing 10 damage. Protect allies ability (placeholder - full implementation pending).',
-    marksman: 'Fires a precise long-range shot at the furthest enemy in direction, dealing 50 damage (max range: 18m). Also fires a laser dealing 10 damage.',
-    engineer: 'Deploys a stationary turret at target location that lasts 10 seconds and attacks enemies. Also fires a laser dealing 10 damage.',
-    skirmisher: 'Quickly retreats 8m in opposite direction and cloaks for 2 seconds. Also fires a laser dealing 10 damage.',
-    paladin: 'Delivers a holy strike in a cone, dealing 40 damage to all enemies within 6m in target direction. Also fires a laser dealing 10 damage.',
-    
-    // Aurum faction
-    snaker: 'Jumps in a line to target position, dealing 20 damage to all enemies along the path (max range: 10m). Also fires a laser dealing 10 damage.',
-    berserker: 'Enters rage mode for 6 seconds, increasing damage by 80%. Also fires a laser dealing 10 damage.',
-    assassin: 'Teleports next to the nearest enemy within 3m of the target point, dealing 45 damage and cloaking for 1.5s. Also fires a laser dealing 10 damage.',
-    juggernaut: 'Slams the ground, dealing 35 damage to enemies within 4m and slowing them to 20% speed for 3s. Also fires a laser dealing 10 damage.',
-    striker: 'Spins in a whirlwind, dealing 30 damage to all enemies within 3m. Also fires a laser dealing 10 damage.',
-    gladiator: 'Executes a lethal strike on nearby low-health enemy, dealing 50% of target\'s current HP (max 100 damage, range: 3m). Also fires a laser dealing 10 damage.',
-    ravager: 'Life steal attack - damages all enemies within 3m for 15 damage each and heals for 50% of total damage dealt. Also fires a laser dealing 10 damage.',
-    warlord: 'Battle cry buffs all allies within 6m, increasing their damage by 50% for 5 seconds. Also fires a laser dealing 10 damage.',
-    duelist: 'Counter-attack stance - creates a 2m shield for 2 seconds that reduces melee damage by 70% and deals 25 damage to nearby enemies. Also fires a laser dealing 10 damage.',
-    reaper: 'Soul strike drains enemies in a narrow line up to 9m, dealing 25 damage and healing for 40% of damage dealt. Also fires a laser dealing 10 damage.',
-    oracle: 'Divine restoration heals allies within 6m for 80 HP and bases for 160 HP. Also fires a laser dealing 10 damage.',
-    harbinger: 'Phases forward 8m, dealing 28 damage to enemies along the path. Also fires a laser dealing 10 damage.',
-    
-    // Solari faction
-    flare: 'Fires a focused solar beam up to 7m, dealing 35 damage to enemies in a narrow line (bases take 50% damage). Also fires a laser dealing 10 damage.',
-    nova: 'Stellar burst detonates around the Nova, dealing 40 damage to enemies within 3.5m. Also fires a laser dealing 10 damage.',
-    eclipse: 'Shadow veil cloaks allies within 6m for 5 seconds. Also fires a laser dealing 10 damage.',
-    corona: 'Unleashes a radiation cone up to 7m, dealing 32 damage in the forward arc. Also fires a laser dealing 10 damage.',
-    supernova: 'After a 2s delay, detonates at target location for 70 damage to enemies and 100 to bases within 5m. Also fires a laser dealing 10 damage.',
-    zenith: 'Solar blessing heals allies within 5.5m for 60 HP, heals bases for 90 HP, and grants +20% damage for 4s. Also fires a laser dealing 10 damage.',
-    pulsar: 'Dives to a target within 10m, dealing 35 damage to enemies within 2.5m on impact. Also fires a laser dealing 10 damage.',
-    celestial: 'Charges up to 8m toward the target, dealing 38 damage to enemies along the path. Also fires a laser dealing 10 damage.',
-    voidwalker: 'Teleports to target location within 12m range, leaving void energy at both positions. Also fires a laser dealing 10 damage.',
-    chronomancer: 'Slows all enemies within 7m radius, reducing their move speed to 30% for 4 seconds. Also fires a laser dealing 10 damage.',
-    nebula: 'Creates a cosmic barrier with 3m radius for 6 seconds that reduces melee damage by 70% for allies inside.',
-    quasar: 'Delayed area ability - after 2.5s, deals 60 damage to enemies and 80 to bases within 4m radius.',
-    luminary: 'Creates a gravity well at target location (8m radius) that pulls enemies toward the center for 3 seconds. Enemies within 2.5m are held in place. Also fires a laser dealing 10 damage.',
-    photon: 'Chain lightning attack - hits the first enemy in direction, then chains up to 5 times to nearby enemies within 6m. Each jump deals 30 damage with 20% falloff. Also fires a laser dealing 10 damage.',
-    starborn: 'Calls down an orbital strike beam at target location after 1.5s delay. The beam lasts 2 seconds, dealing 50 total damage to enemies within 2m radius (bases take 75 total). Also fires a laser dealing 10 damage.',
-    prism: 'Splits light into 5 beams that fan out in a 45° spread pattern, each dealing 15 damage to enemies in their path (9m length). Also fires a laser dealing 10 damage.',
-    
-    // Special units
-    miningDrone: 'Automatically mines resources from assigned deposit and returns them to the depot.',
-  };
-  
-  return abilityDescriptions[unitType] || 'Generic laser ability dealing 10 damage in target direction.';
+  const ability = ABILITY_DEFINITIONS[unitType];
+  return ability.laser
+    ? `${ability.description} Also fires a laser dealing ${ABILITY_LASER_DAMAGE} damage.`
+    : ability.description;
 }
 
 // Helper function to get attack description
@@ -122,6 +76,8 @@ function ModifierBadge({ modifier }: { modifier: UnitModifier }) {
 // Component for displaying a single unit's information
 function UnitCard({ unitType, playerColor }: { unitType: UnitType; playerColor: string }) {
   const def = UNIT_DEFINITIONS[unitType];
+  const ability = ABILITY_DEFINITIONS[unitType];
+  const abilityStats = getAbilityStats(ability);
   
   return (
     <div className="border border-border rounded-lg p-4 hover:bg-muted/20 transition-colors">
@@ -173,6 +129,12 @@ function UnitCard({ unitType, playerColor }: { unitType: UnitType; playerColor:
               <span className="text-muted-foreground">Attack Rate:</span>
               <span className="ml-1 font-semibold text-foreground">{def.attackRate}/s</span>
             </div>
+            {def.detectionRange !== undefined && (
+              <div className="bg-background/50 px-2 py-1 rounded border border-border">
+                <span className="text-muted-foreground">Detection:</span>
+                <span className="ml-1 font-semibold text-foreground">{def.detectionRange}m</span>
+              </div>
+            )}
           </div>
           
           {/* Attack Description */}
@@ -184,9 +146,19 @@ function UnitCard({ unitType, playerColor }: { unitType: UnitType; playerColor:
           {/* Ability Description */}
           <div className="bg-primary/5 border border-primary/20 rounded p-2">
             <p className="text-xs font-semibold text-primary mb-1">
-              {def.abilityName} (CD: {def.abilityCooldown}s):
+              {ability.name} (CD: {ability.cooldown}s):
             </p>
             <p className="text-xs text-muted-foreground">{getAbilityDescription(unitType)}</p>
+            {abilityStats.length > 0 && (
+              <div className="mt-1 space-y-0.5 text-xs">
+                {abilityStats.map((stat, index) => (
+                  <div key={index}>
+                    <span className="text-muted-foreground">{stat.label}:</span>
+                    <span className="ml-1 font-semibold text-foreground">{stat.value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -2,6 +2,7 @@
  * Unit tooltip component displaying unit stats and abilities
  */
 import { UnitType, UNIT_DEFINITIONS, UnitModifier } from '@/lib/types';
+import { ABILITY_DEFINITIONS } from '@/lib/abilities';
 import { Card, CardContent } from './ui/card';
 
 interface UnitTooltipProps {
@@ -46,6 +47,7 @@ export function UnitTooltip({
   armor
 }: UnitTooltipProps) {
   const def = UNIT_DEFINITIONS[unitType];
+  const ability = ABILITY_DEFINITIONS[unitType];
   
   return (
     <div 
@@ -143,13 +145,13 @@ export function UnitTooltip({
           </div>
           
           {/* Ability */}
-          {def.abilityName && (
+          {ability.name && (
             <div className="pt-2 border-t border-border/50">
               <div className="text-xs font-semibold text-primary mb-1">
-                Ability: {def.abilityName}
+                Ability: {ability.name}
               </div>
               <div className="text-xs text-muted-foreground">
-                Cooldown: {def.abilityCooldown}s
+                Cooldown: {ability.cooldown}s
                 {abilityCooldown > 0 && (
                   <span className="text-yellow-400 ml-2">
                     ({abilityCooldown.toFixed(1)}s remaining)
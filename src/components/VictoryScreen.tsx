@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { GameState } from '../lib/types';
+import { getLocalPlayerIndex } from '../lib/gameUtils';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 
@@ -7,6 +8,7 @@ interface VictoryScreenProps {
   gameState: GameState;
   onContinue: () => void;
   onRematch?: () => void;
+  winnerName?: string; // Shown to spectators, who have no side of their own
 }
 
 interface StatDisplay {
@@ -15,13 +17,19 @@ interface StatDisplay {
   visible: boolean;
 }
 
-export function VictoryScreen({ gameState, onContinue, onRematch }: VictoryScreenProps) {
+export function VictoryScreen({ gameState, onContinue, onRematch, winnerName }: VictoryScreenProps) {
   const [visibleStats, setVisibleStats] = useState<number>(0);
   const [showButton, setShowButton] = useState(false);
 
-  const isVictory = gameState.winner === 0;
+  const isSpectating = gameState.spectating === true;
+  // Spectators have no side to lose, so the result is announced in the winning style
+  const isVictory = isSpectating || gameState.winner === getLocalPlayerIndex(gameState);
   const isDraw = gameState.winner === -1;
-  const title = isDraw ? 'Draw!' : isVictory ? 'Victory!' : 'Loss...';
+  const title = isDraw
+    ? 'Draw!'
+    : isSpectating
+      ? `${winnerName || `Player ${(gameState.winner ?? 0) + 1}`} Wins!`
+      : isVictory ? 'Victory!' : 'Loss...';
   
   // Format time as MM:SS
   const formatTime = (seconds: number) => {
@@ -33,7 +41,8 @@ export function VictoryScreen({ gameState, onContinue, onRematch }: VictoryScree
   // Prepare stats to display
   const stats: StatDisplay[] = [];
   
-  if (gameState.matchStats) {
+  // Match stats are counted from one player's side, which a spectator doesn't have
+  if (gameState.matchStats && !isSpectating) {
     const duration = (Date.now() - gameState.matchStats.startTime) / 1000;
     stats.push(
       { label: 'Match Duration', value: formatTime(duration), visible: false },
@@ -91,7 +100,9 @@ export function VictoryScreen({ gameState, onContinue, onRematch }: VictoryScree
           <p className="text-center text-muted-foreground animate-in fade-in slide-in-from-bottom-2 duration-500 delay-500">
             {isDraw 
               ? 'Time limit reached! Both players dealt equal damage.' 
-              : isVictory 
+              : isSpectating
+                ? 'The match is over.'
+                : isVictory 
                 ? gameState.elapsedTime >= (gameState.matchTimeLimit || 300) 
                   ? 'Time limit reached! Your base took less damage.'
                   : 'You destroyed the enemy base!' 
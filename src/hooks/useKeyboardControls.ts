@@ -9,10 +9,13 @@ export interface KeyboardActions {
   onStop?: () => void; // S
   onAttackMove?: () => void; // A
   onPause?: () => void; // P
+  onCycleStance?: () => void; // H
+  onGuard?: () => void; // G
+  onFollow?: () => void; // T
   onNumberKey?: (number: number) => void; // 1-8 for control groups
 }
 
-const GAME_CONTROL_KEYS = ['Escape', ' ', 'Enter', 'a', 'A', 'd', 'D', 's', 'S', 'p', 'P', '1', '2', '3', '4', '5', '6', '7', '8'];
+const GAME_CONTROL_KEYS = ['Escape', ' ', 'Enter', 'a', 'A', 'd', 'D', 's', 'S', 'p', 'P', 'h', 'H', 'g', 'G', 't', 'T', '1', '2', '3', '4', '5', '6', '7', '8'];
 
 export function useKeyboardControls(actions: KeyboardActions, enabled: boolean = true) {
   useEffect(() => {
@@ -67,6 +70,18 @@ export function useKeyboardControls(actions: KeyboardActions, enabled: boolean =
         case 'P':
           actions.onPause?.();
           break;
+        case 'h':
+        case 'H':
+          actions.onCycleStance?.();
+          break;
+        case 'g':
+        case 'G':
+          actions.onGuard?.();
+          break;
+        case 't':
+        case 'T':
+          actions.onFollow?.();
+          break;
       }
     };
 
@@ -0,0 +1,880 @@
+/**
+ * Ability registry - what every unit's ability does, as data. Each ability declares how it is
+ * aimed, its range and cooldown, the effect components the simulation applies in order, and the
+ * visuals shown when it is cast. The simulation (executeAbility) interprets these definitions, and
+ * the unit information screen describes abilities from the same data, so balance changes and new
+ * units built from existing components only touch this file.
+ */
+
+import { ABILITY_MAX_RANGE, StatusEffectType, UNIT_SIZE_METERS, UnitType } from './types';
+import { STATUS_EFFECT_DEFINITIONS } from './statusEffects';
+
+// How a cast is aimed. Direction and point casts come from the drag vector of the ability command;
+// point casts land at the end of the drag, clamped to the ability range.
+export type AbilityTargeting = 'self' | 'direction' | 'point';
+
+// Shape an area component affects. Lines, paths and cones start at the caster and follow the aim.
+export type AbilityArea =
+  | { shape: 'circle'; anchor: 'caster' | 'target'; radius: number }
+  | { shape: 'line'; length: number; halfWidth: number; count?: number; spread?: number } // count lines fanned over spread degrees
+  | { shape: 'path'; halfWidth: number } // From the caster to the target point
+  | { shape: 'cone'; length: number; halfWidth: number; widening: number }; // Half width grows by widening per meter
+
+// Shields come from the shield component, which also sets up the dome
+export type AbilityStatus = Exclude<StatusEffectType, 'shield'>;
+
+export type AbilityComponent =
+  | {
+      kind: 'damage';
+      area: AbilityArea;
+      amount: number; // Per enemy unit hit, before the caster's damage multiplier
+      baseAmount?: number; // Per enemy base in the area; bases are unaffected when omitted
+      respectsShields?: boolean; // Reduced by shield domes like a ranged hit
+      delayMs?: number;
+      durationMs?: number; // Spread amount over ticks for this long
+      tickMs?: number;
+      lifeSteal?: number; // Fraction of the damage dealt that heals the caster
+      sparks: number; // Hit sparks per enemy unit hit
+      sparkChance?: number; // Chance each hit shows its sparks
+      baseImpact?: boolean; // Show an impact the size of the area on bases hit
+    }
+  | {
+      kind: 'strike'; // Single target along the aim
+      reach: number;
+      halfWidth: number;
+      pick: 'nearest' | 'furthest';
+      amount: number;
+      hits?: number; // Repeated hits on the same target
+      currentHpFraction?: number; // Damage is this fraction of the target's hp, at most amount
+      respectsShields?: boolean;
+      sparks: number;
+      hitPulse?: { radius: number; duration: number };
+    }
+  | {
+      kind: 'chain'; // Hits the first enemy along the aim, then jumps to the nearest unhit enemy
+      reach: number;
+      halfWidth: number;
+      amount: number;
+      jumps: number;
+      jumpRange: number;
+      falloff: number; // Damage multiplier per jump
+      sparks: number;
+    }
+  | {
+      kind: 'heal';
+      radius: number; // Around the caster
+      amount: number;
+      baseAmount: number;
+      pulseMs: number; // How long the heal pulse shows on the caster
+      highlight?: boolean; // Pulse on each healed ally
+    }
+  | {
+      kind: 'shield';
+      affects: 'self' | 'allies';
+      radius?: number; // Allies within this distance of the caster get a dome
+      domeRadius: number;
+      durationMs: number;
+      rangedMultiplier?: number; // Damage multipliers for allies inside the dome
+      meleeMultiplier?: number;
+      highlight?: boolean;
+    }
+  | {
+      kind: 'dash';
+      to: 'target' | 'forward' | 'backward';
+      distance?: number; // Forward and backward dashes
+    }
+  | {
+      kind: 'leap'; // Dash next to the enemy nearest the caster around the target point and strike it; ends the cast when there is none
+      searchRadius: number;
+      standoff: number;
+      amount: number;
+      sparks: number;
+    }
+  | {
+      kind: 'summon';
+      unitType: UnitType;
+      hp: number;
+      damageMultiplier: number;
+      lifetimeMs: number;
+    }
+  | {
+      kind: 'status';
+      status: AbilityStatus;
+      affects: 'self' | 'allies' | 'enemies';
+      radius?: number; // Around the caster, for allies and enemies
+      amount?: number; // Effect strength (see STATUS_EFFECT_DEFINITIONS): slow - fraction of move speed lost, damage boost - added damage multiplier
+      durationMs: number;
+      revealMs?: number; // Cloak: dealing damage reveals the caster for this long instead of breaking the cloak
+      highlight?: boolean;
+    }
+  | {
+      kind: 'pull'; // Pulls enemies around the target point toward it
+      radius: number;
+      holdRadius: number; // Enemies this close are held in place
+      force: number; // Meters per pull
+      intervalMs: number;
+      durationMs: number;
+      sparkChance: number;
+    }
+  | {
+      kind: 'bombardment'; // Sustained area damage at the target point, drawn with a targeting reticle
+      radius: number;
+      delayMs: number;
+      durationMs: number;
+      damagePerSecond: number;
+      baseDamagePerSecond: number;
+    }
+  | {
+      kind: 'missiles'; // Missiles at the nearest visible enemies ahead, landing together
+      reach: number;
+      count: number;
+      amount: number;
+      flightMs: number;
+    }
+  | {
+      kind: 'knifeVolley'; // Knives thrown one after another, faster the longer the drag
+      angles: number[]; // Degrees off the aim, in throw order
+      windupMs: number;
+      intervalMs: number;
+      amount: number;
+      speed: number; // At full drag length
+      lifetimeMs: number;
+    }
+  | {
+      kind: 'ambush'; // Reveal, throw a knife after a delay, then recloak
+      delayMs: number;
+      revealMs: number; // Visible after the throw, and after any other damage the cloaked unit deals
+      reach: number;
+      amount: number;
+      speed: number;
+      lifetimeMs: number;
+    }
+  | {
+      kind: 'lineJump'; // Telegraph, then jump along the aim hitting everything on the way
+      windupMs: number;
+      amount: number;
+    };
+
+export type AbilityComponentKind = AbilityComponent['kind'];
+
+// Cosmetic effects of a cast, emitted after its components (or delayMs later)
+export type AbilityVisual = (
+  | { kind: 'pulse'; at: 'origin' | 'caster' | 'target'; radius: number; duration: number } // origin: where the caster stood when casting
+  | { kind: 'flash'; intensity: number; duration: number }
+  | { kind: 'beams' } // Laser lines along the ability's line areas
+  | { kind: 'shells'; count: number }
+) & { delayMs?: number };
+
+export interface AbilityDefinition {
+  name: string;
+  description: string; // What it does, without numbers; stats come from the components
+  targeting: AbilityTargeting;
+  range: number; // Meters; point casts are clamped to it
+  cooldown: number; // Seconds
+  laser: boolean; // Also fires the generic ability laser along the drag
+  components: AbilityComponent[];
+  visual: string; // Cast effect key (createAbilityEffect)
+  visuals: AbilityVisual[];
+}
+
+export const ABILITY_DEFINITIONS: Record<UnitType, AbilityDefinition> = {
+  // Radiant faction
+  marine: {
+    name: 'Burst Fire',
+    description: 'Fires a rapid burst at the nearest enemy in the target direction.',
+    targeting: 'direction',
+    range: 8,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'strike', reach: 8, halfWidth: UNIT_SIZE_METERS / 2, pick: 'nearest', amount: 2, hits: 10, respectsShields: true, sparks: 4 },
+    ],
+    visual: 'burst-fire',
+    visuals: [{ kind: 'shells', count: 10 }],
+  },
+  warrior: {
+    name: 'Blade Volley',
+    description: 'Compresses the sword into one point, then throws a fan of knives in quick succession. Knife speed scales with the drag distance.',
+    targeting: 'direction',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: false,
+    components: [
+      { kind: 'knifeVolley', angles: [-10, -5, 0, 5, 10], windupMs: 120, intervalMs: 60, amount: 6, speed: 20, lifetimeMs: 1400 },
+    ],
+    visual: 'blade-volley',
+    visuals: [],
+  },
+  tank: {
+    name: 'Shield Dome',
+    description: 'Raises a dome that protects friendly units inside from ranged damage.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'shield', affects: 'self', domeRadius: 4, durationMs: 5000, rangedMultiplier: 0.5, meleeMultiplier: 1 },
+    ],
+    visual: 'shield-dome',
+    visuals: [],
+  },
+  scout: {
+    name: 'Ambush Throw',
+    description: 'Always cloaked, but briefly revealed when it deals damage. Reveals the Dagger, throws a knife in the cast direction after a delay, then recloaks.',
+    targeting: 'direction',
+    range: 10,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'ambush', delayMs: 2000, revealMs: 1000, reach: 10, amount: 8, speed: 18, lifetimeMs: 1400 },
+    ],
+    visual: 'cloak',
+    visuals: [],
+  },
+  artillery: {
+    name: 'Bombardment',
+    description: 'Shells the target location after a delay.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'bombardment', radius: 3, delayMs: 1500, durationMs: 500, damagePerSecond: 40, baseDamagePerSecond: 80 },
+    ],
+    visual: 'bombardment',
+    visuals: [],
+  },
+  medic: {
+    name: 'Heal Pulse',
+    description: 'Heals nearby friendly units and bases.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'heal', radius: 5, amount: 50, baseAmount: 100, pulseMs: 1000 }],
+    visual: 'heal-pulse',
+    visuals: [],
+  },
+  interceptor: {
+    name: 'Missile Barrage',
+    description: 'Fires missiles at the nearest enemies in the target direction.',
+    targeting: 'direction',
+    range: 12,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'missiles', reach: 12, count: 6, amount: 15, flightMs: 1500 }],
+    visual: 'missile-barrage',
+    visuals: [],
+  },
+  marksman: {
+    name: 'Precision Shot',
+    description: 'Fires a precise long-range shot at the furthest enemy in the target direction.',
+    targeting: 'direction',
+    range: 18,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'strike', reach: 18, halfWidth: 1, pick: 'furthest', amount: 50, respectsShields: true, sparks: 8, hitPulse: { radius: 1.5, duration: 0.3 } },
+    ],
+    visual: 'precision-shot',
+    visuals: [],
+  },
+  engineer: {
+    name: 'Deploy Turret',
+    description: 'Deploys a temporary stationary turret at the target location.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'summon', unitType: 'scout', hp: 30, damageMultiplier: 0.5, lifetimeMs: 10000 }],
+    visual: 'deploy-turret',
+    visuals: [],
+  },
+  skirmisher: {
+    name: 'Rapid Retreat',
+    description: 'Leaps away from the target direction and cloaks.',
+    targeting: 'direction',
+    range: 8,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'dash', to: 'backward', distance: 8 },
+      { kind: 'status', status: 'cloak', affects: 'self', durationMs: 2000 },
+    ],
+    visual: 'rapid-retreat',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 2, duration: 0.3 }],
+  },
+  paladin: {
+    name: 'Holy Strike',
+    description: 'Strikes every enemy in a wide band in the target direction.',
+    targeting: 'direction',
+    range: 6,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'damage', area: { shape: 'line', length: 6, halfWidth: 2 }, amount: 40, sparks: 6 }],
+    visual: 'holy-strike',
+    visuals: [],
+  },
+
+  // Aurum faction
+  snaker: {
+    name: 'Line Jump',
+    description: 'Telegraphs a jump, then leaps along the target direction, striking every enemy on the way.',
+    targeting: 'direction',
+    range: 10,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [{ kind: 'lineJump', windupMs: 500, amount: 20 }],
+    visual: 'line-jump',
+    visuals: [],
+  },
+  berserker: {
+    name: 'Rage',
+    description: 'Flies into a rage, boosting its own damage.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [{ kind: 'status', status: 'damageBoost', affects: 'self', amount: 0.8, durationMs: 6000 }],
+    visual: 'rage',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 2, duration: 0.5 }],
+  },
+  assassin: {
+    name: 'Shadow Strike',
+    description: 'Teleports next to the nearest enemy around the target point, strikes it and briefly cloaks.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'leap', searchRadius: 3, standoff: 1.2, amount: 45, sparks: 8 },
+      { kind: 'status', status: 'cloak', affects: 'self', durationMs: 1500 },
+    ],
+    visual: 'shadow-strike',
+    visuals: [
+      { kind: 'pulse', at: 'origin', radius: 2, duration: 0.3 },
+      { kind: 'pulse', at: 'caster', radius: 2, duration: 0.4 },
+    ],
+  },
+  juggernaut: {
+    name: 'Ground Slam',
+    description: 'Slams the ground, damaging and slowing nearby enemies.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'circle', anchor: 'caster', radius: 4 }, amount: 35, sparks: 6 },
+      { kind: 'status', status: 'slow', affects: 'enemies', radius: 4, amount: 0.8, durationMs: 3000 },
+    ],
+    visual: 'ground-slam',
+    visuals: [
+      { kind: 'pulse', at: 'caster', radius: 4, duration: 0.7 },
+      { kind: 'flash', intensity: 0.3, duration: 0.2 },
+    ],
+  },
+  striker: {
+    name: 'Whirlwind',
+    description: 'Spins, hitting every nearby enemy.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [{ kind: 'damage', area: { shape: 'circle', anchor: 'caster', radius: 3 }, amount: 30, sparks: 5 }],
+    visual: 'whirlwind',
+    visuals: [
+      { kind: 'pulse', at: 'caster', radius: 3, duration: 0.4 },
+      { kind: 'pulse', at: 'caster', radius: 3, duration: 0.4, delayMs: 200 },
+      { kind: 'pulse', at: 'caster', radius: 3, duration: 0.4, delayMs: 400 },
+    ],
+  },
+  gladiator: {
+    name: 'Lethal Strike',
+    description: 'Executes the nearest enemy in front, dealing a share of its current HP.',
+    targeting: 'direction',
+    range: 3,
+    cooldown: 3, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'strike', reach: 3, halfWidth: 3, pick: 'nearest', amount: 100, currentHpFraction: 0.5, sparks: 10, hitPulse: { radius: 2, duration: 0.5 } },
+    ],
+    visual: 'lethal-strike',
+    visuals: [],
+  },
+  ravager: {
+    name: 'Blood Hunt',
+    description: 'Savages nearby enemies and heals from the damage dealt.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 3, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'circle', anchor: 'caster', radius: 3 }, amount: 15, lifeSteal: 0.5, sparks: 4 },
+    ],
+    visual: 'blood-hunt',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 3, duration: 0.4 }],
+  },
+  warlord: {
+    name: 'Battle Cry',
+    description: 'Rallies nearby allies, boosting their damage.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 3, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'status', status: 'damageBoost', affects: 'allies', radius: 6, amount: 0.5, durationMs: 5000, highlight: true },
+    ],
+    visual: 'battle-cry',
+    visuals: [],
+  },
+  duelist: {
+    name: 'Riposte',
+    description: 'Takes a counter-attack stance that blunts melee damage and cuts down enemies in reach.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 3, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'shield', affects: 'self', domeRadius: 2, durationMs: 2000, meleeMultiplier: 0.3 },
+      { kind: 'damage', area: { shape: 'circle', anchor: 'caster', radius: 2 }, amount: 25, sparks: 6 },
+    ],
+    visual: 'riposte',
+    visuals: [],
+  },
+  reaper: {
+    name: 'Soul Strike',
+    description: 'Drains enemies in a narrow line and heals from the damage dealt.',
+    targeting: 'direction',
+    range: 9,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'line', length: 9, halfWidth: 1.5 }, amount: 25, lifeSteal: 0.4, sparks: 6 },
+    ],
+    visual: 'soul-strike',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 2.5, duration: 0.4 }],
+  },
+  oracle: {
+    name: 'Divine Restoration',
+    description: 'Restores nearby friendly units and bases.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [{ kind: 'heal', radius: 6, amount: 80, baseAmount: 160, pulseMs: 1500, highlight: true }],
+    visual: 'divine-restoration',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 6, duration: 0.6 }],
+  },
+  harbinger: {
+    name: 'Ethereal Strike',
+    description: 'Phases forward through enemies, damaging everything along the path.',
+    targeting: 'direction',
+    range: 8,
+    cooldown: 4, // Reduced from 5 for more strategic spell-casting
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'line', length: 8, halfWidth: 1.5 }, amount: 28, sparks: 6 },
+      { kind: 'dash', to: 'forward', distance: 8 },
+    ],
+    visual: 'ethereal-strike',
+    visuals: [
+      { kind: 'pulse', at: 'origin', radius: 2, duration: 0.3 },
+      { kind: 'pulse', at: 'caster', radius: 2, duration: 0.3 },
+    ],
+  },
+
+  // Solari faction
+  flare: {
+    name: 'Solar Beam',
+    description: 'Fires a focused beam that burns enemies and bases in a narrow line.',
+    targeting: 'direction',
+    range: 7,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'line', length: 7, halfWidth: 0.3 }, amount: 35, baseAmount: 17.5, sparks: 6 },
+    ],
+    visual: 'solar-beam',
+    visuals: [{ kind: 'beams' }],
+  },
+  nova: {
+    name: 'Stellar Burst',
+    description: 'Detonates around itself.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'damage', area: { shape: 'circle', anchor: 'caster', radius: 3.5 }, amount: 40, sparks: 7 }],
+    visual: 'stellar-burst',
+    visuals: [
+      { kind: 'pulse', at: 'caster', radius: 3.5, duration: 0.6 },
+      { kind: 'flash', intensity: 0.2, duration: 0.15 },
+    ],
+  },
+  eclipse: {
+    name: 'Shadow Veil',
+    description: 'Cloaks itself and nearby allies.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'status', status: 'cloak', affects: 'allies', radius: 6, durationMs: 5000, highlight: true }],
+    visual: 'shadow-veil',
+    visuals: [],
+  },
+  corona: {
+    name: 'Radiation Wave',
+    description: 'Unleashes a widening cone of radiation.',
+    targeting: 'direction',
+    range: 7,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'cone', length: 7, halfWidth: 1, widening: 0.5 }, amount: 32, sparks: 6 },
+    ],
+    visual: 'radiation-wave',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 3, duration: 0.5 }],
+  },
+  supernova: {
+    name: 'Cosmic Explosion',
+    description: 'Marks the target location, then detonates it.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'bombardment', radius: 3, delayMs: 2000, durationMs: 500, damagePerSecond: 40, baseDamagePerSecond: 80 },
+      { kind: 'damage', area: { shape: 'circle', anchor: 'target', radius: 5 }, amount: 70, baseAmount: 100, delayMs: 2000, sparks: 10, baseImpact: true },
+    ],
+    visual: 'cosmic-explosion',
+    visuals: [
+      { kind: 'pulse', at: 'target', radius: 5, duration: 1.0, delayMs: 2000 },
+      { kind: 'flash', intensity: 0.4, duration: 0.3, delayMs: 2000 },
+    ],
+  },
+  guardian: {
+    name: 'Protect Allies',
+    description: 'Wraps nearby allies in domes that blunt melee damage.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'shield', affects: 'allies', radius: 5, domeRadius: 3, durationMs: 6000, meleeMultiplier: 0.3, highlight: true },
+    ],
+    visual: 'protect-allies',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 5, duration: 0.5 }],
+  },
+  zenith: {
+    name: 'Solar Blessing',
+    description: 'Heals nearby friendly units and bases and boosts allied damage.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'heal', radius: 5.5, amount: 60, baseAmount: 90, pulseMs: 1200, highlight: true },
+      { kind: 'status', status: 'damageBoost', affects: 'allies', radius: 5.5, amount: 0.2, durationMs: 4000 },
+    ],
+    visual: 'solar-blessing',
+    visuals: [{ kind: 'pulse', at: 'caster', radius: 5.5, duration: 0.5 }],
+  },
+  pulsar: {
+    name: 'Stellar Dive',
+    description: 'Dives onto the target point, damaging enemies where it lands.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'circle', anchor: 'target', radius: 2.5 }, amount: 35, sparks: 6 },
+      { kind: 'dash', to: 'target' },
+    ],
+    visual: 'stellar-dive',
+    visuals: [
+      { kind: 'pulse', at: 'origin', radius: 2, duration: 0.3 },
+      { kind: 'pulse', at: 'caster', radius: 2.5, duration: 0.5 },
+    ],
+  },
+  celestial: {
+    name: 'Astral Charge',
+    description: 'Charges toward the target point, damaging enemies along the path.',
+    targeting: 'point',
+    range: 8,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'path', halfWidth: 1.5 }, amount: 38, sparks: 7 },
+      { kind: 'dash', to: 'target' },
+    ],
+    visual: 'astral-charge',
+    visuals: [
+      { kind: 'pulse', at: 'origin', radius: 2, duration: 0.3 },
+      { kind: 'pulse', at: 'caster', radius: 2, duration: 0.4 },
+    ],
+  },
+  voidwalker: {
+    name: 'Void Step',
+    description: 'Teleports to the target point, leaving void energy at both ends, and stays cloaked until it strikes.',
+    targeting: 'point',
+    range: 12,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'dash', to: 'target' },
+      { kind: 'status', status: 'cloak', affects: 'self', durationMs: 2000 },
+    ],
+    visual: 'void-step',
+    visuals: [
+      { kind: 'pulse', at: 'origin', radius: 3, duration: 0.4 },
+      { kind: 'pulse', at: 'caster', radius: 3, duration: 0.4 },
+    ],
+  },
+  chronomancer: {
+    name: 'Time Dilation',
+    description: 'Slows nearby enemies.',
+    targeting: 'self',
+    range: 0,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'status', status: 'slow', affects: 'enemies', radius: 7, amount: 0.7, durationMs: 4000, highlight: true },
+    ],
+    visual: 'time-dilation',
+    visuals: [],
+  },
+  nebula: {
+    name: 'Cosmic Barrier',
+    description: 'Raises a barrier that blunts melee damage to allies inside.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'shield', affects: 'self', domeRadius: 3, durationMs: 6000, meleeMultiplier: 0.3 }],
+    visual: 'cosmic-barrier',
+    visuals: [{ kind: 'pulse', at: 'target', radius: 3, duration: 0.5 }],
+  },
+  quasar: {
+    name: 'Stellar Convergence',
+    description: 'Focuses starlight on the target point, which erupts after a delay.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'bombardment', radius: 3, delayMs: 2500, durationMs: 500, damagePerSecond: 40, baseDamagePerSecond: 80 },
+      { kind: 'damage', area: { shape: 'circle', anchor: 'target', radius: 4 }, amount: 60, baseAmount: 80, delayMs: 2500, sparks: 8, baseImpact: true },
+    ],
+    visual: 'stellar-convergence',
+    visuals: [{ kind: 'pulse', at: 'target', radius: 4, duration: 0.8, delayMs: 2500 }],
+  },
+  luminary: {
+    name: 'Gravity Well',
+    description: 'Opens a gravity well that drags enemies toward its center and holds those caught in it.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'pull', radius: 8, holdRadius: 2.5, force: 0.8, intervalMs: 50, durationMs: 3000, sparkChance: 0.3 }],
+    visual: 'gravity-well',
+    visuals: [
+      { kind: 'pulse', at: 'target', radius: 8, duration: 0.5 },
+      { kind: 'pulse', at: 'target', radius: 3, duration: 0.3, delayMs: 3000 },
+    ],
+  },
+  photon: {
+    name: 'Chain Lightning',
+    description: 'Lightning hits the first enemy in the target direction, then jumps between nearby enemies, weakening with each jump.',
+    targeting: 'direction',
+    range: 12,
+    cooldown: 5,
+    laser: true,
+    components: [{ kind: 'chain', reach: 12, halfWidth: 3, amount: 30, jumps: 5, jumpRange: 6, falloff: 0.8, sparks: 8 }],
+    visual: 'chain-lightning',
+    visuals: [],
+  },
+  starborn: {
+    name: 'Orbital Strike',
+    description: 'Calls down a sustained beam from orbit onto the target point.',
+    targeting: 'point',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'bombardment', radius: 3, delayMs: 1500, durationMs: 2000, damagePerSecond: 40, baseDamagePerSecond: 80 },
+      {
+        kind: 'damage',
+        area: { shape: 'circle', anchor: 'target', radius: 2 },
+        amount: 50,
+        baseAmount: 75,
+        respectsShields: true,
+        delayMs: 1500,
+        durationMs: 2000,
+        tickMs: 200,
+        sparks: 3,
+        sparkChance: 0.4,
+      },
+    ],
+    visual: 'orbital-strike',
+    visuals: [
+      { kind: 'pulse', at: 'target', radius: 2, duration: 0.4 },
+      { kind: 'pulse', at: 'target', radius: 3, duration: 0.6, delayMs: 3500 },
+    ],
+  },
+  prism: {
+    name: 'Light Refraction',
+    description: 'Splits its light into beams that fan out in the target direction.',
+    targeting: 'direction',
+    range: 9,
+    cooldown: 5,
+    laser: true,
+    components: [
+      { kind: 'damage', area: { shape: 'line', length: 9, halfWidth: 0.5, count: 5, spread: 45 }, amount: 15, respectsShields: true, sparks: 4 },
+    ],
+    visual: 'light-refraction',
+    visuals: [{ kind: 'beams' }, { kind: 'pulse', at: 'caster', radius: 2, duration: 0.5 }],
+  },
+
+  // Special units
+  miningDrone: {
+    name: 'Mine Resources',
+    description: 'Automatically mines resources from its assigned deposit and returns them to the depot.',
+    targeting: 'direction',
+    range: ABILITY_MAX_RANGE,
+    cooldown: 0,
+    laser: true,
+    components: [],
+    visual: 'mine-resources',
+    visuals: [],
+  },
+};
+
+/**
+ * Find the first component of a kind in a unit type's ability, for effects that play out over
+ * later steps (bombardments, missiles, knife volleys)
+ */
+export function getAbilityComponent<K extends AbilityComponentKind>(
+  unitType: UnitType,
+  kind: K
+): Extract<AbilityComponent, { kind: K }> | undefined {
+  return ABILITY_DEFINITIONS[unitType].components.find(
+    (component): component is Extract<AbilityComponent, { kind: K }> => component.kind === kind
+  );
+}
+
+export interface AbilityStat {
+  label: string;
+  value: string;
+}
+
+/**
+ * Describe an ability's numbers for the unit information screen
+ * @param ability - Ability to describe
+ * @returns One stat per line, in component order
+ */
+export function getAbilityStats(ability: AbilityDefinition): AbilityStat[] {
+  const stats: AbilityStat[] = [];
+  if (ability.targeting !== 'self') {
+    stats.push({ label: 'Range', value: `${ability.range}m` });
+  }
+  ability.components.forEach((component) => {
+    stats.push(...describeComponent(component));
+  });
+  return stats;
+}
+
+function describeComponent(component: AbilityComponent): AbilityStat[] {
+  switch (component.kind) {
+    case 'damage': {
+      const ticks = component.tickMs && component.durationMs ? ` over ${seconds(component.durationMs)}` : '';
+      const delay = component.delayMs ? ` after ${seconds(component.delayMs)}` : '';
+      const stats = [{ label: 'Damage', value: `${component.amount} ${describeArea(component.area)}${ticks}${delay}` }];
+      if (component.baseAmount !== undefined) {
+        stats.push({ label: 'Base damage', value: `${component.baseAmount}` });
+      }
+      if (component.lifeSteal) {
+        stats.push({ label: 'Life steal', value: percent(component.lifeSteal) });
+      }
+      return stats;
+    }
+    case 'strike': {
+      const amount = component.currentHpFraction
+        ? `${percent(component.currentHpFraction)} of current HP, max ${component.amount}`
+        : component.hits
+          ? `${component.hits} × ${component.amount}`
+          : `${component.amount}`;
+      return [{ label: 'Damage', value: `${amount} to the ${component.pick} enemy within ${component.reach}m` }];
+    }
+    case 'chain':
+      return [
+        { label: 'Damage', value: `${component.amount}, −${percent(1 - component.falloff)} per jump` },
+        { label: 'Jumps', value: `${component.jumps} within ${component.jumpRange}m` },
+      ];
+    case 'heal':
+      return [{ label: 'Heal', value: `${component.amount} (bases ${component.baseAmount}) within ${component.radius}m` }];
+    case 'shield': {
+      const reductions = [
+        component.rangedMultiplier !== undefined && component.rangedMultiplier < 1 ? `ranged −${percent(1 - component.rangedMultiplier)}` : '',
+        component.meleeMultiplier !== undefined && component.meleeMultiplier < 1 ? `melee −${percent(1 - component.meleeMultiplier)}` : '',
+      ].filter(Boolean).join(', ');
+      const who = component.affects === 'allies' ? ` on allies within ${component.radius}m` : '';
+      return [{ label: 'Shield', value: `${component.domeRadius}m dome${who}, ${reductions} for ${seconds(component.durationMs)}` }];
+    }
+    case 'dash':
+      return component.to === 'target' ? [] : [{ label: 'Dash', value: `${component.distance}m ${component.to}` }];
+    case 'leap':
+      return [{ label: 'Damage', value: `${component.amount} to the nearest enemy within ${component.searchRadius}m of the target` }];
+    case 'summon':
+      return [{ label: 'Turret', value: `${component.hp} HP for ${seconds(component.lifetimeMs)}` }];
+    case 'status': {
+      const who = component.affects === 'self' ? 'self' : `${component.affects} within ${component.radius}m`;
+      const effect = STATUS_EFFECT_DEFINITIONS[component.status].describe(component.amount ?? 1);
+      const lines = [{ label: 'Effect', value: `${effect} on ${who} for ${seconds(component.durationMs)}` }];
+      if (component.status === 'cloak') {
+        lines.push({ label: 'Reveal', value: component.revealMs ? `${seconds(component.revealMs)} after dealing damage` : 'Broken by dealing damage' });
+      }
+      return lines;
+    }
+    case 'pull':
+      return [{ label: 'Pull', value: `Enemies within ${component.radius}m for ${seconds(component.durationMs)}, held within ${component.holdRadius}m` }];
+    case 'bombardment':
+      return [
+        {
+          label: 'Bombardment',
+          value: `${component.damagePerSecond}/s (bases ${component.baseDamagePerSecond}/s) within ${component.radius}m for ${seconds(component.durationMs)} after ${seconds(component.delayMs)}`,
+        },
+      ];
+    case 'missiles':
+      return [{ label: 'Missiles', value: `${component.count} × ${component.amount} within ${component.reach}m` }];
+    case 'knifeVolley':
+      return [{ label: 'Knives', value: `${component.angles.length} × ${component.amount}` }];
+    case 'ambush':
+      return [
+        { label: 'Knife', value: `${component.amount} after ${seconds(component.delayMs)}, ${component.reach}m` },
+        { label: 'Reveal', value: `${seconds(component.revealMs)} after throwing or dealing damage` },
+      ];
+    case 'lineJump':
+      return [{ label: 'Damage', value: `${component.amount} along the jump after ${seconds(component.windupMs)}` }];
+  }
+}
+
+function describeArea(area: AbilityArea): string {
+  switch (area.shape) {
+    case 'circle':
+      return area.anchor === 'target' ? `within ${area.radius}m of the target` : `within ${area.radius}m`;
+    case 'line':
+      return area.count && area.count > 1 ? `per beam, ${area.count} beams of ${area.length}m` : `in a ${area.length}m line`;
+    case 'path':
+      return 'along the path';
+    case 'cone':
+      return `in a ${area.length}m cone`;
+  }
+}
+
+function seconds(ms: number): string {
+  return `${ms / 1000}s`;
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
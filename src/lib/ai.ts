@@ -1,35 +1,146 @@
-import { GameState, UNIT_DEFINITIONS, UnitType, QUEUE_MAX_LENGTH, MiningDepot } from './types';
-import { spawnUnit } from './simulation';
-import { distance, add } from './gameUtils';
-
-let lastAIAction = 0;
-const AI_ACTION_INTERVAL = 2.0;
+import {
+  GameState,
+  Unit,
+  Base,
+  UnitType,
+  Vector2,
+  CommandNode,
+  FactionType,
+  AIPlayerMemory,
+  AISquad,
+  AISquadMode,
+  Structure,
+  StructureType,
+  UNIT_DEFINITIONS,
+  FACTION_DEFINITIONS,
+  STRUCTURE_DEFINITIONS,
+  BASE_TYPE_DEFINITIONS,
+  ABILITY_MAX_RANGE,
+  LASER_RANGE,
+  LASER_WIDTH,
+  BASE_SIZE_METERS,
+  UNIT_SIZE_METERS,
+} from './types';
+import { applyGameplayCommand, isValidStructurePlacement, UnitOrder, UnitOrderMode } from './commands';
+import { distance, add, subtract, scale, normalize } from './gameUtils';
+import { nextRandom, getSimulationTime } from './determinism';
+import { checkObstacleCollision, findChokepoints } from './maps';
+import { findPath } from './navigation';
+import { canPlayerSee } from './vision';
+import { isHiddenFrom } from './stealth';
+import { hasStatusEffect } from './statusEffects';
 
 // AI difficulty settings
 const DIFFICULTY_SETTINGS = {
   easy: {
     actionInterval: 3.0,
-    commandChance: 0.2,
-    abilityChance: 0.1,
-    economicBuildThreshold: 0.4, // 40% chance to build economy when not pressured
-    droneSpawnThreshold: 0.3,
+    commandChance: 0.4, // Chance per decision that a squad reacts to a changed situation
+    abilityChance: 0.15, // Chance per decision that a unit with a good target uses its ability
+    economyWeight: 0.5, // How much the AI values filling open mining slots
+    squadSize: 6, // Units gathered before a squad attacks
+    retreatHealthRatio: 0.2, // Attacking squads below this share of their hp pull back
+    attackAdvantage: 1.5, // Required army value relative to the enemy army last seen
   },
   medium: {
     actionInterval: 2.0,
-    commandChance: 0.3,
-    abilityChance: 0.2,
-    economicBuildThreshold: 0.5, // 50% chance to build economy when not pressured
-    droneSpawnThreshold: 0.5,
+    commandChance: 0.6,
+    abilityChance: 0.3,
+    economyWeight: 0.7,
+    squadSize: 5,
+    retreatHealthRatio: 0.3,
+    attackAdvantage: 1.2,
   },
   hard: {
     actionInterval: 1.5,
-    commandChance: 0.4,
-    abilityChance: 0.3,
-    economicBuildThreshold: 0.6, // 60% chance to build economy when not pressured
-    droneSpawnThreshold: 0.7,
+    commandChance: 0.85,
+    abilityChance: 0.5,
+    economyWeight: 0.9,
+    squadSize: 5,
+    retreatHealthRatio: 0.35,
+    attackAdvantage: 1.0,
+  },
+};
+
+type AIDifficultyConfig = typeof DIFFICULTY_SETTINGS.medium;
+
+// Per-faction build orders: the opener runs once, then the core repeats for the rest of the match.
+// Entries disabled for this match are skipped.
+const BUILD_ORDERS: Record<FactionType, { opener: UnitType[]; core: UnitType[] }> = {
+  radiant: {
+    opener: ['marine', 'marine', 'scout', 'warrior', 'marine', 'medic'],
+    core: ['marine', 'tank', 'warrior', 'artillery', 'marine', 'skirmisher', 'medic', 'marksman', 'guardian', 'interceptor', 'paladin', 'engineer'],
+  },
+  aurum: {
+    opener: ['snaker', 'berserker', 'striker', 'assassin', 'reaper', 'oracle'],
+    core: ['berserker', 'reaper', 'juggernaut', 'striker', 'duelist', 'harbinger', 'oracle', 'gladiator', 'ravager', 'assassin', 'warlord', 'snaker'],
+  },
+  solari: {
+    opener: ['flare', 'flare', 'prism', 'nova', 'eclipse', 'zenith'],
+    core: ['nova', 'corona', 'photon', 'celestial', 'voidwalker', 'zenith', 'luminary', 'starborn', 'pulsar', 'chronomancer', 'quasar', 'nebula', 'supernova', 'flare'],
   },
 };
 
+// Photon cost of a mining drone (matches the depot drag command)
+const MINING_DRONE_COST = 10;
+// Mining drones per resource deposit at full saturation
+const WORKERS_PER_DEPOSIT = 2;
+// At most this many army units per decision, so savings aren't spent in one burst
+const MAX_UNITS_PER_DECISION = 3;
+// While the base is under attack the AI spends everything it can
+const MAX_UNITS_WHILE_DEFENDING = 6;
+
+// Enemy combat units this close to the base count as an attack on it
+const BASE_DEFENSE_RADIUS = 18;
+// Attacking squads divert to visible enemies this close to them instead of marching on the base
+const SQUAD_ENGAGE_RADIUS = 20;
+// A squad counts as arrived when its centre is this close to its target
+const SQUAD_ARRIVAL_RADIUS = 6;
+// Re-issue a squad's orders only when its target moves further than this
+const SQUAD_RETARGET_DISTANCE = 4;
+// Spacing between units when a squad is sent somewhere together
+const SQUAD_FORMATION_SPACING = 1.5;
+
+// Remembered enemy army value shrinks by this factor per decision while nothing is in sight
+const ENEMY_INTEL_DECAY = 0.97;
+// Time between scouting runs
+const SCOUT_INTERVAL_MS = 45000;
+
+// Enemies within this radius of each other are treated as one ability target
+const ABILITY_CLUSTER_RADIUS = 4;
+// Smallest enemy group worth an ability (the enemy base is always worth one)
+const ABILITY_MIN_CLUSTER_SIZE = 2;
+// Healers cast once this many nearby allies are below HEALER_DAMAGED_RATIO of their hp
+const HEALER_MIN_DAMAGED_ALLIES = 2;
+const HEALER_DAMAGED_RATIO = 0.7;
+
+// Towers planned for each defensive site, in build order ('faction' becomes the AI's faction tower)
+const TOWER_PLAN: Array<StructureType | 'faction'> = ['offensive', 'faction', 'defensive'];
+// Tower built ahead of the plan once the enemy is seen cloaking; the Shield Nexus detects cloaked units
+const DETECTOR_TOWER: StructureType = 'defensive';
+// Upper bound on AI towers so Latticite isn't sunk into static defence forever
+const MAX_AI_STRUCTURES = 6;
+// Own towers this close to a site count toward that site's plan
+const TOWER_SITE_RADIUS = 4;
+// Without chokepoints on its half, the AI fortifies a spot this far in front of its base
+const FORWARD_TOWER_DISTANCE = 10;
+// Gap kept between towers (matches isValidStructurePlacement in commands.ts)
+const STRUCTURE_SPACING_BUFFER = 1;
+// Builder drones build once they are this close to their site, and give up after BUILDER_TIMEOUT_MS
+const BUILDER_REACH = 1.5;
+const BUILDER_TIMEOUT_MS = 30000;
+
+// Smallest photon value of enemies on one line worth a base laser shot
+const BASE_LASER_MIN_VALUE = 50;
+// Value given to hitting the enemy base with the laser
+const BASE_LASER_BASE_VALUE = 100;
+
+// Mobile bases hop this far away from attackers when hit
+const BASE_EVADE_DISTANCE = 5;
+// Mobile bases never wander further than this from where they started
+const BASE_LEASH_DISTANCE = 15;
+// Ignore base moves shorter than this
+const BASE_REPOSITION_THRESHOLD = 3;
+
 export function updateAI(state: GameState, deltaTime: number, bothPlayersAI: boolean = false): void {
   if (state.vsMode !== 'ai') return;
 
@@ -37,10 +148,10 @@ export function updateAI(state: GameState, deltaTime: number, bothPlayersAI: boo
   const difficultyConfig = DIFFICULTY_SETTINGS[difficulty];
   const actionInterval = difficultyConfig.actionInterval;
 
-  lastAIAction += deltaTime;
+  state.aiActionTimer = (state.aiActionTimer ?? 0) + deltaTime;
 
-  if (lastAIAction >= actionInterval) {
-    lastAIAction = 0;
+  if (state.aiActionTimer >= actionInterval) {
+    state.aiActionTimer = 0;
     if (bothPlayersAI) {
       // In background battles, both players are AI
       performAIActions(state, 0, difficultyConfig);
@@ -52,157 +163,665 @@ export function updateAI(state: GameState, deltaTime: number, bothPlayersAI: boo
   }
 }
 
-function performAIActions(state: GameState, aiPlayer: number = 1, difficultyConfig: typeof DIFFICULTY_SETTINGS.medium): void {
+// One AI decision: update what it knows, spend photons, then steer the scout, squads and abilities.
+// Orders go through applyGameplayCommand (not executeGameplayCommand) because replays re-run the AI
+// instead of recording its commands.
+function performAIActions(state: GameState, aiPlayer: number, config: AIDifficultyConfig): void {
   const aiBase = state.bases.find((b) => b.owner === aiPlayer);
   if (!aiBase) return;
 
-  const aiPhotons = state.players[aiPlayer].photons;
   const enemyPlayer = aiPlayer === 0 ? 1 : 0;
+  const enemyBase = state.bases.find((b) => b.owner === enemyPlayer);
+  const memory = getAIMemory(state, aiPlayer, aiBase);
+
+  const unitsById = new Map(state.units.map((unit) => [unit.id, unit]));
+  pruneDeadUnits(state, memory, unitsById);
+
+  const aiCombatUnits = state.units.filter((u) => u.owner === aiPlayer && isArmyUnit(u));
+  // Scouting: the AI only knows about enemies its own base, units and towers can see, minus undetected cloaked ones.
+  // A cloaked enemy in sight still gives away that the enemy cloaks, so the AI plans a detector.
+  const enemiesInSight = state.units.filter((u) => u.owner === enemyPlayer && canPlayerSee(state, aiPlayer, u.position));
+  const seenEnemies = enemiesInSight.filter((u) => !isHiddenFrom(state, u, aiPlayer));
+  if (enemiesInSight.some((u) => hasStatusEffect(u, 'cloak'))) {
+    memory.cloakSpotted = true;
+  }
+  const visibleEnemies = seenEnemies.filter((u) => u.type !== 'miningDrone');
+  memory.knownEnemyStrength = Math.max(getArmyStrength(visibleEnemies), memory.knownEnemyStrength * ENEMY_INTEL_DECAY);
+
+  // The base is under attack if enemies are close to it or it lost hp since the last decision
+  const attackers = visibleEnemies.filter((enemy) => distance(enemy.position, aiBase.position) <= BASE_DEFENSE_RADIUS);
+  const baseDamaged = aiBase.hp < memory.lastBaseHp;
+  memory.lastBaseHp = aiBase.hp;
+  const threatPosition = attackers.length > 0
+    ? getCentroid(attackers.map((enemy) => enemy.position))
+    : baseDamaged
+      ? findNearest(aiBase.position, visibleEnemies)?.position
+      : undefined;
+
+  const ownStrength = getArmyStrength(aiCombatUnits);
+  performProduction(state, aiPlayer, aiBase, memory, config, ownStrength, threatPosition !== undefined);
+
+  // Newly spawned units join the squad gathering at the rally point
+  const assignedIds = new Set(memory.squads.flatMap((squad) => squad.unitIds));
+  if (memory.scoutId) assignedIds.add(memory.scoutId);
+  state.units.forEach((unit) => {
+    if (unit.owner === aiPlayer && isArmyUnit(unit) && !assignedIds.has(unit.id)) {
+      getRallyingSquad(memory).unitIds.push(unit.id);
+    }
+  });
+
+  if (enemyBase) {
+    updateScout(state, aiPlayer, aiBase, enemyBase, memory, unitsById, threatPosition !== undefined);
+    updateSquads(state, aiPlayer, aiBase, enemyBase, memory, config, unitsById, visibleEnemies, threatPosition);
+  }
+
+  useAbilities(state, aiPlayer, aiCombatUnits, seenEnemies, enemyBase, config);
+
+  updateTowerBuilding(state, aiPlayer, aiBase, enemyBase, memory, unitsById);
+  if (enemyBase) {
+    useBaseLaser(state, aiPlayer, aiBase, enemyBase, seenEnemies);
+  }
+  updateBasePosition(state, aiPlayer, aiBase, memory, threatPosition, baseDamaged);
+}
+
+function getAIMemory(state: GameState, aiPlayer: number, aiBase: Base): AIPlayerMemory {
+  if (!state.aiPlayers) {
+    state.aiPlayers = {};
+  }
+  if (!state.aiPlayers[aiPlayer]) {
+    state.aiPlayers[aiPlayer] = {
+      buildStep: 0,
+      squads: [],
+      nextSquadId: 1,
+      scoutLeg: 0,
+      nextScoutTime: 0,
+      lastBaseHp: aiBase.hp,
+      knownEnemyStrength: 0,
+      homePosition: { ...aiBase.position },
+    };
+  }
+  return state.aiPlayers[aiPlayer];
+}
+
+function pruneDeadUnits(state: GameState, memory: AIPlayerMemory, unitsById: Map<string, Unit>): void {
+  memory.squads.forEach((squad) => {
+    squad.unitIds = squad.unitIds.filter((id) => unitsById.has(id));
+  });
+  memory.squads = memory.squads.filter((squad) => squad.unitIds.length > 0 || squad.mode === 'rallying');
+
+  if (memory.scoutId && !unitsById.has(memory.scoutId)) {
+    // Lost the scout; wait a full interval before risking another
+    memory.scoutId = undefined;
+    memory.scoutLeg = 0;
+    memory.nextScoutTime = getSimulationTime(state) + SCOUT_INTERVAL_MS;
+  }
+}
+
+// Pick between filling mining slots and building the next army unit by comparing their utility
+function performProduction(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base,
+  memory: AIPlayerMemory,
+  config: AIDifficultyConfig,
+  ownStrength: number,
+  threatened: boolean
+): void {
+  const player = state.players[aiPlayer];
+
+  const unitLimit = threatened ? MAX_UNITS_WHILE_DEFENDING : MAX_UNITS_PER_DECISION;
+  let unitsBought = 0;
+  while (unitsBought < unitLimit) {
+    const mining = getMiningSaturation(state, aiPlayer, aiBase);
+    // Drones pay for themselves quickly, so an empty slot outweighs a baseline army unit until ~80% saturation
+    const economyUtility = mining.openDeposit && player.photons >= MINING_DRONE_COST
+      ? config.economyWeight * (1 - mining.saturation) * 2.5 * (threatened ? 0.3 : 1)
+      : 0;
+    // Army pressure grows with the enemy army we've seen and spikes while the base is under attack
+    const pressure = Math.min(memory.knownEnemyStrength / Math.max(1, ownStrength), 2) / 2;
+    const armyUtility = 0.3 + 0.5 * pressure + (threatened ? 0.5 : 0);
+
+    if (economyUtility > armyUtility && mining.openDeposit) {
+      const spawned = applyGameplayCommand(state, {
+        type: 'miningDrone',
+        owner: aiPlayer,
+        depotId: mining.openDeposit.depotId,
+        depositId: mining.openDeposit.depositId,
+      });
+      if (!spawned) return;
+      // Drones are cheap and limited by open slots, so they don't count toward the unit limit
+      continue;
+    }
+
+    const next = getNextBuildUnit(state, aiBase.faction, memory, threatened ? player.photons : undefined);
+    if (!next) return;
+
+    // Save up for the next build order entry rather than skipping it
+    if (player.photons < UNIT_DEFINITIONS[next.unitType].cost) return;
+
+    const spawned = applyGameplayCommand(state, { type: 'spawn', owner: aiPlayer, baseId: aiBase.id, unitType: next.unitType });
+    if (!spawned) return;
+    if (next.fromBuildOrder) {
+      memory.buildStep += 1;
+    }
+    unitsBought += 1;
+  }
+}
 
-  // Assess game state - check enemy aggression
-  const enemyUnits = state.units.filter((u) => u.owner === enemyPlayer && u.type !== 'miningDrone');
-  const aiUnits = state.units.filter((u) => u.owner === aiPlayer && u.type !== 'miningDrone');
-  const enemyAggression = enemyUnits.length / Math.max(1, aiUnits.length);
-  
-  // If enemy is not aggressive (has fewer units), AI can be more economic
-  const shouldBuildEconomy = enemyAggression < 0.8 && Math.random() < difficultyConfig.economicBuildThreshold;
-
-  // Check if AI should spawn mining drones for economy
-  const aiMiningDrones = state.units.filter((u) => u.owner === aiPlayer && u.type === 'miningDrone');
-  const aiDepots = state.miningDepots.filter((d) => d.owner === aiPlayer);
-  
-  // Count available deposit slots (max 2 workers per deposit, 8 deposits per depot)
-  let totalDepositSlots = 0;
+// Share of our mining slots that have a live drone, plus the open deposit nearest the base
+function getMiningSaturation(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base
+): { saturation: number; openDeposit: { depotId: string; depositId: string } | null } {
+  let totalSlots = 0;
   let occupiedSlots = 0;
-  
-  aiDepots.forEach((depot) => {
-    depot.deposits.forEach((deposit) => {
-      totalDepositSlots += 2; // Max 2 workers per deposit
-      const workers = (deposit.workerIds || []).filter((workerId) => {
-        const worker = state.units.find(u => u.id === workerId);
-        return !!worker;
+  let openDeposit: { depotId: string; depositId: string } | null = null;
+  let openDepositDistance = Infinity;
+
+  state.miningDepots
+    .filter((depot) => depot.owner === aiPlayer)
+    .forEach((depot) => {
+      const depotDistance = distance(depot.position, aiBase.position);
+      depot.deposits.forEach((deposit) => {
+        const workers = (deposit.workerIds ?? []).filter((workerId) => state.units.some((u) => u.id === workerId)).length;
+        totalSlots += WORKERS_PER_DEPOSIT;
+        occupiedSlots += workers;
+        if (workers < WORKERS_PER_DEPOSIT && depotDistance < openDepositDistance) {
+          openDeposit = { depotId: depot.id, depositId: deposit.id };
+          openDepositDistance = depotDistance;
+        }
       });
-      occupiedSlots += workers.length;
     });
-  });
 
-  const availableSlots = totalDepositSlots - occupiedSlots;
-
-  // Decide whether to spawn a unit or a drone
-  let shouldSpawnDrone = false;
-  
-  if (shouldBuildEconomy && availableSlots > 0 && Math.random() < difficultyConfig.droneSpawnThreshold) {
-    shouldSpawnDrone = true;
-  }
-
-  if (shouldSpawnDrone && aiPhotons >= UNIT_DEFINITIONS.miningDrone.cost) {
-    // Spawn mining drone at an available deposit
-    for (const depot of aiDepots) {
-      for (const deposit of depot.deposits) {
-        const workers = (deposit.workerIds || []).filter((workerId) => {
-          const worker = state.units.find(u => u.id === workerId);
-          return !!worker;
-        });
-        
-        if (workers.length < 2) {
-          // Temporarily add miningDrone to enabled units if needed
-          const wasMiningDroneEnabled = state.settings.enabledUnits.has('miningDrone');
-          if (!wasMiningDroneEnabled) {
-            state.settings.enabledUnits.add('miningDrone');
-          }
-          
-          // Spawn drone at this deposit
-          const spawned = spawnUnit(state, aiPlayer, 'miningDrone', aiBase.position, deposit.position);
-          
-          // Restore enabledUnits state if we temporarily modified it
-          if (!wasMiningDroneEnabled) {
-            state.settings.enabledUnits.delete('miningDrone');
-          }
-          
-          if (spawned) {
-            // Find the newly spawned drone - it's the last unit with matching owner and type
-            const drone = state.units.slice().reverse().find(u => u.owner === aiPlayer && u.type === 'miningDrone');
-            if (drone) {
-              drone.miningState = {
-                depotId: depot.id,
-                depositId: deposit.id,
-                atDepot: false,
-              };
-              
-              // Register drone in deposit's worker list
-              if (!deposit.workerIds) {
-                deposit.workerIds = [];
-              }
-              deposit.workerIds.push(drone.id);
-              
-              // Clear the command queue since mining drones should auto-manage their movement
-              drone.commandQueue = [];
-            }
-          }
-          return; // Exit after spawning one drone
-        }
+  return { saturation: totalSlots > 0 ? occupiedSlots / totalSlots : 1, openDeposit };
+}
+
+/**
+ * Next unit to build for this faction, skipping build order entries disabled for the match.
+ * Falls back to any enabled unit from the faction roster, then any enabled unit at all.
+ * @param budget - When set (base under attack) and the next entry costs more, take the cheapest unit that can fight instead
+ */
+function getNextBuildUnit(
+  state: GameState,
+  faction: FactionType,
+  memory: AIPlayerMemory,
+  budget?: number
+): { unitType: UnitType; fromBuildOrder: boolean } | null {
+  const enabled = state.settings.enabledUnits;
+  const order = BUILD_ORDERS[faction];
+
+  const rosterTypes = FACTION_DEFINITIONS[faction].availableUnits.filter((type) => enabled.has(type));
+  const candidates = rosterTypes.length > 0
+    ? rosterTypes
+    : Array.from(enabled).filter((type) => type !== 'miningDrone');
+  if (candidates.length === 0) return null;
+
+  let next: { unitType: UnitType; fromBuildOrder: boolean } | null = null;
+  const sequenceLength = order.opener.length + order.core.length;
+  for (let skipped = 0; skipped < sequenceLength && !next; skipped++) {
+    const step = memory.buildStep;
+    const type = step < order.opener.length
+      ? order.opener[step]
+      : order.core[(step - order.opener.length) % order.core.length];
+    if (enabled.has(type)) {
+      next = { unitType: type, fromBuildOrder: true };
+    } else {
+      memory.buildStep += 1;
+    }
+  }
+  // None of the build order is enabled (e.g. a custom roster from another faction)
+  next ??= { unitType: candidates[Math.floor(nextRandom(state) * candidates.length)], fromBuildOrder: false };
+
+  if (budget !== undefined && UNIT_DEFINITIONS[next.unitType].cost > budget) {
+    const fighters = candidates.filter((type) => UNIT_DEFINITIONS[type].attackType !== 'none' && UNIT_DEFINITIONS[type].cost <= budget);
+    if (fighters.length > 0) {
+      const cheapest = fighters.reduce((best, type) => (UNIT_DEFINITIONS[type].cost < UNIT_DEFINITIONS[best].cost ? type : best));
+      return { unitType: cheapest, fromBuildOrder: false };
+    }
+  }
+  return next;
+}
+
+// Send the fastest gathered unit past the enemy's mining depots and rally point, then bring it home
+function updateScout(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base,
+  enemyBase: Base,
+  memory: AIPlayerMemory,
+  unitsById: Map<string, Unit>,
+  threatened: boolean
+): void {
+  const now = getSimulationTime(state);
+  const scout = memory.scoutId ? unitsById.get(memory.scoutId) : undefined;
+
+  if (scout) {
+    if (scout.commandQueue.length > 0) return;
+
+    if (memory.scoutLeg === 1) {
+      issueUnitOrders(state, aiPlayer, 'replace-path', [{ unitId: scout.id, nodes: [{ type: 'move', position: { ...aiBase.rallyPoint } }] }]);
+      memory.scoutLeg = 2;
+    } else {
+      // Back home: rejoin the army until the next run
+      getRallyingSquad(memory).unitIds.push(scout.id);
+      memory.scoutId = undefined;
+      memory.scoutLeg = 0;
+      memory.nextScoutTime = now + SCOUT_INTERVAL_MS;
+    }
+    return;
+  }
+
+  if (threatened || now < memory.nextScoutTime) return;
+
+  const rallying = getRallyingSquad(memory);
+  if (rallying.unitIds.length < 2) return;
+
+  const candidate = rallying.unitIds
+    .map((id) => unitsById.get(id))
+    .filter((unit): unit is Unit => !!unit)
+    .reduce<Unit | null>((fastest, unit) => (!fastest || UNIT_DEFINITIONS[unit.type].moveSpeed > UNIT_DEFINITIONS[fastest.type].moveSpeed ? unit : fastest), null);
+  if (!candidate) return;
+
+  const enemyDepots = state.miningDepots
+    .filter((depot) => depot.owner !== aiPlayer)
+    .sort((a, b) => distance(a.position, aiBase.position) - distance(b.position, aiBase.position))
+    .slice(0, 2);
+  const route: CommandNode[] = [
+    ...enemyDepots.map((depot): CommandNode => ({ type: 'move', position: { ...depot.position } })),
+    { type: 'move', position: { ...enemyBase.rallyPoint } },
+  ];
+
+  if (issueUnitOrders(state, aiPlayer, 'replace-path', [{ unitId: candidate.id, nodes: route }])) {
+    rallying.unitIds = rallying.unitIds.filter((id) => id !== candidate.id);
+    memory.scoutId = candidate.id;
+    memory.scoutLeg = 1;
+  }
+}
+
+function updateSquads(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base,
+  enemyBase: Base,
+  memory: AIPlayerMemory,
+  config: AIDifficultyConfig,
+  unitsById: Map<string, Unit>,
+  visibleEnemies: Unit[],
+  threatPosition: Vector2 | undefined
+): void {
+  const ownStrength = getArmyStrength(state.units.filter((u) => u.owner === aiPlayer && isArmyUnit(u)));
+
+  memory.squads.slice().forEach((squad) => {
+    const units = squad.unitIds.map((id) => unitsById.get(id)).filter((unit): unit is Unit => !!unit);
+    if (units.length === 0) return;
+
+    const center = getCentroid(units.map((unit) => unit.position));
+    const healthRatio = units.reduce((sum, unit) => sum + unit.hp, 0) / units.reduce((sum, unit) => sum + unit.maxHp, 0);
+
+    // Damaged attackers pull back to the rally point and merge with the reinforcements there
+    if (squad.mode === 'attacking' && healthRatio < config.retreatHealthRatio) {
+      setSquadMode(squad, 'retreating');
+      orderSquad(state, aiPlayer, squad, units, aiBase.rallyPoint, 'move');
+      return;
+    }
+    if (squad.mode === 'retreating') {
+      if (distance(center, aiBase.rallyPoint) <= SQUAD_ARRIVAL_RADIUS) {
+        mergeIntoRallyingSquad(memory, squad);
       }
+      return;
     }
-  } else {
-    // Spawn combat units
-    const unitTypes: UnitType[] = (['marine', 'warrior', 'snaker', 'tank', 'scout', 'artillery', 'medic', 'interceptor', 'berserker', 'assassin', 'juggernaut', 'striker'] as UnitType[]).filter((type) =>
-      state.settings.enabledUnits.has(type)
-    );
 
-    if (unitTypes.length === 0) return;
+    // Everyone not retreating turns around when the base is attacked
+    if (threatPosition) {
+      setSquadMode(squad, 'defending');
+      if (needsNewOrders(squad, units, threatPosition)) {
+        orderSquad(state, aiPlayer, squad, units, threatPosition, 'attack-move');
+      }
+      return;
+    }
+    if (squad.mode === 'defending') {
+      mergeIntoRallyingSquad(memory, squad);
+      return;
+    }
 
-    const chosenType = unitTypes[Math.floor(Math.random() * unitTypes.length)];
-    const def = UNIT_DEFINITIONS[chosenType];
+    if (squad.mode === 'rallying') {
+      // Attack once the squad is big enough and we think we can win, or it has grown too big to wait
+      const strongEnough = ownStrength >= memory.knownEnemyStrength * config.attackAdvantage;
+      if (units.length >= config.squadSize && (strongEnough || units.length >= config.squadSize * 2)) {
+        setSquadMode(squad, 'attacking');
+        orderSquad(state, aiPlayer, squad, units, chooseAttackTarget(center, enemyBase, visibleEnemies), 'attack-move');
+      }
+      return;
+    }
 
-    if (aiPhotons >= def.cost) {
-      // Use the base's rally point instead of random offsets
-      spawnUnit(state, aiPlayer, chosenType, aiBase.position, aiBase.rallyPoint);
+    // Attacking: react to nearby enemies, at the pace the difficulty allows
+    if (nextRandom(state) >= config.commandChance) return;
+    const target = chooseAttackTarget(center, enemyBase, visibleEnemies);
+    if (needsNewOrders(squad, units, target)) {
+      orderSquad(state, aiPlayer, squad, units, target, 'attack-move');
     }
+  });
+}
+
+// Engage the biggest visible enemy group near the squad, otherwise push on the enemy base
+function chooseAttackTarget(squadCenter: Vector2, enemyBase: Base, visibleEnemies: Unit[]): Vector2 {
+  const nearby = visibleEnemies.filter((enemy) => distance(enemy.position, squadCenter) <= SQUAD_ENGAGE_RADIUS);
+  const cluster = findDensestCluster(nearby);
+  return cluster ? cluster.center : enemyBase.position;
+}
+
+function needsNewOrders(squad: AISquad, units: Unit[], target: Vector2): boolean {
+  if (!squad.target || distance(squad.target, target) > SQUAD_RETARGET_DISTANCE) return true;
+  // Units that finished their orders short of the target get sent again
+  return units.some((unit) => unit.commandQueue.length === 0 && distance(unit.position, target) > SQUAD_ARRIVAL_RADIUS);
+}
+
+// Send the squad to a point in a loose grid so its units don't pile onto one spot
+function orderSquad(state: GameState, aiPlayer: number, squad: AISquad, units: Unit[], target: Vector2, nodeType: 'move' | 'attack-move'): void {
+  const columns = Math.ceil(Math.sqrt(units.length));
+  const orders: UnitOrder[] = units.map((unit, index) => {
+    const offset = {
+      x: ((index % columns) - (columns - 1) / 2) * SQUAD_FORMATION_SPACING,
+      y: (Math.floor(index / columns) - (Math.ceil(units.length / columns) - 1) / 2) * SQUAD_FORMATION_SPACING,
+    };
+    return { unitId: unit.id, nodes: [{ type: nodeType, position: add(target, offset) }] };
+  });
+
+  issueUnitOrders(state, aiPlayer, 'replace-path', orders);
+  squad.target = { ...target };
+}
+
+function setSquadMode(squad: AISquad, mode: AISquadMode): void {
+  if (squad.mode !== mode) {
+    squad.mode = mode;
+    squad.target = undefined;
   }
+}
 
-  // Give commands to combat units only (not mining drones)
-  const aiCombatUnits = state.units.filter((u) => u.owner === aiPlayer && u.type !== 'miningDrone');
-  const enemyBase = state.bases.find((b) => b.owner === enemyPlayer);
+function getRallyingSquad(memory: AIPlayerMemory): AISquad {
+  let squad = memory.squads.find((s) => s.mode === 'rallying');
+  if (!squad) {
+    squad = { id: memory.nextSquadId++, unitIds: [], mode: 'rallying' };
+    memory.squads.push(squad);
+  }
+  return squad;
+}
 
-  if (enemyBase) {
-    aiCombatUnits.forEach((unit) => {
-      // In chess mode, add to pending commands instead of immediate queue
-      if (state.settings.chessMode && state.chessMode) {
-        // Only give command if unit doesn't already have a pending command
-        if (!state.chessMode.pendingCommands.has(unit.id) && Math.random() < difficultyConfig.commandChance) {
-          const targetPos = {
-            x: enemyBase.position.x + (Math.random() - 0.5) * 10,
-            y: enemyBase.position.y + (Math.random() - 0.5) * 10,
-          };
-          
-          state.chessMode.pendingCommands.set(unit.id, [{ type: 'move', position: targetPos }]);
-        }
-      } else {
-        // Normal RTS mode
-        if (unit.commandQueue.length < 3 && Math.random() < difficultyConfig.commandChance) {
-          const targetPos = {
-            x: enemyBase.position.x + (Math.random() - 0.5) * 10,
-            y: enemyBase.position.y + (Math.random() - 0.5) * 10,
-          };
-
-          if (unit.commandQueue.length < QUEUE_MAX_LENGTH) {
-            unit.commandQueue.push({ type: 'move', position: targetPos });
-          }
-        }
+function mergeIntoRallyingSquad(memory: AIPlayerMemory, squad: AISquad): void {
+  const rallying = getRallyingSquad(memory);
+  if (rallying === squad) return;
+  rallying.unitIds.push(...squad.unitIds);
+  memory.squads = memory.squads.filter((s) => s !== squad);
+}
 
-        if (unit.abilityCooldown === 0 && Math.random() < difficultyConfig.abilityChance && unit.commandQueue.length < QUEUE_MAX_LENGTH) {
-          const direction = {
-            x: enemyBase.position.x - unit.position.x,
-            y: enemyBase.position.y - unit.position.y,
-          };
-          
-          unit.commandQueue.push({ 
-            type: 'ability', 
-            position: unit.position, 
-            direction 
-          });
-        }
+// Healers cast on groups of damaged allies; everyone else aims at the densest enemy group in range
+function useAbilities(
+  state: GameState,
+  aiPlayer: number,
+  aiCombatUnits: Unit[],
+  enemies: Unit[],
+  enemyBase: Base | undefined,
+  config: AIDifficultyConfig
+): void {
+  aiCombatUnits.forEach((unit) => {
+    if (unit.abilityCooldown > 0 || unit.commandQueue.some((node) => node.type === 'ability')) return;
+
+    let target: Vector2 | undefined;
+    if (UNIT_DEFINITIONS[unit.type].modifiers.includes('healing')) {
+      const damagedAllies = aiCombatUnits.filter((ally) =>
+        ally.hp < ally.maxHp * HEALER_DAMAGED_RATIO && distance(ally.position, unit.position) <= ABILITY_MAX_RANGE
+      );
+      if (damagedAllies.length >= HEALER_MIN_DAMAGED_ALLIES) {
+        target = getCentroid(damagedAllies.map((ally) => ally.position));
       }
-    });
+    } else {
+      const inRange = enemies.filter((enemy) => distance(enemy.position, unit.position) <= ABILITY_MAX_RANGE);
+      const cluster = findDensestCluster(inRange);
+      if (cluster && cluster.size >= ABILITY_MIN_CLUSTER_SIZE) {
+        target = cluster.center;
+      } else if (enemyBase && distance(enemyBase.position, unit.position) <= ABILITY_MAX_RANGE) {
+        target = enemyBase.position;
+      }
+    }
+
+    if (!target || nextRandom(state) >= config.abilityChance) return;
+
+    const offset = subtract(target, unit.position);
+    const length = distance(target, unit.position);
+    // Abilities need a drag direction; skip when already standing on the target
+    if (length < 0.1) return;
+    const direction = length > ABILITY_MAX_RANGE ? scale(normalize(offset), ABILITY_MAX_RANGE) : offset;
+
+    issueUnitOrders(state, aiPlayer, 'ability', [{ unitId: unit.id, nodes: [{ type: 'ability', position: { ...unit.position }, direction }] }]);
+  });
+}
+
+// Send a mining drone to the next tower site and build there once it arrives.
+// Drones are the builders in this game; once the build is done their mining loop resumes on its own.
+function updateTowerBuilding(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base,
+  enemyBase: Base | undefined,
+  memory: AIPlayerMemory,
+  unitsById: Map<string, Unit>
+): void {
+  const latticite = state.players[aiPlayer].secondaryResource ?? 0;
+
+  if (memory.builder) {
+    const { unitId, structureType, site, orderedAt } = memory.builder;
+    const builder = unitsById.get(unitId);
+    const timedOut = getSimulationTime(state) - orderedAt > BUILDER_TIMEOUT_MS;
+    if (!builder || timedOut || !isValidStructurePlacement(state, site, structureType)) {
+      memory.builder = undefined;
+      return;
+    }
+
+    if (distance(builder.position, site) <= BUILDER_REACH) {
+      applyGameplayCommand(state, { type: 'buildStructure', owner: aiPlayer, structureType, position: site });
+      memory.builder = undefined;
+    } else if (!builder.commandQueue.some((node) => node.type === 'move' && distance(node.position, site) < 0.1)) {
+      // The mining loop took over again (e.g. the drone was pushed off its path); send it back
+      issueUnitOrders(state, aiPlayer, 'replace-path', [{ unitId, nodes: [{ type: 'move', position: { ...site } }] }]);
+    }
+    return;
   }
+
+  const ownStructures = state.structures.filter((structure) => structure.owner === aiPlayer);
+  if (ownStructures.length >= MAX_AI_STRUCTURES) return;
+
+  const drones = state.units.filter((unit) => unit.owner === aiPlayer && unit.type === 'miningDrone');
+  const needsDetector = !!memory.cloakSpotted && !ownStructures.some((structure) => STRUCTURE_DEFINITIONS[structure.type].detectionRange);
+  const plan = getNextTowerPlan(state, aiBase, enemyBase, ownStructures, drones, needsDetector);
+  if (!plan || latticite < STRUCTURE_DEFINITIONS[plan.structureType].cost) return;
+
+  const order = { unitId: plan.builder.id, nodes: [{ type: 'move', position: { ...plan.site } }] as CommandNode[] };
+  if (issueUnitOrders(state, aiPlayer, 'replace-path', [order])) {
+    memory.builder = { unitId: plan.builder.id, structureType: plan.structureType, site: plan.site, orderedAt: getSimulationTime(state) };
+  }
+}
+
+// Chokepoints on the AI's half of the map, nearest first, each filled with TOWER_PLAN before moving on.
+// Once the enemy is seen cloaking, a detecting tower comes first, at the nearest chokepoint.
+// The builder is the nearest drone that can reach the spot.
+function getNextTowerPlan(
+  state: GameState,
+  aiBase: Base,
+  enemyBase: Base | undefined,
+  ownStructures: Structure[],
+  drones: Unit[],
+  needsDetector: boolean
+): { structureType: StructureType; site: Vector2; builder: Unit } | null {
+  const sites = findChokepoints(state.obstacles)
+    .map((chokepoint) => chokepoint.position)
+    .filter((position) => !enemyBase || distance(position, aiBase.position) < distance(position, enemyBase.position))
+    .sort((a, b) => distance(a, aiBase.position) - distance(b, aiBase.position));
+
+  if (sites.length === 0 && enemyBase) {
+    sites.push(add(aiBase.position, scale(normalize(subtract(enemyBase.position, aiBase.position)), FORWARD_TOWER_DISTANCE)));
+  }
+
+  for (const center of sites) {
+    const built = ownStructures.filter((structure) => distance(structure.position, center) <= TOWER_SITE_RADIUS).length;
+    if (built >= TOWER_PLAN.length && !needsDetector) continue;
+
+    const planned = needsDetector ? DETECTOR_TOWER : TOWER_PLAN[built];
+    const structureType: StructureType = planned === 'faction' ? `faction-${aiBase.faction}` : planned;
+    const site = findStructureSpot(state, center, structureType);
+    if (!site) continue;
+    const builder = findNearest(site, drones.filter((drone) => canWalkTo(state, drone, site)));
+    if (builder) return { structureType, site, builder };
+  }
+
+  return null;
+}
+
+// A drone spawned at a depot overlapping a wall can't move at all, even when a route exists
+function canWalkTo(state: GameState, unit: Unit, position: Vector2): boolean {
+  return (
+    !checkObstacleCollision(unit.position, UNIT_SIZE_METERS / 2, state.obstacles) &&
+    findPath(state.obstacles, unit.position, position) !== null
+  );
+}
+
+// First free spot on a small ring around the site centre
+function findStructureSpot(state: GameState, center: Vector2, structureType: StructureType): Vector2 | null {
+  const spacing = STRUCTURE_DEFINITIONS[structureType].size + STRUCTURE_SPACING_BUFFER + 0.5;
+  const offsets: Vector2[] = [{ x: 0, y: 0 }];
+  for (let i = 0; i < 8; i++) {
+    const angle = (i / 8) * Math.PI * 2;
+    offsets.push({ x: Math.cos(angle) * spacing, y: Math.sin(angle) * spacing });
+  }
+
+  const spot = offsets.map((offset) => add(center, offset)).find((position) => isValidStructurePlacement(state, position, structureType));
+  return spot ?? null;
+}
+
+// Fire the base laser along the line through the most valuable enemies within reach
+function useBaseLaser(state: GameState, aiPlayer: number, aiBase: Base, enemyBase: Base, enemies: Unit[]): void {
+  if (aiBase.laserCooldown > 0) return;
+
+  const candidates = [enemyBase.position, ...enemies.map((enemy) => enemy.position)]
+    .filter((position) => distance(position, aiBase.position) <= LASER_RANGE)
+    .map((position) => normalize(subtract(position, aiBase.position)));
+
+  let bestDirection: Vector2 | null = null;
+  let bestValue = 0;
+  candidates.forEach((direction) => {
+    // Same hit test as the laser itself
+    const isHit = (position: Vector2, radius: number) => {
+      const offset = subtract(position, aiBase.position);
+      const along = offset.x * direction.x + offset.y * direction.y;
+      const across = Math.abs(offset.x * direction.y - offset.y * direction.x);
+      return along > 0 && along < LASER_RANGE && across < LASER_WIDTH / 2 + radius;
+    };
+
+    let value = enemies
+      .filter((enemy) => isHit(enemy.position, 0))
+      .reduce((sum, enemy) => sum + UNIT_DEFINITIONS[enemy.type].cost, 0);
+    if (isHit(enemyBase.position, BASE_SIZE_METERS / 2)) {
+      value += BASE_LASER_BASE_VALUE;
+    }
+
+    if (value > bestValue) {
+      bestValue = value;
+      bestDirection = direction;
+    }
+  });
+
+  if (bestDirection && bestValue >= BASE_LASER_MIN_VALUE) {
+    applyGameplayCommand(state, { type: 'baseLaser', owner: aiPlayer, baseId: aiBase.id, direction: bestDirection });
+  }
+}
+
+/**
+ * Move a mobile base: hop away from attackers when hit (which also raises an assault base's shield),
+ * keep a support base's regeneration aura over the gathering army, and otherwise return home.
+ * Every move stays within BASE_LEASH_DISTANCE of where the base started.
+ */
+function updateBasePosition(
+  state: GameState,
+  aiPlayer: number,
+  aiBase: Base,
+  memory: AIPlayerMemory,
+  threatPosition: Vector2 | undefined,
+  baseDamaged: boolean
+): void {
+  if (!BASE_TYPE_DEFINITIONS[aiBase.baseType].canMove) return;
+
+  let candidates: Vector2[];
+  if (threatPosition && baseDamaged) {
+    // Straight away from the attackers, or sideways when a wall or the arena edge is behind the base
+    const away = distance(aiBase.position, threatPosition) > 0.1
+      ? normalize(subtract(aiBase.position, threatPosition))
+      : normalize(subtract(memory.homePosition, threatPosition));
+    candidates = [away, { x: -away.y, y: away.x }, { x: away.y, y: -away.x }].map((direction) =>
+      add(aiBase.position, scale(direction, BASE_EVADE_DISTANCE))
+    );
+  } else if (aiBase.baseType === 'support') {
+    const rallying = getRallyingSquad(memory);
+    const units = rallying.unitIds.map((id) => state.units.find((unit) => unit.id === id)).filter((unit): unit is Unit => !!unit);
+    candidates = [units.length > 0 ? getCentroid(units.map((unit) => unit.position)) : memory.homePosition];
+  } else {
+    if (aiBase.movementTarget) return;
+    candidates = [memory.homePosition];
+  }
+
+  const target = candidates
+    .map((candidate) => {
+      // Keep the base on its leash
+      if (distance(candidate, memory.homePosition) <= BASE_LEASH_DISTANCE) return candidate;
+      return add(memory.homePosition, scale(normalize(subtract(candidate, memory.homePosition)), BASE_LEASH_DISTANCE));
+    })
+    .find((candidate) => !checkObstacleCollision(candidate, BASE_SIZE_METERS, state.obstacles));
+  if (!target) return;
+  if (distance(target, aiBase.position) < BASE_REPOSITION_THRESHOLD) return;
+  if (aiBase.movementTarget && distance(target, aiBase.movementTarget) < BASE_REPOSITION_THRESHOLD) return;
+
+  applyGameplayCommand(state, { type: 'baseMove', owner: aiPlayer, baseId: aiBase.id, position: target });
+}
+
+// Combat units the AI commands: not mining drones, and not the temporary turrets engineers deploy
+function isArmyUnit(unit: Unit): boolean {
+  return unit.type !== 'miningDrone' && !unit.id.startsWith('turret-');
+}
+
+// In chess mode, units that already have orders for the next turn keep them
+function issueUnitOrders(state: GameState, aiPlayer: number, mode: UnitOrderMode, orders: UnitOrder[]): boolean {
+  const pending = state.settings.chessMode ? state.chessMode?.pendingCommands : undefined;
+  const freeOrders = pending ? orders.filter((order) => !pending.has(order.unitId)) : orders;
+  if (freeOrders.length === 0) return false;
+  return applyGameplayCommand(state, { type: 'unitOrders', owner: aiPlayer, mode, orders: freeOrders });
+}
+
+/**
+ * Find the unit with the most others around it and return that group's centre
+ * @param units - Candidate units (already filtered by range)
+ * @returns Centre and size of the densest group, or null when there are no units
+ */
+function findDensestCluster(units: Unit[]): { center: Vector2; size: number } | null {
+  let best: Unit[] = [];
+  units.forEach((unit) => {
+    const group = units.filter((other) => distance(other.position, unit.position) <= ABILITY_CLUSTER_RADIUS);
+    if (group.length > best.length) {
+      best = group;
+    }
+  });
+  return best.length > 0 ? { center: getCentroid(best.map((unit) => unit.position)), size: best.length } : null;
+}
+
+// Photon value of an army weighted by remaining hp
+function getArmyStrength(units: Unit[]): number {
+  return units.reduce((sum, unit) => sum + UNIT_DEFINITIONS[unit.type].cost * (unit.hp / unit.maxHp), 0);
+}
+
+function getCentroid(positions: Vector2[]): Vector2 {
+  const total = positions.reduce((sum, position) => add(sum, position), { x: 0, y: 0 });
+  return scale(total, 1 / Math.max(1, positions.length));
+}
+
+function findNearest(position: Vector2, units: Unit[]): Unit | undefined {
+  return units.reduce<Unit | undefined>((nearest, unit) =>
+    !nearest || distance(unit.position, position) < distance(nearest.position, position) ? unit : nearest, undefined);
 }
@@ -0,0 +1,383 @@
+/**
+ * Gameplay command layer - every player action that changes the simulation goes through here.
+ * Commands are plain data so they can be recorded into replays, sent to online peers and
+ * re-applied later; with the seeded RNG and simulation clock the same command stream
+ * reproduces the same match.
+ */
+
+import {
+  GameState,
+  CommandNode,
+  Unit,
+  Base,
+  UnitType,
+  StructureType,
+  Structure,
+  UnitStance,
+  Vector2,
+  QUEUE_MAX_LENGTH,
+  LASER_RANGE,
+  LASER_WIDTH,
+  LASER_DAMAGE_UNIT,
+  LASER_DAMAGE_BASE,
+  LASER_COOLDOWN,
+  BASE_SIZE_METERS,
+  UNIT_DEFINITIONS,
+  STRUCTURE_DEFINITIONS,
+} from './types';
+import { subtract, distance } from './gameUtils';
+import { checkObstacleCollision, isInsideArena } from './maps';
+import { spawnUnit, emitEffect, reportDamage } from './simulation';
+import { emitGameplayEvent } from './gameplayEvents';
+import { generateSimulationId, getSimulationTime } from './determinism';
+
+// Photon cost of a mining drone sent out from a depot
+const MINING_DRONE_COST = 10;
+// Maximum number of mining drones per resource deposit
+const MAX_WORKERS_PER_DEPOSIT = 2;
+// Minimum gap in meters kept between two structures
+const STRUCTURE_SPACING_BUFFER = 1;
+// How far a laser direction's length may be from 1 and still count as normalized (rounding only)
+const DIRECTION_LENGTH_TOLERANCE = 1e-6;
+
+// How unit orders are merged into each unit's existing command queue
+// - 'queue': append to the queue (skipped when the queue is full)
+// - 'ability': append unless an ability is already queued
+// - 'replace-path': drop queued movement but keep queued abilities, then append
+export type UnitOrderMode = 'queue' | 'ability' | 'replace-path';
+
+export interface UnitOrder {
+  unitId: string;
+  nodes: CommandNode[]; // Command nodes for this unit (already formation/path adjusted)
+}
+
+export type GameplayCommand =
+  | { type: 'spawn'; owner: number; baseId: string; unitType: UnitType }
+  | { type: 'unitOrders'; owner: number; mode: UnitOrderMode; orders: UnitOrder[] }
+  | { type: 'unitStance'; owner: number; unitIds: string[]; stance: UnitStance }
+  | { type: 'baseMove'; owner: number; baseId: string; position: Vector2 }
+  | { type: 'baseLaser'; owner: number; baseId: string; direction: Vector2 }
+  | { type: 'rallyPoint'; owner: number; baseId: string; position: Vector2 }
+  | { type: 'miningDrone'; owner: number; depotId: string; depositId: string }
+  | { type: 'buildStructure'; owner: number; structureType: StructureType; position: Vector2 };
+
+/**
+ * Issue a command from local input. Offline matches apply it right away (or post it to the
+ * simulation worker); online matches queue it for the next lockstep turn so both peers apply
+ * it on the same tick.
+ * @param state - Current game state
+ * @param command - Command to issue
+ * @returns True if the command changed the game state (or was queued for a lockstep turn)
+ */
+export function issueGameplayCommand(state: GameState, command: GameplayCommand): boolean {
+  // Spectators watch; they have no slot to command
+  if (state.spectating) return false;
+
+  if (state.lockstepOutbox) {
+    state.lockstepOutbox.push(cloneCommand(command));
+    return true;
+  }
+
+  // The worker validates and records it on its next tick
+  if (state.simulationOutbox) {
+    state.simulationOutbox.push(cloneCommand(command));
+    return true;
+  }
+
+  return executeGameplayCommand(state, command);
+}
+
+/**
+ * Apply a command now and record it for the match replay
+ * @param state - Current game state
+ * @param command - Command to apply
+ * @returns True if the command changed the game state
+ */
+export function executeGameplayCommand(state: GameState, command: GameplayCommand): boolean {
+  const applied = applyGameplayCommand(state, command);
+
+  if (applied && state.replayRecorder) {
+    // Store a copy so later simulation updates can't mutate the recorded command
+    state.replayRecorder.commands.push({
+      frame: state.replayRecorder.frameDeltasMs.length,
+      command: cloneCommand(command),
+    });
+  }
+
+  return applied;
+}
+
+/**
+ * Apply a command to the game state without recording it (used by replay playback).
+ * Commands may come from the lockstep peer or a replay, so everything a caller could get wrong is
+ * checked here, the same way on every client; invalid commands are dropped.
+ * @param state - Current game state
+ * @param command - Command to apply
+ * @returns True if the command changed the game state
+ */
+export function applyGameplayCommand(state: GameState, command: GameplayCommand): boolean {
+  switch (command.type) {
+    case 'spawn': {
+      const base = findOwnedBase(state, command.owner, command.baseId);
+      if (!base) return false;
+      return spawnUnit(state, command.owner, command.unitType, base.position, base.rallyPoint);
+    }
+
+    case 'unitOrders':
+      return applyUnitOrders(state, command.owner, command.mode, command.orders);
+
+    case 'unitStance':
+      return applyUnitStance(state, command.owner, command.unitIds, command.stance);
+
+    case 'baseMove': {
+      const base = findOwnedBase(state, command.owner, command.baseId);
+      if (!base) return false;
+      base.movementTarget = { ...command.position };
+      return true;
+    }
+
+    case 'baseLaser': {
+      const base = findOwnedBase(state, command.owner, command.baseId);
+      if (!base || base.laserCooldown > 0 || !isUnitVector(command.direction)) return false;
+      fireLaser(state, base, command.direction);
+      base.laserCooldown = LASER_COOLDOWN;
+      return true;
+    }
+
+    case 'rallyPoint': {
+      const base = findOwnedBase(state, command.owner, command.baseId);
+      if (!base) return false;
+      base.rallyPoint = { ...command.position };
+      return true;
+    }
+
+    case 'miningDrone':
+      return applyMiningDrone(state, command.owner, command.depotId, command.depositId);
+
+    case 'buildStructure':
+      return applyBuildStructure(state, command.owner, command.structureType, command.position);
+  }
+}
+
+/**
+ * Whether a structure may be built at a position: inside the arena, clear of obstacles, bases and
+ * other structures. Build commands that fail this are dropped; local input checks it first to
+ * show its own feedback.
+ * @param state - Current game state
+ * @param position - Center of the structure
+ * @param structureType - Structure to build
+ */
+export function isValidStructurePlacement(state: GameState, position: Vector2, structureType: StructureType): boolean {
+  const structureDef = STRUCTURE_DEFINITIONS[structureType];
+  if (!structureDef || !Number.isFinite(position.x) || !Number.isFinite(position.y)) return false;
+
+  const size = structureDef.size;
+  return (
+    isInsideArena(position, state.obstacles) &&
+    !checkObstacleCollision(position, size / 2, state.obstacles) &&
+    !state.bases.some((base) => distance(base.position, position) < (BASE_SIZE_METERS + size) / 2) &&
+    !state.structures.some((structure) => distance(structure.position, position) < size + STRUCTURE_SPACING_BUFFER)
+  );
+}
+
+function findOwnedBase(state: GameState, owner: number, baseId: string): Base | undefined {
+  return state.bases.find((base) => base.id === baseId && base.owner === owner);
+}
+
+// Finite and of length 1, as local input and the AI send it
+function isUnitVector(vector: Vector2): boolean {
+  const length = Math.hypot(vector.x, vector.y);
+  return Number.isFinite(length) && Math.abs(length - 1) <= DIRECTION_LENGTH_TOLERANCE;
+}
+
+function cloneCommand<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+// Start the queue draw animation for a unit that just received new commands
+function startQueueDrawAnimation(state: GameState, unit: Unit): void {
+  unit.queueDrawStartTime = getSimulationTime(state);
+  unit.queueDrawReverse = false;
+}
+
+// Filter a command queue down to its ability commands
+// Used when drawing a new path to clear all movement commands (move, attack-move, patrol, follow-path, attack-unit, follow, guard)
+function keepOnlyAbilityCommands(unit: Unit): void {
+  unit.commandQueue = unit.commandQueue.filter((cmd) => cmd.type === 'ability');
+}
+
+function applyUnitOrders(state: GameState, owner: number, mode: UnitOrderMode, orders: UnitOrder[]): boolean {
+  let applied = false;
+
+  orders.forEach((order) => {
+    const unit = state.units.find((u) => u.id === order.unitId);
+    if (!unit || unit.owner !== owner || order.nodes.length === 0) return;
+
+    // Copy the nodes so the simulation never mutates the command (replays re-apply it on every scrub)
+    const nodes = cloneCommand(order.nodes);
+
+    // In chess mode, store only the latest orders for this unit until the next turn executes
+    if (state.settings.chessMode && state.chessMode) {
+      state.chessMode.pendingCommands.set(unit.id, nodes);
+      applied = true;
+      return;
+    }
+
+    if (mode === 'replace-path') {
+      keepOnlyAbilityCommands(unit);
+    } else {
+      if (unit.commandQueue.length >= QUEUE_MAX_LENGTH) return;
+      // Only one ability may be queued at a time
+      if (mode === 'ability' && unit.commandQueue.some((node) => node.type === 'ability')) return;
+    }
+
+    unit.commandQueue.push(...nodes);
+    startQueueDrawAnimation(state, unit);
+    applied = true;
+  });
+
+  return applied;
+}
+
+function applyUnitStance(state: GameState, owner: number, unitIds: string[], stance: UnitStance): boolean {
+  let applied = false;
+
+  state.units.forEach((unit) => {
+    if (unit.owner !== owner || unit.type === 'miningDrone' || !unitIds.includes(unit.id)) return;
+    unit.stance = stance;
+    // Idle units take up their new stance where they stand
+    unit.stancePost = undefined;
+    applied = true;
+  });
+
+  return applied;
+}
+
+function fireLaser(state: GameState, base: Base, direction: Vector2): void {
+  // Create visual laser beam effect
+  base.laserBeam = {
+    endTime: getSimulationTime(state) + 500, // 0.5 second beam duration
+    direction: { ...direction },
+  };
+
+  // Create laser particle effects
+  const laserColor = 'oklch(0.70 0.30 320)';
+  emitEffect(state, { type: 'laserFired', origin: base.position, direction, range: LASER_RANGE, color: laserColor });
+
+  state.units.forEach((unit) => {
+    if (unit.owner === base.owner) return;
+
+    const toUnit = subtract(unit.position, base.position);
+    const projectedDist = toUnit.x * direction.x + toUnit.y * direction.y;
+    const perpDist = Math.abs(toUnit.x * direction.y - toUnit.y * direction.x);
+
+    if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2) {
+      unit.hp -= LASER_DAMAGE_UNIT;
+      reportDamage(state, base, unit, LASER_DAMAGE_UNIT);
+    }
+  });
+
+  state.bases.forEach((targetBase) => {
+    if (targetBase.owner === base.owner) return;
+
+    const toBase = subtract(targetBase.position, base.position);
+    const projectedDist = toBase.x * direction.x + toBase.y * direction.y;
+    const perpDist = Math.abs(toBase.x * direction.y - toBase.y * direction.x);
+
+    const baseRadius = BASE_SIZE_METERS / 2;
+    if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2 + baseRadius) {
+      targetBase.hp -= LASER_DAMAGE_BASE;
+      reportDamage(state, base, targetBase, LASER_DAMAGE_BASE);
+    }
+  });
+}
+
+function applyMiningDrone(state: GameState, owner: number, depotId: string, depositId: string): boolean {
+  const depot = state.miningDepots.find((d) => d.id === depotId && d.owner === owner);
+  const targetDeposit = depot?.deposits.find((d) => d.id === depositId);
+  if (!depot || !targetDeposit) return false;
+
+  // Check if deposit already has its full set of workers
+  const currentWorkers = targetDeposit.workerIds ?? [];
+  if (currentWorkers.length >= MAX_WORKERS_PER_DEPOSIT) return false;
+
+  // Check if player has enough photons
+  if (state.players[owner].photons < MINING_DRONE_COST) return false;
+
+  // Deduct cost
+  state.players[owner].photons -= MINING_DRONE_COST;
+
+  // Create mining drone at depot position
+  const droneId = generateSimulationId(state);
+  const existingWorkerId = currentWorkers[0];
+  const existingWorker = existingWorkerId ? state.units.find((unit) => unit.id === existingWorkerId) : undefined;
+  const distanceToDepot = existingWorker ? distance(existingWorker.position, depot.position) : 0;
+  const distanceToDeposit = existingWorker ? distance(existingWorker.position, targetDeposit.position) : 0;
+  const shouldStartAtDepot = existingWorker ? distanceToDepot <= distanceToDeposit : true;
+
+  // Nudge the existing worker so paired drones stay in alternating cadence.
+  if (existingWorker?.miningState) {
+    existingWorker.miningState.cadenceDelay = 0.5;
+  }
+
+  const initialTarget = shouldStartAtDepot ? targetDeposit.position : depot.position;
+  const drone: Unit = {
+    id: droneId,
+    type: 'miningDrone',
+    owner,
+    position: { ...depot.position },
+    hp: UNIT_DEFINITIONS.miningDrone.hp,
+    maxHp: UNIT_DEFINITIONS.miningDrone.hp,
+    armor: UNIT_DEFINITIONS.miningDrone.armor,
+    commandQueue: [{ type: 'move', position: initialTarget }],
+    damageMultiplier: 1.0,
+    distanceTraveled: 0,
+    distanceCredit: 0,
+    abilityCooldown: 0,
+    attackCooldown: 0,
+    miningState: {
+      depotId: depot.id,
+      depositId: targetDeposit.id,
+      atDepot: shouldStartAtDepot,
+      cadenceDelay: shouldStartAtDepot ? 0 : 0.5,
+    },
+  };
+
+  state.units.push(drone);
+  targetDeposit.workerIds = [...currentWorkers, droneId];
+
+  // Income rate will be updated automatically by updateIncome function
+
+  emitGameplayEvent(state, { type: 'unitSpawned', unitId: droneId, owner, unitType: 'miningDrone', cost: MINING_DRONE_COST, position: { ...depot.position } });
+  emitEffect(state, { type: 'unitSpawned', position: depot.position, color: state.players[owner].color });
+  return true;
+}
+
+function applyBuildStructure(state: GameState, owner: number, structureType: StructureType, position: Vector2): boolean {
+  if (!isValidStructurePlacement(state, position, structureType)) return false;
+
+  const structureDef = STRUCTURE_DEFINITIONS[structureType];
+  const player = state.players[owner];
+
+  // Check if player has enough Latticite
+  if (!player.secondaryResource || player.secondaryResource < structureDef.cost) return false;
+
+  // Deduct Latticite cost
+  player.secondaryResource -= structureDef.cost;
+
+  const newStructure: Structure = {
+    id: generateSimulationId(state),
+    type: structureType,
+    owner,
+    position: { ...position },
+    hp: structureDef.hp,
+    maxHp: structureDef.hp,
+    armor: structureDef.armor,
+    attackCooldown: 0,
+  };
+
+  state.structures.push(newStructure);
+  emitGameplayEvent(state, { type: 'structureBuilt', structureId: newStructure.id, owner, structureType, position: { ...position } });
+  emitEffect(state, { type: 'structureBuilt', position, color: player.color });
+  return true;
+}
@@ -0,0 +1,183 @@
+/**
+ * Deterministic simulation helpers.
+ * Gameplay code reads randomness and time from the GameState instead of Math.random()/Date.now(),
+ * so the same seed plus the same command stream always produces the same match.
+ */
+
+import { GameState } from './types';
+
+/**
+ * Create a fresh 32-bit seed for a new match.
+ * This is the only place allowed to use Math.random() for gameplay purposes.
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Hash a string (e.g. a lobby id) into a 32-bit seed so every peer derives the same value
+ * @param value - The string to hash
+ * @returns An unsigned 32-bit seed
+ */
+export function hashStringToSeed(value: string): number {
+  // FNV-1a hash keeps the mapping stable across browsers and Node
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build the deterministic portion of a new GameState
+ * @param seed - Seed for the simulation RNG
+ * @returns Fields to spread into a GameState literal
+ */
+export function createDeterministicState(seed: number): Pick<GameState, 'rngSeed' | 'rngState' | 'simulationTime'> {
+  return {
+    rngSeed: seed >>> 0,
+    rngState: seed >>> 0,
+    simulationTime: 0,
+  };
+}
+
+/**
+ * Draw the next number in [0, 1) from the state's seeded RNG (mulberry32)
+ * @param state - Game state that owns the RNG
+ * @returns A pseudo-random float in [0, 1)
+ */
+export function nextRandom(state: GameState): number {
+  state.rngState = (state.rngState + 0x6d2b79f5) >>> 0;
+  let t = state.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Generate an entity id from the seeded RNG so ids match between peers and replays
+ * @param state - Game state that owns the RNG
+ * @returns A short base-36 id in the same format as generateId()
+ */
+export function generateSimulationId(state: GameState): string {
+  const id = nextRandom(state).toString(36).substring(2, 15);
+  // Fall back to a second draw if the float happened to be very short
+  return id.length > 0 ? id : nextRandom(state).toString(36).substring(2, 15);
+}
+
+/**
+ * Current simulation time in milliseconds since the match started.
+ * Use this instead of Date.now() for anything that affects gameplay.
+ */
+export function getSimulationTime(state: GameState): number {
+  return state.simulationTime;
+}
+
+/**
+ * Advance the simulation clock and run any tasks that became due
+ * @param state - Game state to advance
+ * @param deltaTime - Step size in seconds
+ */
+export function advanceSimulationClock(state: GameState, deltaTime: number): void {
+  state.simulationTime += deltaTime * 1000;
+  runScheduledTasks(state);
+}
+
+/**
+ * Schedule a callback on the simulation clock (replacement for setTimeout/setInterval in gameplay code)
+ * @param state - Game state whose clock drives the task
+ * @param delayMs - Delay before the first run in simulation milliseconds
+ * @param run - Callback to execute
+ * @param intervalMs - Optional repeat interval; the task repeats until endTime
+ * @param endTime - Last simulation time (ms) at which a repeating task may run
+ */
+export function scheduleSimulationTask(
+  state: GameState,
+  delayMs: number,
+  run: () => void,
+  intervalMs?: number,
+  endTime?: number
+): void {
+  if (!state.scheduledTasks) {
+    state.scheduledTasks = [];
+  }
+  state.nextScheduledTaskId = (state.nextScheduledTaskId ?? 0) + 1;
+  state.scheduledTasks.push({
+    id: state.nextScheduledTaskId,
+    dueTime: state.simulationTime + delayMs,
+    intervalMs,
+    endTime,
+    run,
+  });
+}
+
+// Run every task whose due time has passed, in due-time then insertion order.
+// Repeating tasks that fell behind (e.g. after a long frame) catch up within the same step.
+function runScheduledTasks(state: GameState): void {
+  const now = state.simulationTime;
+
+  while (state.scheduledTasks && state.scheduledTasks.some((task) => task.dueTime <= now)) {
+    const due = state.scheduledTasks
+      .filter((task) => task.dueTime <= now)
+      .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id);
+    state.scheduledTasks = state.scheduledTasks.filter((task) => task.dueTime > now);
+
+    due.forEach((task) => {
+      task.run();
+      if (task.intervalMs !== undefined && task.intervalMs > 0) {
+        const nextDue = task.dueTime + task.intervalMs;
+        if (task.endTime === undefined || nextDue <= task.endTime) {
+          state.scheduledTasks!.push({ ...task, dueTime: nextDue });
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Hash the gameplay-relevant parts of the state so peers can confirm they are still in sync
+ * @param state - Game state to hash
+ * @returns An unsigned 32-bit checksum
+ */
+export function computeStateChecksum(state: GameState): number {
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    // Quantize to 1/1000 so the hash covers positions and hp without formatting floats
+    hash ^= Math.round(value * 1000) | 0;
+    hash = Math.imul(hash, 0x01000193);
+  };
+  const mixString = (value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+
+  mix(state.rngState);
+  mix(state.simulationTime);
+  state.players.forEach((player) => {
+    mix(player.photons);
+    mix(player.secondaryResource ?? 0);
+  });
+  state.bases.forEach((base) => {
+    mixString(base.id);
+    mix(base.hp);
+    mix(base.position.x);
+    mix(base.position.y);
+  });
+  state.units.forEach((unit) => {
+    mixString(unit.id);
+    mix(unit.owner);
+    mix(unit.hp);
+    mix(unit.position.x);
+    mix(unit.position.y);
+    mix(unit.commandQueue.length);
+  });
+  state.structures.forEach((structure) => {
+    mixString(structure.id);
+    mix(structure.hp);
+  });
+
+  return hash >>> 0;
+}
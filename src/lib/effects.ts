@@ -0,0 +1,197 @@
+/**
+ * Effects layer - the cosmetic state of a drawn match, kept apart from the authoritative GameState.
+ * The simulation never creates particles itself; it emits EffectEvents (emitEffect in
+ * simulation.ts) and this module turns them into sparks, pulses, explosions and screen shake,
+ * animates them with the backdrop particles and trails, and hands them to the renderer.
+ * States nothing draws (headless runs, the simulation worker, replay fast-forward) have no event
+ * queue, so they skip effects entirely.
+ */
+
+import { GameState, EffectsState, EffectEvent, ARENA_WIDTH_METERS } from './types';
+import { getLocalPlayerIndex } from './gameUtils';
+import { updateFogOfWar } from './vision';
+import { initializeFloaters, updateFloaters, pushFloaters } from './floaters';
+import { initializeFieldParticles, updateFieldParticles } from './fieldParticles';
+import {
+  createSpawnEffect,
+  createUnitSpawnEffect,
+  createEnergyPulse,
+  createHitSparks,
+  createBounceParticles,
+  createEnhancedDeathExplosion,
+  createLaserParticles,
+  createMuzzleFlash,
+  createScreenFlash,
+  createImpactEffect,
+  createDamageNumber,
+  createScreenShake,
+  createEjectedShell,
+  createAbilityEffect,
+  initializeFogParticles,
+  updateFogParticles,
+  updateShells,
+  updateMotionTrails,
+  updateSpriteCornerTrails,
+  updateVisualEffects,
+} from './visualEffects';
+
+// Base destruction
+const BASE_DESTROYED_SHAKE_INTENSITY = 15;
+const BASE_DESTROYED_SHAKE_DURATION = 0.8; // seconds
+
+// Veterancy rank-ups
+const RANK_UP_COLOR = 'oklch(0.85 0.20 95)';
+
+// Effects of each drawn state. Keyed weakly so effects go away with the match they belong to.
+const effectsByState = new WeakMap<GameState, EffectsState>();
+
+function createEffectsState(): EffectsState {
+  return {
+    floaters: [],
+    fieldParticles: [],
+    fogParticles: [],
+    shells: [],
+    explosionParticles: [],
+    hitSparks: [],
+    bounceParticles: [],
+    energyPulses: [],
+    spawnEffects: [],
+    impactEffects: [],
+    damageNumbers: [],
+    motionTrails: [],
+    spriteCornerTrails: [],
+    celebrationParticles: [],
+  };
+}
+
+/**
+ * Give a state that is about to be drawn its effects layer, with backdrop particles for its arena
+ * @param state - Match (or background battle) state
+ * @param arenaHeight - Arena height in meters
+ * @returns The new effects layer
+ */
+export function attachEffects(state: GameState, arenaHeight: number): EffectsState {
+  const effects = createEffectsState();
+  effects.floaters = initializeFloaters();
+  effects.fieldParticles = initializeFieldParticles(ARENA_WIDTH_METERS, arenaHeight);
+  effects.fogParticles = initializeFogParticles(ARENA_WIDTH_METERS, arenaHeight);
+  effectsByState.set(state, effects);
+  state.effectEvents = [];
+  return effects;
+}
+
+/**
+ * Effects layer of a state; a state drawn without attachEffects gets one without backdrop particles
+ * @param state - State being drawn or updated
+ * @returns Its effects layer
+ */
+export function getEffects(state: GameState): EffectsState {
+  let effects = effectsByState.get(state);
+  if (!effects) {
+    effects = createEffectsState();
+    effectsByState.set(state, effects);
+    state.effectEvents ??= [];
+  }
+  return effects;
+}
+
+/**
+ * Hand the effects layer over to a state that replaces another on screen (replay seeks)
+ * @param from - State being replaced
+ * @param to - Its replacement
+ */
+export function moveEffects(from: GameState, to: GameState): void {
+  effectsByState.set(to, getEffects(from));
+  to.effectEvents = [];
+}
+
+/**
+ * Per-frame update: turn the events the simulation emitted into effects, animate everything and
+ * refresh the local player's fog of war
+ * @param state - State being drawn
+ * @param deltaTime - Real seconds since the last frame
+ * @param arenaHeight - Arena height in meters
+ */
+export function updateEffects(state: GameState, deltaTime: number, arenaHeight: number): void {
+  const effects = getEffects(state);
+  (state.effectEvents ?? []).splice(0).forEach((event) => applyEffectEvent(state, effects, event));
+
+  pushFloaters(effects, state, deltaTime);
+  updateFloaters(effects, deltaTime);
+  updateFieldParticles(effects, state, deltaTime);
+  updateFogParticles(effects, deltaTime, ARENA_WIDTH_METERS, arenaHeight);
+  updateShells(effects, deltaTime);
+  updateMotionTrails(effects, state);
+  updateSpriteCornerTrails(effects, state);
+  updateVisualEffects(effects, deltaTime);
+  updateFogOfWar(state, arenaHeight);
+}
+
+function applyEffectEvent(state: GameState, effects: EffectsState, event: EffectEvent): void {
+  switch (event.type) {
+    case 'unitSpawned':
+      createUnitSpawnEffect(effects, event.position, event.color);
+      break;
+    case 'unitDied':
+      createImpactEffect(effects, event.position, event.color, 1.2);
+      createEnhancedDeathExplosion(effects, event.position, event.color, 1.0);
+      break;
+    case 'structureBuilt':
+      createSpawnEffect(effects, event.position, event.color);
+      break;
+    case 'structureDestroyed':
+      createEnhancedDeathExplosion(effects, event.position, event.color, 2.5);
+      break;
+    case 'baseDestroyed': {
+      createScreenShake(effects, BASE_DESTROYED_SHAKE_INTENSITY, BASE_DESTROYED_SHAKE_DURATION);
+      // Red flash when the viewer lost their base, blue when they destroyed the enemy's
+      const flashColor = event.owner === getLocalPlayerIndex(state) ? 'oklch(0.62 0.28 25 / 0.7)' : 'oklch(0.65 0.25 240 / 0.7)';
+      createScreenFlash(effects, flashColor, 0.7, 0.6);
+      // Much larger explosion for bases, in the attacker's color
+      const color = state.players[event.owner === 0 ? 1 : 0].color;
+      createImpactEffect(effects, event.position, color, 4.0);
+      createEnhancedDeathExplosion(effects, event.position, color, 2.5);
+      break;
+    }
+    case 'hitLanded':
+      createHitSparks(effects, event.position, event.color, event.sparks);
+      break;
+    case 'damageDealt':
+      createDamageNumber(effects, event.position, event.damage, event.color);
+      break;
+    case 'impact':
+      createImpactEffect(effects, event.position, event.color, event.size);
+      break;
+    case 'ricochet':
+      createBounceParticles(effects, event.position, event.direction, event.color, event.count);
+      break;
+    case 'abilityCast':
+      createAbilityEffect(effects, event.owner, event.origin, event.target, event.ability);
+      break;
+    case 'energyPulse':
+      createEnergyPulse(effects, event.position, event.color, event.duration, event.radius);
+      break;
+    case 'laserFired':
+      createLaserParticles(effects, event.origin, event.direction, event.range, event.color);
+      break;
+    case 'structureFired':
+      if (state.settings.enableParticleEffects) {
+        createMuzzleFlash(effects, event.position, event.direction, event.color);
+      }
+      break;
+    case 'shellEjected':
+      effects.shells.push(createEjectedShell(event.position, event.direction, event.owner));
+      break;
+    case 'screenShake':
+      createScreenShake(effects, event.intensity, event.duration);
+      break;
+    case 'screenFlash':
+      createScreenFlash(effects, event.color, event.intensity, event.duration);
+      break;
+    case 'unitPromoted':
+      // Gold burst that grows with the rank reached
+      createEnergyPulse(effects, event.position, RANK_UP_COLOR, 0.8, 1.5 + event.rank * 0.5);
+      createHitSparks(effects, event.position, event.color, 6 + event.rank * 4);
+      break;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Escorts - shared rules for follow and guard orders. Escorts keep a spot around a friendly unit
+ * or base; guards also go after the enemy that last hurt it, as long as the hit was recent and the
+ * enemy is still close enough to keep attacking. The simulation moves and fires, input hands out
+ * the spots (calculateEscortOffsets in formations.ts) and recordGuardThreats keeps track of hits.
+ */
+
+import { Base, CommandNode, EscortTargetKind, GameState, GameplayEvent, Unit } from './types';
+import { distance } from './gameUtils';
+import { getSimulationTime } from './determinism';
+import { isVisibleToPlayer } from './vision';
+import { isHiddenFrom } from './stealth';
+import { canAttackTarget, getAttackReach } from './targeting';
+
+// Guards only respond to hits this recent (simulation milliseconds)
+export const GUARD_THREAT_WINDOW_MS = 3000;
+// Guards go after an attacker until it's this far beyond its own reach of the guarded entity
+const GUARD_CHASE_MARGIN = 3;
+
+export type EscortTarget = Unit | Base;
+
+/**
+ * Find the unit or base a follow or guard order escorts
+ * @param state - Game state
+ * @param unit - Escorting unit
+ * @param node - The follow or guard order
+ * @returns The escorted unit or base, or undefined once it's destroyed
+ */
+export function findEscortTarget(
+  state: GameState,
+  unit: Unit,
+  node: Extract<CommandNode, { type: 'follow' | 'guard' }>
+): EscortTarget | undefined {
+  const target =
+    node.targetKind === 'unit'
+      ? state.units.find((u) => u.id === node.targetId)
+      : state.bases.find((b) => b.id === node.targetId);
+  return target && target.owner === unit.owner && target.hp > 0 ? target : undefined;
+}
+
+/**
+ * Find the enemy a guard should engage: the last one to hurt the guarded unit or base, while the
+ * hit is recent, the enemy can still reach it and the guard can see and hurt the enemy
+ * @param state - Game state
+ * @param unit - Guarding unit
+ * @param guarded - Guarded unit or base
+ * @param guardedKind - Whether it's a unit or a base
+ * @returns The enemy and the distance from which the guard's attack reaches it
+ */
+export function getGuardThreat(
+  state: GameState,
+  unit: Unit,
+  guarded: EscortTarget,
+  guardedKind: EscortTargetKind
+): { target: Unit; reach: number } | undefined {
+  const hit = guarded.lastEnemyHit;
+  if (!hit || getSimulationTime(state) - hit.time > GUARD_THREAT_WINDOW_MS) return undefined;
+
+  const attacker = state.units.find((u) => u.id === hit.attackerId);
+  if (!attacker || attacker.owner === unit.owner || attacker.hp <= 0 || !canAttackTarget(unit.type, 'unit', attacker)) return undefined;
+  if (distance(attacker.position, guarded.position) > getAttackReach(attacker.type, guardedKind, guarded) + GUARD_CHASE_MARGIN) return undefined;
+  if (!isVisibleToPlayer(attacker.position, state, unit.owner) || isHiddenFrom(state, attacker, unit.owner)) return undefined;
+  return { target: attacker, reach: getAttackReach(unit.type, 'unit', attacker) };
+}
+
+/**
+ * Simulation listener that remembers which enemy unit last damaged each unit and base, and when
+ * @param state - Game state being simulated
+ * @param event - Event just emitted
+ */
+export function recordGuardThreats(state: GameState, event: GameplayEvent): void {
+  if (event.type !== 'damageDealt' || !event.sourceId || event.sourceOwner === event.targetOwner) return;
+
+  const target =
+    event.targetKind === 'unit'
+      ? state.units.find((u) => u.id === event.targetId)
+      : event.targetKind === 'base'
+        ? state.bases.find((b) => b.id === event.targetId)
+        : undefined;
+  if (target) {
+    target.lastEnemyHit = { attackerId: event.sourceId, time: getSimulationTime(state) };
+  }
+}
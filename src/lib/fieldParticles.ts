@@ -1,4 +1,4 @@
-import { FieldParticle, Vector2, GameState, Unit, Base, Projectile, ARENA_WIDTH_METERS } from './types';
+import { FieldParticle, Vector2, GameState, EffectsState, Unit, Base, Projectile, ARENA_WIDTH_METERS } from './types';
 import { generateId, getArenaHeight, distance, normalize, subtract, add, scale } from './gameUtils';
 
 // Field particle constants
@@ -86,9 +86,7 @@ export function initializeFieldParticles(arenaWidth: number, arenaHeight: number
 /**
  * Update field particle physics, applying repulsion forces from units, bases, and projectiles
  */
-export function updateFieldParticles(state: GameState, deltaTime: number): void {
-  if (!state.fieldParticles) return;
-  
+export function updateFieldParticles(effects: EffectsState, state: GameState, deltaTime: number): void {
   const arenaWidth = ARENA_WIDTH_METERS;
   const arenaHeight = getArenaHeight();
   
@@ -96,7 +94,7 @@ export function updateFieldParticles(state: GameState, deltaTime: number): void
   const minY = arenaHeight * 0.25;
   const maxY = arenaHeight * 0.75;
   
-  for (const particle of state.fieldParticles) {
+  for (const particle of effects.fieldParticles) {
     // Reset force accumulator
     let forceX = 0;
     let forceY = 0;
@@ -0,0 +1,132 @@
+/**
+ * Fixed-timestep stepping and render interpolation.
+ * The simulation always advances in whole FIXED_TIME_STEP_MS steps, however fast frames arrive,
+ * so combat timing, projectile travel and income don't depend on the frame rate. Between steps
+ * the renderer draws units, bases and projectiles blended from where they were drawn toward
+ * their latest simulated positions.
+ */
+
+import { GameState, Vector2 } from './types';
+
+// Simulation step (~30 Hz). Whole milliseconds so replays record it exactly.
+export const FIXED_TIME_STEP_MS = 33;
+// Most steps run in one frame to catch up; older time is dropped so a stall can't freeze the page
+export const MAX_CATCH_UP_STEPS = 5;
+
+// Real time owed to the simulation, in milliseconds
+export interface FixedStepClock {
+  accumulatedMs: number;
+}
+
+// An entity whose drawn position is blended between simulation steps
+interface InterpolatedBody {
+  entity: { position: Vector2; rotation?: number };
+  from: Vector2;
+  to: Vector2; // Simulated position
+  fromRotation?: number;
+  toRotation?: number;
+}
+
+export interface PositionInterpolator {
+  bodies: Map<string, InterpolatedBody>; // Units, bases and projectiles by id
+  capturedAt: number; // performance.now() when the latest simulated positions were captured
+  spanMs: number; // Real time expected until the next simulated positions
+  alpha: number; // Blend factor last drawn
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return { accumulatedMs: 0 };
+}
+
+/**
+ * Add elapsed real time to the clock and take the whole steps that are due
+ * @param clock - Clock of the simulation being stepped
+ * @param elapsedMs - Real milliseconds since the last call
+ * @returns Number of FIXED_TIME_STEP_MS steps to run now
+ */
+export function takeFixedSteps(clock: FixedStepClock, elapsedMs: number): number {
+  clock.accumulatedMs = Math.min(clock.accumulatedMs + elapsedMs, FIXED_TIME_STEP_MS * MAX_CATCH_UP_STEPS);
+  const steps = Math.floor(clock.accumulatedMs / FIXED_TIME_STEP_MS);
+  clock.accumulatedMs -= steps * FIXED_TIME_STEP_MS;
+  return steps;
+}
+
+export function createPositionInterpolator(): PositionInterpolator {
+  return { bodies: new Map(), capturedAt: 0, spanMs: FIXED_TIME_STEP_MS, alpha: 1 };
+}
+
+/**
+ * Put entities back on their simulated positions; call before stepping the state.
+ * Entities moved by something else since they were drawn (a replay seek) are left alone.
+ * @param interpolator - Interpolator of the state about to be stepped
+ */
+export function restoreSimulatedPositions(interpolator: PositionInterpolator): void {
+  interpolator.bodies.forEach((body) => {
+    const drawn = getDrawnPosition(body, interpolator.alpha);
+    const { position } = body.entity;
+    if (position.x !== drawn.x || position.y !== drawn.y) return;
+    position.x = body.to.x;
+    position.y = body.to.y;
+    if (body.toRotation !== undefined) body.entity.rotation = body.toRotation;
+  });
+}
+
+/**
+ * Record the latest simulated positions; each entity blends toward them from where it is drawn now
+ * @param interpolator - Interpolator of the state
+ * @param state - State just stepped (or just updated from a snapshot)
+ * @param spanMs - Real milliseconds until the next simulated positions are expected
+ */
+export function captureSimulatedPositions(interpolator: PositionInterpolator, state: GameState, spanMs: number): void {
+  const previous = interpolator.bodies;
+  const bodies = new Map<string, InterpolatedBody>();
+  const track = (id: string, entity: InterpolatedBody['entity']) => {
+    const drawnBody = previous.get(id);
+    bodies.set(id, {
+      entity,
+      from: drawnBody ? getDrawnPosition(drawnBody, interpolator.alpha) : { ...entity.position },
+      to: { ...entity.position },
+      fromRotation: drawnBody ? getDrawnRotation(drawnBody, interpolator.alpha) : entity.rotation,
+      toRotation: entity.rotation,
+    });
+  };
+  state.units.forEach((unit) => track(unit.id, unit));
+  state.bases.forEach((base) => track(base.id, base));
+  state.projectiles.forEach((projectile) => track(projectile.id, projectile));
+
+  interpolator.bodies = bodies;
+  interpolator.capturedAt = performance.now();
+  interpolator.spanMs = Math.max(1, spanMs);
+  interpolator.alpha = 0;
+}
+
+/**
+ * Move entities to their blended positions for drawing
+ * @param interpolator - Interpolator of the state being drawn
+ */
+export function interpolatePositions(interpolator: PositionInterpolator): void {
+  interpolator.alpha = Math.min(1, (performance.now() - interpolator.capturedAt) / interpolator.spanMs);
+  interpolator.bodies.forEach((body) => {
+    const drawn = getDrawnPosition(body, interpolator.alpha);
+    body.entity.position.x = drawn.x;
+    body.entity.position.y = drawn.y;
+    const rotation = getDrawnRotation(body, interpolator.alpha);
+    if (rotation !== undefined) body.entity.rotation = rotation;
+  });
+}
+
+function getDrawnPosition(body: InterpolatedBody, alpha: number): Vector2 {
+  return {
+    x: body.from.x + (body.to.x - body.from.x) * alpha,
+    y: body.from.y + (body.to.y - body.from.y) * alpha,
+  };
+}
+
+function getDrawnRotation(body: InterpolatedBody, alpha: number): number | undefined {
+  if (body.fromRotation === undefined || body.toRotation === undefined) return body.toRotation;
+  // Turn the shorter way round
+  let delta = (body.toRotation - body.fromRotation) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return body.fromRotation + delta * alpha;
+}
@@ -1,4 +1,4 @@
-import { Floater, Vector2, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, GameState } from './types';
+import { Floater, Vector2, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, GameState, EffectsState } from './types';
 import { generateId, getArenaHeight } from './gameUtils';
 
 // Floater constants
@@ -20,6 +20,12 @@ const FLOATER_MAX_SPEED = 3.0; // maximum speed limit
 const CONNECTION_MAX_DISTANCE = 17.5; // 15-20 meters
 const CONNECTION_MAX_PER_FLOATER = 4; // max 3-4 connections
 
+// Constants for floaters pushed by units and projectiles
+const FLOATER_FRICTION = 0.95; // Friction to slow down floaters over time
+const FLOATER_PUSH_MAX_SPEED = 2.0; // Maximum speed of pushed floaters in pixels per second
+const FLOATER_PUSH_RADIUS = 30; // Radius in pixels within which units push floaters
+const FLOATER_PUSH_FORCE = 50; // Force applied to push floaters
+
 // OKLCH color scheme - subtle blues/cyans at low saturation for sci-fi aesthetic
 const FLOATER_COLORS = [
   'oklch(0.70 0.08 240)', // subtle blue
@@ -64,12 +70,10 @@ export function initializeFloaters(): Floater[] {
 /**
  * Update floater physics and fade-in
  */
-export function updateFloaters(state: GameState, deltaTime: number): void {
-  if (!state.floaters) return;
-  
+export function updateFloaters(effects: EffectsState, deltaTime: number): void {
   const arenaHeight = getArenaHeight();
   
-  for (const floater of state.floaters) {
+  for (const floater of effects.floaters) {
     // Apply velocity to position
     floater.position.x += floater.velocity.x * deltaTime;
     floater.position.y += floater.velocity.y * deltaTime;
@@ -116,6 +120,84 @@ export function updateFloaters(state: GameState, deltaTime: number): void {
   }
 }
 
+/**
+ * Push floaters away from nearby units and projectiles
+ */
+export function pushFloaters(effects: EffectsState, state: GameState, deltaTime: number): void {
+  if (effects.floaters.length === 0) return;
+  
+  // Use window dimensions as fallback if canvas dimensions not stored
+  const canvasWidth = (typeof window !== 'undefined') ? window.innerWidth : 1920;
+  const canvasHeight = (typeof window !== 'undefined') ? window.innerHeight : 1080;
+  
+  effects.floaters.forEach(floater => {
+    // Apply forces from units and projectiles
+    state.units.forEach(unit => {
+      const unitScreenPos = {
+        x: unit.position.x * 20, // Convert to pixels (PIXELS_PER_METER)
+        y: unit.position.y * 20,
+      };
+      
+      const dx = floater.position.x - unitScreenPos.x;
+      const dy = floater.position.y - unitScreenPos.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      
+      if (dist < FLOATER_PUSH_RADIUS && dist > 0) {
+        // Calculate push force (stronger when closer)
+        const forceMagnitude = (FLOATER_PUSH_FORCE / floater.mass) * (1 - dist / FLOATER_PUSH_RADIUS);
+        const forceX = (dx / dist) * forceMagnitude;
+        const forceY = (dy / dist) * forceMagnitude;
+        
+        // Apply force to velocity
+        floater.velocity.x += forceX * deltaTime;
+        floater.velocity.y += forceY * deltaTime;
+      }
+    });
+    
+    // Apply forces from projectiles (smaller push)
+    state.projectiles.forEach(projectile => {
+      const projScreenPos = {
+        x: projectile.position.x * 20,
+        y: projectile.position.y * 20,
+      };
+      
+      const dx = floater.position.x - projScreenPos.x;
+      const dy = floater.position.y - projScreenPos.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      
+      if (dist < FLOATER_PUSH_RADIUS / 2 && dist > 0) {
+        const forceMagnitude = (FLOATER_PUSH_FORCE * 0.3 / floater.mass) * (1 - dist / (FLOATER_PUSH_RADIUS / 2));
+        const forceX = (dx / dist) * forceMagnitude;
+        const forceY = (dy / dist) * forceMagnitude;
+        
+        floater.velocity.x += forceX * deltaTime;
+        floater.velocity.y += forceY * deltaTime;
+      }
+    });
+    
+    // Apply friction
+    floater.velocity.x *= FLOATER_FRICTION;
+    floater.velocity.y *= FLOATER_FRICTION;
+    
+    // Limit max speed
+    const speed = Math.sqrt(floater.velocity.x ** 2 + floater.velocity.y ** 2);
+    if (speed > FLOATER_PUSH_MAX_SPEED) {
+      floater.velocity.x = (floater.velocity.x / speed) * FLOATER_PUSH_MAX_SPEED;
+      floater.velocity.y = (floater.velocity.y / speed) * FLOATER_PUSH_MAX_SPEED;
+    }
+    
+    // Update position
+    floater.position.x += floater.velocity.x * deltaTime * 60; // Scale by 60 for frame independence
+    floater.position.y += floater.velocity.y * deltaTime * 60;
+    
+    // Wrap around screen edges
+    if (floater.position.x < 0) floater.position.x = canvasWidth;
+    if (floater.position.x > canvasWidth) floater.position.x = 0;
+    if (floater.position.y < 0) floater.position.y = canvasHeight;
+    if (floater.position.y > canvasHeight) floater.position.y = 0;
+  });
+}
+
 /**
  * Calculate connections between nearby floaters
  * Returns array of connection pairs with opacity based on distance
@@ -169,6 +169,43 @@ export function applyFormation(
   });
 }
 
+/**
+ * Spots for a group of escorts around a unit or base they follow or guard, as offsets from it.
+ * Escorts spread evenly around a ring centered on the side they come from, and take spots in
+ * order of their bearing so they don't cross paths getting there.
+ */
+export function calculateEscortOffsets(
+  units: Unit[],
+  targetPosition: Vector2,
+  targetRadius: number,
+  spacing: number = 2.0
+): Vector2[] {
+  if (units.length === 0) return [];
+
+  const radius = Math.max(targetRadius + spacing, (units.length * spacing) / (2 * Math.PI));
+  const center = {
+    x: units.reduce((sum, u) => sum + u.position.x, 0) / units.length,
+    y: units.reduce((sum, u) => sum + u.position.y, 0) / units.length,
+  };
+  const toGroup = subtract(center, targetPosition);
+  const groupAngle = distance(center, targetPosition) > 0.01 ? Math.atan2(toGroup.y, toGroup.x) : Math.PI / 2;
+
+  // Bearing of each unit relative to the group's side, in (-PI, PI]
+  const relativeBearing = (unit: Unit) => {
+    const angle = Math.atan2(unit.position.y - targetPosition.y, unit.position.x - targetPosition.x) - groupAngle;
+    return Math.atan2(Math.sin(angle), Math.cos(angle));
+  };
+  const order = units.map((unit, index) => ({ index, bearing: relativeBearing(unit) })).sort((a, b) => a.bearing - b.bearing);
+
+  const step = (Math.PI * 2) / units.length;
+  const offsets: Vector2[] = new Array(units.length);
+  order.forEach(({ index }, spot) => {
+    const angle = groupAngle + (spot - (units.length - 1) / 2) * step;
+    offsets[index] = { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+  return offsets;
+}
+
 /**
  * Get formation name for display
  */
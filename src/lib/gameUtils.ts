@@ -1,4 +1,4 @@
-import { Vector2, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, ARENA_HEIGHT_METERS_MOBILE, PIXELS_PER_METER, RESOURCE_DEPOSIT_RING_RADIUS_METERS, UNIT_DEFINITIONS, FOG_OF_WAR_VISION_RANGE, GameState } from './types';
+import { Vector2, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS, ARENA_HEIGHT_METERS_MOBILE, PIXELS_PER_METER, RESOURCE_DEPOSIT_RING_RADIUS_METERS, UNIT_DEFINITIONS, GameState } from './types';
 
 // Calculate viewport scale to fit the fixed arena to the viewport
 let viewportScale = 1.0;
@@ -6,6 +6,8 @@ let viewportScale = 1.0;
 let viewportOffset: Vector2 = { x: 0, y: 0 };
 // Track the pixel size of the arena viewport for camera math
 let viewportDimensions = { width: 0, height: 0 };
+// Turn the playfield upside down so a player in slot 1 sees their base at the bottom
+let playfieldFlipped = false;
 
 // Detect whether we should rotate the playfield for desktop landscape setups
 function shouldRotatePlayfield(): boolean {
@@ -21,7 +23,13 @@ function shouldRotatePlayfield(): boolean {
 // Provide the render-only rotation offset for the desktop playfield (in radians).
 export function getPlayfieldRotationRadians(): number {
   // Rotate counter-clockwise on desktop landscape to match the rotated playfield view.
-  return shouldRotatePlayfield() ? Math.PI / 2 : 0;
+  const rotation = shouldRotatePlayfield() ? Math.PI / 2 : 0;
+  return playfieldFlipped ? rotation + Math.PI : rotation;
+}
+
+// Render the playfield rotated 180 degrees (world coordinates are unchanged)
+export function setPlayfieldFlipped(flipped: boolean): void {
+  playfieldFlipped = flipped;
 }
 
 // Detect if we're on a mobile device (no fine pointer)
@@ -137,8 +145,14 @@ export function positionToPixels(pos: Vector2): Vector2 {
   const arenaHeight = getArenaHeight();
   const arenaWidthPixels = ARENA_WIDTH_METERS * PIXELS_PER_METER * viewportScale;
   const arenaHeightPixels = arenaHeight * PIXELS_PER_METER * viewportScale;
-  const dx = pos.x * PIXELS_PER_METER * viewportScale - arenaWidthPixels / 2;
-  const dy = pos.y * PIXELS_PER_METER * viewportScale - arenaHeightPixels / 2;
+  let dx = pos.x * PIXELS_PER_METER * viewportScale - arenaWidthPixels / 2;
+  let dy = pos.y * PIXELS_PER_METER * viewportScale - arenaHeightPixels / 2;
+
+  // Mirror around the arena center for players viewing from the top slot
+  if (playfieldFlipped) {
+    dx = -dx;
+    dy = -dy;
+  }
 
   // Rotate the playfield for desktop landscape while preserving world coordinates
   if (shouldRotatePlayfield()) {
@@ -165,8 +179,9 @@ export function pixelsToPosition(pixels: Vector2): Vector2 {
   const arenaHeight = getArenaHeight();
   const arenaWidthPixels = ARENA_WIDTH_METERS * PIXELS_PER_METER * viewportScale;
   const arenaHeightPixels = arenaHeight * PIXELS_PER_METER * viewportScale;
-  const dx = pixels.x - center.x;
-  const dy = pixels.y - center.y;
+  // Undo the 180 degree flip first; it commutes with the desktop rotation
+  const dx = playfieldFlipped ? center.x - pixels.x : pixels.x - center.x;
+  const dy = playfieldFlipped ? center.y - pixels.y : pixels.y - center.y;
   const scale = PIXELS_PER_METER * viewportScale;
 
   // Undo the desktop rotation before converting back to world coordinates
@@ -198,6 +213,10 @@ export function generateId(): string {
 }
 
 export function isPortraitOrientation(): boolean {
+  if (typeof window === 'undefined') {
+    return true;
+  }
+
   return window.innerHeight > window.innerWidth;
 }
 
@@ -367,7 +386,8 @@ export function generateNebulaClouds(canvasWidth: number, canvasHeight: number):
 }
 
 // Create mining depots in the corners of the map
-export function createMiningDepots(arenaWidth: number, arenaHeight: number): import('./types').MiningDepot[] {
+// Pass idFactory (e.g. seeded ids) when the layout must be reproducible across runs
+export function createMiningDepots(arenaWidth: number, arenaHeight: number, idFactory: () => string = generateId): import('./types').MiningDepot[] {
   const depots: import('./types').MiningDepot[] = [];
   const depositDistance = RESOURCE_DEPOSIT_RING_RADIUS_METERS; // Distance from depot center to deposits
   const margin = 8; // Margin from edges of arena
@@ -382,7 +402,7 @@ export function createMiningDepots(arenaWidth: number, arenaHeight: number): imp
   ];
   
   corners.forEach((corner, index) => {
-    const depotId = generateId();
+    const depotId = idFactory();
     const deposits: import('./types').ResourceDeposit[] = [];
     
     // Create 8 resource deposits in a ring around the depot
@@ -394,7 +414,7 @@ export function createMiningDepots(arenaWidth: number, arenaHeight: number): imp
       };
       
       deposits.push({
-        id: generateId(),
+        id: idFactory(),
         position: depositPos,
         depotId: depotId,
         workerIds: [],
@@ -413,7 +433,7 @@ export function createMiningDepots(arenaWidth: number, arenaHeight: number): imp
 }
 
 // Create initial mining drones on diagonal deposits (X shape: positions 1, 3, 5, 7)
-export function createInitialMiningDrones(miningDepots: import('./types').MiningDepot[]): import('./types').Unit[] {
+export function createInitialMiningDrones(miningDepots: import('./types').MiningDepot[], idFactory: () => string = generateId): import('./types').Unit[] {
   const drones: import('./types').Unit[] = [];
   const diagonalPositions = [1, 3, 5, 7]; // Diagonal positions in the 0-7 ring
   const droneDefinition = UNIT_DEFINITIONS.miningDrone;
@@ -422,7 +442,7 @@ export function createInitialMiningDrones(miningDepots: import('./types').Mining
     diagonalPositions.forEach((depositIndex) => {
       const deposit = depot.deposits[depositIndex];
       if (deposit) {
-        const droneId = generateId();
+        const droneId = idFactory();
         const drone: import('./types').Unit = {
           id: droneId,
           type: 'miningDrone',
@@ -458,28 +478,9 @@ export function createInitialMiningDrones(miningDepots: import('./types').Mining
 }
 
 /**
- * Check if a position is visible to the player under fog of war
- * @param position - The position to check
- * @param state - The game state containing player units and bases
- * @returns true if the position is visible to the player
+ * Player slot controlled on this device. Local and AI matches always use slot 0;
+ * online guests control slot 1 so both peers simulate the same match.
  */
-export function isVisibleToPlayer(position: Vector2, state: GameState): boolean {
-  if (!state.settings.enableFogOfWar) {
-    return true; // Fog of war disabled, everything is visible
-  }
-  
-  // Player's base provides vision
-  const playerBase = state.bases.find(b => b.owner === 0);
-  if (playerBase && distance(playerBase.position, position) <= FOG_OF_WAR_VISION_RANGE) {
-    return true;
-  }
-  
-  // Player's units provide vision
-  for (const unit of state.units) {
-    if (unit.owner === 0 && distance(unit.position, position) <= FOG_OF_WAR_VISION_RANGE) {
-      return true;
-    }
-  }
-  
-  return false;
+export function getLocalPlayerIndex(state: GameState): number {
+  return state.localPlayerIndex ?? 0;
 }
@@ -0,0 +1,71 @@
+/**
+ * Gameplay event stream - what happened in each simulation step, as typed GameplayEvents.
+ * The simulation emits events (emitGameplayEvent) instead of calling sound, statistics or other
+ * systems directly; those systems subscribe here.
+ *
+ * Two kinds of listener:
+ * - Simulation listeners keep simulated state up to date (match statistics, veterancy, cloak reveals, guard threats). They run inside the
+ *   step that emitted the event wherever the simulation runs (worker, headless, replays, lockstep),
+ *   so they must be deterministic.
+ * - Subscribers (sound, achievements, analytics) are told about events on the main thread. Events
+ *   from the simulation worker reach them with its snapshots; headless runs have none.
+ */
+
+import { GameState, GameplayEvent } from './types';
+import { recordMatchStats } from './matchStats';
+import { recordVeterancy } from './veterancy';
+import { revealAttackers } from './stealth';
+import { recordGuardThreats } from './escort';
+
+export type GameplayEventListener = (state: GameState, event: GameplayEvent) => void;
+
+const simulationListeners: GameplayEventListener[] = [recordMatchStats, recordVeterancy, revealAttackers, recordGuardThreats];
+const subscribers = new Set<GameplayEventListener>();
+
+/**
+ * Subscribe to gameplay events of every match simulated or shown on this thread
+ * @param listener - Called once per event, with the state it happened in
+ * @returns Unsubscribe function
+ */
+export function subscribeGameplayEvents(listener: GameplayEventListener): () => void {
+  subscribers.add(listener);
+  return () => {
+    subscribers.delete(listener);
+  };
+}
+
+/**
+ * Report an event from the simulation. Simulation listeners run now; subscribers are told now,
+ * or after the next snapshot inside the worker.
+ * @param state - Game state being simulated
+ * @param event - What happened; its vectors must be copies, since worker events are posted later
+ */
+export function emitGameplayEvent(state: GameState, event: GameplayEvent): void {
+  simulationListeners.forEach((listener) => listener(state, event));
+
+  if (state.pendingGameplayEvents) {
+    state.pendingGameplayEvents.push(event);
+  } else if (!state.headless) {
+    notifySubscribers(state, event);
+  }
+}
+
+/**
+ * Tell subscribers about events the simulation worker emitted
+ * @param state - Displayed match state, already updated from the snapshot that carried them
+ * @param events - Events in the order they happened
+ */
+export function dispatchGameplayEvents(state: GameState, events: GameplayEvent[]): void {
+  events.forEach((event) => notifySubscribers(state, event));
+}
+
+function notifySubscribers(state: GameState, event: GameplayEvent): void {
+  subscribers.forEach((listener) => {
+    // A failing subscriber must not stop the match or the other subscribers
+    try {
+      listener(state, event);
+    } catch (error) {
+      console.error('Gameplay event subscriber failed:', error);
+    }
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Headless match runner for batch AI-vs-AI simulations.
+ * Builds a GameState without touching the DOM, canvas or audio and steps updateGame/updateAI
+ * at a fixed timestep, so balance work can run thousands of matches from Node.
+ */
+
+import { GameState, COLORS, UnitType, FactionType, BaseType, FACTION_DEFINITIONS, ARENA_HEIGHT_METERS } from './types';
+import { getMapById } from './maps';
+import { createRandomSeed } from './determinism';
+import { createMatchState } from './matchSetup';
+import { updateGame } from './simulation';
+import { updateAI } from './ai';
+import { FIXED_TIME_STEP_MS } from './fixedTimestep';
+
+// Default fixed timestep for headless stepping, the same step live matches use (~30 Hz)
+export const HEADLESS_TIME_STEP = FIXED_TIME_STEP_MS / 1000;
+// Default match time limit in seconds (matches the in-app AI match limit)
+const HEADLESS_DEFAULT_TIME_LIMIT = 300;
+
+export interface HeadlessMatchOptions {
+  mapId?: string; // Map id from maps.ts (defaults to 'open')
+  playerFaction?: FactionType; // Faction for player 0 (defaults to 'radiant')
+  enemyFaction?: FactionType; // Faction for player 1 (defaults to 'radiant')
+  playerBaseType?: BaseType; // Base type for player 0 (defaults to 'standard')
+  enemyBaseType?: BaseType; // Base type for player 1 (defaults to 'standard')
+  enabledUnits?: UnitType[]; // Units the AI may build (defaults to both factions' rosters)
+  aiDifficulty?: 'easy' | 'medium' | 'hard'; // AI difficulty for both sides
+  seed?: number; // Simulation seed (random when omitted)
+  timeStep?: number; // Fixed step in seconds (defaults to HEADLESS_TIME_STEP)
+  matchTimeLimit?: number; // Match time limit in seconds before the time-limit tiebreak
+  arenaHeight?: number; // Arena height in meters (defaults to the desktop arena)
+}
+
+export interface HeadlessMatchResult {
+  seed: number; // Seed the match ran with, for reproducing it
+  winner: number | null; // 0 or 1, -1 for a draw, null if the step budget ran out
+  duration: number; // Simulated match length in seconds
+  ticks: number; // Number of fixed steps taken
+  matchStats: NonNullable<GameState['matchStats']>;
+  finalBaseHp: [number, number]; // Remaining base HP for player 0 and player 1
+}
+
+/**
+ * Build a fresh AI-vs-AI GameState without any DOM, canvas or audio dependencies
+ * @param options - Map, faction, base type and seed configuration
+ * @returns A GameState in 'game' mode ready for updateGame/updateAI
+ */
+export function createHeadlessMatchState(options: HeadlessMatchOptions = {}): GameState {
+  const seed = options.seed ?? createRandomSeed();
+  const playerFaction = options.playerFaction ?? 'radiant';
+  const enemyFaction = options.enemyFaction ?? 'radiant';
+  const playerBaseType = options.playerBaseType ?? 'standard';
+  const enemyBaseType = options.enemyBaseType ?? 'standard';
+
+  const selectedMapDef = getMapById(options.mapId ?? 'open') || getMapById('open')!;
+
+  const enabledUnits = new Set<UnitType>(
+    options.enabledUnits ?? [
+      ...FACTION_DEFINITIONS[playerFaction].availableUnits,
+      ...FACTION_DEFINITIONS[enemyFaction].availableUnits,
+    ]
+  );
+
+  const state = createMatchState({
+    vsMode: 'ai',
+    settings: {
+      playerColor: COLORS.playerDefault,
+      enemyColor: COLORS.enemyDefault,
+      enabledUnits,
+      unitSlots: { left: 'marine', up: 'warrior', down: 'snaker', right: 'tank' },
+      selectedMap: selectedMapDef.id,
+      showNumericHP: false,
+      playerFaction,
+      enemyFaction,
+      playerBaseType,
+      enemyBaseType,
+      aiDifficulty: options.aiDifficulty ?? 'medium',
+    },
+    seed,
+    arenaHeight: options.arenaHeight ?? ARENA_HEIGHT_METERS,
+    // Headless matches always use the shared portrait coordinate system
+    isPortrait: true,
+    matchTimeLimit: options.matchTimeLimit ?? HEADLESS_DEFAULT_TIME_LIMIT,
+  });
+  state.headless = true;
+
+  return state;
+}
+
+/**
+ * Step an existing headless state until a winner is decided or the step budget runs out
+ * @param state - State created by createHeadlessMatchState
+ * @param timeStep - Fixed step size in seconds
+ * @param maxTicks - Safety cap on the number of steps
+ * @returns Number of steps taken
+ */
+export function stepHeadlessMatch(state: GameState, timeStep: number = HEADLESS_TIME_STEP, maxTicks: number = Infinity): number {
+  let ticks = 0;
+  while (state.mode === 'game' && state.winner === null && ticks < maxTicks) {
+    updateGame(state, timeStep);
+    updateAI(state, timeStep, true); // Both players are AI
+    ticks++;
+  }
+  return ticks;
+}
+
+/**
+ * Run one complete AI-vs-AI match with no DOM, canvas or audio
+ * @param options - Match configuration
+ * @returns Winner, duration and match statistics
+ */
+export function runHeadlessMatch(options: HeadlessMatchOptions = {}): HeadlessMatchResult {
+  const state = createHeadlessMatchState(options);
+  const timeStep = options.timeStep ?? HEADLESS_TIME_STEP;
+  // Allow a little slack past the time limit so the tiebreak in checkTimeLimit always runs
+  const maxTicks = Math.ceil(((state.matchTimeLimit ?? HEADLESS_DEFAULT_TIME_LIMIT) + 1) / timeStep);
+  const ticks = stepHeadlessMatch(state, timeStep, maxTicks);
+
+  const playerBase = state.bases.find((b) => b.owner === 0);
+  const enemyBase = state.bases.find((b) => b.owner === 1);
+
+  return {
+    seed: state.rngSeed,
+    winner: state.winner,
+    duration: state.elapsedTime,
+    ticks,
+    matchStats: { ...state.matchStats! },
+    finalBaseHp: [Math.max(0, playerBase?.hp ?? 0), Math.max(0, enemyBase?.hp ?? 0)],
+  };
+}
+
+/**
+ * Run a batch of matches with consecutive seeds
+ * @param count - Number of matches to run
+ * @param options - Shared match configuration; options.seed is the first seed in the batch
+ * @param onMatchComplete - Optional progress callback invoked after each match
+ * @returns Results in seed order
+ */
+export function runHeadlessBatch(
+  count: number,
+  options: HeadlessMatchOptions = {},
+  onMatchComplete?: (result: HeadlessMatchResult, index: number) => void
+): HeadlessMatchResult[] {
+  const firstSeed = options.seed ?? createRandomSeed();
+  const results: HeadlessMatchResult[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const result = runHeadlessMatch({ ...options, seed: (firstSeed + i) >>> 0 });
+    results.push(result);
+    onMatchComplete?.(result, i);
+  }
+
+  return results;
+}
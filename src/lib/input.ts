@@ -6,11 +6,6 @@ import {
   UnitType,
   QUEUE_MAX_LENGTH,
   ABILITY_MAX_RANGE,
-  LASER_RANGE,
-  LASER_WIDTH,
-  LASER_DAMAGE_UNIT,
-  LASER_DAMAGE_BASE,
-  LASER_COOLDOWN,
   BASE_SIZE_METERS,
   UNIT_SIZE_METERS,
   MINING_DEPOT_SIZE_METERS,
@@ -19,14 +14,20 @@ import {
   STRUCTURE_DEFINITIONS,
   Vector2,
   PIXELS_PER_METER,
+  AttackTargetKind,
+  EscortTargetKind,
 } from './types';
-import { distance, normalize, scale, add, subtract, pixelsToPosition, positionToPixels, getViewportOffset, getViewportDimensions, generateId, isVisibleToPlayer, getViewportScale } from './gameUtils';
+import { distance, normalize, scale, add, subtract, pixelsToPosition, positionToPixels, getViewportOffset, getViewportDimensions, getViewportScale, getLocalPlayerIndex } from './gameUtils';
+import { isVisibleToPlayer } from './vision';
 import { screenToWorld, worldToScreen, zoomCamera, zoomCameraAtPoint, initializeCamera } from './camera';
-import { spawnUnit } from './simulation';
+import { issueGameplayCommand, isValidStructurePlacement, UnitOrder } from './commands';
 import { soundManager } from './sound';
-import { applyFormation } from './formations';
-import { createLaserParticles, createEnergyPulse, createSpawnEffect } from './visualEffects';
-import { sendMoveCommand, sendAbilityCommand, sendBaseMoveCommand, sendBaseLaserCommand, sendSpawnCommand } from './multiplayerGame';
+import { applyFormation, calculateEscortOffsets } from './formations';
+import { createEnergyPulse } from './visualEffects';
+import { ABILITY_DEFINITIONS } from './abilities';
+import { getUnitDamageMultiplier } from './statusEffects';
+import { isHiddenFrom } from './stealth';
+import { AttackTarget, canAttackTarget } from './targeting';
 
 interface TouchState {
   startPos: { x: number; y: number };
@@ -157,7 +158,7 @@ function getViewportCenterX(): number {
 function resolvePlayerIndex(state: GameState, screenX: number): number {
   // In local vs mode, determine player side based on arena viewport center
   if (state.vsMode !== 'player') {
-    return 0;
+    return getLocalPlayerIndex(state);
   }
   
   return screenX > getViewportCenterX() ? 1 : 0;
@@ -170,6 +171,9 @@ export function handleTouchStart(e: TouchEvent, state: GameState, canvas: HTMLCa
   const rect = canvas.getBoundingClientRect();
 
   Array.from(e.changedTouches).forEach((touch) => {
+    // Spectators only get the two-finger camera gestures below
+    if (state.spectating) return;
+
     const { x, y } = transformCoordinates(touch.clientX, touch.clientY, rect);
     const worldPos = screenToWorldPosition(state, canvas, { x, y });
     
@@ -693,55 +697,8 @@ function handleLaserSwipe(
 
   const swipeDir = normalize({ x: swipe.x, y: -swipe.y });
 
+  if (!issueGameplayCommand(state, { type: 'baseLaser', owner: base.owner, baseId: base.id, direction: swipeDir })) return;
   soundManager.playLaserFire();
-  fireLaser(state, base, swipeDir);
-  base.laserCooldown = LASER_COOLDOWN;
-  
-  // Send laser command to multiplayer backend for online games
-  if (state.vsMode === 'online' && state.multiplayerManager) {
-    sendBaseLaserCommand(state.multiplayerManager, base.id, swipeDir).catch(err => 
-      console.warn('Failed to send laser command:', err)
-    );
-  }
-}
-
-function fireLaser(state: GameState, base: Base, direction: { x: number; y: number }): void {
-  const laserEnd = add(base.position, scale(direction, LASER_RANGE));
-  
-  // Create visual laser beam effect
-  base.laserBeam = {
-    endTime: Date.now() + 500, // 0.5 second beam duration
-    direction: { ...direction },
-  };
-
-  // Create laser particle effects
-  const laserColor = 'oklch(0.70 0.30 320)';
-  createLaserParticles(state, base.position, direction, LASER_RANGE, laserColor);
-
-  state.units.forEach((unit) => {
-    if (unit.owner === base.owner) return;
-
-    const toUnit = subtract(unit.position, base.position);
-    const projectedDist = toUnit.x * direction.x + toUnit.y * direction.y;
-    const perpDist = Math.abs(toUnit.x * direction.y - toUnit.y * direction.x);
-
-    if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2) {
-      unit.hp -= LASER_DAMAGE_UNIT;
-    }
-  });
-
-  state.bases.forEach((targetBase) => {
-    if (targetBase.owner === base.owner) return;
-
-    const toBase = subtract(targetBase.position, base.position);
-    const projectedDist = toBase.x * direction.x + toBase.y * direction.y;
-    const perpDist = Math.abs(toBase.x * direction.y - toBase.y * direction.x);
-
-    const baseRadius = BASE_SIZE_METERS / 2;
-    if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2 + baseRadius) {
-      targetBase.hp -= LASER_DAMAGE_BASE;
-    }
-  });
 }
 
 // Handle drag from anywhere (not from base) when base is selected - this queues the base's ability
@@ -765,16 +722,8 @@ function handleBaseAbilityDrag(
   const worldEnd = screenToWorldPosition(state, canvas, { x: startPos.x + swipe.x, y: startPos.y + swipe.y });
   const swipeDir = normalize(subtract(worldEnd, worldStart));
 
+  if (!issueGameplayCommand(state, { type: 'baseLaser', owner: base.owner, baseId: base.id, direction: swipeDir })) return;
   soundManager.playLaserFire();
-  fireLaser(state, base, swipeDir);
-  base.laserCooldown = LASER_COOLDOWN;
-  
-  // Send laser command to multiplayer backend for online games
-  if (state.vsMode === 'online' && state.multiplayerManager) {
-    sendBaseLaserCommand(state.multiplayerManager, base.id, swipeDir).catch(err => 
-      console.warn('Failed to send laser command:', err)
-    );
-  }
 }
 
 // Handle setting rally point by dragging from a selected base
@@ -796,7 +745,7 @@ function handleSetRallyPoint(
   
   // Set rally point based on swipe direction and distance
   const newRallyPoint = add(base.position, swipeWorldDelta);
-  base.rallyPoint = newRallyPoint;
+  issueGameplayCommand(state, { type: 'rallyPoint', owner: base.owner, baseId: base.id, position: newRallyPoint });
   
   soundManager.playUnitMove();
 }
@@ -815,69 +764,13 @@ function handleMiningDepotDrag(state: GameState, depot: import('./types').Mining
     return;
   }
   
-  // Check if deposit already has a worker
-  const currentWorkers = targetDeposit.workerIds ?? [];
-  if (currentWorkers.length >= 2) {
+  // Deposits take at most two workers, and each drone costs photons
+  if (!issueGameplayCommand(state, { type: 'miningDrone', owner: playerIndex, depotId: depot.id, depositId: targetDeposit.id })) {
     soundManager.playError();
     return;
   }
   
-  // Check if player has enough photons
-  const miningDroneCost = 10;
-  if (state.players[playerIndex].photons < miningDroneCost) {
-    soundManager.playError();
-    return;
-  }
-  
-  // Deduct cost
-  state.players[playerIndex].photons -= miningDroneCost;
-  
-  // Create mining drone at depot position
-  const droneId = generateId();
-  const existingWorkerId = currentWorkers[0];
-  const existingWorker = existingWorkerId ? state.units.find((unit) => unit.id === existingWorkerId) : undefined;
-  const distanceToDepot = existingWorker ? distance(existingWorker.position, depot.position) : 0;
-  const distanceToDeposit = existingWorker ? distance(existingWorker.position, targetDeposit.position) : 0;
-  const shouldStartAtDepot = existingWorker ? distanceToDepot <= distanceToDeposit : true;
-
-  // Nudge the existing worker so paired drones stay in alternating cadence.
-  if (existingWorker?.miningState) {
-    existingWorker.miningState.cadenceDelay = 0.5;
-  }
-
-  const initialTarget = shouldStartAtDepot ? targetDeposit.position : depot.position;
-  const drone: Unit = {
-    id: droneId,
-    type: 'miningDrone',
-    owner: playerIndex,
-    position: { ...depot.position },
-    hp: UNIT_DEFINITIONS.miningDrone.hp,
-    maxHp: UNIT_DEFINITIONS.miningDrone.hp,
-    armor: UNIT_DEFINITIONS.miningDrone.armor,
-    commandQueue: [{ type: 'move', position: initialTarget }],
-    damageMultiplier: 1.0,
-    distanceTraveled: 0,
-    distanceCredit: 0,
-    abilityCooldown: 0,
-    attackCooldown: 0,
-    miningState: {
-      depotId: depot.id,
-      depositId: targetDeposit.id,
-      atDepot: shouldStartAtDepot,
-      cadenceDelay: shouldStartAtDepot ? 0 : 0.5,
-    },
-  };
-  
-  state.units.push(drone);
-  targetDeposit.workerIds = [...currentWorkers, droneId];
-  
-  // Income rate will be updated automatically by updateIncome function
-  
   soundManager.playUnitTrain();
-  
-  // Create spawn effect
-  const color = state.players[playerIndex].color;
-  createSpawnEffect(state, depot.position, color);
 }
 
 function handleBaseSwipe(state: GameState, base: Base, swipe: { x: number; y: number }, playerIndex: number): void {
@@ -901,14 +794,9 @@ function handleBaseSwipe(state: GameState, base: Base, swipe: { x: number; y: nu
 
   // Use the base's rally point instead of directional offsets
   if (spawnType) {
-    const success = spawnUnit(state, playerIndex, spawnType, base.position, base.rallyPoint);
+    const success = issueGameplayCommand(state, { type: 'spawn', owner: playerIndex, baseId: base.id, unitType: spawnType });
     if (!success) {
       soundManager.playError();
-    } else if (state.vsMode === 'online' && state.multiplayerManager) {
-      // Send spawn command to multiplayer backend
-      sendSpawnCommand(state.multiplayerManager, playerIndex, spawnType, base.id, base.rallyPoint).catch(err => 
-        console.warn('Failed to send spawn command:', err)
-      );
     }
   }
 }
@@ -938,18 +826,14 @@ function isDoubleTap(state: GameState, screenPos: { x: number; y: number }): boo
 }
 
 // Determine whether a unit should be visible/selectable to the given player.
-function isUnitVisibleToPlayer(unit: Unit, playerIndex: number): boolean {
-  if (unit.owner === playerIndex) {
-    return true;
-  }
-
-  return !unit.cloaked;
+function isUnitVisibleToPlayer(state: GameState, unit: Unit, playerIndex: number): boolean {
+  return !isHiddenFrom(state, unit, playerIndex);
 }
 
 // Find the first visible unit under the cursor for selection and double-tap logic.
 function getVisibleUnitAtPosition(state: GameState, worldPos: { x: number; y: number }, playerIndex: number): Unit | undefined {
   return state.units.find((unit) => {
-    if (!isUnitVisibleToPlayer(unit, playerIndex)) return false;
+    if (!isUnitVisibleToPlayer(state, unit, playerIndex)) return false;
     return distance(unit.position, worldPos) < getUnitSelectionRadius(unit);
   });
 }
@@ -981,6 +865,18 @@ function handleTap(state: GameState, screenPos: { x: number; y: number }, canvas
     handleDoubleTap(state, worldPos, playerIndex);
     return;
   }
+
+  // After T or G, tapping a friendly unit or base has the selected units escort it
+  if (state.escortMode) {
+    const escortMode = state.escortMode;
+    state.escortMode = undefined;
+    const escortTarget = getFriendlyEscortTargetAtPosition(state, worldPos, playerIndex);
+    if (escortTarget && state.selectedUnits.size > 0) {
+      addEscortCommand(state, escortMode, escortTarget.targetKind, escortTarget.target);
+      soundManager.playUnitMove();
+      return;
+    }
+  }
   
   const tappedUnit = state.units.find((unit) => {
     if (unit.owner !== playerIndex) return false;
@@ -1003,19 +899,19 @@ function handleTap(state: GameState, screenPos: { x: number; y: number }, canvas
       return;
     }
     // In tap mode, tapping sets movement target
-    selectedBase.movementTarget = worldPos;
+    issueGameplayCommand(state, { type: 'baseMove', owner: playerIndex, baseId: selectedBase.id, position: worldPos });
     soundManager.playUnitMove();
-    
-    // Send base move command to multiplayer backend for online games
-    if (state.vsMode === 'online' && state.multiplayerManager) {
-      sendBaseMoveCommand(state.multiplayerManager, selectedBase.id, worldPos).catch(err => 
-        console.warn('Failed to send base move command:', err)
-      );
-    }
     return;
   }
 
   if (state.selectedUnits.size > 0) {
+    // Tapping an enemy in either movement mode orders an attack on it
+    const enemyTarget = getEnemyTargetAtPosition(state, worldPos, playerIndex);
+    if (enemyTarget) {
+      addAttackCommand(state, enemyTarget.targetKind, enemyTarget.target);
+      soundManager.playUnitMove();
+      return;
+    }
     // In path drawing mode, tapping away from units deselects them
     if (state.settings.movementMode === 'pathDrawing') {
       state.selectedUnits.clear();
@@ -1031,6 +927,45 @@ function handleTap(state: GameState, screenPos: { x: number; y: number }, canvas
   }
 }
 
+// Find an enemy unit, structure or base under a tap that the player can see, for attack orders
+function getEnemyTargetAtPosition(
+  state: GameState,
+  worldPos: { x: number; y: number },
+  playerIndex: number
+): { targetKind: AttackTargetKind; target: AttackTarget } | undefined {
+  const isEnemyInSight = (owner: number, position: Vector2) => owner !== playerIndex && isVisibleToPlayer(position, state, playerIndex);
+
+  const unit = state.units.find((u) =>
+    isEnemyInSight(u.owner, u.position) && isUnitVisibleToPlayer(state, u, playerIndex) && distance(u.position, worldPos) < getUnitSelectionRadius(u)
+  );
+  if (unit) return { targetKind: 'unit', target: unit };
+
+  const structure = state.structures.find((s) =>
+    isEnemyInSight(s.owner, s.position) && distance(s.position, worldPos) < STRUCTURE_DEFINITIONS[s.type].size / 2
+  );
+  if (structure) return { targetKind: 'structure', target: structure };
+
+  const base = state.bases.find((b) => isEnemyInSight(b.owner, b.position) && distance(b.position, worldPos) < BASE_SIZE_METERS / 2);
+  if (base) return { targetKind: 'base', target: base };
+
+  return undefined;
+}
+
+// Find a friendly unit or base under a tap, for follow and guard orders
+function getFriendlyEscortTargetAtPosition(
+  state: GameState,
+  worldPos: { x: number; y: number },
+  playerIndex: number
+): { targetKind: EscortTargetKind; target: Unit | Base } | undefined {
+  const unit = state.units.find((u) => u.owner === playerIndex && distance(u.position, worldPos) < getUnitSelectionRadius(u));
+  if (unit) return { targetKind: 'unit', target: unit };
+
+  const base = state.bases.find((b) => b.owner === playerIndex && distance(b.position, worldPos) < BASE_SIZE_METERS / 2);
+  if (base) return { targetKind: 'base', target: base };
+
+  return undefined;
+}
+
 function getUnitSelectionRadius(unit: Unit): number {
   // Scale mining drone selection to match their larger render footprint.
   const sizeMultiplier = unit.type === 'miningDrone' ? MINING_DRONE_SIZE_MULTIPLIER : 1;
@@ -1145,43 +1080,17 @@ function handleVectorBasedAbilityDrag(state: GameState, dragVector: { x: number;
   const selectedUnitsArray = state.units.filter(unit => state.selectedUnits.has(unit.id));
 
   // Apply ability command to all selected units
-  selectedUnitsArray.forEach((unit) => {
-    // Use the command origin (last movement node or current position)
-    const startPosition = getCommandOrigin(unit);
-
-    // Ability should be cast from startPosition, not from a far position
-    // Copy the position/vector so later queue updates don't mutate the ability anchor
-    const abilityNode: CommandNode = { type: 'ability', position: { ...startPosition }, direction: { ...clampedVector } };
-
-    // In chess mode, add to pending commands instead of immediate queue
-    if (state.settings.chessMode && state.chessMode) {
-      // Store only the latest command for this unit (overwrite previous)
-      state.chessMode.pendingCommands.set(unit.id, [abilityNode]);
-    } else {
-      // Normal RTS mode: add to queue immediately
-      if (unit.commandQueue.length >= QUEUE_MAX_LENGTH) return;
-      
-      // Check if there's already an ability queued anywhere in the command queue
-      const hasQueuedAbility = unit.commandQueue.some(node => node.type === 'ability');
-      if (hasQueuedAbility) {
-        return;
-      }
-      
-      unit.commandQueue.push(abilityNode);
-      
-      // Start draw animation for new command
-      startQueueDrawAnimation(unit);
-    }
-  });
-  
-  // Send command to multiplayer backend for online games
-  if (state.vsMode === 'online' && state.multiplayerManager && selectedUnitsArray.length > 0) {
-    const unitIds = selectedUnitsArray.map(u => u.id);
-    const firstUnit = selectedUnitsArray[0];
-    const startPosition = getCommandOrigin(firstUnit);
-    sendAbilityCommand(state.multiplayerManager, unitIds, startPosition, clampedVector).catch(err => 
-      console.warn('Failed to send ability command:', err)
-    );
+  if (selectedUnitsArray.length > 0) {
+    issueGameplayCommand(state, {
+      type: 'unitOrders',
+      owner: selectedUnitsArray[0].owner,
+      mode: 'ability',
+      // Ability should be cast from the command origin (last movement node or current position)
+      orders: selectedUnitsArray.map((unit) => ({
+        unitId: unit.id,
+        nodes: [{ type: 'ability', position: { ...getCommandOrigin(unit) }, direction: { ...clampedVector } }],
+      })),
+    });
   }
   
   // Clear the ability cast preview after executing the command
@@ -1196,22 +1105,10 @@ function getPatrolReturnPosition(unit: Unit): Vector2 {
   return unit.position;
 }
 
-// Helper function to start queue draw animation
-function startQueueDrawAnimation(unit: Unit): void {
-  unit.queueDrawStartTime = Date.now();
-  unit.queueDrawReverse = false;
-}
-
-// Helper function to filter command queue to keep only ability commands
-// Used when drawing a new path to clear all movement commands (move, attack-move, patrol, follow-path)
-function keepOnlyAbilityCommands(unit: Unit): void {
-  unit.commandQueue = unit.commandQueue.filter(cmd => cmd.type === 'ability');
-}
-
 // Helper function to handle path drawing end and assign path to units
 // Note: Path drawing replaces existing movement commands (not queued)
 // This is different from other movement commands which queue up to QUEUE_MAX_LENGTH
-// Clears: move, attack-move, patrol, follow-path (preserves ability commands)
+// Clears: move, attack-move, patrol, follow-path, attack-unit, follow, guard (preserves ability commands)
 // This ensures only one drawn path exists per unit at any time
 function handlePathDrawingEnd(state: GameState, pathDrawing: { nearUnit: Unit; rawPath: Vector2[] }): void {
   const selectedUnitsArray = state.units.filter(unit => state.selectedUnits.has(unit.id));
@@ -1237,47 +1134,25 @@ function handlePathDrawingEnd(state: GameState, pathDrawing: { nearUnit: Unit; r
     }
   });
   
-  // Units near the path get the path directly
-  nearUnits.forEach(unit => {
-    // In chess mode, add to pending commands instead of immediate queue
-    if (state.settings.chessMode && state.chessMode) {
-      state.chessMode.pendingCommands.set(unit.id, [{ type: 'follow-path', path: [...smoothed] }]);
-    } else {
-      // Replace existing movement commands with new path
-      keepOnlyAbilityCommands(unit);
-      unit.commandQueue.push({ type: 'follow-path', path: [...smoothed] });
-      startQueueDrawAnimation(unit);
-    }
-  });
-  
-  // Far units first move toward the path origin, then follow the path
-  farUnits.forEach(unit => {
-    // In chess mode, add to pending commands instead of immediate queue
-    if (state.settings.chessMode && state.chessMode) {
-      state.chessMode.pendingCommands.set(unit.id, [
-        { type: 'move', position: pathOrigin },
-        { type: 'follow-path', path: [...smoothed] }
-      ]);
-    } else {
-      // Replace existing movement commands with move-to-origin + path
-      keepOnlyAbilityCommands(unit);
-      unit.commandQueue.push({ type: 'move', position: pathOrigin });
-      unit.commandQueue.push({ type: 'follow-path', path: [...smoothed] });
-      startQueueDrawAnimation(unit);
-    }
-  });
+  // Units near the path get the path directly; far units first move toward the path origin
+  const orders: UnitOrder[] = [
+    ...nearUnits.map(unit => ({
+      unitId: unit.id,
+      nodes: [{ type: 'follow-path', path: [...smoothed] } as CommandNode],
+    })),
+    ...farUnits.map(unit => ({
+      unitId: unit.id,
+      nodes: [
+        { type: 'move', position: { ...pathOrigin } },
+        { type: 'follow-path', path: [...smoothed] },
+      ] as CommandNode[],
+    })),
+  ];
+  
+  // Replace existing movement commands with the new path (queued abilities are kept)
+  issueGameplayCommand(state, { type: 'unitOrders', owner: selectedUnitsArray[0].owner, mode: 'replace-path', orders });
   
   soundManager.playUnitMove();
-  
-  // Send command to multiplayer backend for online games
-  if (state.vsMode === 'online' && state.multiplayerManager) {
-    // For multiplayer, send simplified command (just the end point)
-    const unitIds = selectedUnitsArray.map(u => u.id);
-    const endPoint = smoothed[smoothed.length - 1];
-    sendMoveCommand(state.multiplayerManager, unitIds, endPoint, false).catch(err => 
-      console.warn('Failed to send move command:', err)
-    );
-  }
 }
 
 function addMovementCommand(state: GameState, worldPos: { x: number; y: number }, isPatrol: boolean = false): void {
@@ -1298,42 +1173,61 @@ function addMovementCommand(state: GameState, worldPos: { x: number; y: number }
   );
   
   // Assign formation positions to units
-  selectedUnitsArray.forEach((unit, index) => {
-    // In chess mode, add to pending commands instead of immediate queue
-    if (state.settings.chessMode && state.chessMode) {
-      const command: CommandNode = isPatrol 
-        ? { type: 'patrol', position: formationPositions[index], returnPosition: getPatrolReturnPosition(unit) }
-        : { type: 'move', position: formationPositions[index] };
-      
-      // Store only the latest command for this unit (overwrite previous)
-      state.chessMode.pendingCommands.set(unit.id, [command]);
-    } else {
-      // Normal RTS mode: add to queue immediately
-      if (unit.commandQueue.length >= QUEUE_MAX_LENGTH) return;
-      
-      if (isPatrol) {
-        const returnPos = getPatrolReturnPosition(unit);
-        unit.commandQueue.push({ type: 'patrol', position: formationPositions[index], returnPosition: returnPos });
-      } else {
-        unit.commandQueue.push({ type: 'move', position: formationPositions[index] });
-      }
-      
-      // Start draw animation for new command
-      startQueueDrawAnimation(unit);
-    }
-  });
-  
-  // Send command to multiplayer backend for online games
-  if (state.vsMode === 'online' && state.multiplayerManager) {
-    const unitIds = selectedUnitsArray.map(u => u.id);
-    sendMoveCommand(state.multiplayerManager, unitIds, worldPos, false).catch(err => 
-      console.warn('Failed to send move command:', err)
-    );
-  }
+  const orders: UnitOrder[] = selectedUnitsArray.map((unit, index) => ({
+    unitId: unit.id,
+    nodes: [
+      isPatrol
+        ? { type: 'patrol', position: formationPositions[index], returnPosition: { ...getPatrolReturnPosition(unit) } }
+        : { type: 'move', position: formationPositions[index] },
+    ],
+  }));
+  issueGameplayCommand(state, { type: 'unitOrders', owner: selectedUnitsArray[0].owner, mode: 'queue', orders });
+}
+
+// Order the selected units to attack a target; units whose attacks can't hurt it move up to it instead
+function addAttackCommand(state: GameState, targetKind: AttackTargetKind, target: AttackTarget): void {
+  const selectedUnitsArray = state.units.filter(unit => state.selectedUnits.has(unit.id));
+
+  if (selectedUnitsArray.length === 0) return;
+
+  const orders: UnitOrder[] = selectedUnitsArray.map((unit) => ({
+    unitId: unit.id,
+    nodes: [
+      canAttackTarget(unit.type, targetKind, target)
+        ? { type: 'attack-unit', targetId: target.id, targetKind, position: { ...target.position } }
+        : { type: 'move', position: { ...target.position } },
+    ],
+  }));
+  issueGameplayCommand(state, { type: 'unitOrders', owner: selectedUnitsArray[0].owner, mode: 'queue', orders });
+}
+
+// Order the selected units to follow or guard a friendly unit or base from spots around it
+function addEscortCommand(state: GameState, mode: 'follow' | 'guard', targetKind: EscortTargetKind, target: Unit | Base): void {
+  // A unit can't escort itself
+  const selectedUnitsArray = state.units.filter(unit => state.selectedUnits.has(unit.id) && unit.id !== target.id);
+
+  if (selectedUnitsArray.length === 0) return;
+
+  const targetRadius = targetKind === 'base' ? BASE_SIZE_METERS / 2 : UNIT_SIZE_METERS / 2;
+  const offsets = calculateEscortOffsets(selectedUnitsArray, target.position, targetRadius, UNIT_SIZE_METERS * 0.9);
+
+  const orders: UnitOrder[] = selectedUnitsArray.map((unit, index) => ({
+    unitId: unit.id,
+    nodes: [
+      {
+        type: mode,
+        targetId: target.id,
+        targetKind,
+        offset: offsets[index],
+        position: add(target.position, offsets[index]),
+      },
+    ],
+  }));
+  issueGameplayCommand(state, { type: 'unitOrders', owner: selectedUnitsArray[0].owner, mode: 'queue', orders });
 }
 
 export function handleMouseDown(e: MouseEvent, state: GameState, canvas: HTMLCanvasElement): void {
-  if (state.mode !== 'game') return;
+  if (state.mode !== 'game' || state.spectating) return;
   e.preventDefault();
 
   const rect = canvas.getBoundingClientRect();
@@ -1377,9 +1271,9 @@ export function handleMouseMove(e: MouseEvent, state: GameState, canvas: HTMLCan
       const dist = distance(worldPos, unit.position);
       if (dist >= 0.8) return false; // Outside unit radius
       
-      // For enemy units, check if they're visible (fog of war)
-      if (unit.owner !== 0) {
-        return isVisibleToPlayer(unit.position, state);
+      // For enemy units, check if they're visible (fog of war and cloaks)
+      if (unit.owner !== getLocalPlayerIndex(state)) {
+        return isVisibleToPlayer(unit.position, state) && !isHiddenFrom(state, unit, getLocalPlayerIndex(state));
       }
       
       return true; // Show player units
@@ -1391,8 +1285,8 @@ export function handleMouseMove(e: MouseEvent, state: GameState, canvas: HTMLCan
         text: [
           `${def.name}`,
           `HP: ${Math.ceil(hoveredUnit.hp)}/${def.hp}`,
-          `Dmg: ${Math.ceil(def.damage * hoveredUnit.damageMultiplier)}`,
-          `Ability: ${def.ability}`,
+          `Dmg: ${Math.ceil(def.damage * getUnitDamageMultiplier(hoveredUnit))}`,
+          `Ability: ${ABILITY_DEFINITIONS[hoveredUnit.type].name}`,
           hoveredUnit.abilityCooldown > 0 
             ? `Cooldown: ${hoveredUnit.abilityCooldown.toFixed(1)}s`
             : 'Ready',
@@ -1685,42 +1579,16 @@ function handleBuildingPlacement(
     return;
   }
   
-  // Check if position is valid (not overlapping with other structures, bases, or obstacles)
-  const isValidPosition = !state.structures.some(s => 
-    distance(s.position, currentPosition) < (structureDef.size + 1)
-  ) && !state.bases.some(b => 
-    distance(b.position, currentPosition) < (BASE_SIZE_METERS + structureDef.size) / 2
-  ) && !state.obstacles.some(obs => {
-    const dx = currentPosition.x - obs.x;
-    const dy = currentPosition.y - obs.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    return dist < (obs.radius + structureDef.size / 2);
-  });
-  
-  if (!isValidPosition) {
+  // Check if position is valid (inside the arena, not overlapping with other structures, bases, or obstacles)
+  if (!isValidStructurePlacement(state, currentPosition, selectedType)) {
     soundManager.play('error');
     return;
   }
   
-  // Deduct Latticite cost
-  player.secondaryResource -= structureDef.cost;
-  
-  // Create the structure
-  const newStructure: import('./types').Structure = {
-    id: generateId(),
-    type: selectedType,
-    owner: playerIndex,
-    position: currentPosition,
-    hp: structureDef.hp,
-    maxHp: structureDef.hp,
-    armor: structureDef.armor,
-    attackCooldown: 0,
-  };
-  
-  state.structures.push(newStructure);
-  
-  // Create spawn effect
-  createSpawnEffect(state, currentPosition, player.color);
+  if (!issueGameplayCommand(state, { type: 'buildStructure', owner: playerIndex, structureType: selectedType, position: currentPosition })) {
+    soundManager.playError();
+    return;
+  }
   
   // Play building placement sound
   soundManager.playBuildingPlace();
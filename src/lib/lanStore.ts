@@ -25,7 +25,8 @@ export interface LANGameInfo {
  */
 export class LANKVStore implements RealtimeKVStore {
   private peer: Peer | null = null;
-  private connection: DataConnection | null = null;
+  // Guests hold one connection to the host; the host holds one per guest or spectator
+  private connections: DataConnection[] = [];
   private isHostPlayer: boolean = false;
   private localData: Map<string, any> = new Map();
   private remoteData: Map<string, any> = new Map();
@@ -88,7 +89,7 @@ export class LANKVStore implements RealtimeKVStore {
 
         this.peer.on('connection', (conn) => {
           console.log('Guest connected:', conn.peer);
-          this.connection = conn;
+          this.connections.push(conn);
           this.setupConnectionHandlers(conn);
         });
 
@@ -145,7 +146,7 @@ export class LANKVStore implements RealtimeKVStore {
           
           // Connect to host
           const conn = this.peer!.connect(hostPeerId, { reliable: true });
-          this.connection = conn;
+          this.connections = [conn];
           
           this.setupConnectionHandlers(conn);
           
@@ -185,8 +186,15 @@ export class LANKVStore implements RealtimeKVStore {
       if (data.type === 'set') {
         // Store data received from peer
         this.remoteData.set(data.key, data.value);
+        // The host relays writes so every other peer (the opponent and spectators) sees them
+        if (this.isHostPlayer) {
+          this.broadcast(data, conn);
+        }
       } else if (data.type === 'delete') {
         this.remoteData.delete(data.key);
+        if (this.isHostPlayer) {
+          this.broadcast(data, conn);
+        }
       } else if (data.type === 'get') {
         // Respond to get request (host only)
         if (this.isHostPlayer) {
@@ -236,7 +244,12 @@ export class LANKVStore implements RealtimeKVStore {
 
     conn.on('close', () => {
       console.log('Connection closed');
-      this.connected = false;
+      if (this.isHostPlayer) {
+        // The host stays available; only this peer is gone
+        this.connections = this.connections.filter((other) => other !== conn);
+      } else {
+        this.connected = false;
+      }
     });
 
     conn.on('error', (err) => {
@@ -244,6 +257,15 @@ export class LANKVStore implements RealtimeKVStore {
     });
   }
 
+  // Send a message to every open connection except the one it came from
+  private broadcast(message: unknown, except?: DataConnection): void {
+    this.connections.forEach((conn) => {
+      if (conn !== except && conn.open) {
+        conn.send(message);
+      }
+    });
+  }
+
   private getAllKeys(): string[] {
     const allKeys = new Set([
       ...Array.from(this.localData.keys()),
@@ -258,7 +280,7 @@ export class LANKVStore implements RealtimeKVStore {
     if (this.isHostPlayer) {
       return this.connected && this.peer !== null;
     }
-    return this.connected && this.connection !== null;
+    return this.connected && this.connections.length > 0;
   }
 
   async get<T>(key: string): Promise<T | null> {
@@ -273,7 +295,7 @@ export class LANKVStore implements RealtimeKVStore {
     }
 
     // If we're the guest, request from host
-    if (!this.isHostPlayer && this.connection?.open) {
+    if (!this.isHostPlayer && this.connections[0]?.open) {
       return new Promise((resolve) => {
         const requestId = Math.random().toString(36).substring(7);
         let timeoutId: ReturnType<typeof setTimeout>;
@@ -288,7 +310,7 @@ export class LANKVStore implements RealtimeKVStore {
 
         this.messageHandlers.add(handler);
         
-        this.connection!.send({
+        this.connections[0].send({
           type: 'get',
           key: key,
           requestId: requestId,
@@ -309,14 +331,12 @@ export class LANKVStore implements RealtimeKVStore {
     // Store locally
     this.localData.set(key, value);
 
-    // Send to peer if connected
-    if (this.connection?.open) {
-      this.connection.send({
-        type: 'set',
-        key: key,
-        value: value,
-      });
-    }
+    // Send to connected peers
+    this.broadcast({
+      type: 'set',
+      key: key,
+      value: value,
+    });
   }
 
   async delete(key: string): Promise<void> {
@@ -324,13 +344,11 @@ export class LANKVStore implements RealtimeKVStore {
     this.localData.delete(key);
     this.remoteData.delete(key);
 
-    // Send delete to peer if connected
-    if (this.connection?.open) {
-      this.connection.send({
-        type: 'delete',
-        key: key,
-      });
-    }
+    // Send delete to connected peers
+    this.broadcast({
+      type: 'delete',
+      key: key,
+    });
   }
 
   async listEntries<T>(prefix: string): Promise<Array<{ key: string; value: T | null }>> {
@@ -342,7 +360,7 @@ export class LANKVStore implements RealtimeKVStore {
     }));
 
     // If we're the guest, also request from host
-    if (!this.isHostPlayer && this.connection?.open) {
+    if (!this.isHostPlayer && this.connections[0]?.open) {
       return new Promise((resolve) => {
         const requestId = Math.random().toString(36).substring(7);
         let timeoutId: ReturnType<typeof setTimeout>;
@@ -363,7 +381,7 @@ export class LANKVStore implements RealtimeKVStore {
 
         this.messageHandlers.add(handler);
         
-        this.connection!.send({
+        this.connections[0].send({
           type: 'list',
           prefix: prefix,
           requestId: requestId,
@@ -415,10 +433,8 @@ export class LANKVStore implements RealtimeKVStore {
    * Disconnect and cleanup resources
    */
   disconnect() {
-    if (this.connection) {
-      this.connection.close();
-      this.connection = null;
-    }
+    this.connections.forEach((conn) => conn.close());
+    this.connections = [];
     if (this.peer) {
       this.peer.destroy();
       this.peer = null;
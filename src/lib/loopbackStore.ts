@@ -0,0 +1,232 @@
+import { RealtimeKVStore } from './realtimeStore';
+
+/**
+ * Simulated link conditions for a loopback client. Latency applies to every operation;
+ * loss and reordering only affect command streams, which is where lockstep is sensitive to them.
+ */
+export interface LoopbackLinkOptions {
+  latencyMs: number; // One-way delay for requests and responses
+  jitterMs: number; // Extra random delay in [0, jitterMs) added to each leg
+  packetLoss: number; // Probability in [0, 1] that a command append or poll fails
+  reorderChance: number; // Probability in [0, 1] that a command append is held back behind later ones
+}
+
+export interface LoopbackNetworkStats {
+  appended: number;
+  dropped: number;
+  reordered: number;
+  polls: number;
+}
+
+const DEFAULT_LINK_OPTIONS: LoopbackLinkOptions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  packetLoss: 0,
+  reorderChance: 0,
+};
+
+// Matches the cap the other stores apply to command logs
+const MAX_COMMAND_LOG_ENTRIES = 500;
+// How far a reordered append is held back, in multiples of the link latency
+const REORDER_HOLD_FACTOR = 3;
+// Minimum hold for reordered appends so zero-latency links can still reorder
+const MIN_REORDER_HOLD_MS = 20;
+
+/**
+ * Shared in-process backend for loopback multiplayer.
+ * Every store created from the same network sees the same keys and command streams,
+ * so two MultiplayerManager instances can play against each other on one machine.
+ */
+export class LoopbackNetwork {
+  private data: Map<string, string> = new Map();
+  private streams: Map<string, { lastSeq: number; entries: Array<{ seq: number; payload: string }> }> = new Map();
+  private rngState: number;
+  readonly stats: LoopbackNetworkStats = { appended: 0, dropped: 0, reordered: 0, polls: 0 };
+
+  /**
+   * @param seed - Seed for loss, jitter and reordering so a run can be repeated exactly
+   */
+  constructor(seed: number = 1) {
+    this.rngState = seed >>> 0;
+  }
+
+  /**
+   * Create a client store attached to this network
+   * @param options - Link conditions for this client; unspecified values default to a perfect link
+   */
+  createStore(options: Partial<LoopbackLinkOptions> = {}): LoopbackKVStore {
+    return new LoopbackKVStore(this, { ...DEFAULT_LINK_OPTIONS, ...options });
+  }
+
+  /** Draw the next number in [0, 1) from the network RNG (mulberry32). */
+  random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Values are stored serialized so clients never share object references, like a real backend
+  read<T>(key: string): T | null {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : (JSON.parse(raw) as T);
+  }
+
+  write<T>(key: string, value: T): void {
+    this.data.set(key, JSON.stringify(value));
+  }
+
+  remove(key: string): void {
+    this.data.delete(key);
+  }
+
+  entries<T>(prefix: string): Array<{ key: string; value: T | null }> {
+    return Array.from(this.data.keys())
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => ({ key, value: this.read<T>(key) }));
+  }
+
+  // Sequence numbers are assigned when the append arrives, so delayed appends land after later ones
+  append<T>(streamKey: string, payload: T): number {
+    const stream = this.streams.get(streamKey) ?? { lastSeq: 0, entries: [] };
+    stream.lastSeq += 1;
+    stream.entries.push({ seq: stream.lastSeq, payload: JSON.stringify(payload) });
+    if (stream.entries.length > MAX_COMMAND_LOG_ENTRIES) {
+      stream.entries.splice(0, stream.entries.length - MAX_COMMAND_LOG_ENTRIES);
+    }
+    this.streams.set(streamKey, stream);
+    this.stats.appended += 1;
+    return stream.lastSeq;
+  }
+
+  since<T>(streamKey: string, sinceSeq: number): Array<{ seq: number; payload: T }> {
+    const stream = this.streams.get(streamKey);
+    if (!stream) {
+      return [];
+    }
+    return stream.entries
+      .filter((entry) => entry.seq > sinceSeq)
+      .map((entry) => ({ seq: entry.seq, payload: JSON.parse(entry.payload) as T }));
+  }
+}
+
+/**
+ * RealtimeKVStore client for a LoopbackNetwork with configurable latency, jitter, loss and reordering.
+ * Use it to exercise lobbies, command streaming and reconnection without any backend.
+ */
+export class LoopbackKVStore implements RealtimeKVStore {
+  private network: LoopbackNetwork;
+  private options: LoopbackLinkOptions;
+  private online: boolean = true;
+
+  constructor(network: LoopbackNetwork, options: LoopbackLinkOptions) {
+    this.network = network;
+    this.options = options;
+  }
+
+  // The loopback backend is always configured; use setOnline(false) to simulate a dropped connection.
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Simulate losing or regaining the connection. While offline every operation fails.
+   * @param online - Whether this client can reach the network
+   */
+  setOnline(online: boolean): void {
+    this.online = online;
+  }
+
+  /**
+   * Change link conditions mid-session, e.g. to ramp up loss partway through a match
+   * @param options - Values to override; others keep their current setting
+   */
+  setLinkOptions(options: Partial<LoopbackLinkOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.roundTrip(() => this.network.read<T>(key));
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    // Serialize before the delay so later caller mutations don't leak into the stored value
+    const snapshot = JSON.parse(JSON.stringify(value)) as T;
+    await this.roundTrip(() => this.network.write(key, snapshot));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.roundTrip(() => this.network.remove(key));
+  }
+
+  async listEntries<T>(prefix: string): Promise<Array<{ key: string; value: T | null }>> {
+    return this.roundTrip(() => this.network.entries<T>(prefix));
+  }
+
+  async appendCommand<T>(streamKey: string, payload: T): Promise<number | null> {
+    const snapshot = JSON.parse(JSON.stringify(payload)) as T;
+    this.assertOnline();
+    if (this.isLost()) {
+      await this.wait(this.legDelay() * 2);
+      throw new Error(`Loopback append to ${streamKey} was lost`);
+    }
+
+    let requestDelay = this.legDelay();
+    if (this.network.random() < this.options.reorderChance) {
+      requestDelay += Math.max(this.options.latencyMs * REORDER_HOLD_FACTOR, MIN_REORDER_HOLD_MS);
+      this.network.stats.reordered += 1;
+    }
+    await this.wait(requestDelay);
+    const seq = this.network.append(streamKey, snapshot);
+    await this.wait(this.legDelay());
+    this.assertOnline();
+    return seq;
+  }
+
+  async listCommandsSince<T>(streamKey: string, sinceSeq: number): Promise<Array<{ seq: number; payload: T }>> {
+    this.network.stats.polls += 1;
+    this.assertOnline();
+    if (this.isLost()) {
+      await this.wait(this.legDelay() * 2);
+      throw new Error(`Loopback poll of ${streamKey} was lost`);
+    }
+    return this.roundTrip(() => this.network.since<T>(streamKey, sinceSeq));
+  }
+
+  // Run an operation against the shared backend after the request leg and return after the response leg
+  private async roundTrip<T>(operation: () => T): Promise<T> {
+    this.assertOnline();
+    await this.wait(this.legDelay());
+    this.assertOnline();
+    const result = operation();
+    await this.wait(this.legDelay());
+    this.assertOnline();
+    return result;
+  }
+
+  private assertOnline(): void {
+    if (!this.online) {
+      throw new Error('Loopback client is offline');
+    }
+  }
+
+  private isLost(): boolean {
+    if (this.network.random() < this.options.packetLoss) {
+      this.network.stats.dropped += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private legDelay(): number {
+    return this.options.latencyMs + this.network.random() * this.options.jitterMs;
+  }
+
+  private wait(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -1,4 +1,5 @@
 import { Vector2, BASE_SIZE_METERS } from './types';
+import { distance } from './gameUtils';
 
 export type ObstacleType = 'wall' | 'pillar' | 'debris' | 'boundary';
 
@@ -172,17 +173,22 @@ export function checkObstacleCollision(
     const halfWidth = obstacle.width / 2;
     const halfHeight = obstacle.height / 2;
 
-    const closestX = Math.max(
-      obstacle.position.x - halfWidth,
-      Math.min(position.x, obstacle.position.x + halfWidth)
-    );
-    const closestY = Math.max(
-      obstacle.position.y - halfHeight,
-      Math.min(position.y, obstacle.position.y + halfHeight)
-    );
-
-    const distanceX = position.x - closestX;
-    const distanceY = position.y - closestY;
+    // Work in the obstacle's own frame so rotated debris collides with its drawn shape
+    let localX = position.x - obstacle.position.x;
+    let localY = position.y - obstacle.position.y;
+    if (obstacle.rotation) {
+      const cos = Math.cos(obstacle.rotation);
+      const sin = Math.sin(obstacle.rotation);
+      const rotatedX = localX * cos + localY * sin;
+      localY = -localX * sin + localY * cos;
+      localX = rotatedX;
+    }
+
+    const closestX = Math.max(-halfWidth, Math.min(localX, halfWidth));
+    const closestY = Math.max(-halfHeight, Math.min(localY, halfHeight));
+
+    const distanceX = localX - closestX;
+    const distanceY = localY - closestY;
     const distanceSquared = distanceX * distanceX + distanceY * distanceY;
 
     if (distanceSquared < radius * radius) {
@@ -192,6 +198,22 @@ export function checkObstacleCollision(
   return false;
 }
 
+/**
+ * Whether a point lies inside the arena, whose far edges are those of the boundary obstacles
+ * @param position Point to check (non-finite coordinates are outside)
+ * @param obstacles Match obstacles including the arena boundaries
+ */
+export function isInsideArena(position: Vector2, obstacles: Obstacle[]): boolean {
+  let maxX = 0;
+  let maxY = 0;
+  obstacles.forEach((obstacle) => {
+    if (obstacle.type !== 'boundary') return;
+    maxX = Math.max(maxX, obstacle.position.x + obstacle.width / 2);
+    maxY = Math.max(maxY, obstacle.position.y + obstacle.height / 2);
+  });
+  return position.x >= 0 && position.y >= 0 && position.x <= maxX && position.y <= maxY;
+}
+
 export function getValidBasePositions(
   arenaWidth: number,
   arenaHeight: number,
@@ -363,3 +385,57 @@ export function createBoundaryObstacles(arenaWidth: number, arenaHeight: number)
   
   return boundaries;
 }
+
+/**
+ * Finds narrow passages between obstacles, e.g. for placing defences.
+ * Obstacles are treated as axis-aligned rectangles, like checkObstacleCollision does. Pairs of arena
+ * boundaries are skipped because they only meet at the corners.
+ * @param obstacles Map obstacles, including arena boundaries
+ * @param maxGap Widest gap in meters that still counts as a chokepoint
+ * @param minGap Narrowest gap in meters that units can still pass through
+ * @returns Centre and width of each passage, narrowest first
+ */
+export function findChokepoints(
+  obstacles: Obstacle[],
+  maxGap: number = 12,
+  minGap: number = 1.5
+): Array<{ position: Vector2; width: number }> {
+  const chokepoints: Array<{ position: Vector2; width: number }> = [];
+
+  for (let i = 0; i < obstacles.length; i++) {
+    for (let j = i + 1; j < obstacles.length; j++) {
+      const a = obstacles[i];
+      const b = obstacles[j];
+      if (a.type === 'boundary' && b.type === 'boundary') continue;
+
+      const x = getAxisGap(a.position.x, a.width, b.position.x, b.width);
+      const y = getAxisGap(a.position.y, a.height, b.position.y, b.height);
+      const width = Math.sqrt(x.gap * x.gap + y.gap * y.gap);
+      if (width < minGap || width > maxGap) continue;
+
+      chokepoints.push({ position: { x: x.mid, y: y.mid }, width });
+    }
+  }
+
+  // Neighbouring obstacle pairs often describe the same passage; keep the narrowest reading
+  chokepoints.sort((a, b) => a.width - b.width);
+  const distinct: Array<{ position: Vector2; width: number }> = [];
+  chokepoints.forEach((point) => {
+    if (!distinct.some((other) => distance(other.position, point.position) < maxGap / 2)) {
+      distinct.push(point);
+    }
+  });
+  return distinct;
+}
+
+// Gap between two extents along one axis and the midpoint of the facing edges (or of the overlap)
+function getAxisGap(centerA: number, sizeA: number, centerB: number, sizeB: number): { gap: number; mid: number } {
+  const minA = centerA - sizeA / 2;
+  const maxA = centerA + sizeA / 2;
+  const minB = centerB - sizeB / 2;
+  const maxB = centerB + sizeB / 2;
+
+  if (maxA < minB) return { gap: minB - maxA, mid: (maxA + minB) / 2 };
+  if (maxB < minA) return { gap: minA - maxB, mid: (maxB + minA) / 2 };
+  return { gap: 0, mid: (Math.max(minA, minB) + Math.min(maxA, maxB)) / 2 };
+}
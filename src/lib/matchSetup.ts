@@ -0,0 +1,124 @@
+/**
+ * Shared match setup - builds the gameplay portion of a new match from its settings and seed.
+ * Live matches, headless simulations and replays all start from this so the same seed always
+ * produces the same bases, mining depots and starting drones.
+ */
+
+import { GameState, BASE_TYPE_DEFINITIONS, ARENA_WIDTH_METERS } from './types';
+import { calculateDefaultRallyPoint, createMiningDepots, createInitialMiningDrones } from './gameUtils';
+import { getMapById, getValidBasePositions, createBoundaryObstacles } from './maps';
+import { createDeterministicState, generateSimulationId } from './determinism';
+
+// Starting photons for each player
+const MATCH_STARTING_PHOTONS = 50;
+
+export interface MatchSetupOptions {
+  vsMode: 'ai' | 'player' | 'online';
+  settings: GameState['settings']; // Map, factions, base types and enabled units come from here
+  seed: number; // Simulation seed
+  arenaHeight: number; // Arena height in meters (differs between mobile and desktop)
+  isPortrait: boolean; // Whether bases are placed using the portrait coordinate system
+  matchTimeLimit?: number; // Match time limit in seconds
+}
+
+/**
+ * Build a fresh match GameState with no canvas, camera or cosmetic layers
+ * @param options - Settings, seed and arena configuration
+ * @returns A GameState in 'game' mode ready for updateGame/updateAI
+ */
+export function createMatchState(options: MatchSetupOptions): GameState {
+  const { settings, arenaHeight } = options;
+  const arenaWidth = ARENA_WIDTH_METERS;
+
+  const selectedMapDef = getMapById(settings.selectedMap) || getMapById('open')!;
+  // Add boundary obstacles to prevent units from getting stuck at screen edges
+  const obstacles = [...selectedMapDef.obstacles, ...createBoundaryObstacles(arenaWidth, arenaHeight)];
+  const basePositions = getValidBasePositions(arenaWidth, arenaHeight, obstacles, options.isPortrait);
+
+  const playerFaction = settings.playerFaction || 'radiant';
+  const enemyFaction = settings.enemyFaction || 'radiant';
+  const playerBaseType = settings.playerBaseType || 'standard';
+  const enemyBaseType = settings.enemyBaseType || 'standard';
+
+  const state: GameState = {
+    mode: 'game',
+    vsMode: options.vsMode,
+    units: [],
+    projectiles: [],
+    obstacles,
+    miningDepots: [],
+    bases: [],
+    structures: [],
+    players: [
+      { photons: MATCH_STARTING_PHOTONS, incomeRate: 0, color: settings.playerColor },
+      { photons: MATCH_STARTING_PHOTONS, incomeRate: 0, color: settings.enemyColor },
+    ],
+    selectedUnits: new Set(),
+    controlGroups: { 1: new Set(), 2: new Set(), 3: new Set(), 4: new Set(), 5: new Set(), 6: new Set(), 7: new Set(), 8: new Set() },
+    currentFormation: 'none',
+    patrolMode: false,
+    elapsedTime: 0,
+    lastIncomeTime: 0,
+    ...createDeterministicState(options.seed),
+    winner: null,
+    settings,
+    surrenderClicks: 0,
+    lastSurrenderClickTime: 0,
+    surrenderExpanded: false,
+    matchStats: {
+      startTime: 0,
+      unitsTrainedByPlayer: 0,
+      unitsKilledByPlayer: 0,
+      damageDealtByPlayer: 0,
+      photonsSpentByPlayer: 0,
+      damageToPlayerBase: 0,
+      damageToEnemyBase: 0,
+      veterans: [],
+    },
+    matchTimeLimit: options.matchTimeLimit,
+    isPortrait: options.isPortrait,
+  };
+
+  // Draw ids from the seeded RNG so the same seed always produces the same layout
+  const nextId = () => generateSimulationId(state);
+  // Create mining depots in corners, with initial mining drones on diagonal deposits
+  state.miningDepots = createMiningDepots(arenaWidth, arenaHeight, nextId);
+  state.units = createInitialMiningDrones(state.miningDepots, nextId);
+
+  const playerBaseTypeDef = BASE_TYPE_DEFINITIONS[playerBaseType];
+  const enemyBaseTypeDef = BASE_TYPE_DEFINITIONS[enemyBaseType];
+  state.bases = [
+    {
+      id: nextId(),
+      owner: 0,
+      position: basePositions.player,
+      hp: playerBaseTypeDef.hp,
+      maxHp: playerBaseTypeDef.hp,
+      armor: playerBaseTypeDef.armor,
+      movementTarget: null,
+      rallyPoint: calculateDefaultRallyPoint(basePositions.player, basePositions.enemy),
+      isSelected: false,
+      laserCooldown: 0,
+      faction: playerFaction,
+      baseType: playerBaseType,
+      autoAttackCooldown: 0,
+    },
+    {
+      id: nextId(),
+      owner: 1,
+      position: basePositions.enemy,
+      hp: enemyBaseTypeDef.hp,
+      maxHp: enemyBaseTypeDef.hp,
+      armor: enemyBaseTypeDef.armor,
+      movementTarget: null,
+      rallyPoint: calculateDefaultRallyPoint(basePositions.enemy, basePositions.player),
+      isSelected: false,
+      laserCooldown: 0,
+      faction: enemyFaction,
+      baseType: enemyBaseType,
+      autoAttackCooldown: 0,
+    },
+  ];
+
+  return state;
+}
@@ -0,0 +1,46 @@
+/**
+ * Match statistics - keeps GameState.matchStats up to date from the gameplay event stream.
+ * Runs as a simulation listener (gameplayEvents.ts), so the totals are part of the simulated
+ * state: the time limit tie-break reads them.
+ */
+
+import { GameState, GameplayEvent } from './types';
+import { getLocalPlayerIndex } from './gameUtils';
+
+/**
+ * Add one gameplay event to the match statistics of the local player
+ * @param state - Game state being simulated
+ * @param event - Event just emitted
+ */
+export function recordMatchStats(state: GameState, event: GameplayEvent): void {
+  const stats = state.matchStats;
+  if (!stats) return;
+  const localPlayer = getLocalPlayerIndex(state);
+
+  switch (event.type) {
+    case 'unitSpawned':
+      // Mining drones are bought at depots and don't count as trained units
+      if (event.owner === localPlayer && event.unitType !== 'miningDrone') {
+        stats.unitsTrainedByPlayer += 1;
+        stats.photonsSpentByPlayer += event.cost;
+      }
+      break;
+    case 'damageDealt':
+      if (event.sourceOwner === localPlayer) {
+        stats.damageDealtByPlayer += event.amount;
+      }
+      break;
+    case 'baseDamaged':
+      if (event.owner === localPlayer) {
+        stats.damageToPlayerBase += event.amount;
+      } else {
+        stats.damageToEnemyBase += event.amount;
+      }
+      break;
+    case 'unitKilled':
+      if (event.owner !== localPlayer) {
+        stats.unitsKilledByPlayer += 1;
+      }
+      break;
+  }
+}
@@ -1,5 +1,6 @@
-import { GameState, CommandNode, Unit, Base } from './types';
 import { RealtimeKVStore, createRealtimeStore } from './realtimeStore';
+import { GameplayCommand } from './commands';
+import { getArenaHeight, shouldUsePortraitCoordinates } from './gameUtils';
 
 export interface MultiplayerState {
   gameId: string;
@@ -12,17 +13,14 @@ export interface MultiplayerState {
   lastUpdate: number;
 }
 
+// One lockstep turn of input from a player. A message is sent for every turn, even an empty one,
+// so the opponent knows it may simulate that turn.
 export interface GameCommand {
   playerId: string;
   timestamp: number;
-  commands: Array<{
-    type: 'spawn' | 'move' | 'ability' | 'baseMove' | 'baseLaser' | 'select';
-    unitIds?: string[];
-    baseId?: string;
-    position?: { x: number; y: number };
-    direction?: { x: number; y: number };
-    spawnType?: string;
-  }>;
+  turn: number; // Lockstep turn the commands execute on
+  commands: GameplayCommand[];
+  checksum?: { turn: number; value: number }; // Sender's state checksum at the start of an earlier turn
 }
 
 export interface LobbyData {
@@ -37,18 +35,33 @@ export interface LobbyData {
   created: number;
   mapId: string;
   enabledUnits: string[];
+  arenaHeight?: number; // Host's arena height in meters; both peers simulate the same arena
+  isPortrait?: boolean; // Host's base placement coordinate system
+  winner?: number; // Winning slot (-1 for a draw) once the match has ended
+  spectators?: LobbySpectator[]; // Read-only viewers, filled in by getLobby from their own keys; never stored here
+}
+
+export interface LobbySpectator {
+  id: string;
+  name: string;
+}
+
+// The game this browser is part of, kept across reloads so a dropped player can rejoin
+interface ActiveGameRecord {
+  gameId: string;
+  isHost: boolean;
 }
 
-const GAME_UPDATE_INTERVAL = 100;
 const LOBBY_TIMEOUT = 300000;
+const ACTIVE_GAME_STORAGE_KEY = 'multiplayer:active-game';
 
 export class MultiplayerManager {
   private gameId: string | null = null;
   private playerId: string;
   private isHost: boolean = false;
+  private isSpectator: boolean = false;
   private updateInterval: number | null = null;
   private commandQueue: GameCommand[] = [];
-  private lastSyncTime: number = 0;
   // Store abstracts the realtime backend (Spark, Supabase, or future paid providers).
   private store: RealtimeKVStore;
 
@@ -65,7 +78,7 @@ export class MultiplayerManager {
   async createGame(hostName: string, hostColor: string, mapId: string, enabledUnits: string[]): Promise<string> {
     // Require a configured backend to avoid creating lobbies that cannot sync.
     if (!this.store.isAvailable()) {
-      throw new Error('Multiplayer requires Spark runtime or Supabase credentials (VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY).');
+      throw new Error('Multiplayer requires Spark runtime, a relay server (VITE_RELAY_URL) or Supabase credentials (VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY).');
     }
     
     const gameId = `game_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
@@ -82,6 +95,8 @@ export class MultiplayerManager {
       created: Date.now(),
       mapId,
       enabledUnits,
+      arenaHeight: getArenaHeight(),
+      isPortrait: shouldUsePortraitCoordinates(),
     };
 
     await this.store.set(`lobby:${gameId}`, lobby);
@@ -89,6 +104,8 @@ export class MultiplayerManager {
     
     this.gameId = gameId;
     this.isHost = true;
+    this.isSpectator = false;
+    this.rememberActiveGame();
     
     return gameId;
   }
@@ -113,10 +130,59 @@ export class MultiplayerManager {
     
     this.gameId = gameId;
     this.isHost = false;
+    this.isSpectator = false;
+    this.rememberActiveGame();
     
     return true;
   }
 
+  /**
+   * Watch a match without taking a slot. Works before the host starts (the spectator waits in the
+   * lobby) and during the match (the caller fast-forwards through the command logs).
+   * @returns The lobby, or null if the game doesn't exist or has already finished
+   */
+  async spectateGame(gameId: string, spectatorName: string): Promise<LobbyData | null> {
+    if (!this.store.isAvailable()) return null;
+
+    const lobby = await this.store.get<LobbyData>(`lobby:${gameId}`);
+    if (!lobby || lobby.status === 'finished') return null;
+
+    // Spectators write only their own key, so joining never races the players' lobby writes
+    const spectator: LobbySpectator = { id: this.playerId, name: spectatorName };
+    await this.store.set(this.getSpectatorKey(gameId, this.playerId), spectator);
+
+    // Spectators are not remembered for rejoining; nothing waits on them
+    this.gameId = gameId;
+    this.isHost = false;
+    this.isSpectator = true;
+    return this.getLobby(gameId);
+  }
+
+  /**
+   * Rejoin the match this browser was playing before a reload or crash.
+   * @returns The lobby if the remembered match is still in progress, otherwise null
+   */
+  async resumeGame(): Promise<LobbyData | null> {
+    const record = this.loadActiveGame();
+    if (!record || !this.store.isAvailable()) return null;
+
+    const lobby = await this.store.get<LobbyData>(`lobby:${record.gameId}`);
+    if (!lobby || lobby.status !== 'playing' || !lobby.guestId) {
+      this.forgetActiveGame();
+      return null;
+    }
+
+    this.gameId = record.gameId;
+    this.isHost = record.isHost;
+    this.isSpectator = false;
+    return lobby;
+  }
+
+  /** Id of the match remembered for rejoining, if any. */
+  getRememberedGameId(): string | null {
+    return this.loadActiveGame()?.gameId ?? null;
+  }
+
   async startGame(): Promise<void> {
     if (!this.store.isAvailable() || !this.gameId || !this.isHost) return;
 
@@ -142,7 +208,14 @@ export class MultiplayerManager {
 
   async getLobby(gameId: string): Promise<LobbyData | null> {
     if (!this.store.isAvailable()) return null;
-    return await this.store.get<LobbyData>(`lobby:${gameId}`) || null;
+    const lobby = await this.store.get<LobbyData>(`lobby:${gameId}`);
+    if (!lobby) return null;
+
+    const entries = await this.store.listEntries<LobbySpectator>(this.getSpectatorKeyPrefix(gameId));
+    lobby.spectators = entries
+      .map((entry) => entry.value)
+      .filter((spectator): spectator is LobbySpectator => spectator !== null);
+    return lobby;
   }
 
   async getAvailableLobbies(): Promise<LobbyData[]> {
@@ -170,7 +243,7 @@ export class MultiplayerManager {
   }
 
   async sendCommand(command: Omit<GameCommand, 'playerId' | 'timestamp'>): Promise<void> {
-    if (!this.store.isAvailable() || !this.gameId) return;
+    if (!this.store.isAvailable() || !this.gameId || this.isSpectator) return;
 
     const fullCommand: GameCommand = {
       ...command,
@@ -178,19 +251,17 @@ export class MultiplayerManager {
       timestamp: Date.now(),
     };
 
-    // Append to the command stream instead of creating timestamped keys.
-    const commandStreamKey = `game:${this.gameId}:commands`;
-    await this.store.appendCommand(commandStreamKey, fullCommand);
+    // Each player appends to its own stream so no two clients ever write the same key.
+    await this.store.appendCommand(this.getCommandStreamKey(this.getPlayerIndex()), fullCommand);
   }
 
-  async getCommands(sinceSeq: number): Promise<{ commands: GameCommand[]; latestSeq: number }> {
+  async getCommands(playerIndex: number, sinceSeq: number): Promise<{ commands: GameCommand[]; latestSeq: number }> {
     if (!this.store.isAvailable() || !this.gameId) {
       return { commands: [], latestSeq: sinceSeq };
     }
 
     // Pull only the newly appended commands using a sequence counter.
-    const commandStreamKey = `game:${this.gameId}:commands`;
-    const entries = await this.store.listCommandsSince<GameCommand>(commandStreamKey, sinceSeq);
+    const entries = await this.store.listCommandsSince<GameCommand>(this.getCommandStreamKey(playerIndex), sinceSeq);
     const commands = entries
       .map((entry) => entry.payload)
       .filter((payload): payload is GameCommand => payload !== null && payload !== undefined);
@@ -199,33 +270,16 @@ export class MultiplayerManager {
     return { commands, latestSeq };
   }
 
-  async syncGameState(gameState: Partial<GameState>): Promise<void> {
-    if (!this.store.isAvailable() || !this.gameId || !this.isHost) return;
-
-    const now = Date.now();
-    if (now - this.lastSyncTime < GAME_UPDATE_INTERVAL) return;
-
-    const syncData = {
-      units: gameState.units,
-      bases: gameState.bases,
-      players: gameState.players,
-      elapsedTime: gameState.elapsedTime,
-      winner: gameState.winner,
-      timestamp: now,
-    };
-
-    await this.store.set(`game:${this.gameId}:sync`, syncData);
-    this.lastSyncTime = now;
-  }
-
-  async getGameState(): Promise<any | null> {
-    if (!this.store.isAvailable() || !this.gameId) return null;
-    return await this.store.get(`game:${this.gameId}:sync`) || null;
-  }
-
   async leaveGame(): Promise<void> {
     if (!this.store.isAvailable() || !this.gameId) return;
 
+    if (this.isSpectator) {
+      await this.store.delete(this.getSpectatorKey(this.gameId, this.playerId));
+      this.gameId = null;
+      this.isSpectator = false;
+      return;
+    }
+
     const lobby = await this.store.get<LobbyData>(`lobby:${this.gameId}`);
     if (lobby) {
       if (this.isHost) {
@@ -239,23 +293,35 @@ export class MultiplayerManager {
       await this.store.set(`lobby:${this.gameId}`, lobby);
     }
 
+    this.forgetActiveGame();
     this.gameId = null;
     this.isHost = false;
   }
 
-  async endGame(): Promise<void> {
+  /**
+   * Mark the match finished so a player who drops and rejoins learns the result.
+   * @param winner - Winning slot, or -1 for a draw; leave undefined if unknown
+   */
+  async endGame(winner?: number): Promise<void> {
     if (!this.store.isAvailable() || !this.gameId) return;
+    // Only players decide how a match ended
+    if (this.isSpectator) return this.leaveGame();
 
-    const lobby = await this.store.get<LobbyData>(`lobby:${this.gameId}`);
-    if (lobby) {
+    const gameId = this.gameId;
+    this.gameId = null;
+    this.isHost = false;
+    this.forgetActiveGame();
+
+    const lobby = await this.store.get<LobbyData>(`lobby:${gameId}`);
+    if (lobby && lobby.status !== 'finished') {
       lobby.status = 'finished';
-      await this.store.set(`lobby:${this.gameId}`, lobby);
+      if (winner !== undefined) {
+        lobby.winner = winner;
+      }
+      await this.store.set(`lobby:${gameId}`, lobby);
     }
 
-    await this.removeFromLobbyList(this.gameId);
-    
-    this.gameId = null;
-    this.isHost = false;
+    await this.removeFromLobbyList(gameId);
   }
 
   private async addToLobbyList(gameId: string): Promise<void> {
@@ -289,4 +355,48 @@ export class MultiplayerManager {
   getIsHost(): boolean {
     return this.isHost;
   }
+
+  getIsSpectator(): boolean {
+    return this.isSpectator;
+  }
+
+  /** Player slot in the shared simulation: the host plays slot 0 and the guest slot 1. */
+  getPlayerIndex(): number {
+    return this.isHost ? 0 : 1;
+  }
+
+  private getCommandStreamKey(playerIndex: number): string {
+    return `game:${this.gameId}:commands:${playerIndex}`;
+  }
+
+  // Each spectator has its own key under the lobby so no one else ever writes it
+  private getSpectatorKeyPrefix(gameId: string): string {
+    return `lobby:${gameId}:spectator:`;
+  }
+
+  private getSpectatorKey(gameId: string, playerId: string): string {
+    return `${this.getSpectatorKeyPrefix(gameId)}${playerId}`;
+  }
+
+  // The active game lives in localStorage rather than the shared store because it must survive a reload
+  private rememberActiveGame(): void {
+    if (typeof localStorage === 'undefined' || !this.gameId) return;
+    const record: ActiveGameRecord = { gameId: this.gameId, isHost: this.isHost };
+    localStorage.setItem(ACTIVE_GAME_STORAGE_KEY, JSON.stringify(record));
+  }
+
+  private loadActiveGame(): ActiveGameRecord | null {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+      const raw = localStorage.getItem(ACTIVE_GAME_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as ActiveGameRecord) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private forgetActiveGame(): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.removeItem(ACTIVE_GAME_STORAGE_KEY);
+  }
 }
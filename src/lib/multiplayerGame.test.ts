@@ -0,0 +1,101 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { MultiplayerSync, advanceLockstep, initializeMultiplayerSync, updateMultiplayerSync } from './multiplayerGame';
+import { MultiplayerManager } from './multiplayer';
+import { LoopbackNetwork, LoopbackKVStore } from './loopbackStore';
+import { createHeadlessMatchState } from './headless';
+import { GameState } from './types';
+
+const FRAME_MS = 500;
+// Comfortably past the forfeit timeout
+const LONG_WAIT_MS = 70000;
+// Comfortably inside it
+const SHORT_WAIT_MS = 30000;
+
+interface StalledMatch {
+  hostStore: LoopbackKVStore;
+  host: MultiplayerManager;
+  state: GameState;
+  sync: MultiplayerSync;
+}
+
+// The host's side of a started match whose guest never sends a turn
+async function startStalledMatch(): Promise<StalledMatch> {
+  const network = new LoopbackNetwork();
+  const hostStore = network.createStore();
+  const host = new MultiplayerManager('host', hostStore);
+  const guest = new MultiplayerManager('guest', network.createStore());
+
+  const gameId = await host.createGame('Host', '#00ffff', 'open', ['marine']);
+  await guest.joinGame(gameId, 'Guest', '#ff00ff');
+  await host.startGame();
+
+  const state = createHeadlessMatchState({ seed: 1 });
+  state.vsMode = 'online';
+  state.lockstepOutbox = [];
+  return { hostStore, host, state, sync: initializeMultiplayerSync(0) };
+}
+
+// Fake wall clock for playFrames; it only moves forward, across calls too
+let fakeNow = Date.now();
+
+// Run game-loop frames with the wall clock moving FRAME_MS per frame
+async function playFrames(match: StalledMatch, durationMs: number): Promise<void> {
+  const realNow = Date.now;
+  Date.now = () => fakeNow;
+  try {
+    for (let elapsed = 0; elapsed < durationMs && match.state.mode === 'game'; elapsed += FRAME_MS) {
+      fakeNow += FRAME_MS;
+      await updateMultiplayerSync(match.state, match.host, match.sync);
+      advanceLockstep(match.state, match.host, match.sync, FRAME_MS);
+    }
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+// The lockstep loop logs every failed poll and send, reconnects and forfeits
+function silenceNetworkLogs(t: TestContext): void {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'warn', () => {});
+  t.mock.method(console, 'error', () => {});
+}
+
+// End the match so the host's send retries stop
+async function finish(match: StalledMatch): Promise<void> {
+  match.hostStore.setOnline(true);
+  await match.host.endGame();
+  await match.sync.sendChain;
+}
+
+test('a silent opponent forfeits after the timeout', async (t) => {
+  silenceNetworkLogs(t);
+  const match = await startStalledMatch();
+  await playFrames(match, LONG_WAIT_MS);
+
+  assert.equal(match.state.mode, 'victory');
+  assert.equal(match.state.winner, 0);
+  assert.equal(match.state.networkStatus?.opponentForfeited, true);
+  await finish(match);
+});
+
+test('no forfeit is claimed while our own store fails', async (t) => {
+  silenceNetworkLogs(t);
+  const match = await startStalledMatch();
+  match.hostStore.setOnline(false);
+  await playFrames(match, LONG_WAIT_MS);
+
+  assert.equal(match.state.networkStatus?.connected, false);
+  assert.equal(match.state.mode, 'game');
+  assert.equal(match.state.winner, null);
+
+  // Back online, the held-back turns go out and the opponent gets the full timeout again
+  match.hostStore.setOnline(true);
+  await match.sync.sendChain;
+  await playFrames(match, SHORT_WAIT_MS);
+  assert.equal(match.state.mode, 'game');
+
+  await playFrames(match, LONG_WAIT_MS);
+  assert.equal(match.state.winner, 0);
+  await finish(match);
+});
@@ -1,293 +1,234 @@
 /**
- * Multiplayer game integration - handles command synchronization between players
+ * Multiplayer game integration - deterministic lockstep over the command stream.
+ * Both peers run the same simulation from the same seed. Local commands are scheduled a few
+ * turns ahead, exchanged through the realtime store and applied by both peers on the same tick,
+ * and periodic state checksums catch any divergence. A player who drops can rejoin by replaying
+ * both command logs from the start; the player left behind gets a forfeit timer. Spectators run
+ * the same simulation from both players' streams without sending anything, optionally delayed.
  */
 
-import { GameState, CommandNode, Unit, LASER_RANGE, LASER_WIDTH, LASER_DAMAGE_UNIT, LASER_DAMAGE_BASE, LASER_COOLDOWN, BASE_SIZE_METERS, UnitType, UNIT_DEFINITIONS, UNIT_SIZE_METERS } from './types';
+import { GameState } from './types';
 import { MultiplayerManager, GameCommand } from './multiplayer';
-import { spawnUnit } from './simulation';
-import { applyFormation } from './formations';
+import { GameplayCommand, executeGameplayCommand } from './commands';
+import { updateGame } from './simulation';
+import { computeStateChecksum } from './determinism';
+import { FIXED_TIME_STEP_MS, PositionInterpolator, createPositionInterpolator, restoreSimulatedPositions, captureSimulatedPositions, interpolatePositions } from './fixedTimestep';
+import { recordReplayFrame } from './replay';
+import { emitGameplayEvent } from './gameplayEvents';
 
 export interface MultiplayerSync {
+  // Player slot controlled by this client (host 0, guest 1). Spectators use 0 and never send.
+  localPlayerIndex: number;
+  // Watching without a slot: slot 0's stream fills hostTurns, slot 1's fills remoteTurns.
+  spectating: boolean;
+  // Spectators stay this many turns behind the newest turn both players have sent.
+  spectatorDelayTurns: number;
+  // Simulation ticks run so far.
+  tick: number;
+  // Next lockstep turn to execute.
+  turn: number;
+  // Real time not yet simulated, in milliseconds.
+  accumulatorMs: number;
+  // Our own commands keyed by the turn they execute on.
+  localTurns: Map<number, GameplayCommand[]>;
+  // Opponent turn messages keyed by turn.
+  remoteTurns: Map<number, GameCommand>;
+  // Spectators only: slot 0's turn messages keyed by turn.
+  hostTurns: Map<number, GameCommand>;
+  // Our checksums keyed by turn, kept until the opponent's checksum for that turn arrives.
+  localChecksums: Map<number, number>;
+  // Sends are chained so command log appends reach the store in turn order.
+  sendChain: Promise<void>;
+  // Set while a turn send is being retried: our own stream is stale, so a stall may be our fault.
+  sendFailing: boolean;
   // Timestamp of the last polling attempt so we can throttle network checks.
   lastCommandCheck: number;
   // Timestamp of the next allowed poll so we can back off on failures.
   nextCommandCheckAt: number;
-  // Sequence number of the last command processed from the stream.
+  // Sequence number of the last command processed from the opponent's stream.
   lastCommandSeq: number;
-  // Buffer for any queued commands (reserved for future batching).
-  commandBuffer: GameCommand[];
+  // Spectators only: sequence number of the last command read from slot 0's stream.
+  lastHostCommandSeq: number;
   // Counts consecutive polling failures so we can increase backoff time.
   failedCommandPolls: number;
+  // Prevents overlapping polls when the store is slower than the poll interval.
+  pollInFlight: boolean;
+  // Set after rejoining: run turns from the command logs as fast as possible until caught up.
+  fastForwarding: boolean;
+  // Timestamp of the next lobby check while stalled, to notice the opponent ending the match.
+  nextLobbyCheckAt: number;
+  // Blends drawn positions between lockstep ticks.
+  interpolator: PositionInterpolator;
 }
 
 // Configuration constants
+// Online matches step on the same fixed timestep as offline, headless and replayed ones, so the
+// same inputs give the same results everywhere
+export const LOCKSTEP_TICK_MS = FIXED_TIME_STEP_MS;
+const LOCKSTEP_TICKS_PER_TURN = 3; // Ticks per lockstep turn (99ms turns)
+const LOCKSTEP_INPUT_DELAY_TURNS = 3; // Turns between issuing a command and executing it, to hide store latency
+const CHECKSUM_INTERVAL_TURNS = 10; // Exchange a state checksum once per second
+const MAX_TICKS_PER_FRAME = 6; // Cap catch-up after a stall so one frame can't freeze the page
 const COMMAND_POLL_INTERVAL_MS = 100; // How often to check for new opponent commands
 const COMMAND_POLL_MAX_BACKOFF_MS = 2000; // Cap the backoff to keep gameplay responsive
+const SEND_RETRY_MAX_BACKOFF_MS = 2000; // Keep resending a turn; the opponent can't advance without it
+const FAST_FORWARD_TICKS_PER_FRAME = 200; // Ticks simulated per frame while catching up after a rejoin
+const LOBBY_CHECK_INTERVAL_MS = 2000; // How often a stalled client checks whether the match was ended
+const WAITING_FOR_PLAYER_GRACE_MS = 1500; // Stalls shorter than this are normal jitter, not a dropped player
+const OPPONENT_FORFEIT_TIMEOUT_MS = 60000; // How long to wait for a dropped opponent before they forfeit
+const LOCKSTEP_TURN_MS = LOCKSTEP_TICK_MS * LOCKSTEP_TICKS_PER_TURN;
+
+// Feed delays offered to spectators; a delay keeps a spectator from relaying live positions to a player
+export const SPECTATOR_DELAY_OPTIONS_SECONDS = [0, 15, 30, 60];
 
 /**
- * Initialize multiplayer synchronization state for a game
+ * Initialize lockstep synchronization state for a game
+ * @param localPlayerIndex - Slot this client controls (host 0, guest 1)
  */
-export function initializeMultiplayerSync(): MultiplayerSync {
+export function initializeMultiplayerSync(localPlayerIndex: number): MultiplayerSync {
   const now = Date.now();
 
   return {
+    localPlayerIndex,
+    spectating: false,
+    spectatorDelayTurns: 0,
+    tick: 0,
+    turn: 0,
+    accumulatorMs: 0,
+    localTurns: new Map(),
+    remoteTurns: new Map(),
+    hostTurns: new Map(),
+    localChecksums: new Map(),
+    sendChain: Promise.resolve(),
+    sendFailing: false,
     lastCommandCheck: now,
     nextCommandCheckAt: now,
     lastCommandSeq: 0,
-    commandBuffer: [],
+    lastHostCommandSeq: 0,
     failedCommandPolls: 0,
+    pollInFlight: false,
+    fastForwarding: false,
+    nextLobbyCheckAt: now,
+    interpolator: createPositionInterpolator(),
   };
 }
 
 /**
- * Send a spawn command to the multiplayer backend
+ * Initialize lockstep state for a spectator, who reads both players' streams and sends nothing
+ * @param delaySeconds - How far behind the players to run the feed, so it can't be used to scout live
  */
-export async function sendSpawnCommand(
-  manager: MultiplayerManager,
-  playerIndex: number,
-  unitType: string,
-  baseId: string,
-  rallyPosition: { x: number; y: number }
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: 'spawn',
-      baseId,
-      spawnType: unitType,
-      position: rallyPosition,
-    }],
-  });
+export function initializeSpectatorSync(delaySeconds: number = 0): MultiplayerSync {
+  return {
+    ...initializeMultiplayerSync(0),
+    spectating: true,
+    spectatorDelayTurns: Math.max(0, Math.round((delaySeconds * 1000) / LOCKSTEP_TURN_MS)),
+  };
 }
 
 /**
- * Send movement commands for selected units
+ * Load both command logs from the start of the match so a rejoining player (or a spectator joining
+ * late) can fast-forward. Our own earlier turns are reused as-is rather than re-sent, since the
+ * opponent may already have run them.
+ * @returns false if a log no longer reaches back to the first turn (the store trimmed it)
  */
-export async function sendMoveCommand(
-  manager: MultiplayerManager,
-  unitIds: string[],
-  position: { x: number; y: number },
-  isAttackMove: boolean = false
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: isAttackMove ? 'ability' : 'move',
-      unitIds,
-      position,
-    }],
-  });
-}
+export async function loadMatchHistory(manager: MultiplayerManager, sync: MultiplayerSync): Promise<boolean> {
+  const opponentIndex = sync.localPlayerIndex === 0 ? 1 : 0;
+  const [own, opponent] = await Promise.all([
+    manager.getCommands(sync.localPlayerIndex, 0),
+    manager.getCommands(opponentIndex, 0),
+  ]);
 
-/**
- * Send ability command for selected units
- */
-export async function sendAbilityCommand(
-  manager: MultiplayerManager,
-  unitIds: string[],
-  position: { x: number; y: number },
-  direction: { x: number; y: number }
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: 'ability',
-      unitIds,
-      position,
-      direction,
-    }],
-  });
-}
+  // The first message of a complete log is for the first turn after the input delay
+  const isComplete = (messages: GameCommand[]) =>
+    messages.length === 0 || messages.some((message) => message.turn === LOCKSTEP_INPUT_DELAY_TURNS);
+  if (!isComplete(own.commands) || !isComplete(opponent.commands)) {
+    return false;
+  }
 
-/**
- * Send base movement command
- */
-export async function sendBaseMoveCommand(
-  manager: MultiplayerManager,
-  baseId: string,
-  position: { x: number; y: number }
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: 'baseMove',
-      baseId,
-      position,
-    }],
-  });
+  if (sync.spectating) {
+    own.commands.forEach((message) => sync.hostTurns.set(message.turn, message));
+    sync.lastHostCommandSeq = own.latestSeq;
+  } else {
+    own.commands.forEach((message) => sync.localTurns.set(message.turn, message.commands));
+  }
+  opponent.commands.forEach((message) => sync.remoteTurns.set(message.turn, message));
+  sync.lastCommandSeq = opponent.latestSeq;
+  sync.fastForwarding = true;
+  return true;
 }
 
 /**
- * Send base laser command
+ * Advance the online simulation by whole lockstep ticks.
+ * Replaces the variable-step updateGame call for online games; stalls when the opponent's
+ * input for the next turn has not arrived yet and stops for good once a desync is detected.
+ * Positions are drawn interpolated between ticks.
+ * @param state - Online game state (must have lockstepOutbox set)
+ * @param manager - Multiplayer manager used to send our turns
+ * @param sync - Lockstep state for this match
+ * @param realDeltaMs - Real milliseconds since the last frame
  */
-export async function sendBaseLaserCommand(
+export function advanceLockstep(
+  state: GameState,
   manager: MultiplayerManager,
-  baseId: string,
-  direction: { x: number; y: number }
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: 'baseLaser',
-      baseId,
-      direction,
-    }],
-  });
+  sync: MultiplayerSync,
+  realDeltaMs: number
+): void {
+  // Ticks and checksums must see the simulated positions, not the drawn ones
+  const tickBefore = sync.tick;
+  restoreSimulatedPositions(sync.interpolator);
+  runLockstepTicks(state, manager, sync, realDeltaMs);
+  if (sync.tick !== tickBefore) {
+    captureSimulatedPositions(sync.interpolator, state, LOCKSTEP_TICK_MS);
+  }
+  interpolatePositions(sync.interpolator);
 }
 
-/**
- * Send unit selection command (for synchronization)
- */
-export async function sendSelectCommand(
-  manager: MultiplayerManager,
-  unitIds: string[]
-): Promise<void> {
-  await manager.sendCommand({
-    commands: [{
-      type: 'select',
-      unitIds,
-    }],
-  });
-}
+function runLockstepTicks(state: GameState, manager: MultiplayerManager, sync: MultiplayerSync, realDeltaMs: number): void {
+  if (state.networkStatus?.desync) return;
 
-/**
- * Process received commands from opponent and apply them to game state
- */
-export function applyOpponentCommands(
-  state: GameState,
-  commands: GameCommand[],
-  opponentIndex: number
-): void {
-  // Keep remote group moves spaced out to avoid units stacking on a shared target.
-  const formationSpacing = UNIT_SIZE_METERS * 0.9;
+  if (sync.fastForwarding) {
+    fastForward(state, manager, sync);
+    return;
+  }
 
-  for (const cmd of commands) {
-    for (const command of cmd.commands) {
-      try {
-        switch (command.type) {
-          case 'spawn':
-            if (command.baseId && command.spawnType && command.position) {
-              const base = state.bases.find(b => b.id === command.baseId && b.owner === opponentIndex);
-              if (base) {
-                // Validate spawnType using available unit types from UNIT_DEFINITIONS
-                const validUnitTypes = Object.keys(UNIT_DEFINITIONS) as UnitType[];
-                if (validUnitTypes.includes(command.spawnType as UnitType)) {
-                  spawnUnit(state, opponentIndex, command.spawnType as UnitType, base.position, command.position);
-                }
-              }
-            }
-            break;
-
-          case 'move':
-            if (command.unitIds && command.position) {
-              // Resolve the units in command order to keep formation assignment stable across clients.
-              const movingUnits = command.unitIds
-                .map(unitId => state.units.find(u => u.id === unitId && u.owner === opponentIndex))
-                .filter((unit): unit is Unit => Boolean(unit));
-
-              // Apply default formation spacing when only a single target point is broadcast.
-              const formationTargets = applyFormation(
-                movingUnits,
-                command.position,
-                'none',
-                formationSpacing
-              );
-
-              movingUnits.forEach((unit, index) => {
-                unit.commandQueue = [{ type: 'move', position: formationTargets[index] }];
-              });
-            }
-            break;
-
-          case 'ability':
-            if (command.unitIds && command.position && command.direction) {
-              command.unitIds.forEach(unitId => {
-                const unit = state.units.find(u => u.id === unitId && u.owner === opponentIndex);
-                if (unit) {
-                  const abilityNode: CommandNode = {
-                    type: 'ability',
-                    position: command.position!,
-                    direction: command.direction!,
-                  };
-                  unit.commandQueue = [abilityNode];
-                }
-              });
-            }
-            break;
-
-          case 'baseMove':
-            if (command.baseId && command.position) {
-              const base = state.bases.find(b => b.id === command.baseId && b.owner === opponentIndex);
-              if (base) {
-                base.movementTarget = command.position;
-              }
-            }
-            break;
-
-          case 'baseLaser':
-            if (command.baseId && command.direction) {
-              const base = state.bases.find(b => b.id === command.baseId && b.owner === opponentIndex);
-              if (base && base.laserCooldown === 0) {
-                // Set up the laser beam visual
-                base.laserBeam = {
-                  endTime: Date.now() + 500,
-                  direction: command.direction,
-                };
-                base.laserCooldown = LASER_COOLDOWN;
-                
-                // Apply laser damage
-                state.units.forEach((unit) => {
-                  if (unit.owner === base.owner) return;
-
-                  const toUnit = { x: unit.position.x - base.position.x, y: unit.position.y - base.position.y };
-                  const projectedDist = toUnit.x * command.direction!.x + toUnit.y * command.direction!.y;
-                  const perpDist = Math.abs(toUnit.x * command.direction!.y - toUnit.y * command.direction!.x);
-
-                  if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2) {
-                    unit.hp -= LASER_DAMAGE_UNIT;
-                  }
-                });
-
-                state.bases.forEach((targetBase) => {
-                  if (targetBase.owner === base.owner) return;
-
-                  const toBase = { x: targetBase.position.x - base.position.x, y: targetBase.position.y - base.position.y };
-                  const projectedDist = toBase.x * command.direction!.x + toBase.y * command.direction!.y;
-                  const perpDist = Math.abs(toBase.x * command.direction!.y - toBase.y * command.direction!.x);
-
-                  const baseRadius = BASE_SIZE_METERS / 2;
-                  if (projectedDist > 0 && projectedDist < LASER_RANGE && perpDist < LASER_WIDTH / 2 + baseRadius) {
-                    targetBase.hp -= LASER_DAMAGE_BASE;
-                  }
-                });
-              }
-            }
-            break;
-
-          case 'select':
-            // Selection commands are informational and don't need to be applied
-            // They can be used for UI feedback if needed in the future
-            break;
-        }
-      } catch (error) {
-        console.warn('Error applying opponent command:', error, command);
-      }
+  sync.accumulatorMs = Math.min(sync.accumulatorMs + realDeltaMs, LOCKSTEP_TICK_MS * MAX_TICKS_PER_FRAME);
+
+  let ticksThisFrame = 0;
+  while (sync.accumulatorMs >= LOCKSTEP_TICK_MS && ticksThisFrame < MAX_TICKS_PER_FRAME && state.mode === 'game') {
+    if (sync.tick % LOCKSTEP_TICKS_PER_TURN === 0 && !beginTurn(state, manager, sync)) {
+      // Hold the simulation until the opponent's turn arrives instead of guessing. A spectator
+      // holding back for the feed delay has the turn already and isn't waiting on anyone.
+      const holdingForDelay = sync.spectating && hasSpectatorTurn(sync, sync.turn);
+      setWaitingForOpponent(state, !state.networkStatus?.desync && !holdingForDelay);
+      sync.accumulatorMs = Math.min(sync.accumulatorMs, LOCKSTEP_TICK_MS);
+      checkForfeitTimer(state, manager, sync);
+      return;
     }
+
+    runTick(state, sync);
+    sync.accumulatorMs -= LOCKSTEP_TICK_MS;
+    ticksThisFrame++;
   }
+
+  setWaitingForOpponent(state, false);
 }
 
 /**
- * Update multiplayer synchronization - fetch and apply opponent commands
- * This should be called in the game loop for online games
+ * Poll the opponent's command stream and buffer their turns for advanceLockstep.
+ * This should be called in the game loop for online games.
  */
 export async function updateMultiplayerSync(
   state: GameState,
   manager: MultiplayerManager,
-  sync: MultiplayerSync,
-  localPlayerIndex: number
+  sync: MultiplayerSync
 ): Promise<void> {
   const now = Date.now();
-  
+
   // Skip polling if we are still within the configured interval or backoff window.
-  if (now - sync.lastCommandCheck < COMMAND_POLL_INTERVAL_MS || now < sync.nextCommandCheckAt) {
+  if (sync.pollInFlight || now - sync.lastCommandCheck < COMMAND_POLL_INTERVAL_MS || now < sync.nextCommandCheckAt) {
     return;
   }
-  
+
   // Initialize network status if not present
   if (!state.networkStatus) {
     state.networkStatus = {
@@ -295,29 +236,45 @@ export async function updateMultiplayerSync(
       lastSync: now,
     };
   }
-  
+
   const syncStart = now;
   const wasConnected = state.networkStatus.connected;
-  
+  const opponentIndex = sync.localPlayerIndex === 0 ? 1 : 0;
+  sync.pollInFlight = true;
+
   try {
-    const { commands: newCommands, latestSeq } = await manager.getCommands(sync.lastCommandSeq);
-    
-    if (newCommands.length > 0) {
-      // Filter out our own commands (we already applied them locally)
-      const opponentCommands = newCommands.filter(cmd => cmd.playerId !== manager.getPlayerId());
-      
-      if (opponentCommands.length > 0) {
-        const opponentIndex = localPlayerIndex === 0 ? 1 : 0;
-        applyOpponentCommands(state, opponentCommands, opponentIndex);
-      }
+    // Spectators always check: a delayed feed is never stalled when the players stop sending
+    if ((state.networkStatus.waitingForOpponent || sync.spectating) && now >= sync.nextLobbyCheckAt) {
+      sync.nextLobbyCheckAt = now + LOBBY_CHECK_INTERVAL_MS;
+      await checkLobbyFinished(state, manager, sync);
     }
-    
+
+    // Spectators have no turns of their own; slot 0's stream is read like the opponent's
+    if (sync.spectating) {
+      const { commands: hostTurns, latestSeq: hostSeq } = await manager.getCommands(0, sync.lastHostCommandSeq);
+      hostTurns.forEach((message) => {
+        if (message.turn >= sync.turn) {
+          sync.hostTurns.set(message.turn, message);
+        }
+      });
+      sync.lastHostCommandSeq = hostSeq;
+    }
+
+    const { commands: newTurns, latestSeq } = await manager.getCommands(opponentIndex, sync.lastCommandSeq);
+
+    // Buffer turns we have not executed yet; anything older is a duplicate delivery
+    newTurns.forEach((message) => {
+      if (message.turn >= sync.turn) {
+        sync.remoteTurns.set(message.turn, message);
+      }
+    });
+
     // Record success so polling returns to the normal interval cadence.
     sync.failedCommandPolls = 0;
     sync.lastCommandSeq = latestSeq;
     sync.lastCommandCheck = now;
     sync.nextCommandCheckAt = now + COMMAND_POLL_INTERVAL_MS;
-    
+
     // Update network status - successfully connected
     if (!wasConnected) {
       // Reconnected after being disconnected
@@ -328,7 +285,7 @@ export async function updateMultiplayerSync(
     state.networkStatus.latency = Date.now() - syncStart;
   } catch (error) {
     console.warn('Error fetching opponent commands:', error);
-    
+
     // Mark as disconnected
     state.networkStatus.connected = false;
     // Increase backoff time so failed fetches don't hammer the backend or browser.
@@ -339,34 +296,236 @@ export async function updateMultiplayerSync(
     );
     sync.lastCommandCheck = now;
     sync.nextCommandCheckAt = now + backoff;
-    
+
     // Log disconnection on first occurrence
     if (wasConnected) {
       console.error('Lost connection to multiplayer backend');
     }
+  } finally {
+    sync.pollInFlight = false;
   }
 }
 
 /**
- * Synchronize full game state (host only)
- * This ensures both players stay in sync even with packet loss
+ * Seconds left before a silent opponent forfeits, for the "waiting for player" overlay
+ * @returns null when not stalled, or stalled only briefly (normal network jitter)
  */
-export async function syncGameState(
-  state: GameState,
-  manager: MultiplayerManager,
-  isHost: boolean
-): Promise<void> {
-  if (!isHost) return;
-  
-  try {
-    await manager.syncGameState({
-      units: state.units,
-      bases: state.bases,
-      players: state.players,
-      elapsedTime: state.elapsedTime,
-      winner: state.winner,
-    });
-  } catch (error) {
-    console.warn('Error syncing game state:', error);
+export function getForfeitCountdownSeconds(state: GameState): number | null {
+  const waitingSince = state.networkStatus?.waitingSince;
+  if (!state.networkStatus?.waitingForOpponent || waitingSince === undefined) return null;
+
+  const waitedMs = Date.now() - waitingSince;
+  if (waitedMs < WAITING_FOR_PLAYER_GRACE_MS) return null;
+  return Math.max(0, Math.ceil((OPPONENT_FORFEIT_TIMEOUT_MS - waitedMs) / 1000));
+}
+
+// Start the next turn: verify checksums, send our input for a later turn and apply this turn's
+// commands from both players. Returns false (without side effects) if the turn can't start yet.
+function beginTurn(state: GameState, manager: MultiplayerManager, sync: MultiplayerSync): boolean {
+  if (sync.spectating) return beginSpectatorTurn(state, sync);
+
+  const turn = sync.turn;
+  const remote = sync.remoteTurns.get(turn);
+
+  // The first few turns are empty by definition, since nobody could have scheduled input for them
+  if (!remote && turn >= LOCKSTEP_INPUT_DELAY_TURNS) return false;
+  if (remote?.checksum && !verifyChecksum(state, sync, remote.checksum)) return false;
+
+  let checksum: GameCommand['checksum'];
+  if (turn % CHECKSUM_INTERVAL_TURNS === 0) {
+    checksum = { turn, value: computeStateChecksum(state) };
+    sync.localChecksums.set(turn, checksum.value);
+  }
+
+  // Close our input for this turn and schedule it a few turns ahead. After a rejoin the scheduled
+  // turn may already be in our log; keep what was sent so both peers run the same commands.
+  const scheduledTurn = turn + LOCKSTEP_INPUT_DELAY_TURNS;
+  if (!sync.localTurns.has(scheduledTurn)) {
+    const commands = state.lockstepOutbox ? state.lockstepOutbox.splice(0) : [];
+    sync.localTurns.set(scheduledTurn, commands);
+    sendTurn(manager, sync, checksum ? { turn: scheduledTurn, commands, checksum } : { turn: scheduledTurn, commands });
+  }
+
+  // Apply both players' commands in slot order so every peer mutates the state identically.
+  // Commands for units the sender doesn't own are dropped.
+  const opponentIndex = sync.localPlayerIndex === 0 ? 1 : 0;
+  const localCommands = sync.localTurns.get(turn) ?? [];
+  const remoteCommands = (remote?.commands ?? []).filter((command) => command.owner === opponentIndex);
+  const commandsBySlot = sync.localPlayerIndex === 0 ? [localCommands, remoteCommands] : [remoteCommands, localCommands];
+  commandsBySlot.forEach((slotCommands) => {
+    slotCommands.forEach((command) => executeGameplayCommand(state, command));
+  });
+
+  sync.localTurns.delete(turn);
+  sync.remoteTurns.delete(turn);
+  sync.turn++;
+  return true;
+}
+
+// Spectator version of beginTurn: needs both players' messages for this turn, and for the turn
+// spectatorDelayTurns ahead so the feed stays behind the live match. Checksums are checked against
+// slot 0's, which only tells the spectator that its own copy of the match diverged.
+function beginSpectatorTurn(state: GameState, sync: MultiplayerSync): boolean {
+  const turn = sync.turn;
+  if (!hasSpectatorTurn(sync, turn) || !hasSpectatorTurn(sync, turn + sync.spectatorDelayTurns)) return false;
+
+  const host = sync.hostTurns.get(turn);
+  const guest = sync.remoteTurns.get(turn);
+  if (host?.checksum && !verifyChecksum(state, sync, host.checksum)) return false;
+
+  if (turn % CHECKSUM_INTERVAL_TURNS === 0) {
+    sync.localChecksums.set(turn, computeStateChecksum(state));
+  }
+
+  [host, guest].forEach((message, slot) => {
+    (message?.commands ?? [])
+      .filter((command) => command.owner === slot)
+      .forEach((command) => executeGameplayCommand(state, command));
+  });
+
+  sync.hostTurns.delete(turn);
+  sync.remoteTurns.delete(turn);
+  sync.turn++;
+  return true;
+}
+
+// Whether both players' input for a turn is known to a spectator
+function hasSpectatorTurn(sync: MultiplayerSync, turn: number): boolean {
+  return turn < LOCKSTEP_INPUT_DELAY_TURNS || (sync.hostTurns.has(turn) && sync.remoteTurns.has(turn));
+}
+
+// Compare the opponent's checksum with ours for the same turn; flag a desync on mismatch
+function verifyChecksum(state: GameState, sync: MultiplayerSync, checksum: { turn: number; value: number }): boolean {
+  const localValue = sync.localChecksums.get(checksum.turn);
+  if (localValue === undefined) return true;
+  sync.localChecksums.delete(checksum.turn);
+  if (localValue === checksum.value) return true;
+
+  console.error(`Lockstep desync at turn ${checksum.turn}: local ${localValue}, remote ${checksum.value}`);
+  if (state.networkStatus) {
+    state.networkStatus.desync = { turn: checksum.turn, localChecksum: localValue, remoteChecksum: checksum.value };
+  }
+  return false;
+}
+
+// Resend until the store accepts the turn or the match ends. A resend after a lost acknowledgement
+// can duplicate a turn; receivers overwrite it with identical content.
+function sendTurn(manager: MultiplayerManager, sync: MultiplayerSync, message: Omit<GameCommand, 'playerId' | 'timestamp'>): void {
+  sync.sendChain = sync.sendChain.then(async () => {
+    for (let attempt = 1; manager.getGameId(); attempt++) {
+      try {
+        await manager.sendCommand(message);
+        sync.sendFailing = false;
+        return;
+      } catch (error) {
+        sync.sendFailing = true;
+        console.warn(`Error sending lockstep turn ${message.turn} (attempt ${attempt}):`, error);
+        const backoff = Math.min(COMMAND_POLL_INTERVAL_MS * 2 ** attempt, SEND_RETRY_MAX_BACKOFF_MS);
+        await new Promise((resolve) => setTimeout(resolve, backoff));
+      }
+    }
+  });
+}
+
+function runTick(state: GameState, sync: MultiplayerSync): void {
+  const deltaTime = LOCKSTEP_TICK_MS / 1000;
+  recordReplayFrame(state, deltaTime);
+  updateGame(state, deltaTime);
+  sync.tick++;
+}
+
+// Catch up on turns from the command logs without sound, a bounded number of ticks per frame
+function fastForward(state: GameState, manager: MultiplayerManager, sync: MultiplayerSync): void {
+  if (state.networkStatus) {
+    state.networkStatus.resuming = true;
+  }
+
+  state.headless = true;
+  let ticks = 0;
+  let caughtUp = false;
+  while (ticks < FAST_FORWARD_TICKS_PER_FRAME && state.mode === 'game') {
+    if (sync.tick % LOCKSTEP_TICKS_PER_TURN === 0 && !beginTurn(state, manager, sync)) {
+      caughtUp = true;
+      break;
+    }
+    runTick(state, sync);
+    ticks++;
+  }
+  state.headless = false;
+
+  if (caughtUp || state.mode !== 'game') {
+    sync.fastForwarding = false;
+    sync.accumulatorMs = 0;
+    if (state.networkStatus) {
+      state.networkStatus.resuming = false;
+    }
+  }
+}
+
+function setWaitingForOpponent(state: GameState, waiting: boolean): void {
+  if (state.networkStatus) {
+    if (waiting && !state.networkStatus.waitingForOpponent) {
+      state.networkStatus.waitingSince = Date.now();
+    } else if (!waiting) {
+      delete state.networkStatus.waitingSince;
+    }
+    state.networkStatus.waitingForOpponent = waiting;
+  }
+}
+
+// The opponent has been silent too long while we could reach the store: end the match in our favour
+// and record it on the lobby
+function checkForfeitTimer(state: GameState, manager: MultiplayerManager, sync: MultiplayerSync): void {
+  // Spectators learn about a forfeit from the lobby instead
+  const status = state.networkStatus;
+  if (sync.spectating || status?.waitingSince === undefined) return;
+
+  // While our own polls or sends fail, the player who dropped may be us. Only time with a working
+  // connection counts, so the wait starts over once we're back.
+  if (!status.connected || sync.sendFailing) {
+    status.waitingSince = Date.now();
+    return;
+  }
+  if (Date.now() - status.waitingSince < OPPONENT_FORFEIT_TIMEOUT_MS) return;
+
+  console.warn('Opponent did not return in time; ending match by forfeit');
+  endMatch(state, sync.localPlayerIndex, true);
+  manager.endGame(sync.localPlayerIndex).catch((error) => console.warn('Error recording forfeit:', error));
+}
+
+// While stalled or spectating, see whether the match was ended (forfeit claim or surrender)
+async function checkLobbyFinished(state: GameState, manager: MultiplayerManager, sync: MultiplayerSync): Promise<void> {
+  const gameId = manager.getGameId();
+  if (!gameId) return;
+
+  const lobby = await manager.getLobby(gameId);
+  if (!lobby || lobby.status !== 'finished' || state.mode !== 'game') return;
+
+  if (sync.spectating) {
+    // Play out the delayed part of the feed first; the result shows once the last turn has run
+    sync.spectatorDelayTurns = 0;
+    if (hasSpectatorTurn(sync, sync.turn)) return;
+    endMatch(state, lobby.winner ?? -1, false);
+    await manager.leaveGame();
+    return;
+  }
+
+  // A finished lobby without a winner means the opponent left, which counts as a forfeit
+  const winner = lobby.winner ?? sync.localPlayerIndex;
+  endMatch(state, winner, winner === sync.localPlayerIndex);
+  await manager.endGame(winner);
+}
+
+function endMatch(state: GameState, winner: number, opponentForfeited: boolean): void {
+  state.winner = winner;
+  state.mode = 'victory';
+  if (state.networkStatus) {
+    state.networkStatus.waitingForOpponent = false;
+    state.networkStatus.opponentForfeited = opponentForfeited;
+    delete state.networkStatus.waitingSince;
+  }
+  // Base destruction and the time limit were already reported by the simulation
+  if (opponentForfeited) {
+    emitGameplayEvent(state, { type: 'matchEnded', winner, reason: 'forfeit' });
   }
 }
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findPath } from './navigation';
+import { Obstacle, MAPS, createBoundaryObstacles } from './maps';
+import { ARENA_WIDTH_METERS, Vector2 } from './types';
+
+const ARENA_HEIGHT = 40;
+
+// Each call builds a new obstacle list, and with it a grid with nothing cached
+function createObstacles(): Obstacle[] {
+  return [...MAPS.gauntlet.obstacles, ...createBoundaryObstacles(ARENA_WIDTH_METERS, ARENA_HEIGHT)];
+}
+
+const START: Vector2 = { x: 36.5, y: 15.5 };
+const GOAL: Vector2 = { x: 15, y: 11 };
+
+test('findPath routes around the obstacles between start and goal', () => {
+  const path = findPath(createObstacles(), START, GOAL);
+  assert.ok(path);
+  assert.ok(path.length > 1, 'expected at least one turn around the gauntlet walls');
+  assert.deepEqual(path[path.length - 1], GOAL);
+});
+
+test('findPath returns the same route whatever was asked for before', () => {
+  const expected = findPath(createObstacles(), START, GOAL);
+
+  const obstacles = createObstacles();
+  // Earlier queries from other starts into the goal's destination area
+  findPath(obstacles, { x: 38.5, y: 8.5 }, { x: 15.5, y: 10 });
+  findPath(obstacles, { x: 5.5, y: 25.5 }, { x: 14, y: 12.5 });
+  findPath(obstacles, { x: 29, y: 24 }, { x: 16, y: 9.5 });
+  findPath(obstacles, { x: 35, y: 27.5 }, { x: 15, y: 9.5 });
+
+  assert.deepEqual(findPath(obstacles, START, GOAL), expected);
+});
@@ -0,0 +1,331 @@
+/**
+ * Grid-based navigation around map obstacles.
+ * The match's obstacles are rasterized once into walkable cells, a distance field toward the destination
+ * gives a route over them and the route is smoothed into a few straight legs. Fields are kept per destination
+ * area, so a group ordered into formation around one spot reuses what the first unit computed. A field only
+ * depends on the obstacles and its root, so a route never depends on which paths were asked for before.
+ */
+
+import { Vector2, UNIT_SIZE_METERS } from './types';
+import { Obstacle, checkObstacleCollision } from './maps';
+
+// Side length of a navigation cell in meters
+const NAVIGATION_CELL_SIZE = 0.5;
+// A cell is walkable when a unit anywhere inside it clears every obstacle
+const NAVIGATION_CLEARANCE = UNIT_SIZE_METERS / 2 + NAVIGATION_CELL_SIZE * Math.SQRT1_2;
+// Distance fields kept per grid; the least recently used one is dropped beyond this
+const MAX_CACHED_DESTINATIONS = 16;
+// How far (in cells) to look for a walkable cell when a start or goal lies inside an obstacle
+const MAX_SNAP_RADIUS_CELLS = 8;
+// Destinations within the same square of this many cells share one field, rooted at the square's center
+const DESTINATION_AREA_CELLS = 8;
+// Spacing of the samples taken along a leg when checking it for obstacles
+const LINE_OF_SIGHT_STEP = NAVIGATION_CELL_SIZE / 2;
+
+// Neighbour offsets: four straight steps, then four diagonals
+const NEIGHBOR_OFFSETS = [
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 1 },
+  { dx: 1, dy: -1 },
+  { dx: -1, dy: 1 },
+  { dx: -1, dy: -1 },
+];
+
+interface OpenEntry {
+  cell: number;
+  cost: number; // Cost when queued; entries whose cell has since become cheaper are stale
+}
+
+/**
+ * Every walkable cell's cost to one destination cell, filled by a complete Dijkstra expansion from the
+ * destination. Cells expand in (cost, cell index) order, so the field is the same whenever it is built.
+ */
+interface DistanceField {
+  goalCell: number;
+  cost: Float64Array; // Cost from each cell to the destination (Infinity where unreachable)
+  next: Int32Array; // Neighbour one step closer to the destination (-1 where unreachable)
+}
+
+export interface NavigationGrid {
+  columns: number;
+  rows: number;
+  walkable: Uint8Array; // 1 where a unit can stand, indexed row * columns + column
+  fields: Map<number, DistanceField>; // Keyed by root cell, in least recently used order
+}
+
+// Built lazily per obstacle list; every match creates its own list, so caches never leak between matches
+const gridsByObstacles = new WeakMap<Obstacle[], NavigationGrid>();
+
+/**
+ * Get the navigation grid for a match's obstacles, building it on first use
+ * @param obstacles - Map obstacles including the arena boundaries
+ * @returns The cached grid
+ */
+export function getNavigationGrid(obstacles: Obstacle[]): NavigationGrid {
+  let grid = gridsByObstacles.get(obstacles);
+  if (!grid) {
+    grid = buildNavigationGrid(obstacles);
+    gridsByObstacles.set(obstacles, grid);
+  }
+  return grid;
+}
+
+/**
+ * Rasterize obstacles (rotated ones included) into walkable cells covering the arena
+ * @param obstacles - Map obstacles including the arena boundaries
+ * @returns A grid with an empty field cache
+ */
+export function buildNavigationGrid(obstacles: Obstacle[]): NavigationGrid {
+  // The arena boundaries are obstacles too, so their far edges give the arena size
+  let maxX = 0;
+  let maxY = 0;
+  for (const obstacle of obstacles) {
+    const rotatedReach = Math.hypot(obstacle.width, obstacle.height) / 2;
+    maxX = Math.max(maxX, obstacle.position.x + (obstacle.rotation ? rotatedReach : obstacle.width / 2));
+    maxY = Math.max(maxY, obstacle.position.y + (obstacle.rotation ? rotatedReach : obstacle.height / 2));
+  }
+
+  const columns = Math.max(1, Math.ceil(maxX / NAVIGATION_CELL_SIZE));
+  const rows = Math.max(1, Math.ceil(maxY / NAVIGATION_CELL_SIZE));
+  const walkable = new Uint8Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const center = { x: (column + 0.5) * NAVIGATION_CELL_SIZE, y: (row + 0.5) * NAVIGATION_CELL_SIZE };
+      walkable[row * columns + column] = checkObstacleCollision(center, NAVIGATION_CLEARANCE, obstacles) ? 0 : 1;
+    }
+  }
+
+  return { columns, rows, walkable, fields: new Map() };
+}
+
+/**
+ * Find a route between two points that avoids obstacles
+ * @param obstacles - Map obstacles including the arena boundaries
+ * @param start - Current position
+ * @param goal - Destination
+ * @returns Waypoints after the start, ending at the goal; null if the goal can't be reached
+ */
+export function findPath(obstacles: Obstacle[], start: Vector2, goal: Vector2): Vector2[] | null {
+  const grid = getNavigationGrid(obstacles);
+
+  // Most orders have a clear line; skip the search entirely for those
+  if (hasLineOfSight(grid, start, goal)) {
+    return [{ ...goal }];
+  }
+
+  const startCell = findNearestWalkableCell(grid, getCellIndex(grid, start));
+  const goalCell = findNearestWalkableCell(grid, getCellIndex(grid, goal));
+  if (startCell === null || goalCell === null) return null;
+
+  const cells = searchPath(grid, startCell, getRootCell(grid, goalCell, goal));
+  if (!cells) return null;
+
+  // Cell centers from the start's cell to the root, then the exact goal; smoothing drops the detours
+  const points = [start, ...cells.map((cell) => getCellCenter(grid, cell)), { ...goal }];
+  return smoothPath(grid, points);
+}
+
+/**
+ * Whether a unit can walk straight between two points
+ * @param grid - Navigation grid
+ * @param from - Start of the leg
+ * @param to - End of the leg
+ */
+export function hasLineOfSight(grid: NavigationGrid, from: Vector2, to: Vector2): boolean {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(length / LINE_OF_SIGHT_STEP));
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const cell = getCellIndex(grid, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+    if (!grid.walkable[cell]) return false;
+  }
+  return true;
+}
+
+// Center of the goal's destination area when the goal can be reached straight from it, else the goal's own cell
+function getRootCell(grid: NavigationGrid, goalCell: number, goal: Vector2): number {
+  const areaColumn = Math.floor((goalCell % grid.columns) / DESTINATION_AREA_CELLS);
+  const areaRow = Math.floor(Math.floor(goalCell / grid.columns) / DESTINATION_AREA_CELLS);
+  const centerColumn = Math.min(grid.columns - 1, areaColumn * DESTINATION_AREA_CELLS + DESTINATION_AREA_CELLS / 2);
+  const centerRow = Math.min(grid.rows - 1, areaRow * DESTINATION_AREA_CELLS + DESTINATION_AREA_CELLS / 2);
+
+  const rootCell = findNearestWalkableCell(grid, centerRow * grid.columns + centerColumn);
+  if (rootCell === null || !hasLineOfSight(grid, getCellCenter(grid, rootCell), goal)) {
+    return goalCell;
+  }
+  return rootCell;
+}
+
+// Cell list from start to goal along the goal's distance field, building the field on first use
+function searchPath(grid: NavigationGrid, startCell: number, goalCell: number): number[] | null {
+  let field = grid.fields.get(goalCell);
+  if (field) {
+    // Re-insert to mark it as most recently used
+    grid.fields.delete(goalCell);
+  } else {
+    field = buildDistanceField(grid, goalCell);
+    if (grid.fields.size >= MAX_CACHED_DESTINATIONS) {
+      grid.fields.delete(grid.fields.keys().next().value!);
+    }
+  }
+  grid.fields.set(goalCell, field);
+
+  if (field.cost[startCell] === Infinity) return null;
+
+  const cells = [startCell];
+  let cell = startCell;
+  while (cell !== goalCell) {
+    cell = field.next[cell];
+    cells.push(cell);
+  }
+  return cells;
+}
+
+// Expand from the destination until every reachable cell has its final cost
+function buildDistanceField(grid: NavigationGrid, goalCell: number): DistanceField {
+  const cellCount = grid.columns * grid.rows;
+  const field: DistanceField = {
+    goalCell,
+    cost: new Float64Array(cellCount).fill(Infinity),
+    next: new Int32Array(cellCount).fill(-1),
+  };
+  const closed = new Uint8Array(cellCount);
+  const open: OpenEntry[] = [{ cell: goalCell, cost: 0 }];
+  field.cost[goalCell] = 0;
+
+  while (open.length > 0) {
+    const entry = heapPop(open);
+    if (closed[entry.cell] || entry.cost > field.cost[entry.cell]) continue;
+    closed[entry.cell] = 1;
+
+    const column = entry.cell % grid.columns;
+    const row = Math.floor(entry.cell / grid.columns);
+    for (const { dx, dy } of NEIGHBOR_OFFSETS) {
+      const neighborColumn = column + dx;
+      const neighborRow = row + dy;
+      if (neighborColumn < 0 || neighborRow < 0 || neighborColumn >= grid.columns || neighborRow >= grid.rows) continue;
+
+      const neighbor = neighborRow * grid.columns + neighborColumn;
+      if (!grid.walkable[neighbor] || closed[neighbor]) continue;
+      // No cutting corners past an obstacle on a diagonal step
+      if (dx !== 0 && dy !== 0 && (!grid.walkable[row * grid.columns + neighborColumn] || !grid.walkable[neighborRow * grid.columns + column])) {
+        continue;
+      }
+
+      const cost = entry.cost + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1) * NAVIGATION_CELL_SIZE;
+      if (cost < field.cost[neighbor]) {
+        field.cost[neighbor] = cost;
+        field.next[neighbor] = entry.cell;
+        heapPush(open, { cell: neighbor, cost });
+      }
+    }
+  }
+
+  return field;
+}
+
+// Drop intermediate waypoints whenever a later one can be reached in a straight line
+function smoothPath(grid: NavigationGrid, points: Vector2[]): Vector2[] {
+  const waypoints: Vector2[] = [];
+  let anchor = points[0];
+  let index = 1;
+
+  while (index < points.length) {
+    let farthest = index;
+    while (farthest + 1 < points.length && hasLineOfSight(grid, anchor, points[farthest + 1])) {
+      farthest++;
+    }
+    waypoints.push(points[farthest]);
+    anchor = points[farthest];
+    index = farthest + 1;
+  }
+
+  return waypoints;
+}
+
+// Closest walkable cell to the given one (itself if walkable), scanning outward ring by ring
+function findNearestWalkableCell(grid: NavigationGrid, cell: number): number | null {
+  if (grid.walkable[cell]) return cell;
+
+  const column = cell % grid.columns;
+  const row = Math.floor(cell / grid.columns);
+  for (let radius = 1; radius <= MAX_SNAP_RADIUS_CELLS; radius++) {
+    let best: number | null = null;
+    let bestDistance = Infinity;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue;
+        const candidateColumn = column + dx;
+        const candidateRow = row + dy;
+        if (candidateColumn < 0 || candidateRow < 0 || candidateColumn >= grid.columns || candidateRow >= grid.rows) continue;
+
+        const candidate = candidateRow * grid.columns + candidateColumn;
+        const candidateDistance = dx * dx + dy * dy;
+        if (grid.walkable[candidate] && candidateDistance < bestDistance) {
+          best = candidate;
+          bestDistance = candidateDistance;
+        }
+      }
+    }
+    if (best !== null) return best;
+  }
+
+  return null;
+}
+
+function getCellIndex(grid: NavigationGrid, position: Vector2): number {
+  const column = Math.min(grid.columns - 1, Math.max(0, Math.floor(position.x / NAVIGATION_CELL_SIZE)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor(position.y / NAVIGATION_CELL_SIZE)));
+  return row * grid.columns + column;
+}
+
+function getCellCenter(grid: NavigationGrid, cell: number): Vector2 {
+  return {
+    x: ((cell % grid.columns) + 0.5) * NAVIGATION_CELL_SIZE,
+    y: (Math.floor(cell / grid.columns) + 0.5) * NAVIGATION_CELL_SIZE,
+  };
+}
+
+// Heap order: lowest cost first, ties broken toward the lower cell index, so every peer expands cells in the same order
+function isBefore(a: OpenEntry, b: OpenEntry): boolean {
+  if (a.cost !== b.cost) return a.cost < b.cost;
+  return a.cell < b.cell;
+}
+
+function heapPush(heap: OpenEntry[], entry: OpenEntry): void {
+  heap.push(entry);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!isBefore(heap[index], heap[parent])) break;
+    [heap[index], heap[parent]] = [heap[parent], heap[index]];
+    index = parent;
+  }
+}
+
+function heapPop(heap: OpenEntry[]): OpenEntry {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    siftDown(heap, 0);
+  }
+  return top;
+}
+
+function siftDown(heap: OpenEntry[], index: number): void {
+  while (true) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.length && isBefore(heap[left], heap[smallest])) smallest = left;
+    if (right < heap.length && isBefore(heap[right], heap[smallest])) smallest = right;
+    if (smallest === index) return;
+    [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+    index = smallest;
+  }
+}
@@ -62,12 +62,18 @@ export class ObjectPool<T> {
   }
 }
 
+// Cell keys pack x and y into one number; y must stay within +/- half the stride
+const SPATIAL_GRID_KEY_STRIDE = 1 << 16;
+
 /**
  * Spatial partitioning grid for efficient collision detection
+ * Cells are kept between rebuilds, so rebuilding every tick doesn't allocate
  */
 export class SpatialGrid<T extends { position: { x: number; y: number } }> {
   private cellSize: number;
-  private grid: Map<string, T[]>;
+  private grid: Map<number, number[]>;
+  private objects: T[];
+  private matches: Uint32Array;
   private width: number;
   private height: number;
 
@@ -76,26 +82,29 @@ export class SpatialGrid<T extends { position: { x: number; y: number } }> {
     this.width = width;
     this.height = height;
     this.grid = new Map();
+    this.objects = [];
+    this.matches = new Uint32Array(64);
   }
 
   /**
-   * Get grid cell key for a position
+   * Get grid cell key for a cell coordinate
    */
-  private getCellKey(x: number, y: number): string {
-    const cellX = Math.floor(x / this.cellSize);
-    const cellY = Math.floor(y / this.cellSize);
-    return `${cellX},${cellY}`;
+  private getCellKey(cellX: number, cellY: number): number {
+    return cellX * SPATIAL_GRID_KEY_STRIDE + cellY;
   }
 
   /**
    * Insert object into grid
    */
   insert(obj: T): void {
-    const key = this.getCellKey(obj.position.x, obj.position.y);
-    if (!this.grid.has(key)) {
-      this.grid.set(key, []);
+    const key = this.getCellKey(Math.floor(obj.position.x / this.cellSize), Math.floor(obj.position.y / this.cellSize));
+    let cell = this.grid.get(key);
+    if (!cell) {
+      cell = [];
+      this.grid.set(key, cell);
     }
-    this.grid.get(key)!.push(obj);
+    cell.push(this.objects.length);
+    this.objects.push(obj);
   }
 
   /**
@@ -109,10 +118,9 @@ export class SpatialGrid<T extends { position: { x: number; y: number } }> {
 
     for (let dx = -cellsToCheck; dx <= cellsToCheck; dx++) {
       for (let dy = -cellsToCheck; dy <= cellsToCheck; dy++) {
-        const key = `${centerCellX + dx},${centerCellY + dy}`;
-        const cell = this.grid.get(key);
+        const cell = this.grid.get(this.getCellKey(centerCellX + dx, centerCellY + dy));
         if (cell) {
-          nearby.push(...cell);
+          cell.forEach(index => nearby.push(this.objects[index]));
         }
       }
     }
@@ -120,11 +128,56 @@ export class SpatialGrid<T extends { position: { x: number; y: number } }> {
     return nearby;
   }
 
+  /**
+   * Get the objects whose current position is within radius, in insertion order.
+   * Margin widens the cells searched, for objects that moved since they were inserted.
+   */
+  queryRadius(x: number, y: number, radius: number, margin: number = 0): T[] {
+    const reach = radius + margin;
+    const minCellX = Math.floor((x - reach) / this.cellSize);
+    const maxCellX = Math.floor((x + reach) / this.cellSize);
+    const minCellY = Math.floor((y - reach) / this.cellSize);
+    const maxCellY = Math.floor((y + reach) / this.cellSize);
+    const radiusSquared = radius * radius;
+    let matchCount = 0;
+
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+        const cell = this.grid.get(this.getCellKey(cellX, cellY));
+        if (!cell) continue;
+        for (const index of cell) {
+          const position = this.objects[index].position;
+          const dx = position.x - x;
+          const dy = position.y - y;
+          if (dx * dx + dy * dy <= radiusSquared) {
+            if (matchCount === this.matches.length) {
+              const grown = new Uint32Array(this.matches.length * 2);
+              grown.set(this.matches);
+              this.matches = grown;
+            }
+            this.matches[matchCount++] = index;
+          }
+        }
+      }
+    }
+
+    // Cells are visited in grid order; callers expect the order objects were inserted in
+    const sorted = this.matches.subarray(0, matchCount).sort();
+    const results: T[] = new Array(matchCount);
+    for (let i = 0; i < matchCount; i++) {
+      results[i] = this.objects[sorted[i]];
+    }
+    return results;
+  }
+
   /**
    * Clear the grid
    */
   clear(): void {
-    this.grid.clear();
+    this.grid.forEach(cell => {
+      cell.length = 0;
+    });
+    this.objects.length = 0;
   }
 
   /**
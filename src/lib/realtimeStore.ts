@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { RelayKVStore } from './relayStore';
 
 /**
  * Defines a minimal key/value contract for multiplayer state persistence.
@@ -331,9 +332,15 @@ class SupabaseKVStore implements RealtimeKVStore {
 }
 
 /**
- * Create the best available realtime store. Spark is preferred locally, Supabase otherwise.
+ * Create the best available realtime store. A self-hosted relay wins when configured,
+ * then Supabase, then Spark.
  */
 export function createRealtimeStore(): RealtimeKVStore {
+  const relayUrl = import.meta.env.VITE_RELAY_URL as string | undefined;
+  if (relayUrl) {
+    return new RelayKVStore(relayUrl);
+  }
+
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string | undefined;
   const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
   const tableName = (import.meta.env.VITE_SUPABASE_KV_TABLE as string | undefined) ?? 'multiplayer_kv';
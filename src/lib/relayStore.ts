@@ -0,0 +1,257 @@
+import type { RealtimeKVStore } from './realtimeStore';
+
+// How long to wait for the relay to answer a request before failing it
+const RELAY_REQUEST_TIMEOUT_MS = 5000;
+// Reconnect backoff bounds after the socket drops
+const RELAY_RECONNECT_BASE_MS = 500;
+const RELAY_RECONNECT_MAX_MS = 8000;
+// Match the relay's log cap (twice a time-limited match's turns) so a rejoining player can buffer a whole match
+const MAX_BUFFERED_COMMANDS = 6000;
+// WebSocket.OPEN, spelled out so Node socket factories work without a global WebSocket
+const SOCKET_OPEN = 1;
+
+// Requests understood by scripts/relay-server.js
+type RelayRequest =
+  | { type: 'get'; key: string }
+  | { type: 'set'; key: string; value: unknown }
+  | { type: 'delete'; key: string }
+  | { type: 'list'; prefix: string }
+  | { type: 'append'; streamKey: string; payload: unknown }
+  | { type: 'subscribe'; streamKey: string; sinceSeq: number };
+
+type RelayServerMessage =
+  | { type: 'response'; id: number; ok: true; result?: unknown }
+  | { type: 'response'; id: number; ok: false; error: string }
+  | { type: 'command'; streamKey: string; seq: number; payload: unknown };
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+// Entries pushed by the relay for one stream. Everything after fromSeq up to lastSeq is buffered.
+interface StreamBuffer {
+  fromSeq: number;
+  lastSeq: number;
+  entries: Array<{ seq: number; payload: unknown }>;
+  subscribed: boolean;
+}
+
+/**
+ * Adapter for the self-hosted WebSocket relay (scripts/relay-server.js).
+ * Key/value operations are request/response; command streams are pushed by the relay after the
+ * first listCommandsSince call, so later polls read from a local buffer without a network round trip.
+ */
+export class RelayKVStore implements RealtimeKVStore {
+  private url: string | undefined;
+  private createSocket: (url: string) => WebSocket;
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private nextRequestId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private streams: Map<string, StreamBuffer> = new Map();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param url - Relay address, e.g. ws://localhost:8787
+   * @param createSocket - Socket factory, for runtimes without a global WebSocket
+   */
+  constructor(url: string | undefined, createSocket: (url: string) => WebSocket = (socketUrl) => new WebSocket(socketUrl)) {
+    this.url = url;
+    this.createSocket = createSocket;
+  }
+
+  // Available whenever a relay address is configured; connection problems surface as failed requests.
+  isAvailable(): boolean {
+    return Boolean(this.url);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return ((await this.request({ type: 'get', key })) as T | undefined) ?? null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.request({ type: 'set', key, value });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request({ type: 'delete', key });
+  }
+
+  async listEntries<T>(prefix: string): Promise<Array<{ key: string; value: T | null }>> {
+    return ((await this.request({ type: 'list', prefix })) as Array<{ key: string; value: T | null }> | undefined) ?? [];
+  }
+
+  async appendCommand<T>(streamKey: string, payload: T): Promise<number | null> {
+    return ((await this.request({ type: 'append', streamKey, payload })) as number | undefined) ?? null;
+  }
+
+  // The first call subscribes to the stream; after that the relay pushes new entries as they are appended.
+  async listCommandsSince<T>(streamKey: string, sinceSeq: number): Promise<Array<{ seq: number; payload: T }>> {
+    let stream = this.streams.get(streamKey);
+    if (!stream || sinceSeq < stream.fromSeq) {
+      // New stream, or the caller wants entries we already dropped: (re)subscribe from their position
+      stream = { fromSeq: sinceSeq, lastSeq: sinceSeq, entries: [], subscribed: false };
+      this.streams.set(streamKey, stream);
+    }
+
+    if (!stream.subscribed) {
+      await this.subscribe(streamKey, stream);
+    } else if (this.socket?.readyState !== SOCKET_OPEN) {
+      // Let the caller see the outage; the buffer is resubscribed when the socket reopens
+      void this.connect().catch(() => undefined);
+      throw new Error('Relay connection lost');
+    }
+
+    return stream.entries.filter((entry) => entry.seq > sinceSeq) as Array<{ seq: number; payload: T }>;
+  }
+
+  /** Close the socket and forget stream subscriptions. */
+  close(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.streams.clear();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private async subscribe(streamKey: string, stream: StreamBuffer): Promise<void> {
+    // Backlog entries are pushed before the response, so the buffer is complete when this resolves
+    await this.request({ type: 'subscribe', streamKey, sinceSeq: stream.lastSeq });
+    if (this.streams.get(streamKey) === stream) {
+      stream.subscribed = true;
+    }
+  }
+
+  private async request(message: RelayRequest): Promise<unknown> {
+    if (!this.url) {
+      throw new Error('Relay URL is not configured (VITE_RELAY_URL).');
+    }
+
+    const socket = await this.connect();
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Relay request timed out: ${message.type}`));
+      }, RELAY_REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timeout });
+      socket.send(JSON.stringify({ id, ...message }));
+    });
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const socket = this.createSocket(this.url as string);
+
+      socket.onopen = () => {
+        this.socket = socket;
+        this.connecting = null;
+        this.reconnectAttempts = 0;
+        resolve(socket);
+        this.resubscribeStreams();
+      };
+
+      socket.onmessage = (event) => this.handleMessage(event.data);
+
+      socket.onerror = () => {
+        // onclose follows and does the cleanup
+        console.warn('Relay socket error:', this.url);
+      };
+
+      socket.onclose = () => {
+        const wasOpen = this.socket === socket;
+        if (wasOpen) {
+          this.socket = null;
+        }
+        if (this.connecting) {
+          this.connecting = null;
+          reject(new Error(`Could not connect to relay at ${this.url}`));
+        }
+        this.failPendingRequests(new Error('Relay connection closed'));
+        this.streams.forEach((stream) => {
+          stream.subscribed = false;
+        });
+        if (wasOpen) {
+          console.warn('Lost connection to relay');
+        }
+        this.scheduleReconnect();
+      };
+    });
+
+    return this.connecting;
+  }
+
+  // Reconnect in the background while anything is subscribed, so pushed streams resume on their own
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.streams.size === 0) return;
+
+    const delay = Math.min(RELAY_RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RELAY_RECONNECT_MAX_MS);
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => undefined);
+    }, delay);
+  }
+
+  private resubscribeStreams(): void {
+    this.streams.forEach((stream, streamKey) => {
+      if (!stream.subscribed) {
+        this.subscribe(streamKey, stream).catch((error) => console.warn('Relay resubscribe failed:', streamKey, error));
+      }
+    });
+  }
+
+  private handleMessage(raw: unknown): void {
+    let message: RelayServerMessage;
+    try {
+      message = JSON.parse(String(raw)) as RelayServerMessage;
+    } catch {
+      console.warn('Ignoring malformed relay message');
+      return;
+    }
+
+    if (message.type === 'command') {
+      const stream = this.streams.get(message.streamKey);
+      // Ignore entries we already have; a resubscribe can overlap with earlier pushes
+      if (!stream || message.seq <= stream.lastSeq) return;
+      stream.entries.push({ seq: message.seq, payload: message.payload });
+      stream.lastSeq = message.seq;
+      if (stream.entries.length > MAX_BUFFERED_COMMANDS) {
+        const dropped = stream.entries.splice(0, stream.entries.length - MAX_BUFFERED_COMMANDS);
+        stream.fromSeq = dropped[dropped.length - 1].seq;
+      }
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    clearTimeout(pending.timeout);
+    if (message.ok) {
+      pending.resolve(message.result);
+    } else {
+      pending.reject(new Error(message.error));
+    }
+  }
+
+  private failPendingRequests(error: Error): void {
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+}
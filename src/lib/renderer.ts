@@ -25,14 +25,23 @@ import {
   ARENA_WIDTH_METERS,
   ARENA_HEIGHT_METERS,
   Floater,
-  FOG_OF_WAR_VISION_RANGE,
 } from './types';
-import { positionToPixels, metersToPixels, distance, add, scale, normalize, subtract, getViewportOffset, getViewportDimensions, getArenaHeight, getPlayfieldRotationRadians, isVisibleToPlayer } from './gameUtils';
+import { positionToPixels, metersToPixels, distance, add, scale, normalize, subtract, getViewportOffset, getViewportDimensions, getArenaHeight, getPlayfieldRotationRadians, getLocalPlayerIndex } from './gameUtils';
+import { isVisibleToPlayer, FOG_GRID_CELL_METERS } from './vision';
+import { isDetectedBy, isHiddenFrom } from './stealth';
+import { findAttackTarget } from './targeting';
+import { STANCE_DEFINITIONS } from './stances';
 import { applyCameraTransform, removeCameraTransform, worldToScreen } from './camera';
 import { Obstacle } from './maps';
-import { MOTION_TRAIL_DURATION, QUEUE_FADE_DURATION, QUEUE_DRAW_DURATION, QUEUE_UNDRAW_DURATION } from './simulation';
+import { QUEUE_FADE_DURATION, QUEUE_DRAW_DURATION, QUEUE_UNDRAW_DURATION } from './simulation';
+import { getSimulationTime } from './determinism';
 import { getFormationName } from './formations';
 import { calculateFloaterConnections } from './floaters';
+import { getEffects } from './effects';
+import { MOTION_TRAIL_DURATION } from './visualEffects';
+import { getAbilityComponent } from './abilities';
+import { STATUS_EFFECT_DEFINITIONS, getStatusEffect, getUnitDamageMultiplier, hasStatusEffect } from './statusEffects';
+import { VETERANCY_RANKS } from './veterancy';
 
 // Asset base URL for all sprites
 const assetBaseUrl = import.meta.env.BASE_URL;
@@ -714,6 +723,9 @@ const GLOW_PULSE_FREQUENCY = 1.5; // Hz for glow pulsing
 const ABILITY_READY_PULSE_INTENSITY = 0.4; // Intensity of ability ready pulse
 const MOTION_BLUR_SPEED_THRESHOLD = 1.5; // Minimum speed for motion blur to appear
 const ABILITY_ARROW_LENGTH = 12; // Arrow length for ability command visualization
+const ATTACK_TARGET_COLOR = 'oklch(0.62 0.28 25)'; // Target line and brackets of attack-unit commands
+const CLOAK_SHIMMER_AFTER_REVEAL_MS = 2000; // A cloaked enemy shimmers this long after it was last seen
+const CLOAK_SHIMMER_DETECTION_EDGE_METERS = 1.5; // A cloaked enemy this close outside a detector's range shimmers
 // Scale projectile visuals alongside unit sizing so bullets track the larger silhouettes.
 const PROJECTILE_SIZE_METERS = UNIT_SIZE_METERS * 1.2;
 const PROJECTILE_TRAIL_LENGTH_METERS = UNIT_SIZE_METERS * 0.9;
@@ -817,153 +829,137 @@ function clearGlowEffect(ctx: CanvasRenderingContext2D, state: GameState): void
   }
 }
 
-// Helper function to create a radial gradient for fog of war vision
-function createVisionGradient(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number): CanvasGradient {
-  const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-  gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
-  gradient.addColorStop(0.7, 'rgba(0, 0, 0, 1)');
-  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-  return gradient;
-}
+// Offscreen canvas holding one pixel per fog grid cell; smoothing blurs the cell edges when it's scaled up
+let fogCanvas: HTMLCanvasElement | null = null;
 
 // Helper function to draw fog of war overlay
-function drawFogOfWar(ctx: CanvasRenderingContext2D, state: GameState, canvas: HTMLCanvasElement): void {
-  if (!state.settings.enableFogOfWar) {
+function drawFogOfWar(ctx: CanvasRenderingContext2D, state: GameState): void {
+  const explored = state.fogExploredGrid;
+  const visible = state.fogVisibleGrid;
+  if (!explored || !visible || visible.length === 0) {
     return;
   }
-  
-  ctx.save();
-  
-  // Helper to get vision radius in pixels
-  const getVisionRadius = () => metersToPixels(FOG_OF_WAR_VISION_RANGE) * (state.camera?.zoom || 1);
-  
-  // Step 1: Draw dim black fog for all unexplored areas (very dark, almost black)
-  ctx.fillStyle = 'rgba(5, 5, 10, 0.92)';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-  
-  // Step 2: Create an offscreen canvas for the explored mask
-  const exploredCanvas = document.createElement('canvas');
-  exploredCanvas.width = canvas.width;
-  exploredCanvas.height = canvas.height;
-  const exploredCtx = exploredCanvas.getContext('2d');
-  if (!exploredCtx) {
-    ctx.restore();
-    return;
+
+  const rows = visible.length;
+  const cols = visible[0].length;
+  fogCanvas ??= document.createElement('canvas');
+  if (fogCanvas.width !== cols || fogCanvas.height !== rows) {
+    fogCanvas.width = cols;
+    fogCanvas.height = rows;
   }
-  
-  // Find player base once
-  const playerBase = state.bases.find(b => b.owner === 0);
-  const visionRadius = getVisionRadius();
-  
-  // Mark explored areas by drawing circles at player unit and base positions
-  if (playerBase) {
-    const screenPos = worldToScreen(playerBase.position, state, canvas);
-    exploredCtx.fillStyle = 'rgba(255, 255, 255, 1)';
-    exploredCtx.beginPath();
-    exploredCtx.arc(screenPos.x, screenPos.y, visionRadius, 0, Math.PI * 2);
-    exploredCtx.fill();
+  const fogCtx = fogCanvas.getContext('2d');
+  if (!fogCtx) {
+    return;
   }
-  
-  state.units.forEach(unit => {
-    if (unit.owner === 0) {
-      const screenPos = worldToScreen(unit.position, state, canvas);
-      exploredCtx.fillStyle = 'rgba(255, 255, 255, 1)';
-      exploredCtx.beginPath();
-      exploredCtx.arc(screenPos.x, screenPos.y, visionRadius, 0, Math.PI * 2);
-      exploredCtx.fill();
+
+  // Clear where the player sees now, purple over explored areas, almost black everywhere else
+  const image = fogCtx.createImageData(cols, rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (visible[row][col]) continue;
+      const i = (row * cols + col) * 4;
+      if (explored[row]?.[col]) {
+        image.data.set([80, 40, 120, 166], i);
+      } else {
+        image.data.set([5, 5, 10, 235], i);
+      }
     }
-  });
-  
-  // Use destination-out to remove black fog from explored areas
-  ctx.globalCompositeOperation = 'destination-out';
-  ctx.drawImage(exploredCanvas, 0, 0);
-  
-  // Step 3: Draw purple fog over explored areas (but not currently visible)
-  ctx.globalCompositeOperation = 'source-over';
-  
-  // Create a temporary canvas for purple fog
-  const purpleCanvas = document.createElement('canvas');
-  purpleCanvas.width = canvas.width;
-  purpleCanvas.height = canvas.height;
-  const purpleCtx = purpleCanvas.getContext('2d');
-  if (purpleCtx) {
-    // Use a brighter, more visible purple
-    purpleCtx.fillStyle = 'rgba(80, 40, 120, 1)';
-    purpleCtx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Clip it to explored areas
-    purpleCtx.globalCompositeOperation = 'destination-in';
-    purpleCtx.drawImage(exploredCanvas, 0, 0);
-    
-    // Draw it on main canvas with medium opacity
-    ctx.globalAlpha = 0.65;
-    ctx.drawImage(purpleCanvas, 0, 0);
-    ctx.globalAlpha = 1.0;
   }
-  
-  // Draw swirling fog particles in explored areas
-  if (state.fogParticles && state.settings.enableParticleEffects) {
-    state.fogParticles.forEach(particle => {
-      const screenPos = worldToScreen(particle.position, state, canvas);
-      const size = metersToPixels(particle.size) * (state.camera?.zoom || 1);
-      
+  fogCtx.putImageData(image, 0, 0);
+
+  // Map grid meters onto the playfield, which positionToPixels may mirror or rotate
+  const origin = positionToPixels({ x: 0, y: 0 });
+  const xAxis = subtract(positionToPixels({ x: 1, y: 0 }), origin);
+  const yAxis = subtract(positionToPixels({ x: 0, y: 1 }), origin);
+  ctx.save();
+  ctx.transform(xAxis.x, xAxis.y, yAxis.x, yAxis.y, origin.x, origin.y);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(fogCanvas, 0, 0, cols * FOG_GRID_CELL_METERS, rows * FOG_GRID_CELL_METERS);
+  ctx.restore();
+
+  // Draw swirling fog particles in explored areas that are out of sight
+  if (state.settings.enableParticleEffects) {
+    ctx.save();
+    getEffects(state).fogParticles.forEach(particle => {
+      const row = Math.floor(particle.position.y / FOG_GRID_CELL_METERS);
+      const col = Math.floor(particle.position.x / FOG_GRID_CELL_METERS);
+      if (!explored[row]?.[col] || visible[row]?.[col]) {
+        return;
+      }
+      const screenPos = positionToPixels(particle.position);
+      const size = metersToPixels(particle.size);
+
       // Create purple particle with glow
       const gradient = ctx.createRadialGradient(screenPos.x, screenPos.y, 0, screenPos.x, screenPos.y, size * 2);
       gradient.addColorStop(0, `rgba(180, 120, 255, ${particle.opacity * 0.5})`);
       gradient.addColorStop(0.5, `rgba(140, 80, 220, ${particle.opacity * 0.25})`);
       gradient.addColorStop(1, 'rgba(80, 40, 150, 0)');
-      
+
       ctx.fillStyle = gradient;
       ctx.beginPath();
       ctx.arc(screenPos.x, screenPos.y, size * 2, 0, Math.PI * 2);
       ctx.fill();
     });
+    ctx.restore();
   }
-  
-  // Step 4: Cut out currently visible areas (clear vision)
-  ctx.globalCompositeOperation = 'destination-out';
-  
-  // Draw vision circles for player base
-  if (playerBase) {
-    const screenPos = worldToScreen(playerBase.position, state, canvas);
-    ctx.fillStyle = createVisionGradient(ctx, screenPos.x, screenPos.y, visionRadius);
-    ctx.beginPath();
-    ctx.arc(screenPos.x, screenPos.y, visionRadius, 0, Math.PI * 2);
-    ctx.fill();
-  }
-  
-  // Draw vision circles for player units
-  state.units.forEach(unit => {
-    if (unit.owner === 0) {
-      const screenPos = worldToScreen(unit.position, state, canvas);
-      ctx.fillStyle = createVisionGradient(ctx, screenPos.x, screenPos.y, visionRadius);
+
+  drawLastSeenMarkers(ctx, state);
+}
+
+// Dashed ghosts of enemy bases and structures where the player last saw them, drawn over the fog
+function drawLastSeenMarkers(ctx: CanvasRenderingContext2D, state: GameState): void {
+  state.fogLastSeen?.forEach((marker) => {
+    if (isVisibleToPlayer(marker.position, state)) {
+      return;
+    }
+
+    const screenPos = positionToPixels(marker.position);
+    const color = state.players[marker.owner]?.color ?? '#ffffff';
+    ctx.save();
+    ctx.globalAlpha = 0.55;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+
+    if (marker.kind === 'base') {
+      const size = metersToPixels(BASE_SIZE_METERS);
+      ctx.strokeRect(screenPos.x - size / 2, screenPos.y - size / 2, size, size);
+    } else {
+      const radius = metersToPixels(STRUCTURE_DEFINITIONS[marker.structureType ?? 'offensive'].size) / 2;
       ctx.beginPath();
-      ctx.arc(screenPos.x, screenPos.y, visionRadius, 0, Math.PI * 2);
-      ctx.fill();
+      ctx.arc(screenPos.x, screenPos.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
     }
+
+    ctx.setLineDash([]);
+    ctx.fillStyle = color;
+    ctx.font = 'bold 14px Space Mono, monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('?', screenPos.x, screenPos.y);
+    ctx.restore();
   });
-  
-  ctx.restore();
 }
 
 export function renderGame(ctx: CanvasRenderingContext2D, state: GameState, canvas: HTMLCanvasElement, selectionRect?: { x1: number; y1: number; x2: number; y2: number } | null): void {
+  const effects = getEffects(state);
   ctx.clearRect(0, 0, canvas.width, canvas.height);
 
   // Apply screen shake if active
   let shakeX = 0;
   let shakeY = 0;
-  if (state.screenShake) {
-    const elapsed = (Date.now() - state.screenShake.startTime) / 1000;
-    if (elapsed < state.screenShake.duration) {
-      const progress = elapsed / state.screenShake.duration;
-      const intensity = state.screenShake.intensity * (1 - progress); // Decay over time
+  if (effects.screenShake) {
+    const elapsed = (Date.now() - effects.screenShake.startTime) / 1000;
+    if (elapsed < effects.screenShake.duration) {
+      const progress = elapsed / effects.screenShake.duration;
+      const intensity = effects.screenShake.intensity * (1 - progress); // Decay over time
       shakeX = (Math.random() - 0.5) * intensity;
       shakeY = (Math.random() - 0.5) * intensity;
       ctx.save();
       ctx.translate(shakeX, shakeY);
     } else {
       // Shake expired
-      delete state.screenShake;
+      delete effects.screenShake;
     }
   }
 
@@ -1022,8 +1018,8 @@ export function renderGame(ctx: CanvasRenderingContext2D, state: GameState, canv
       drawVisualFeedback(ctx, state);
       
       // Draw fog of war overlay (before camera transform is removed)
-      if (state.settings.enableFogOfWar) {
-        drawFogOfWar(ctx, state, canvas);
+      if (state.settings.enableFogOfWar && !state.spectating) {
+        drawFogOfWar(ctx, state);
       }
     }
     
@@ -1050,25 +1046,25 @@ export function renderGame(ctx: CanvasRenderingContext2D, state: GameState, canv
   }
   
   // Restore context if shake was applied
-  if (state.screenShake && (Date.now() - state.screenShake.startTime) / 1000 < state.screenShake.duration) {
+  if (effects.screenShake && (Date.now() - effects.screenShake.startTime) / 1000 < effects.screenShake.duration) {
     ctx.restore();
   }
   
   // Draw screen flash effect on top of everything
-  if (state.screenFlash) {
-    const elapsed = (Date.now() - state.screenFlash.startTime) / 1000;
-    if (elapsed < state.screenFlash.duration) {
-      const progress = elapsed / state.screenFlash.duration;
-      const alpha = state.screenFlash.intensity * (1 - progress); // Fade out
+  if (effects.screenFlash) {
+    const elapsed = (Date.now() - effects.screenFlash.startTime) / 1000;
+    if (elapsed < effects.screenFlash.duration) {
+      const progress = elapsed / effects.screenFlash.duration;
+      const alpha = effects.screenFlash.intensity * (1 - progress); // Fade out
       
       ctx.save();
       ctx.globalAlpha = alpha;
-      ctx.fillStyle = state.screenFlash.color;
+      ctx.fillStyle = effects.screenFlash.color;
       ctx.fillRect(0, 0, canvas.width, canvas.height);
       ctx.restore();
     } else {
       // Flash expired
-      delete state.screenFlash;
+      delete effects.screenFlash;
     }
   }
 }
@@ -1293,15 +1289,16 @@ function getPlayfieldRect(): { x: number; y: number; width: number; height: numb
  * Should be called after drawBackground but before drawPlayfieldBorder
  */
 function drawBackgroundFloaters(ctx: CanvasRenderingContext2D, state: GameState): void {
-  // Skip if floaters are undefined or disabled
-  if (!state.floaters || state.floaters.length === 0) {
+  const effects = getEffects(state);
+  // Skip if there are no floaters
+  if (effects.floaters.length === 0) {
     return;
   }
   
   ctx.save();
   
   // Calculate connections between nearby floaters
-  const connections = calculateFloaterConnections(state.floaters);
+  const connections = calculateFloaterConnections(effects.floaters);
   
   // Draw connections first (lines)
   connections.forEach(connection => {
@@ -1321,7 +1318,7 @@ function drawBackgroundFloaters(ctx: CanvasRenderingContext2D, state: GameState)
   });
   
   // Draw floaters second (hollow circles)
-  state.floaters.forEach(floater => {
+  effects.floaters.forEach(floater => {
     const screenPos = positionToPixels(floater.position);
     
     // Radius scaled by floater.size and viewport (3-8 pixels typical)
@@ -1657,7 +1654,7 @@ function drawMiningDepots(ctx: CanvasRenderingContext2D, state: GameState): void
 function drawResourceOrbs(ctx: CanvasRenderingContext2D, state: GameState): void {
   if (!state.resourceOrbs || state.resourceOrbs.length === 0) return;
   
-  const now = Date.now();
+  const now = getSimulationTime(state);
   
   state.resourceOrbs.forEach((orb) => {
     // Skip orbs that are off-screen for performance
@@ -1711,7 +1708,7 @@ function drawResourceOrbs(ctx: CanvasRenderingContext2D, state: GameState): void
 
 function drawCommandQueues(ctx: CanvasRenderingContext2D, state: GameState): void {
   const time = Date.now() / 1000; // Calculate once for efficiency
-  const currentTime = Date.now();
+  const currentTime = getSimulationTime(state);
   
   // Helper function to draw a single unit's command queue with animation
   const drawUnitQueue = (unit: Unit) => {
@@ -1752,7 +1749,7 @@ function drawCommandQueues(ctx: CanvasRenderingContext2D, state: GameState): voi
     const pathSegments: Array<{
       start: Vector2;
       end: Vector2;
-      type: 'move' | 'ability' | 'attack-move' | 'patrol' | 'follow-path';
+      type: CommandNode['type'];
       node: CommandNode;
       index: number;
     }> = [];
@@ -1781,7 +1778,10 @@ function drawCommandQueues(ctx: CanvasRenderingContext2D, state: GameState): voi
         });
       } else {
         const segmentStart = lastPos;
-        const segmentEnd = node.position;
+        // Attack-unit lines end on the target itself while it's still around
+        const segmentEnd = node.type === 'attack-unit'
+          ? findAttackTarget(state, node.targetId, node.targetKind)?.position ?? node.position
+          : node.position;
         const segmentLength = distance(segmentStart, segmentEnd);
         
         pathSegments.push({
@@ -1935,6 +1935,74 @@ function drawCommandQueues(ctx: CanvasRenderingContext2D, state: GameState): voi
           ctx.shadowBlur = 0;
         }
         ctx.globalAlpha = 0.2 * fadeAlpha; // Reset to queued line opacity
+      } else if (segment.type === 'attack-unit') {
+        // Draw a marching target line, distinct from the player-colored movement lines
+        ctx.strokeStyle = ATTACK_TARGET_COLOR;
+        ctx.lineWidth = 2;
+        ctx.globalAlpha = 0.6 * fadeAlpha;
+        ctx.setLineDash([10, 4]);
+        ctx.lineDashOffset = -time * 30;
+        ctx.beginPath();
+        ctx.moveTo(startScreen.x, startScreen.y);
+        ctx.lineTo(endScreen.x, endScreen.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.lineDashOffset = 0;
+
+        // Draw target brackets if segment is fully drawn
+        if (segmentProgress >= 1.0) {
+          const pulse = Math.sin(time * 4 + segment.index) * 0.5 + 0.5;
+          const size = 12 + pulse * 3;
+          const arm = 5;
+          ctx.shadowColor = ATTACK_TARGET_COLOR;
+          ctx.shadowBlur = 10;
+          ctx.globalAlpha = 0.9 * fadeAlpha;
+          ctx.beginPath();
+          for (const [sx, sy] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+            const cornerX = fullEndScreen.x + sx * size;
+            const cornerY = fullEndScreen.y + sy * size;
+            ctx.moveTo(cornerX - sx * arm, cornerY);
+            ctx.lineTo(cornerX, cornerY);
+            ctx.lineTo(cornerX, cornerY - sy * arm);
+          }
+          ctx.stroke();
+          ctx.shadowBlur = 0;
+        }
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.2 * fadeAlpha; // Reset to queued line opacity
+      } else if (segment.type === 'follow' || segment.type === 'guard') {
+        // Draw a dotted tether to the escort spot, which moves with the escorted unit or base
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.globalAlpha = 0.4 * fadeAlpha;
+        ctx.setLineDash([2, 4]);
+        ctx.beginPath();
+        ctx.moveTo(startScreen.x, startScreen.y);
+        ctx.lineTo(endScreen.x, endScreen.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        // Draw the spot marker if segment is fully drawn: a ring to follow, a ring with ticks to guard
+        if (segmentProgress >= 1.0) {
+          const pulse = Math.sin(time * 2 + segment.index) * 0.3 + 0.7;
+          ctx.shadowColor = color;
+          ctx.shadowBlur = 8;
+          ctx.globalAlpha = 0.7 * pulse * fadeAlpha;
+          ctx.beginPath();
+          ctx.arc(fullEndScreen.x, fullEndScreen.y, 5, 0, Math.PI * 2);
+          ctx.stroke();
+          if (segment.type === 'guard') {
+            ctx.beginPath();
+            for (let i = 0; i < 4; i++) {
+              const angle = (Math.PI / 2) * i + Math.PI / 4;
+              ctx.moveTo(fullEndScreen.x + Math.cos(angle) * 7, fullEndScreen.y + Math.sin(angle) * 7);
+              ctx.lineTo(fullEndScreen.x + Math.cos(angle) * 10, fullEndScreen.y + Math.sin(angle) * 10);
+            }
+            ctx.stroke();
+          }
+          ctx.shadowBlur = 0;
+        }
+        ctx.globalAlpha = 0.2 * fadeAlpha; // Reset to queued line opacity
       } else if (segment.type === 'patrol' && segmentProgress >= 1.0) {
         // Only draw patrol path if segment is fully drawn and node is patrol type
         if (segment.node.type !== 'patrol') continue;
@@ -2053,7 +2121,7 @@ function drawBases(ctx: CanvasRenderingContext2D, state: GameState): void {
 
   state.bases.forEach((base) => {
     // Fog of war: hide enemy bases that are not visible to the player
-    if (base.owner !== 0 && !isVisibleToPlayer(base.position, state)) {
+    if (base.owner !== getLocalPlayerIndex(state) && !isVisibleToPlayer(base.position, state)) {
       return;
     }
     
@@ -2071,7 +2139,7 @@ function drawBases(ctx: CanvasRenderingContext2D, state: GameState): void {
       
       if (isPortrait) {
         // In portrait mode: player base comes from bottom, enemy from top
-        if (base.owner === 0) {
+        if (base.owner === getLocalPlayerIndex(state)) {
           const startY = ctx.canvas.height + size;
           const endY = screenPos.y;
           screenPos = { x: screenPos.x, y: startY + (endY - startY) * easeProgress };
@@ -2082,7 +2150,7 @@ function drawBases(ctx: CanvasRenderingContext2D, state: GameState): void {
         }
       } else {
         // In landscape mode: player base comes from left, enemy from right
-        if (base.owner === 0) {
+        if (base.owner === getLocalPlayerIndex(state)) {
           const startX = -size;
           const endX = screenPos.x;
           screenPos = { x: startX + (endX - startX) * easeProgress, y: screenPos.y };
@@ -2103,7 +2171,7 @@ function drawBases(ctx: CanvasRenderingContext2D, state: GameState): void {
     const pulseIntensity = Math.sin(time * 1.5) * 0.3 + 0.7; // Pulse between 0.4 and 1.0
     
     // Draw shield effect for mobile faction when shield is active
-    if (base.shieldActive && Date.now() < base.shieldActive.endTime) {
+    if (base.shieldActive && getSimulationTime(state) < base.shieldActive.endTime) {
       const shieldRadius = size * 0.8;
       ctx.save();
       ctx.strokeStyle = color;
@@ -2409,13 +2477,13 @@ function drawBases(ctx: CanvasRenderingContext2D, state: GameState): void {
     }
     
     // Draw laser beam if active
-    if (base.laserBeam && Date.now() < base.laserBeam.endTime) {
-      drawLaserBeam(ctx, base, screenPos, color);
+    if (base.laserBeam && getSimulationTime(state) < base.laserBeam.endTime) {
+      drawLaserBeam(ctx, base, screenPos, color, state);
     }
     
     // Draw regeneration pulse for support base
-    if (base.regenerationPulse && Date.now() < base.regenerationPulse.endTime) {
-      const elapsed = Date.now() - (base.regenerationPulse.endTime - 500); // 500ms duration
+    if (base.regenerationPulse && getSimulationTime(state) < base.regenerationPulse.endTime) {
+      const elapsed = getSimulationTime(state) - (base.regenerationPulse.endTime - 500); // 500ms duration
       const progress = elapsed / 500;
       const radius = metersToPixels(base.regenerationPulse.radius);
       
@@ -2445,7 +2513,7 @@ function drawStructures(ctx: CanvasRenderingContext2D, state: GameState): void {
     }
     
     // Fog of war: hide enemy structures that are not visible to the player
-    if (structure.owner !== 0 && !isVisibleToPlayer(structure.position, state)) {
+    if (structure.owner !== getLocalPlayerIndex(state) && !isVisibleToPlayer(structure.position, state)) {
       return;
     }
     
@@ -2592,8 +2660,8 @@ function drawStructures(ctx: CanvasRenderingContext2D, state: GameState): void {
       ctx.fill();
       
       // Draw active shield dome
-      if (structure.shieldActive && Date.now() < structure.shieldActive.endTime) {
-        const shieldProgress = (structure.shieldActive.endTime - Date.now()) / 1000;
+      if (structure.shieldActive && getSimulationTime(state) < structure.shieldActive.endTime) {
+        const shieldProgress = (structure.shieldActive.endTime - getSimulationTime(state)) / 1000;
         ctx.globalAlpha = Math.min(0.6, shieldProgress * 0.3);
         ctx.lineWidth = 3;
         const shieldRadius = structure.shieldActive.radius ? metersToPixels(structure.shieldActive.radius) : size * 1.5;
@@ -2785,7 +2853,7 @@ function drawBaseHealthBar(ctx: CanvasRenderingContext2D, base: Base, screenPos:
   ctx.restore();
 }
 
-function drawLaserBeam(ctx: CanvasRenderingContext2D, base: Base, screenPos: { x: number; y: number }, color: string): void {
+function drawLaserBeam(ctx: CanvasRenderingContext2D, base: Base, screenPos: { x: number; y: number }, color: string, state: GameState): void {
   if (!base.laserBeam) return;
   
   const direction = base.laserBeam.direction;
@@ -2793,7 +2861,7 @@ function drawLaserBeam(ctx: CanvasRenderingContext2D, base: Base, screenPos: { x
   const endScreenPos = positionToPixels(laserEnd);
   
   // Calculate beam fade based on remaining time
-  const timeLeft = base.laserBeam.endTime - Date.now();
+  const timeLeft = base.laserBeam.endTime - getSimulationTime(state);
   const alpha = Math.min(1, timeLeft / 200); // Fade in last 200ms
   
   ctx.save();
@@ -2963,10 +3031,11 @@ function drawProjectiles(ctx: CanvasRenderingContext2D, state: GameState): void
 }
 
 function drawShells(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.shells || state.shells.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.shells.length === 0) return;
   if (!state.settings.enableParticleEffects) return;
 
-  state.shells.forEach((shell) => {
+  effects.shells.forEach((shell) => {
     if (!isOnScreen(shell.position, ctx.canvas, state, OFFSCREEN_CULLING_MARGIN)) {
       return;
     }
@@ -3054,7 +3123,7 @@ function drawBladeSword(
   color: string,
   state: GameState
 ): void {
-  const now = Date.now();
+  const now = getSimulationTime(state);
   const particleRadius = metersToPixels(BLADE_SWORD_PARTICLE_RADIUS_METERS);
   const particleSpacing = metersToPixels(BLADE_SWORD_PARTICLE_SPACING_METERS);
   const swing = unit.swordSwing;
@@ -3231,8 +3300,42 @@ function drawUnitHealthBar(ctx: CanvasRenderingContext2D, unit: Unit, screenPos:
   ctx.restore();
 }
 
+// Wall-clock time each cloaked enemy was last drawn while revealed or detected
+const cloakedEnemyLastSeenAt = new Map<string, number>();
+
+// How strongly an undetected cloaked enemy shimmers: fading out after it was last seen, or fully at
+// the edge of one of the player's detectors. Fully hidden units don't shimmer at all.
+function getCloakShimmerStrength(state: GameState, unit: Unit, now: number): number {
+  if (isDetectedBy(state, unit, getLocalPlayerIndex(state), CLOAK_SHIMMER_DETECTION_EDGE_METERS)) return 1;
+  const lastSeenAt = cloakedEnemyLastSeenAt.get(unit.id);
+  return lastSeenAt === undefined ? 0 : Math.max(0, 1 - (now - lastSeenAt) / CLOAK_SHIMMER_AFTER_REVEAL_MS);
+}
+
+// Faint rippling outline where a partially revealed cloaked enemy stands
+function drawCloakShimmer(ctx: CanvasRenderingContext2D, unit: Unit, time: number, strength: number): void {
+  const screenPos = positionToPixels(unit.position);
+  const radius = metersToPixels(UNIT_SIZE_METERS / 2);
+  const phase = time * 3 + unit.position.x;
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(200, 220, 255, 1)';
+  ctx.lineWidth = 1.5;
+  for (let i = 0; i < 3; i++) {
+    const wobble = Math.sin(phase + i * 2.1) * radius * 0.15;
+    ctx.globalAlpha = (0.12 + 0.08 * Math.sin(phase * 1.7 + i)) * strength;
+    ctx.beginPath();
+    ctx.arc(screenPos.x, screenPos.y, radius + wobble, phase + i * 2.1, phase + i * 2.1 + Math.PI * 0.9);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
 function drawUnits(ctx: CanvasRenderingContext2D, state: GameState): void {
-  const time = Date.now() / 1000;
+  const now = Date.now();
+  const time = now / 1000;
+  cloakedEnemyLastSeenAt.forEach((lastSeenAt, unitId) => {
+    if (now - lastSeenAt > CLOAK_SHIMMER_AFTER_REVEAL_MS) cloakedEnemyLastSeenAt.delete(unitId);
+  });
   // Use the settings toggle to decide whether sprite rendering is allowed.
   const spritesEnabled = state.settings.enableSprites ?? true;
   // Rotate unit visuals on desktop so they face forward in the rotated playfield view.
@@ -3244,15 +3347,22 @@ function drawUnits(ctx: CanvasRenderingContext2D, state: GameState): void {
       return;
     }
 
-    // Hide cloaked enemy units from the player's view.
-    if (unit.cloaked && unit.owner !== 0) {
+    // Fog of war: hide enemy units that are not visible to the player
+    if (unit.owner !== getLocalPlayerIndex(state) && !isVisibleToPlayer(unit.position, state)) {
       return;
     }
-    
-    // Fog of war: hide enemy units that are not visible to the player
-    if (unit.owner !== 0 && !isVisibleToPlayer(unit.position, state)) {
+
+    // Undetected cloaked enemies are invisible, at most a shimmer; spectators see through cloaks
+    if (!state.spectating && isHiddenFrom(state, unit, getLocalPlayerIndex(state))) {
+      const shimmerStrength = getCloakShimmerStrength(state, unit, now);
+      if (shimmerStrength > 0) {
+        drawCloakShimmer(ctx, unit, time, shimmerStrength);
+      }
       return;
     }
+    if (unit.owner !== getLocalPlayerIndex(state) && hasStatusEffect(unit, 'cloak')) {
+      cloakedEnemyLastSeenAt.set(unit.id, now);
+    }
     
     let screenPos = positionToPixels(unit.position);
     const color = state.players[unit.owner].color;
@@ -3299,7 +3409,7 @@ function drawUnits(ctx: CanvasRenderingContext2D, state: GameState): void {
       drawBladeSword(ctx, unit, screenPos, color, state);
     }
 
-    if (unit.cloaked) {
+    if (hasStatusEffect(unit, 'cloak')) {
       ctx.globalAlpha = 0.3;
     }
 
@@ -3485,33 +3595,35 @@ function drawUnits(ctx: CanvasRenderingContext2D, state: GameState): void {
 
     ctx.restore();
 
-    if (unit.shieldActive) {
-      drawShieldDome(ctx, unit, screenPos, color);
+    const shield = getStatusEffect(unit, 'shield');
+    if (shield?.dome) {
+      drawShieldDome(ctx, shield.dome.radius, screenPos, color);
     }
 
     if (unit.healPulseActive) {
-      drawHealPulse(ctx, unit, screenPos, color);
+      drawHealPulse(ctx, unit, screenPos, color, state);
     }
 
     if (unit.missileBarrageActive) {
-      drawMissileBarrage(ctx, unit, screenPos, color);
+      drawMissileBarrage(ctx, unit, screenPos, color, state);
     }
 
     if (unit.bombardmentActive) {
       drawBombardment(ctx, unit, color, state);
     }
     
-    if (unit.laserBeam && Date.now() < unit.laserBeam.endTime) {
-      drawUnitLaserBeam(ctx, unit, color);
+    if (unit.laserBeam && getSimulationTime(state) < unit.laserBeam.endTime) {
+      drawUnitLaserBeam(ctx, unit, color, state);
     }
     
     if (unit.meleeAttackEffect) {
-      drawMeleeAttack(ctx, unit, screenPos, color);
+      drawMeleeAttack(ctx, unit, screenPos, color, state);
     }
 
     ctx.globalAlpha = 1.0;
 
     drawUnitHealthBar(ctx, unit, screenPos, color, state.settings.showNumericHP, state);
+    drawStatusEffectIcons(ctx, unit, screenPos);
 
     // Skip modifier icons and multiplier for mining drones
     if (unit.type !== 'miningDrone') {
@@ -3543,9 +3655,88 @@ function drawUnits(ctx: CanvasRenderingContext2D, state: GameState): void {
       ctx.fillStyle = COLORS.white;
       ctx.font = '10px Space Mono, monospace';
       ctx.textAlign = 'center';
-      ctx.fillText(`${unit.damageMultiplier.toFixed(1)}x`, screenPos.x, screenPos.y + 20);
+      ctx.fillText(`${getUnitDamageMultiplier(unit).toFixed(1)}x`, screenPos.x, screenPos.y + 20);
+
+      drawRankChevrons(ctx, unit, screenPos);
+      drawStanceIcon(ctx, state, unit, screenPos);
+    }
+  });
+}
+
+// Draw the stance icon left of the damage multiplier for the local player's units that have one
+function drawStanceIcon(ctx: CanvasRenderingContext2D, state: GameState, unit: Unit, screenPos: { x: number; y: number }): void {
+  if (state.spectating || unit.owner !== getLocalPlayerIndex(state) || !unit.stance) return;
+
+  const def = STANCE_DEFINITIONS[unit.stance];
+  ctx.save();
+  ctx.font = '9px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = def.color;
+  ctx.shadowColor = 'black';
+  ctx.shadowBlur = 3;
+  ctx.fillText(def.icon, screenPos.x - 20, screenPos.y + 17);
+  ctx.restore();
+}
+
+// Draw veterancy chevrons under the damage multiplier, one per rank
+function drawRankChevrons(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }): void {
+  const rank = unit.veterancy?.rank ?? 0;
+  const chevrons = VETERANCY_RANKS[rank].chevrons;
+  if (chevrons === 0) return;
+
+  const halfWidth = 5;
+  const height = 3;
+  const spacing = 4;
+  const topY = screenPos.y + 26;
+
+  ctx.save();
+  ctx.strokeStyle = COLORS.photon;
+  ctx.lineWidth = 1.5;
+  ctx.shadowColor = 'black';
+  ctx.shadowBlur = 2;
+  for (let i = 0; i < chevrons; i++) {
+    const y = topY + i * spacing;
+    ctx.beginPath();
+    ctx.moveTo(screenPos.x - halfWidth, y);
+    ctx.lineTo(screenPos.x, y + height);
+    ctx.lineTo(screenPos.x + halfWidth, y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Draw a row of status effect icons above the modifier icons, with stack counts
+function drawStatusEffectIcons(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }): void {
+  const effects = (unit.statusEffects ?? []).filter((effect) => STATUS_EFFECT_DEFINITIONS[effect.type].icon);
+  if (effects.length === 0) return;
+
+  const iconSize = 12;
+  const iconSpacing = 14;
+  const totalWidth = effects.length * iconSpacing - 2;
+  const startX = screenPos.x - totalWidth / 2;
+  const iconY = screenPos.y - metersToPixels(getUnitSizeMeters(unit) / 2) - 44;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'black';
+  ctx.shadowBlur = 3;
+
+  effects.forEach((effect, idx) => {
+    const def = STATUS_EFFECT_DEFINITIONS[effect.type];
+    const x = startX + idx * iconSpacing;
+    ctx.font = `${iconSize}px Arial`;
+    ctx.fillStyle = def.color;
+    ctx.fillText(def.icon!, x, iconY);
+    if (effect.stacks > 1) {
+      ctx.font = '8px Space Mono, monospace';
+      ctx.fillStyle = COLORS.white;
+      ctx.fillText(`${effect.stacks}`, x + 6, iconY + 5);
     }
   });
+
+  ctx.restore();
 }
 
 // Draw motion blur trail for fast-moving units
@@ -3773,10 +3964,8 @@ function drawInterceptor(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: {
   ctx.fill();
 }
 
-function drawShieldDome(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }, color: string): void {
-  if (!unit.shieldActive) return;
-
-  const radius = metersToPixels(unit.shieldActive.radius);
+function drawShieldDome(ctx: CanvasRenderingContext2D, domeRadius: number, screenPos: { x: number; y: number }, color: string): void {
+  const radius = metersToPixels(domeRadius);
   const time = Date.now() / 1000;
   const pulse = Math.sin(time * 3) * 0.2 + 0.8;
   const hexRotation = time * 0.5; // Pre-calculate rotation for all hexagons
@@ -3848,10 +4037,10 @@ function drawShieldDome(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: {
   ctx.restore();
 }
 
-function drawHealPulse(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }, color: string): void {
+function drawHealPulse(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }, color: string, state: GameState): void {
   if (!unit.healPulseActive) return;
 
-  const progress = (Date.now() - (unit.healPulseActive.endTime - 1000)) / 1000;
+  const progress = (getSimulationTime(state) - (unit.healPulseActive.endTime - 1000)) / 1000;
   const radius = metersToPixels(unit.healPulseActive.radius * progress);
   const alpha = Math.max(0, 1 - progress);
 
@@ -3912,10 +4101,11 @@ function drawHealPulse(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x
   ctx.restore();
 }
 
-function drawMissileBarrage(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }, color: string): void {
+function drawMissileBarrage(ctx: CanvasRenderingContext2D, unit: Unit, screenPos: { x: number; y: number }, color: string, state: GameState): void {
   if (!unit.missileBarrageActive) return;
 
-  const progress = (Date.now() - (unit.missileBarrageActive.endTime - 1500)) / 1500;
+  const flightMs = getAbilityComponent(unit.type, 'missiles')?.flightMs ?? 1500;
+  const progress = (getSimulationTime(state) - (unit.missileBarrageActive.endTime - flightMs)) / flightMs;
 
   ctx.save();
   ctx.fillStyle = color;
@@ -3984,7 +4174,7 @@ function drawBombardment(ctx: CanvasRenderingContext2D, unit: Unit, color: strin
   if (!unit.bombardmentActive) return;
 
   const targetScreen = positionToPixels(unit.bombardmentActive.targetPos);
-  const now = Date.now();
+  const now = getSimulationTime(state);
   const time = now / 1000;
 
   if (now < unit.bombardmentActive.impactTime) {
@@ -4098,10 +4288,10 @@ function drawBombardment(ctx: CanvasRenderingContext2D, unit: Unit, color: strin
   }
 }
 
-function drawMeleeAttack(ctx: CanvasRenderingContext2D, unit: Unit, unitScreenPos: { x: number; y: number }, color: string): void {
+function drawMeleeAttack(ctx: CanvasRenderingContext2D, unit: Unit, unitScreenPos: { x: number; y: number }, color: string, state: GameState): void {
   if (!unit.meleeAttackEffect) return;
   
-  const now = Date.now();
+  const now = getSimulationTime(state);
   const targetScreenPos = positionToPixels(unit.meleeAttackEffect.targetPos);
   const progress = 1 - ((unit.meleeAttackEffect.endTime - now) / 200);
   
@@ -4131,7 +4321,7 @@ function drawMeleeAttack(ctx: CanvasRenderingContext2D, unit: Unit, unitScreenPo
   ctx.restore();
 }
 
-function drawUnitLaserBeam(ctx: CanvasRenderingContext2D, unit: Unit, color: string): void {
+function drawUnitLaserBeam(ctx: CanvasRenderingContext2D, unit: Unit, color: string, state: GameState): void {
   if (!unit.laserBeam) return;
   
   const direction = unit.laserBeam.direction;
@@ -4140,7 +4330,7 @@ function drawUnitLaserBeam(ctx: CanvasRenderingContext2D, unit: Unit, color: str
   const endPos = add(unit.position, scale(direction, range));
   const endScreen = positionToPixels(endPos);
   
-  const timeLeft = unit.laserBeam.endTime - Date.now();
+  const timeLeft = unit.laserBeam.endTime - getSimulationTime(state);
   const fadeProgress = 1 - Math.min(1, timeLeft / ABILITY_LASER_DURATION);
   
   ctx.save();
@@ -4257,7 +4447,7 @@ function drawAbilityRangeIndicators(ctx: CanvasRenderingContext2D, state: GameSt
   // Only draw for selected player units.
   const selectedPlayerUnits = Array.from(state.selectedUnits)
     .map(id => state.units.find(u => u.id === id))
-    .filter(u => u && u.owner === 0);
+    .filter(u => u && u.owner === getLocalPlayerIndex(state));
 
   if (selectedPlayerUnits.length === 0) return;
 
@@ -4390,6 +4580,12 @@ function drawHUD(ctx: CanvasRenderingContext2D, state: GameState): void {
     ctx.fillText('Hold P for patrol', 10, patrolY);
     ctx.font = '14px Space Grotesk, sans-serif';
   }
+
+  // Draw pending follow/guard indicator
+  if (state.escortMode) {
+    ctx.fillStyle = COLORS.photon;
+    ctx.fillText(state.escortMode === 'guard' ? 'GUARD: TAP A FRIENDLY UNIT OR BASE' : 'FOLLOW: TAP A FRIENDLY UNIT OR BASE', 10, patrolY + 20);
+  }
   
   if (state.matchTimeLimit) {
     const timeRemaining = Math.max(0, state.matchTimeLimit - state.elapsedTime);
@@ -4423,11 +4619,15 @@ function drawHUD(ctx: CanvasRenderingContext2D, state: GameState): void {
     if (state.vsMode === 'online' && state.networkStatus) {
       ctx.font = '12px Space Mono, monospace';
       const netStatus = state.networkStatus;
-      const statusColor = netStatus.connected ? 'oklch(0.70 0.20 140)' : 'oklch(0.62 0.28 25)';
+      const statusColor = netStatus.connected && !netStatus.desync ? 'oklch(0.70 0.20 140)' : 'oklch(0.62 0.28 25)';
       ctx.fillStyle = statusColor;
-      const statusText = netStatus.connected 
-        ? `Online ${netStatus.latency ? `(${netStatus.latency}ms)` : ''}`
-        : 'Disconnected';
+      const statusText = netStatus.desync
+        ? 'Desync'
+        : !netStatus.connected
+          ? 'Disconnected'
+          : netStatus.waitingForOpponent
+            ? 'Waiting for opponent...'
+            : `Online ${netStatus.latency ? `(${netStatus.latency}ms)` : ''}`;
       ctx.fillText(statusText, ctx.canvas.width - 10, 35);
     }
     
@@ -4969,8 +5169,8 @@ function drawBuildingMenu(ctx: CanvasRenderingContext2D, state: GameState): void
   const startScreen = positionToPixels(startPosition);
   const currentScreen = positionToPixels(currentPosition);
   const playerIndex = state.buildingMenu.workerIds.length > 0 
-    ? state.units.find(u => u.id === state.buildingMenu!.workerIds[0])?.owner ?? 0
-    : 0;
+    ? state.units.find(u => u.id === state.buildingMenu!.workerIds[0])?.owner ?? getLocalPlayerIndex(state)
+    : getLocalPlayerIndex(state);
   const color = state.players[playerIndex].color;
   const time = Date.now() / 1000;
   
@@ -5292,11 +5492,12 @@ function drawVisualFeedback(ctx: CanvasRenderingContext2D, state: GameState): vo
 }
 
 function drawImpactEffects(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.impactEffects || state.impactEffects.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.impactEffects.length === 0) return;
   
   const now = Date.now();
   
-  state.impactEffects.forEach((effect) => {
+  effects.impactEffects.forEach((effect) => {
     const elapsed = (now - effect.startTime) / 1000;
     const progress = Math.min(elapsed / effect.duration, 1);
     
@@ -5336,10 +5537,11 @@ function drawImpactEffects(ctx: CanvasRenderingContext2D, state: GameState): voi
 }
 
 function drawExplosionParticles(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.explosionParticles || state.explosionParticles.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.explosionParticles.length === 0) return;
   if (!state.settings.enableParticleEffects) return; // Skip if particles disabled
   
-  state.explosionParticles.forEach((particle) => {
+  effects.explosionParticles.forEach((particle) => {
     const screenPos = positionToPixels(particle.position);
     const size = metersToPixels(particle.size);
     
@@ -5381,11 +5583,12 @@ function drawExplosionParticles(ctx: CanvasRenderingContext2D, state: GameState)
 
 // Draw hit spark effects
 function drawHitSparks(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.hitSparks) return;
+  const effects = getEffects(state);
+  if (effects.hitSparks.length === 0) return;
   if (!state.settings.enableParticleEffects) return; // Skip if particles disabled
   
   const now = Date.now();
-  state.hitSparks.forEach((spark) => {
+  effects.hitSparks.forEach((spark) => {
     const age = (now - spark.createdAt) / 1000;
     const progress = age / spark.lifetime;
     const alpha = 1 - progress;
@@ -5408,11 +5611,12 @@ function drawHitSparks(ctx: CanvasRenderingContext2D, state: GameState): void {
 
 // Draw bounce particles for armored units
 function drawBounceParticles(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.bounceParticles) return;
+  const effects = getEffects(state);
+  if (effects.bounceParticles.length === 0) return;
   if (!state.settings.enableParticleEffects) return; // Skip if particles disabled
   
   const now = Date.now();
-  state.bounceParticles.forEach((particle) => {
+  effects.bounceParticles.forEach((particle) => {
     const age = (now - particle.createdAt) / 1000;
     const progress = age / particle.lifetime;
     const alpha = 1 - progress;
@@ -5440,10 +5644,11 @@ function drawBounceParticles(ctx: CanvasRenderingContext2D, state: GameState): v
 
 // Draw field particles for mid-field physics effects
 function drawFieldParticles(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.fieldParticles || state.fieldParticles.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.fieldParticles.length === 0) return;
   if (!state.settings.enableParticleEffects) return; // Skip if particles disabled
   
-  state.fieldParticles.forEach((particle) => {
+  effects.fieldParticles.forEach((particle) => {
     const screenPos = positionToPixels(particle.position);
     const size = metersToPixels(particle.size);
     
@@ -5465,11 +5670,12 @@ function drawFieldParticles(ctx: CanvasRenderingContext2D, state: GameState): vo
 
 // Draw celebration particles for victory screen
 function drawCelebrationParticles(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.celebrationParticles || state.celebrationParticles.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.celebrationParticles.length === 0) return;
   if (!state.settings.enableParticleEffects) return; // Skip if particles disabled
   
   const now = Date.now();
-  state.celebrationParticles.forEach((particle) => {
+  effects.celebrationParticles.forEach((particle) => {
     const age = (now - particle.createdAt) / 1000;
     if (age < 0 || age >= particle.lifetime) return;
     
@@ -5528,10 +5734,11 @@ function drawCelebrationParticles(ctx: CanvasRenderingContext2D, state: GameStat
 
 // Draw energy pulse effects
 function drawEnergyPulses(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.energyPulses) return;
+  const effects = getEffects(state);
+  if (effects.energyPulses.length === 0) return;
   
   const now = Date.now();
-  state.energyPulses.forEach((pulse) => {
+  effects.energyPulses.forEach((pulse) => {
     const age = (now - pulse.startTime) / 1000;
     const progress = age / pulse.duration;
     const alpha = 1 - progress;
@@ -5583,10 +5790,11 @@ function drawEnergyPulses(ctx: CanvasRenderingContext2D, state: GameState): void
 
 // Draw spawn effects
 function drawSpawnEffects(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.spawnEffects) return;
+  const effects = getEffects(state);
+  if (effects.spawnEffects.length === 0) return;
   
   const now = Date.now();
-  state.spawnEffects.forEach((effect) => {
+  effects.spawnEffects.forEach((effect) => {
     const age = (now - effect.startTime) / 1000;
     const progress = age / effect.duration;
     const alpha = 1 - progress;
@@ -5627,11 +5835,12 @@ function drawSpawnEffects(ctx: CanvasRenderingContext2D, state: GameState): void
 }
 
 function drawMotionTrails(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.motionTrails || state.motionTrails.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.motionTrails.length === 0) return;
   
   const now = Date.now();
   
-  state.motionTrails.forEach((trail) => {
+  effects.motionTrails.forEach((trail) => {
     if (trail.positions.length < 2) return;
     
     ctx.save();
@@ -5667,12 +5876,13 @@ function drawMotionTrails(ctx: CanvasRenderingContext2D, state: GameState): void
 
 // Draw thin trails from back corners of unit sprites
 function drawSpriteCornerTrails(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.spriteCornerTrails || state.spriteCornerTrails.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.spriteCornerTrails.length === 0) return;
   
   const now = Date.now();
   const SPRITE_CORNER_TRAIL_DURATION = 0.3; // Must match simulation value
   
-  state.spriteCornerTrails.forEach((trail) => {
+  effects.spriteCornerTrails.forEach((trail) => {
     ctx.save();
     ctx.strokeStyle = trail.color;
     ctx.lineCap = 'round';
@@ -5714,11 +5924,12 @@ function drawSpriteCornerTrails(ctx: CanvasRenderingContext2D, state: GameState)
 }
 
 function drawDamageNumbers(ctx: CanvasRenderingContext2D, state: GameState): void {
-  if (!state.damageNumbers || state.damageNumbers.length === 0) return;
+  const effects = getEffects(state);
+  if (effects.damageNumbers.length === 0) return;
   
   const now = Date.now();
   
-  state.damageNumbers.forEach((damageNum) => {
+  effects.damageNumbers.forEach((damageNum) => {
     const elapsed = (now - damageNum.startTime) / 1000;
     const progress = Math.min(elapsed / damageNum.duration, 1);
     
@@ -5829,10 +6040,14 @@ function drawMinimap(ctx: CanvasRenderingContext2D, state: GameState, canvas: HT
   }
   
   // Helper to convert game position to minimap position
+  // Mirror the minimap along with the playfield for players in the top slot
+  const flipMinimap = getLocalPlayerIndex(state) === 1;
   const toMinimapPos = (pos: Vector2) => {
+    const u = flipMinimap ? 1 - pos.x / arenaWidth : pos.x / arenaWidth;
+    const v = flipMinimap ? 1 - pos.y / arenaHeight : pos.y / arenaHeight;
     return {
-      x: minimapX + (pos.x / arenaWidth) * minimapSize,
-      y: minimapY + (pos.y / arenaHeight) * minimapSize,
+      x: minimapX + u * minimapSize,
+      y: minimapY + v * minimapSize,
     };
   };
   
@@ -5890,8 +6105,8 @@ function drawMinimap(ctx: CanvasRenderingContext2D, state: GameState, canvas: HT
   
   // Draw units with slight glow
   state.units.forEach(unit => {
-    // Hide cloaked enemy units from the player's minimap view.
-    if (unit.cloaked && unit.owner !== 0) {
+    // Hide undetected cloaked enemy units from the player's minimap view.
+    if (!state.spectating && isHiddenFrom(state, unit, getLocalPlayerIndex(state))) {
       return;
     }
 
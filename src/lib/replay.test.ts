@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startReplayRecording, recordReplayFrame, resimulateRecording } from './replay';
+import { executeGameplayCommand } from './commands';
+import { createHeadlessMatchState, HEADLESS_TIME_STEP } from './headless';
+import { updateGame } from './simulation';
+import { updateAI } from './ai';
+import { computeStateChecksum } from './determinism';
+import { SNAPSHOT_STATE_KEYS, pickState } from './simulationSnapshot';
+import { GameState, ARENA_HEIGHT_METERS } from './types';
+
+const OPTIONS = { mapId: 'labyrinth', seed: 3 };
+const RECORDED_TICKS = 900;
+const TICKS_AFTER_REBUILD = 600;
+// The player sends a marine this often, so the recording has commands to re-apply
+const SPAWN_INTERVAL_TICKS = 90;
+
+// Step the way the simulation worker does: the player's commands, the replay frame, the simulation, then the AI
+function playRecordedTicks(state: GameState, ticks: number): void {
+  const base = state.bases.find((candidate) => candidate.owner === 0)!;
+  for (let tick = 0; tick < ticks && state.winner === null; tick++) {
+    if (tick % SPAWN_INTERVAL_TICKS === 0) {
+      executeGameplayCommand(state, { type: 'spawn', owner: 0, baseId: base.id, unitType: 'marine' });
+    }
+    recordReplayFrame(state, HEADLESS_TIME_STEP);
+    updateGame(state, HEADLESS_TIME_STEP);
+    updateAI(state, HEADLESS_TIME_STEP);
+  }
+}
+
+test('resimulating a recording rebuilds the simulation behind a snapshot', () => {
+  const simulated = createHeadlessMatchState(OPTIONS);
+  startReplayRecording(simulated, ARENA_HEIGHT_METERS);
+  playRecordedTicks(simulated, RECORDED_TICKS);
+  assert.ok(simulated.replayRecorder!.commands.length > 0);
+
+  // What the main thread holds while the worker runs: the match as it started, updated from snapshots
+  const displayed: GameState = {
+    ...createHeadlessMatchState(OPTIONS),
+    ...pickState(simulated, SNAPSHOT_STATE_KEYS),
+    replayRecorder: structuredClone(simulated.replayRecorder),
+  };
+  assert.notEqual(computeStateChecksum(displayed), computeStateChecksum(simulated));
+
+  assert.ok(resimulateRecording(displayed));
+  assert.equal(computeStateChecksum(displayed), computeStateChecksum(simulated));
+
+  // Scheduled tasks from here on belong to the rebuilt state, so both keep stepping alike
+  playRecordedTicks(simulated, TICKS_AFTER_REBUILD);
+  playRecordedTicks(displayed, TICKS_AFTER_REBUILD);
+  assert.equal(computeStateChecksum(displayed), computeStateChecksum(simulated));
+});
+
+test('a match that is not being recorded is left alone', () => {
+  const state = createHeadlessMatchState(OPTIONS);
+  const checksum = computeStateChecksum(state);
+  assert.equal(resimulateRecording(state), false);
+  assert.equal(computeStateChecksum(state), checksum);
+});
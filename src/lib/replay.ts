@@ -0,0 +1,372 @@
+/**
+ * Match replays - record the seed, match settings, per-frame timings and player commands,
+ * then play them back by re-running the simulation with the same inputs.
+ * Nothing but the command stream is stored; every unit position is recomputed on playback.
+ */
+
+import { GameState, UnitType, FactionType, BaseType } from './types';
+import { GameplayCommand, applyGameplayCommand } from './commands';
+import { createMatchState } from './matchSetup';
+import { updateGame } from './simulation';
+import { updateAI } from './ai';
+import { PositionInterpolator, createPositionInterpolator, restoreSimulatedPositions, captureSimulatedPositions, interpolatePositions } from './fixedTimestep';
+import { moveEffects } from './effects';
+import { SIMULATED_STATE_KEYS, pickState } from './simulationSnapshot';
+
+// Bump when the replay format or anything that changes simulation results changes
+export const REPLAY_FORMAT_VERSION = 8;
+// Playback speeds offered by the replay controls
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+// Number of replays kept in storage (oldest are dropped first)
+const MAX_STORED_REPLAYS = 10;
+// Safety cap on frames simulated per playback update so a long hitch can't freeze the page
+const MAX_FRAMES_PER_UPDATE = 64;
+
+// Gameplay-relevant settings captured when the match started
+export interface ReplaySettings {
+  vsMode: 'ai' | 'player' | 'online';
+  mapId: string;
+  playerFaction: FactionType;
+  enemyFaction: FactionType;
+  playerBaseType: BaseType;
+  enemyBaseType: BaseType;
+  enabledUnits: UnitType[];
+  playerColor: string;
+  enemyColor: string;
+  aiDifficulty: 'easy' | 'medium' | 'hard';
+  chessMode: boolean;
+  matchTimeLimit?: number;
+  arenaHeight: number; // Arena height in meters at record time
+  isPortrait: boolean; // Coordinate system used for base placement
+  localPlayerIndex?: number; // Slot the recording player controlled (online guests recorded slot 1)
+}
+
+export interface RecordedCommand {
+  frame: number; // Number of simulation frames that had run when the command was issued
+  command: GameplayCommand;
+}
+
+// Attached to the GameState while a match is being recorded
+export interface ReplayRecorder {
+  seed: number;
+  settings: ReplaySettings;
+  frameDeltasMs: number[]; // Step size of every updateGame call, in whole milliseconds
+  commands: RecordedCommand[];
+}
+
+export interface ReplayData {
+  version: number;
+  matchId: string; // Matches the MatchStats entry this replay belongs to
+  recordedAt: number;
+  seed: number;
+  settings: ReplaySettings;
+  frameDeltasMs: number[];
+  commands: RecordedCommand[];
+}
+
+export interface ReplayPlayback {
+  replay: ReplayData;
+  state: GameState; // Simulation being played back
+  viewerSettings: GameState['settings']; // Display preferences of the person watching
+  frame: number; // Frames simulated so far
+  nextCommandIndex: number; // Next entry in replay.commands to apply
+  frameEndTimesMs: number[]; // Cumulative match time at the end of each frame, for scrubbing
+  pendingMs: number; // Scaled real time not yet simulated
+  paused: boolean;
+  speed: number;
+  interpolator: PositionInterpolator; // Blends drawn positions between replay frames
+}
+
+/**
+ * Start recording a replay for a freshly created match
+ * @param state - Match state built with createMatchState (before any frames have run)
+ * @param arenaHeight - Arena height the match was built with
+ */
+export function startReplayRecording(state: GameState, arenaHeight: number): void {
+  if (!state.vsMode) return;
+
+  state.replayRecorder = {
+    seed: state.rngSeed,
+    settings: {
+      vsMode: state.vsMode,
+      mapId: state.settings.selectedMap,
+      playerFaction: state.settings.playerFaction || 'radiant',
+      enemyFaction: state.settings.enemyFaction || 'radiant',
+      playerBaseType: state.settings.playerBaseType || 'standard',
+      enemyBaseType: state.settings.enemyBaseType || 'standard',
+      enabledUnits: Array.from(state.settings.enabledUnits),
+      playerColor: state.settings.playerColor,
+      enemyColor: state.settings.enemyColor,
+      aiDifficulty: state.settings.aiDifficulty || 'medium',
+      chessMode: state.settings.chessMode ?? false,
+      matchTimeLimit: state.matchTimeLimit,
+      arenaHeight,
+      isPortrait: state.isPortrait ?? true,
+      localPlayerIndex: state.localPlayerIndex,
+    },
+    frameDeltasMs: [],
+    commands: [],
+  };
+}
+
+/**
+ * Record the step size of a simulation frame; call right before updateGame
+ * @param state - Match state being recorded
+ * @param deltaTime - Step size in seconds passed to updateGame
+ */
+export function recordReplayFrame(state: GameState, deltaTime: number): void {
+  state.replayRecorder?.frameDeltasMs.push(Math.round(deltaTime * 1000));
+}
+
+/**
+ * Stop recording and package the replay for storage
+ * @param state - Match state that was being recorded
+ * @param matchId - Id of the match history entry the replay belongs to
+ * @returns The finished replay, or null if nothing was recorded
+ */
+export function finishReplayRecording(state: GameState, matchId: string): ReplayData | null {
+  const recorder = state.replayRecorder;
+  delete state.replayRecorder;
+  if (!recorder || recorder.frameDeltasMs.length === 0) return null;
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    matchId,
+    recordedAt: Date.now(),
+    seed: recorder.seed,
+    settings: recorder.settings,
+    frameDeltasMs: recorder.frameDeltasMs,
+    commands: recorder.commands,
+  };
+}
+
+/**
+ * Add a replay to the stored collection, dropping the oldest beyond the storage limit
+ * @param replays - Currently stored replays keyed by match id
+ * @param replay - Replay to add
+ * @returns The updated collection
+ */
+export function storeReplay(replays: Record<string, ReplayData> | undefined, replay: ReplayData): Record<string, ReplayData> {
+  const kept = Object.values(replays || {})
+    .filter((r) => r.matchId !== replay.matchId)
+    .sort((a, b) => b.recordedAt - a.recordedAt)
+    .slice(0, MAX_STORED_REPLAYS - 1);
+
+  const result: Record<string, ReplayData> = { [replay.matchId]: replay };
+  kept.forEach((r) => {
+    result[r.matchId] = r;
+  });
+  return result;
+}
+
+/**
+ * Check whether a stored replay can be played by this build
+ */
+export function isReplayPlayable(replay: ReplayData | undefined): replay is ReplayData {
+  return !!replay && replay.version === REPLAY_FORMAT_VERSION && replay.frameDeltasMs.length > 0;
+}
+
+/**
+ * Create a playback session positioned at the start of the replay
+ * @param replay - Replay to watch
+ * @param viewerSettings - Current settings of the viewer (display preferences are kept)
+ */
+export function createReplayPlayback(replay: ReplayData, viewerSettings: GameState['settings']): ReplayPlayback {
+  let total = 0;
+  const frameEndTimesMs = replay.frameDeltasMs.map((delta) => (total += delta));
+
+  return {
+    replay,
+    state: createReplayState(replay, viewerSettings),
+    viewerSettings,
+    frame: 0,
+    nextCommandIndex: 0,
+    frameEndTimesMs,
+    pendingMs: 0,
+    paused: false,
+    speed: 1,
+    interpolator: createPositionInterpolator(),
+  };
+}
+
+/**
+ * Advance playback by an amount of real time, scaled by the playback speed
+ * @param playback - Playback session
+ * @param realDeltaMs - Real milliseconds since the last update
+ */
+export function advanceReplayPlayback(playback: ReplayPlayback, realDeltaMs: number): void {
+  if (playback.paused || isReplayFinished(playback)) return;
+
+  playback.pendingMs += realDeltaMs * playback.speed;
+  restoreSimulatedPositions(playback.interpolator);
+
+  let steps = 0;
+  let lastFrameMs = 0;
+  while (!isReplayFinished(playback) && playback.pendingMs >= playback.replay.frameDeltasMs[playback.frame]) {
+    lastFrameMs = playback.replay.frameDeltasMs[playback.frame];
+    playback.pendingMs -= lastFrameMs;
+    stepReplayFrame(playback);
+    steps++;
+    if (steps >= MAX_FRAMES_PER_UPDATE) {
+      // Drop the backlog instead of trying to catch up after a long stall
+      playback.pendingMs = 0;
+      break;
+    }
+  }
+
+  if (steps > 0) {
+    captureSimulatedPositions(playback.interpolator, playback.state, lastFrameMs / playback.speed);
+  }
+  interpolatePositions(playback.interpolator);
+}
+
+/**
+ * Jump to a point in the match; seeking backwards re-simulates from the start
+ * @param playback - Playback session
+ * @param timeMs - Target match time in milliseconds
+ */
+export function seekReplay(playback: ReplayPlayback, timeMs: number): void {
+  const targetFrame = getReplayFrameAtTime(playback, timeMs);
+  restoreSimulatedPositions(playback.interpolator);
+  playback.interpolator = createPositionInterpolator();
+
+  if (targetFrame < playback.frame) {
+    const previous = playback.state;
+    playback.state = createReplayState(playback.replay, playback.viewerSettings);
+    keepViewerState(previous, playback.state);
+    playback.frame = 0;
+    playback.nextCommandIndex = 0;
+  }
+
+  // Skip sound effects while fast-forwarding
+  playback.state.headless = true;
+  while (playback.frame < targetFrame) {
+    stepReplayFrame(playback);
+  }
+  playback.state.headless = false;
+  playback.pendingMs = 0;
+}
+
+/**
+ * Current and total match time of a playback session, in milliseconds
+ */
+export function getReplayTimes(playback: ReplayPlayback): { currentMs: number; totalMs: number } {
+  const times = playback.frameEndTimesMs;
+  return {
+    currentMs: playback.frame > 0 ? times[playback.frame - 1] : 0,
+    totalMs: times.length > 0 ? times[times.length - 1] : 0,
+  };
+}
+
+export function isReplayFinished(playback: ReplayPlayback): boolean {
+  return playback.frame >= playback.replay.frameDeltasMs.length;
+}
+
+/**
+ * Rebuild the simulated state of a match being recorded by re-running its recording from the seed.
+ * Runs on the state object itself, so tasks the simulation schedules from here on act on it.
+ * The simulation worker keeps a match's RNG, clock and AI memory to itself; this is how the main
+ * thread takes over when the worker fails.
+ * @param state - Match being recorded; its simulated fields are replaced, the rest is kept
+ * @returns False, leaving the state alone, if the match isn't being recorded
+ */
+export function resimulateRecording(state: GameState): boolean {
+  const recorder = state.replayRecorder;
+  if (!recorder) return false;
+
+  // The statistics clock keeps counting from the real start of the match
+  const startTime = state.matchStats?.startTime;
+  Object.assign(state, pickState(createReplayState(recorder, state.settings), SIMULATED_STATE_KEYS));
+  if (state.matchStats && startTime !== undefined) {
+    state.matchStats.startTime = startTime;
+  }
+  state.scheduledTasks = [];
+
+  // Nothing from the re-run is shown or heard
+  const headless = state.headless;
+  state.headless = true;
+  let nextCommandIndex = 0;
+  for (let frame = 0; frame < recorder.frameDeltasMs.length; frame++) {
+    nextCommandIndex = runRecordedFrame(state, recorder, frame, nextCommandIndex);
+  }
+  state.headless = headless;
+  return true;
+}
+
+// Build the starting state of a replay from its recorded seed and settings
+function createReplayState(replay: Pick<ReplayData, 'seed' | 'settings'>, viewerSettings: GameState['settings']): GameState {
+  const { settings } = replay;
+  const state = createMatchState({
+    vsMode: settings.vsMode,
+    settings: {
+      ...viewerSettings,
+      selectedMap: settings.mapId,
+      playerFaction: settings.playerFaction,
+      enemyFaction: settings.enemyFaction,
+      playerBaseType: settings.playerBaseType,
+      enemyBaseType: settings.enemyBaseType,
+      enabledUnits: new Set(settings.enabledUnits),
+      playerColor: settings.playerColor,
+      enemyColor: settings.enemyColor,
+      aiDifficulty: settings.aiDifficulty,
+      chessMode: settings.chessMode,
+    },
+    seed: replay.seed,
+    arenaHeight: settings.arenaHeight,
+    isPortrait: settings.isPortrait,
+    matchTimeLimit: settings.matchTimeLimit,
+  });
+  // Watch from the recording player's side of the field
+  state.localPlayerIndex = settings.localPlayerIndex;
+  return state;
+}
+
+function stepReplayFrame(playback: ReplayPlayback): void {
+  playback.nextCommandIndex = runRecordedFrame(playback.state, playback.replay, playback.frame, playback.nextCommandIndex);
+  playback.frame++;
+}
+
+// Run one recorded frame: apply the commands issued before it, then step the simulation
+// exactly like the live game loop does. Returns the index of the first command left for later frames.
+function runRecordedFrame(
+  state: GameState,
+  recording: Pick<ReplayData, 'frameDeltasMs' | 'commands'>,
+  frame: number,
+  nextCommandIndex: number
+): number {
+  let commandIndex = nextCommandIndex;
+  while (commandIndex < recording.commands.length && recording.commands[commandIndex].frame <= frame) {
+    applyGameplayCommand(state, recording.commands[commandIndex].command);
+    commandIndex++;
+  }
+
+  const deltaTime = recording.frameDeltasMs[frame] / 1000;
+  updateGame(state, deltaTime);
+  updateAI(state, deltaTime);
+  return commandIndex;
+}
+
+// Find the number of frames that must run to reach a match time
+function getReplayFrameAtTime(playback: ReplayPlayback, timeMs: number): number {
+  const times = playback.frameEndTimesMs;
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= timeMs) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Carry the camera and backdrop over when the playback state is rebuilt for a backwards seek
+function keepViewerState(from: GameState, to: GameState): void {
+  to.camera = from.camera;
+  to.topographyLines = from.topographyLines;
+  to.stars = from.stars;
+  to.nebulaClouds = from.nebulaClouds;
+  moveEffects(from, to);
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { saveMatch, restoreMatch, isSavedMatchResumable } from './savedMatch';
+import { createHeadlessMatchState, stepHeadlessMatch } from './headless';
+import { computeStateChecksum } from './determinism';
+import { GameState, ARENA_HEIGHT_METERS } from './types';
+
+const OPTIONS = { mapId: 'labyrinth', seed: 5 };
+// Ticks played before saving and after resuming
+const TICKS_BEFORE_SAVE = 750;
+const TICKS_AFTER_RESUME = 1800;
+// How often the two runs are compared after resuming
+const CHECKSUM_INTERVAL_TICKS = 30;
+
+// Step until no scheduled task is pending, the only point where a match can be saved
+function stepToSavePoint(state: GameState): void {
+  while ((state.scheduledTasks?.length ?? 0) > 0) {
+    stepHeadlessMatch(state, undefined, 1);
+  }
+}
+
+test('a resumed match plays on exactly like the match it was saved from', () => {
+  const uninterrupted = createHeadlessMatchState(OPTIONS);
+  stepHeadlessMatch(uninterrupted, undefined, TICKS_BEFORE_SAVE);
+  stepToSavePoint(uninterrupted);
+
+  // Through JSON, like the saved-match storage
+  const saved = JSON.parse(JSON.stringify(saveMatch(uninterrupted, ARENA_HEIGHT_METERS)));
+  assert.ok(isSavedMatchResumable(saved));
+  const resumed: GameState = { ...createHeadlessMatchState(OPTIONS), ...restoreMatch(saved) };
+  assert.equal(computeStateChecksum(resumed), computeStateChecksum(uninterrupted));
+
+  for (let tick = 0; tick < TICKS_AFTER_RESUME; tick += CHECKSUM_INTERVAL_TICKS) {
+    stepHeadlessMatch(uninterrupted, undefined, CHECKSUM_INTERVAL_TICKS);
+    stepHeadlessMatch(resumed, undefined, CHECKSUM_INTERVAL_TICKS);
+    assert.equal(
+      computeStateChecksum(resumed),
+      computeStateChecksum(uninterrupted),
+      `diverged within ${CHECKSUM_INTERVAL_TICKS} ticks of ${tick} ticks after resuming`
+    );
+  }
+});
@@ -0,0 +1,130 @@
+/**
+ * Saved matches - a versioned snapshot of an in-progress skirmish, so an AI match survives the
+ * tab closing. GameState holds Sets, Maps and infinite timers that JSON can't represent, so
+ * values are encoded into tagged plain objects before storage and decoded on resume.
+ */
+
+import { GameState } from './types';
+import { WORKER_STATE_KEYS, pickState } from './simulationSnapshot';
+
+// Bump when the saved layout or anything that changes simulation results changes
+export const SAVED_MATCH_FORMAT_VERSION = 8;
+
+// The player's selection, control groups and formation. While the simulation worker runs these are
+// only up to date on the main thread, which sends them along with its save request.
+export const SAVED_LOCAL_STATE_KEYS = [
+  'selectedUnits',
+  'controlGroups',
+  'currentFormation',
+  'patrolMode',
+  'timeoutWarningShown',
+] as const satisfies readonly (keyof GameState)[];
+
+// Everything the simulation reads, plus the player's local fields
+const SAVED_STATE_KEYS = [...WORKER_STATE_KEYS, ...SAVED_LOCAL_STATE_KEYS] as const satisfies readonly (keyof GameState)[];
+
+export type SavedLocalState = Pick<GameState, (typeof SAVED_LOCAL_STATE_KEYS)[number]>;
+export type SavedMatchState = Pick<GameState, (typeof SAVED_STATE_KEYS)[number]>;
+
+export interface SavedMatch {
+  version: number;
+  savedAt: number; // Date.now() when saved
+  arenaHeight: number; // Arena height in meters the match was built with
+  state: unknown; // Encoded SavedMatchState; JSON-safe
+}
+
+// JSON-safe stand-ins for values JSON can't hold
+type EncodedValue =
+  | { $set: unknown[] }
+  | { $map: [unknown, unknown][] }
+  | { $number: 'Infinity' | '-Infinity' | 'NaN' };
+
+/**
+ * Save a match. Scheduled simulation tasks are closures and can't be stored, so only save
+ * between steps where none are pending.
+ * @param state - Match state with simulated (not interpolated) positions
+ * @param arenaHeight - Arena height the match was built with
+ * @returns Saved match ready for JSON storage
+ */
+export function saveMatch(state: GameState, arenaHeight: number): SavedMatch {
+  return {
+    version: SAVED_MATCH_FORMAT_VERSION,
+    savedAt: Date.now(),
+    arenaHeight,
+    state: encodeValue(pickState(state, SAVED_STATE_KEYS)),
+  };
+}
+
+/**
+ * Check whether a stored match can be resumed by this build
+ */
+export function isSavedMatchResumable(saved: SavedMatch | undefined): saved is SavedMatch {
+  return !!saved && saved.version === SAVED_MATCH_FORMAT_VERSION && typeof saved.state === 'object' && saved.state !== null;
+}
+
+/**
+ * Decode a saved match back into game state fields
+ * @param saved - Match from isSavedMatchResumable
+ * @returns Fields to spread into a GameState; the match clock for statistics skips the time away
+ */
+export function restoreMatch(saved: SavedMatch): SavedMatchState {
+  const state = decodeValue(saved.state) as SavedMatchState;
+  if (state.matchStats) {
+    state.matchStats.startTime += Date.now() - saved.savedAt;
+  }
+  return state;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $number: String(value) } as EncodedValue;
+  }
+  if (value instanceof Set) {
+    return { $set: Array.from(value, encodeValue) } as EncodedValue;
+  }
+  if (value instanceof Map) {
+    return { $map: Array.from(value, ([key, entry]) => [encodeValue(key), encodeValue(entry)]) } as EncodedValue;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const encoded: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      if (entry !== undefined && typeof entry !== 'function') {
+        encoded[key] = encodeValue(entry);
+      }
+    });
+    return encoded;
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 1) {
+    const tagged = value as Partial<Record<'$set' | '$map' | '$number', unknown>>;
+    if (Array.isArray(tagged.$set)) {
+      return new Set(tagged.$set.map(decodeValue));
+    }
+    if (Array.isArray(tagged.$map)) {
+      return new Map((tagged.$map as [unknown, unknown][]).map(([key, entry]) => [decodeValue(key), decodeValue(entry)]));
+    }
+    if (typeof tagged.$number === 'string') {
+      return Number(tagged.$number);
+    }
+  }
+
+  const decoded: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    decoded[key] = decodeValue(entry);
+  });
+  return decoded;
+}
@@ -8,7 +8,6 @@ import {
   STRUCTURE_DEFINITIONS,
   CommandNode,
   PROMOTION_DISTANCE_THRESHOLD,
-  PROMOTION_MULTIPLIER,
   QUEUE_BONUS_PER_NODE,
   BASE_SIZE_METERS,
   UNIT_SIZE_METERS,
@@ -22,18 +21,42 @@ import {
   Particle,
   Projectile,
   ProjectileKind,
-  Shell,
   ResourceOrb,
   FACTION_DEFINITIONS,
   UnitModifier,
   QUEUE_MAX_LENGTH,
   BASE_TYPE_DEFINITIONS,
+  ARENA_WIDTH_METERS,
+  ARENA_HEIGHT_METERS,
+  SimulationSound,
+  EffectEvent,
+  Structure,
 } from './types';
-import { distance, normalize, scale, add, subtract, generateId, getPlayfieldRotationRadians } from './gameUtils';
+import { distance, normalize, scale, add, subtract, getLocalPlayerIndex } from './gameUtils';
+import { isVisibleToPlayer } from './vision';
+import { isHiddenFrom } from './stealth';
+import { AttackTarget, canAttackTarget, findAttackTarget, getAttackReach } from './targeting';
+import { STANCE_POST_TOLERANCE, getUnitStance } from './stances';
+import { findEscortTarget, getGuardThreat } from './escort';
+import { nextRandom, generateSimulationId, getSimulationTime, advanceSimulationClock, scheduleSimulationTask } from './determinism';
 import { checkObstacleCollision } from './maps';
+import { findPath } from './navigation';
 import { soundManager } from './sound';
-import { createSpawnEffect, createHitSparks, createAbilityEffect, createEnhancedDeathExplosion, createScreenFlash, createLaserParticles, createBounceParticles, createMuzzleFlash } from './visualEffects';
-import { ObjectPool } from './objectPool';
+import { emitGameplayEvent } from './gameplayEvents';
+import { ObjectPool, SpatialGrid } from './objectPool';
+import { ABILITY_DEFINITIONS, AbilityArea, AbilityComponent, AbilityDefinition, AbilityVisual, getAbilityComponent } from './abilities';
+import {
+  applyStatusEffect,
+  canUnitAct,
+  getStatusEffect,
+  getStatusModifiers,
+  getUnitArmor,
+  getUnitDamageMultiplier,
+  hasStatusEffect,
+  removeStatusEffect,
+  updateStatusEffects,
+} from './statusEffects';
+import { VETERANCY_XP_PER_PROMOTION_DISTANCE, addExperience, promoteUnit, recordVeteran } from './veterancy';
 
 // Projectile constants - must be declared before object pool
 const PROJECTILE_SPEED = 15; // meters per second
@@ -49,38 +72,15 @@ const BLADE_SWORD_SWING_PAUSE = 1.0; // seconds to pause between individual comb
 const BLADE_SWORD_SEQUENCE_RESET_TIME = 1.0; // seconds to pause after the third swing before allowing a new combo
 const BLADE_SWORD_HOLD_RESET_DELAY = 1.0; // seconds to hold the sword angle after the final swing before resting
 const BLADE_SWORD_LAG_HISTORY_DURATION = 1.2; // seconds of history to retain for Blade movement lag
-const BLADE_KNIFE_ANGLES = [-10, -5, 0, 5, 10]; // degrees for volley spread
-const BLADE_KNIFE_SHOT_INTERVAL = 0.06; // seconds between knives
-const BLADE_KNIFE_SCRUNCH_DURATION = 0.12; // seconds to compress sword particles
-const BLADE_KNIFE_BASE_SPEED = 20; // base knife speed before arrow magnitude scaling
-const BLADE_KNIFE_LIFETIME = 1.4; // seconds knives persist before disappearing
-const BLADE_KNIFE_DAMAGE = 6; // base damage per knife before multiplier
 const BLADE_KNIFE_START_OFFSET = UNIT_SIZE_METERS * 0.4; // offset from unit center for knife spawn
 
 // Dagger ability constants
-const DAGGER_KNIFE_DELAY = 2.0; // seconds before the knife is thrown after reveal
-const DAGGER_REVEAL_AFTER_THROW = 1.0; // seconds visible after throwing before recloaking
-const DAGGER_KNIFE_RANGE = 10; // distance the knife travels
-const DAGGER_KNIFE_SPEED = 18; // knife travel speed
-const DAGGER_KNIFE_DAMAGE = 8; // base damage per knife before multiplier
-const DAGGER_KNIFE_LIFETIME = 1.4; // seconds knives persist before disappearing
 const DAGGER_KNIFE_START_OFFSET = UNIT_SIZE_METERS * 0.35; // offset from unit center for knife spawn
 
 // Tank projectile attraction constants
 const TANK_PROJECTILE_ATTRACTION_RADIUS = 6; // meters within which tanks attract enemy projectiles
 const TANK_PROJECTILE_ATTRACTION_STRENGTH = 6; // velocity pull strength toward tanks
 
-// Shell ejection constants for marine firing
-const SHELL_EJECTION_SPEED = 3.8; // meters per second
-const SHELL_EJECTION_OFFSET = UNIT_SIZE_METERS * 0.4; // offset from unit center
-const SHELL_EJECTION_ANGLE_VARIANCE = 0.25; // radians for ejection wobble
-const SHELL_EJECTION_SPEED_VARIANCE = 0.35; // percent variance in speed
-const SHELL_LIFETIME = 1.2; // seconds before shell disappears
-const SHELL_COLLISION_RADIUS = 0.18; // meters for shell-field particle collision
-const SHELL_BOUNCE_DAMPING = 0.6; // velocity damping after bounce
-const SHELL_MOMENTUM_TRANSFER = 0.4; // velocity transfer factor to field particles
-const SHELL_MASS = 0.02; // small mass for shell physics
-
 // Helper function to calculate damage with armor
 // Ranged attacks are reduced by armor, melee attacks ignore armor
 function calculateDamageWithArmor(baseDamage: number, armor: number, isMelee: boolean, targetModifiers: UnitModifier[] = []): number {
@@ -95,37 +95,213 @@ function calculateDamageWithArmor(baseDamage: number, armor: number, isMelee: bo
   }
 }
 
+const MAX_SHIELD_DOME_RADIUS = 4; // meters - largest shield dome radius any unit ability grants
+
 // Apply shield dome modifiers for melee/ranged damage when allies are inside active shields.
 function getShieldDamageMultiplier(state: GameState, targetUnit: Unit, attackType: 'melee' | 'ranged'): number {
-  const shieldProviders = state.units.filter((ally) => 
-    ally.owner === targetUnit.owner &&
-    ally.shieldActive &&
-    distance(ally.position, targetUnit.position) <= ally.shieldActive.radius
-  );
+  const domes = getNearbyUnits(state, targetUnit.position, MAX_SHIELD_DOME_RADIUS)
+    .filter((ally) => ally.owner === targetUnit.owner)
+    .map((ally) => ({ ally, dome: getStatusEffect(ally, 'shield')?.dome }))
+    .filter(({ ally, dome }) => dome && distance(ally.position, targetUnit.position) <= dome.radius);
 
-  if (shieldProviders.length === 0) {
+  if (domes.length === 0) {
     return 1;
   }
 
-  const multipliers = shieldProviders.map((ally) => {
+  const multipliers = domes.map(({ dome }) => {
     if (attackType === 'ranged') {
-      return ally.shieldActive?.rangedDamageMultiplier ?? 1;
+      return dome?.rangedDamageMultiplier ?? 1;
     }
-    return ally.shieldActive?.meleeDamageMultiplier ?? 1;
+    return dome?.meleeDamageMultiplier ?? 1;
   });
 
   return Math.min(...multipliers, 1);
 }
 
-// Helper to filter out cloaked enemies for auto-targeted abilities.
-function getTargetableEnemies(state: GameState, unit: Unit): Unit[] {
-  return state.units.filter((enemy) => enemy.owner !== unit.owner && !enemy.cloaked);
+// Headless simulations (batch balance runs) have no audio, and the simulation worker queues
+// sounds for the main thread to play.
+function playSimulationSound(state: GameState, sound: SimulationSound): void {
+  if (state.pendingSounds) {
+    state.pendingSounds.push(sound);
+  } else if (!state.headless) {
+    soundManager[sound]();
+  }
+}
+
+/**
+ * Emit a cosmetic event for the effects layer (effects.ts). States nothing draws have no event
+ * queue, and replay fast-forward runs headless, so neither pays for effects.
+ * @param state - Game state being simulated
+ * @param event - What happened; its vectors are copied, since the entities they came from keep moving
+ */
+export function emitEffect(state: GameState, event: EffectEvent): void {
+  if (!state.effectEvents || state.headless) return;
+  const copy: Record<string, unknown> = { ...event };
+  Object.keys(copy).forEach((key) => {
+    const value = copy[key];
+    if (typeof value === 'object' && value !== null) {
+      copy[key] = { ...value };
+    }
+  });
+  state.effectEvents.push(copy as EffectEvent);
+}
+
+/**
+ * Report damage to gameplay event listeners; hits on a base are also reported as baseDamaged
+ * @param state - Game state being simulated
+ * @param source - Attacker: a unit or base, or a projectile's owner and source unit
+ * @param target - Unit, base or structure hit, after its hp was reduced
+ * @param amount - Damage dealt
+ */
+export function reportDamage(state: GameState, source: { id?: string; owner: number }, target: Unit | Base | Structure, amount: number): void {
+  const targetKind = 'commandQueue' in target ? 'unit' : 'baseType' in target ? 'base' : 'structure';
+  emitGameplayEvent(state, {
+    type: 'damageDealt',
+    sourceId: source.id,
+    sourceOwner: source.owner,
+    targetId: target.id,
+    targetOwner: target.owner,
+    targetKind,
+    amount,
+  });
+  if (targetKind === 'base') {
+    emitGameplayEvent(state, { type: 'baseDamaged', baseId: target.id, owner: target.owner, attackerOwner: source.owner, amount, hp: target.hp });
+  }
+}
+
+// Spatial index constants
+const UNIT_INDEX_CELL_SIZE = 4; // meters per spatial index cell
+const UNIT_INDEX_QUERY_MARGIN = 2; // meters a unit may move between index rebuilds and still be found
+
+// Per-tick spatial index of state.units, rebuilt lazily. Derived from the units alone, so it is safe to cache outside the state.
+interface UnitIndex {
+  grid: SpatialGrid<Unit>;
+  units: Unit[] | null;
+  unitCount: number;
+}
+
+const unitIndexes = new WeakMap<GameState, UnitIndex>();
+
+// Mark the index out of date after units moved, so the next query rebuilds it.
+function invalidateUnitIndex(state: GameState): void {
+  const index = unitIndexes.get(state);
+  if (index) {
+    index.units = null;
+  }
+}
+
+// Units within radius of a position, in state.units order so results match a linear scan.
+// The index also rebuilds itself whenever units are added or removed.
+function getNearbyUnits(state: GameState, position: Vector2, radius: number): Unit[] {
+  let index = unitIndexes.get(state);
+  if (!index) {
+    index = { grid: new SpatialGrid<Unit>(UNIT_INDEX_CELL_SIZE, ARENA_WIDTH_METERS, ARENA_HEIGHT_METERS), units: null, unitCount: 0 };
+    unitIndexes.set(state, index);
+  }
+  if (index.units !== state.units || index.unitCount !== state.units.length) {
+    index.grid.rebuild(state.units);
+    index.units = state.units;
+    index.unitCount = state.units.length;
+  }
+  return index.grid.queryRadius(position.x, position.y, radius, UNIT_INDEX_QUERY_MARGIN);
+}
+
+// Helper to filter out undetected cloaked enemies for auto-targeted abilities.
+function getTargetableEnemies(state: GameState, unit: Unit, range: number): Unit[] {
+  return getNearbyUnits(state, unit.position, range).filter((enemy) => enemy.owner !== unit.owner && !isHiddenFrom(state, enemy, unit.owner));
+}
+
+// Target of an attack-unit order while the unit can still hurt it. Enemy units must also stay in
+// sight; bases and structures don't move, so the order stands until they're destroyed.
+function getOrderedTarget(state: GameState, unit: Unit, node: Extract<CommandNode, { type: 'attack-unit' }>): AttackTarget | undefined {
+  const target = findAttackTarget(state, node.targetId, node.targetKind);
+  if (!target || target.owner === unit.owner || !canAttackTarget(unit.type, node.targetKind, target)) return undefined;
+  if (node.targetKind === 'unit') {
+    const enemy = target as Unit;
+    if (!isVisibleToPlayer(enemy.position, state, unit.owner) || isHiddenFrom(state, enemy, unit.owner)) return undefined;
+  }
+  return target;
+}
+
+// Target the unit's current order wants it to fire at: an attack-unit target or a guard's threat
+function getCombatFocus(state: GameState, unit: Unit): { target: AttackTarget; reach: number } | undefined {
+  const order = unit.commandQueue[0];
+  if (order?.type === 'attack-unit') {
+    const target = getOrderedTarget(state, unit, order);
+    return target && { target, reach: getAttackReach(unit.type, order.targetKind, target) };
+  }
+  if (order?.type === 'guard') {
+    const guarded = findEscortTarget(state, unit, order);
+    return guarded && getGuardThreat(state, unit, guarded, order.targetKind);
+  }
+  return undefined;
+}
+
+/**
+ * Carry out an idle unit's stance: chase the nearest enemy within its acquire range that is close
+ * enough to its post, otherwise walk back to the post if the stance returns to it
+ * @returns Whether the unit moved
+ */
+function updateIdleStance(state: GameState, unit: Unit, deltaTime: number): boolean {
+  const stance = getUnitStance(unit);
+  const post = (unit.stancePost ??= { ...unit.position });
+  if (UNIT_DEFINITIONS[unit.type].attackType === 'none' || stance.holdsGround) return false;
+
+  const chase = stance.chaseDistance > 0 ? findStanceTarget(state, unit, post, stance.acquireRange, stance.chaseDistance) : undefined;
+  if (chase) {
+    if (distance(unit.position, chase.target.position) <= chase.reach) return false; // updateCombat fires
+    moveUnitTowardPosition(state, unit, chase.target.position, deltaTime, CHASE_GOAL_TOLERANCE);
+    return true;
+  }
+
+  if (!stance.returnToPost) {
+    // Stay wherever the fight ended
+    unit.stancePost = { ...unit.position };
+    return false;
+  }
+  if (distance(unit.position, post) > STANCE_POST_TOLERANCE) {
+    moveUnitTowardPosition(state, unit, post, deltaTime);
+    return true;
+  }
+  return false;
+}
+
+// Nearest enemy an idle unit notices and may chase: units first, then bases and structures it can damage
+function findStanceTarget(
+  state: GameState,
+  unit: Unit,
+  post: Vector2,
+  acquireRange: number,
+  chaseDistance: number
+): { target: AttackTarget; reach: number } | undefined {
+  let best: { target: AttackTarget; reach: number } | undefined;
+  let bestDist = Infinity;
+  const consider = (target: AttackTarget, kind: 'unit' | 'structure' | 'base') => {
+    if (target.owner === unit.owner || target.hp <= 0 || !canAttackTarget(unit.type, kind, target)) return;
+    const reach = getAttackReach(unit.type, kind, target);
+    const dist = distance(unit.position, target.position);
+    if (dist > reach + acquireRange || dist >= bestDist) return;
+    if (distance(post, target.position) > reach + chaseDistance) return;
+    if (!isVisibleToPlayer(target.position, state, unit.owner)) return;
+    best = { target, reach };
+    bestDist = dist;
+  };
+
+  const searchRadius = UNIT_DEFINITIONS[unit.type].attackRange + acquireRange;
+  getNearbyUnits(state, unit.position, searchRadius).forEach((enemy) => {
+    if (!isHiddenFrom(state, enemy, unit.owner)) consider(enemy, 'unit');
+  });
+  if (!best) {
+    state.bases.forEach((base) => consider(base, 'base'));
+    state.structures.forEach((structure) => consider(structure, 'structure'));
+  }
+  return best;
 }
 
 // Object pool for projectiles - reuse projectiles instead of creating/destroying
 const projectilePool = new ObjectPool<Projectile>(
   () => ({
-    id: generateId(),
+    id: '',
     position: { x: 0, y: 0 },
     velocity: { x: 0, y: 0 },
     target: { x: 0, y: 0 },
@@ -133,7 +309,7 @@ const projectilePool = new ObjectPool<Projectile>(
     owner: 0,
     color: '',
     lifetime: PROJECTILE_LIFETIME,
-    createdAt: Date.now(),
+    createdAt: 0,
     sourceUnit: '',
     kind: 'standard',
   }),
@@ -144,7 +320,7 @@ const projectilePool = new ObjectPool<Projectile>(
     projectile.velocity.x = 0;
     projectile.velocity.y = 0;
     projectile.damage = 0;
-    projectile.createdAt = Date.now();
+    projectile.createdAt = 0;
     delete projectile.targetUnit;
     projectile.kind = 'standard';
   },
@@ -177,6 +353,7 @@ const COHESION_FORCE_PATH = 2.0; // Increased cohesion when following paths to k
 const ALIGNMENT_RADIUS = 3.0; // Distance to check for velocity alignment
 const ALIGNMENT_FORCE = 0.8; // Strength of alignment force (reduced from 1.5 for smoother alignment)
 const ALIGNMENT_FORCE_PATH = 1.2; // Increased alignment when following paths for better coordination
+const FLOCKING_NEIGHBOR_RADIUS = Math.max(SEPARATION_RADIUS, COHESION_RADIUS, ALIGNMENT_RADIUS); // Query radius covering all three forces
 const FLOCKING_MAX_FORCE = 3.0; // Maximum magnitude of flocking forces (reduced from 5.0 to prevent extreme forces)
 const FLOCKING_MAX_FORCE_PATH = 2.5; // Reduced max force for paths to prevent excessive lateral deviation
 const MIN_FORCE_THRESHOLD = 0.01; // Minimum force magnitude to apply
@@ -217,22 +394,13 @@ const COLLISION_DECELERATION_FACTOR = 0.5; // Factor to slow down when collision
 const RALLY_POINT_SPREAD_RADIUS = 1.5; // meters - radius around rally point where units will be distributed
 
 // Visual effect constants
-const IMPACT_EFFECT_DURATION = 0.5; // seconds for impact ring animation
-const IMPACT_EFFECT_CLEANUP_TIME = 1.0; // seconds before old effects are removed
-const DAMAGE_NUMBER_DURATION = 0.8; // seconds for damage number animation
-const DAMAGE_NUMBER_CLEANUP_TIME = 1.0; // seconds before old numbers are removed
 const SCREEN_SHAKE_BASE_DAMAGE = 10; // base damage divisor for shake intensity
 const SCREEN_SHAKE_MAX_INTENSITY = 8; // maximum shake intensity
 const SCREEN_SHAKE_DURATION_SHORT = 0.2; // seconds for unit death shakes
 const SCREEN_SHAKE_DURATION_MEDIUM = 0.3; // seconds for base damage shakes
-const SCREEN_SHAKE_DURATION_LONG = 0.8; // seconds for base destruction
-const SCREEN_SHAKE_BASE_DESTROY_INTENSITY = 15; // shake intensity for base destruction
 const SCREEN_SHAKE_MULTI_KILL_MULTIPLIER = 0.8; // multiplier per unit killed
 const SCREEN_SHAKE_MULTI_KILL_THRESHOLD = 3; // minimum units for multi-kill shake
 
-// Motion trail constants - exported for use in renderer
-export const MOTION_TRAIL_DURATION = 0.5; // seconds for motion trail fade
-
 // Stuck detection constants
 const STUCK_DETECTION_THRESHOLD = 0.1; // Minimum distance unit must move to not be considered stuck
 const STUCK_TIMEOUT = 2.5; // Seconds before a stuck unit cancels its command queue
@@ -339,11 +507,11 @@ function getSafeRallyPosition(
 }
 
 // Check if a position would collide with any existing unit
-function checkUnitCollision(position: Vector2, currentUnitId: string, allUnits: Unit[]): boolean {
+function checkUnitCollision(position: Vector2, currentUnitId: string, state: GameState): boolean {
   // Use a slightly smaller collision radius to allow units to squeeze past each other
   const collisionRadius = getCollisionRadius();
   
-  for (const otherUnit of allUnits) {
+  for (const otherUnit of getNearbyUnits(state, position, collisionRadius)) {
     // Skip checking against self
     if (otherUnit.id === currentUnitId) continue;
     
@@ -360,8 +528,8 @@ function checkUnitCollision(position: Vector2, currentUnitId: string, allUnits:
 
 // Check if a friendly unit is occupying a target position
 // Returns true if a friendly unit is within arrival distance of the target
-function isFriendlyUnitAtPosition(unit: Unit, targetPosition: Vector2, allUnits: Unit[]): boolean {
-  for (const otherUnit of allUnits) {
+function isFriendlyUnitAtPosition(unit: Unit, targetPosition: Vector2, state: GameState): boolean {
+  for (const otherUnit of getNearbyUnits(state, targetPosition, ARRIVAL_DISTANCE_THRESHOLD)) {
     // Skip checking against self
     if (otherUnit.id === unit.id) continue;
     
@@ -383,7 +551,7 @@ function hasUnitArrivedAtPosition(
   unit: Unit,
   targetPosition: Vector2,
   currentDistance: number,
-  allUnits: Unit[]
+  state: GameState
 ): boolean {
   // Standard arrival: within threshold distance of target
   if (currentDistance < ARRIVAL_DISTANCE_THRESHOLD) {
@@ -391,7 +559,7 @@ function hasUnitArrivedAtPosition(
   }
   
   // Alternative arrival: close enough to a friendly unit occupying the target
-  if (isFriendlyUnitAtPosition(unit, targetPosition, allUnits) && 
+  if (isFriendlyUnitAtPosition(unit, targetPosition, state) && 
       currentDistance < getCollisionRadius()) {
     return true;
   }
@@ -406,27 +574,30 @@ function hasUnitArrivedAtPosition(
  * @param unit - Unit to move
  * @param targetPosition - Destination to move toward
  * @param deltaTime - Elapsed time in seconds for this frame
+ * @param goalTolerance - How far the destination may move before re-planning; larger when chasing
  */
 function moveUnitTowardPosition(
   state: GameState,
   unit: Unit,
   targetPosition: Vector2,
-  deltaTime: number
+  deltaTime: number,
+  goalTolerance: number = NAVIGATION_GOAL_TOLERANCE
 ): void {
-  const dist = distance(unit.position, targetPosition);
   const def = UNIT_DEFINITIONS[unit.type];
+  const steeringTarget = getNavigationTarget(state, unit, targetPosition, goalTolerance);
+  const dist = distance(unit.position, steeringTarget);
 
   // Determine a movement direction, factoring in flocking and obstacle avoidance.
-  let direction = normalize(subtract(targetPosition, unit.position));
-  direction = applyFlockingBehavior(unit, direction, state.units);
+  let direction = normalize(subtract(steeringTarget, unit.position));
+  direction = applyFlockingBehavior(unit, direction, state);
 
-  const alternativePath = findPathAroundObstacle(unit, targetPosition, state.obstacles);
+  const alternativePath = findPathAroundObstacle(unit, steeringTarget, state.obstacles);
   if (alternativePath) {
     direction = alternativePath;
   }
 
   if (unit.jitterOffset !== undefined) {
-    const jitteredDirection = applyJitterMovement(unit, direction, state.units, state.obstacles);
+    const jitteredDirection = applyJitterMovement(unit, direction, state, state.obstacles);
     if (jitteredDirection) {
       direction = jitteredDirection;
     }
@@ -436,12 +607,12 @@ function moveUnitTowardPosition(
   updateUnitRotation(unit, direction, deltaTime);
 
   // Use constant top speed instead of acceleration
-  const movement = scale(direction, def.moveSpeed * deltaTime);
+  const movement = scale(direction, def.moveSpeed * getStatusModifiers(unit).speed * deltaTime);
   const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), dist);
   const newPosition = add(unit.position, scale(direction, moveDist));
 
   // Apply local collision push to prevent stacking while moving to the anchor.
-  const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state.units);
+  const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state);
   const collisionResult = checkUnitCollisionBlocking(unit, adjustedPosition, state.units, state.obstacles);
 
   if (!collisionResult.blocked) {
@@ -452,7 +623,7 @@ function moveUnitTowardPosition(
   } else {
     // Slow down when blocked and track stuck state to enable jitter recovery.
     unit.currentSpeed = Math.max(0, (unit.currentSpeed || 0) * COLLISION_DECELERATION_FACTOR);
-    updateStuckDetection(unit, deltaTime);
+    updateStuckDetection(state, unit, deltaTime);
     return;
   }
 
@@ -463,8 +634,7 @@ function moveUnitTowardPosition(
 
   while (unit.distanceCredit >= PROMOTION_DISTANCE_THRESHOLD) {
     unit.distanceCredit -= PROMOTION_DISTANCE_THRESHOLD;
-    // Damage multiplier from movement disabled
-    // unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+    addExperience(unit, VETERANCY_XP_PER_PROMOTION_DISTANCE);
   }
 
   unit.distanceTraveled += moveDist;
@@ -494,19 +664,19 @@ function checkUnitCollisionBlocking(
  * Uses a capped push force so units can still flow past each other smoothly.
  * @param unit - Unit attempting to move
  * @param desiredPosition - Proposed new position for the unit
- * @param allUnits - All units in the simulation for local avoidance
+ * @param state - Game state whose unit index supplies the neighbors
  * @returns Adjusted position that is gently pushed away from neighbors
  */
 function applyLocalCollisionPush(
   unit: Unit,
   desiredPosition: Vector2,
-  allUnits: Unit[]
+  state: GameState
 ): Vector2 {
   const collisionRadius = getCollisionRadius();
   let pushVector = { x: 0, y: 0 };
   let pushCount = 0;
 
-  for (const otherUnit of allUnits) {
+  for (const otherUnit of getNearbyUnits(state, desiredPosition, collisionRadius)) {
     if (otherUnit.id === unit.id) continue;
     
     // Mining drones don't collide with other mining drones
@@ -541,15 +711,15 @@ function applyLocalCollisionPush(
 }
 
 // Helper function to mark unit's queue for cancellation due to being stuck
-function markQueueForCancellation(unit: Unit): void {
+function markQueueForCancellation(state: GameState, unit: Unit): void {
   // Start fade animation for cancelled commands
   if (!unit.queueFadeStartTime) {
-    unit.queueFadeStartTime = Date.now();
+    unit.queueFadeStartTime = getSimulationTime(state);
   }
 }
 
 // Helper function to update stuck detection for a unit that's blocked
-function updateStuckDetection(unit: Unit, deltaTime: number): void {
+function updateStuckDetection(state: GameState, unit: Unit, deltaTime: number): void {
   if (!unit.lastPosition) {
     unit.lastPosition = { ...unit.position };
     unit.stuckTimer = 0;
@@ -563,6 +733,10 @@ function updateStuckDetection(unit: Unit, deltaTime: number): void {
       // If stuck for too long, try to wiggle out before canceling
       if (unit.stuckTimer >= STUCK_TIMEOUT * JITTER_ACTIVATION_RATIO && unit.stuckTimer < STUCK_TIMEOUT) {
         // Apply jitter to help unstick (activation at 50% of timeout period)
+        if (unit.jitterOffset === undefined) {
+          // Plan a fresh route from wherever the unit got pushed to
+          unit.navigationPath = undefined;
+        }
         if (!unit.jitterOffset) {
           unit.jitterOffset = 0;
         }
@@ -570,7 +744,7 @@ function updateStuckDetection(unit: Unit, deltaTime: number): void {
       
       // If stuck for too long after trying jitter, cancel command queue
       if (unit.stuckTimer >= STUCK_TIMEOUT) {
-        markQueueForCancellation(unit);
+        markQueueForCancellation(state, unit);
       }
     } else {
       // Unit moved enough - reset stuck timer and jitter
@@ -585,14 +759,14 @@ function updateStuckDetection(unit: Unit, deltaTime: number): void {
  * Apply jitter movement to help stuck units find a way out
  * @param unit - The unit that's stuck
  * @param baseDirection - The direction unit is trying to move
- * @param allUnits - All units for collision checking
+ * @param state - Game state whose unit index supplies the neighbors
  * @param obstacles - All obstacles for collision checking
  * @returns Modified direction with jitter applied, or null if no valid jitter found
  */
 function applyJitterMovement(
   unit: Unit,
   baseDirection: Vector2,
-  allUnits: Unit[],
+  state: GameState,
   obstacles: import('./maps').Obstacle[]
 ): Vector2 | null {
   if (!unit.jitterOffset) {
@@ -615,13 +789,21 @@ function applyJitterMovement(
   
   // Check if jittered position is valid
   if (!checkObstacleCollision(jitteredPosition, UNIT_SIZE_METERS / 2, obstacles) &&
-      !checkUnitCollision(jitteredPosition, unit.id, allUnits)) {
+      !checkUnitCollision(jitteredPosition, unit.id, state)) {
     return jitteredDirection;
   }
   
   return null;
 }
 
+// Navigation constants
+const NAVIGATION_WAYPOINT_REACH = 0.5; // Distance at which a route waypoint counts as reached
+const NAVIGATION_GOAL_TOLERANCE = 0.01; // Destinations closer than this share a route
+const CHASE_GOAL_TOLERANCE = 1.5; // A chased target must move this far before the route is re-planned
+
+// Escort constants (follow and guard commands)
+const ESCORT_SPOT_SLACK = 0.75; // Distance from its escort spot at which a unit starts moving back
+
 // Pathfinding constants
 const PATHFINDING_LOOKAHEAD_DISTANCE = 2.0; // How far ahead to check for obstacles
 const PATHFINDING_ANGLE_STEP = Math.PI / 8; // 22.5 degrees - smaller angle increments for smoother paths
@@ -630,17 +812,17 @@ const PATHFINDING_MAX_ANGLES = 6; // Try up to 6 angles on each side (more attem
 /**
  * Calculate separation force to avoid crowding nearby units (boids algorithm)
  * @param unit - The unit calculating separation
- * @param allUnits - All units in the game
+ * @param nearbyUnits - Units within FLOCKING_NEIGHBOR_RADIUS
  * @returns Separation force vector
  */
-function calculateSeparation(unit: Unit, allUnits: Unit[], isFollowingPath: boolean = false, pathDirection?: Vector2): Vector2 {
+function calculateSeparation(unit: Unit, nearbyUnits: Unit[], isFollowingPath: boolean = false, pathDirection?: Vector2): Vector2 {
   let separationForce = { x: 0, y: 0 };
   let count = 0;
   
   // Use reduced separation force when following paths
   const separationStrength = isFollowingPath ? SEPARATION_FORCE_PATH : SEPARATION_FORCE;
   
-  for (const other of allUnits) {
+  for (const other of nearbyUnits) {
     // Skip self and enemy units
     if (other.id === unit.id || other.owner !== unit.owner) continue;
     
@@ -695,18 +877,18 @@ function calculateSeparation(unit: Unit, allUnits: Unit[], isFollowingPath: bool
 /**
  * Calculate cohesion force to stay near group center (boids algorithm)
  * @param unit - The unit calculating cohesion
- * @param allUnits - All units in the game
+ * @param nearbyUnits - Units within FLOCKING_NEIGHBOR_RADIUS
  * @param isFollowingPath - Whether the unit is following a path
  * @returns Cohesion force vector
  */
-function calculateCohesion(unit: Unit, allUnits: Unit[], isFollowingPath: boolean = false): Vector2 {
+function calculateCohesion(unit: Unit, nearbyUnits: Unit[], isFollowingPath: boolean = false): Vector2 {
   let centerOfMass = { x: 0, y: 0 };
   let count = 0;
   
   // Use increased cohesion force when following paths
   const cohesionStrength = isFollowingPath ? COHESION_FORCE_PATH : COHESION_FORCE;
   
-  for (const other of allUnits) {
+  for (const other of nearbyUnits) {
     // Skip self and enemy units
     if (other.id === unit.id || other.owner !== unit.owner) continue;
     // Only consider units with same command (moving together)
@@ -739,19 +921,19 @@ function calculateCohesion(unit: Unit, allUnits: Unit[], isFollowingPath: boolea
 /**
  * Calculate alignment force to match velocity of nearby units (boids algorithm)
  * @param unit - The unit calculating alignment
- * @param allUnits - All units in the game
+ * @param nearbyUnits - Units within FLOCKING_NEIGHBOR_RADIUS
  * @param currentDirection - Current movement direction
  * @param isFollowingPath - Whether the unit is following a path
  * @returns Alignment force vector
  */
-function calculateAlignment(unit: Unit, allUnits: Unit[], currentDirection: Vector2, isFollowingPath: boolean = false): Vector2 {
+function calculateAlignment(unit: Unit, nearbyUnits: Unit[], currentDirection: Vector2, isFollowingPath: boolean = false): Vector2 {
   let averageDirection = { x: 0, y: 0 };
   let count = 0;
   
   // Use increased alignment force when following paths
   const alignmentStrength = isFollowingPath ? ALIGNMENT_FORCE_PATH : ALIGNMENT_FORCE;
   
-  for (const other of allUnits) {
+  for (const other of nearbyUnits) {
     // Skip self and enemy units
     if (other.id === unit.id || other.owner !== unit.owner) continue;
     // Only consider units that are moving
@@ -760,7 +942,8 @@ function calculateAlignment(unit: Unit, allUnits: Unit[], currentDirection: Vect
     const dist = distance(unit.position, other.position);
     if (dist < ALIGNMENT_RADIUS && other.commandQueue.length > 0) {
       const otherTarget = other.commandQueue[0];
-      if (otherTarget.type === 'move' || otherTarget.type === 'attack-move') {
+      if (otherTarget.type === 'move' || otherTarget.type === 'attack-move' || otherTarget.type === 'follow' || otherTarget.type === 'guard') {
+        // Escorts heading for their spots around the same target line up like a moving group
         const otherDirection = normalize(subtract(otherTarget.position, other.position));
         averageDirection = add(averageDirection, otherDirection);
         count++;
@@ -815,16 +998,19 @@ function clampForce(force: Vector2, maxMagnitude: number): { force: Vector2; mag
  * Apply flocking forces to a movement direction for smooth group movement
  * @param unit - The unit to apply flocking to
  * @param baseDirection - The base movement direction (toward target)
- * @param allUnits - All units in the game
+ * @param state - Game state whose unit index supplies the neighbors
  * @param isFollowingPath - Whether the unit is following a path
  * @param pathDirection - The direction of the path (for path-aware separation)
  * @returns Modified direction with flocking applied
  */
-function applyFlockingBehavior(unit: Unit, baseDirection: Vector2, allUnits: Unit[], isFollowingPath: boolean = false, pathDirection?: Vector2): Vector2 {
+function applyFlockingBehavior(unit: Unit, baseDirection: Vector2, state: GameState, isFollowingPath: boolean = false, pathDirection?: Vector2): Vector2 {
+  // One neighbor query covers all three forces
+  const nearbyUnits = getNearbyUnits(state, unit.position, FLOCKING_NEIGHBOR_RADIUS);
+
   // Calculate all three flocking forces with path-awareness
-  const separation = calculateSeparation(unit, allUnits, isFollowingPath, pathDirection);
-  const cohesion = calculateCohesion(unit, allUnits, isFollowingPath);
-  const alignment = calculateAlignment(unit, allUnits, baseDirection, isFollowingPath);
+  const separation = calculateSeparation(unit, nearbyUnits, isFollowingPath, pathDirection);
+  const cohesion = calculateCohesion(unit, nearbyUnits, isFollowingPath);
+  const alignment = calculateAlignment(unit, nearbyUnits, baseDirection, isFollowingPath);
   
   // Combine flocking forces
   let flockingForce = { x: 0, y: 0 };
@@ -946,6 +1132,31 @@ function getPathLookaheadTarget(
   return path[path.length - 1];
 }
 
+/**
+ * Next point to steer toward on the way to a command's destination.
+ * Plans a route around obstacles when the destination changes and walks its waypoints after that.
+ * @param state - Current game state for the obstacle grid
+ * @param unit - Unit that is moving
+ * @param destination - Position of the unit's current command
+ * @param goalTolerance - How far the destination may move before the route is re-planned
+ * @returns Current waypoint, or the destination itself on the final leg
+ */
+function getNavigationTarget(state: GameState, unit: Unit, destination: Vector2, goalTolerance: number = NAVIGATION_GOAL_TOLERANCE): Vector2 {
+  let route = unit.navigationPath;
+  if (!route || distance(route.goal, destination) > goalTolerance) {
+    // Unreachable destinations keep the old straight-line behavior
+    route = { goal: { ...destination }, waypoints: findPath(state.obstacles, unit.position, destination) ?? [{ ...destination }] };
+    unit.navigationPath = route;
+  }
+
+  // Keep the final waypoint; arrival at the destination is decided by the command itself
+  while (route.waypoints.length > 1 && distance(unit.position, route.waypoints[0]) <= NAVIGATION_WAYPOINT_REACH) {
+    route.waypoints.shift();
+  }
+  // The final leg heads for the destination as it is now; a chased target may have moved since planning
+  return route.waypoints.length === 1 ? destination : route.waypoints[0];
+}
+
 /**
  * Finds an alternative path around obstacles using enhanced angle-based pathfinding.
  * Tries more angles with smaller increments for smoother pathfinding.
@@ -1017,7 +1228,7 @@ function createParticlesForUnit(unit: Unit, count: number): Particle[] {
     const distance = PARTICLE_ORBIT_DISTANCE;
     
     particles.push({
-      id: generateId(),
+      id: `${unit.id}-particle-${i}`,
       position: {
         x: unit.position.x + Math.cos(angle) * distance,
         y: unit.position.y + Math.sin(angle) * distance,
@@ -1118,7 +1329,7 @@ function applyMovementAcceleration(unit: Unit, direction: Vector2, targetSpeed:
 }
 
 // Update particle physics
-function updateParticles(unit: Unit, deltaTime: number): void {
+function updateParticles(state: GameState, unit: Unit, deltaTime: number): void {
   if (!unit.particles || unit.particles.length === 0) return;
   
   unit.particles.forEach((particle) => {
@@ -1170,7 +1381,7 @@ function updateParticles(unit: Unit, deltaTime: number): void {
       particle.velocity.y *= scale;
     } else if (currentSpeed < PARTICLE_MIN_SPEED_THRESHOLD) {
       // If particle is nearly stationary, give it a random velocity
-      const randomAngle = Math.random() * Math.PI * 2;
+      const randomAngle = nextRandom(state) * Math.PI * 2;
       particle.velocity.x = Math.cos(randomAngle) * PARTICLE_MIN_VELOCITY;
       particle.velocity.y = Math.sin(randomAngle) * PARTICLE_MIN_VELOCITY;
     }
@@ -1197,7 +1408,7 @@ function createProjectile(
 ): Projectile {
   const direction = normalize(subtract(target, sourceUnit.position));
   const def = UNIT_DEFINITIONS[sourceUnit.type];
-  const damage = options?.damage ?? (def.attackDamage * sourceUnit.damageMultiplier);
+  const damage = options?.damage ?? (def.attackDamage * getUnitDamageMultiplier(sourceUnit));
   const color = state.players[sourceUnit.owner].color;
   const baseSpeed = options?.speed ?? PROJECTILE_SPEED;
   const projectileSpeed = baseSpeed;
@@ -1205,7 +1416,7 @@ function createProjectile(
   
   // Acquire projectile from pool and initialize it
   const projectile = projectilePool.acquire();
-  projectile.id = generateId();
+  projectile.id = generateSimulationId(state);
   projectile.position.x = sourceUnit.position.x + direction.x * startOffset;
   projectile.position.y = sourceUnit.position.y + direction.y * startOffset;
   projectile.velocity = scale(direction, projectileSpeed);
@@ -1214,7 +1425,7 @@ function createProjectile(
   projectile.owner = sourceUnit.owner;
   projectile.color = color;
   projectile.lifetime = options?.lifetime ?? PROJECTILE_LIFETIME;
-  projectile.createdAt = Date.now();
+  projectile.createdAt = getSimulationTime(state);
   projectile.sourceUnit = sourceUnit.id;
   projectile.targetUnit = targetUnit?.id;
   projectile.kind = options?.kind ?? 'standard';
@@ -1222,32 +1433,6 @@ function createProjectile(
   return projectile;
 }
 
-// Create a shell casing ejected from a marine shot
-function createEjectedShell(unit: Unit, firingDirection: Vector2): Shell {
-  const now = Date.now();
-  const fallbackDirection = firingDirection.x === 0 && firingDirection.y === 0 ? { x: 1, y: 0 } : firingDirection;
-  const forward = normalize(fallbackDirection);
-  const side = normalize({ x: -forward.y, y: forward.x });
-  // Always eject shells to the marine's right-hand side for consistent feedback.
-  const sideSign = 1;
-  const baseEjection = normalize(add(scale(side, sideSign), scale(forward, 0.25)));
-  const baseAngle = Math.atan2(baseEjection.y, baseEjection.x);
-  const angle = baseAngle + (Math.random() - 0.5) * 2 * SHELL_EJECTION_ANGLE_VARIANCE;
-  const speed = SHELL_EJECTION_SPEED * (1 + (Math.random() - 0.5) * SHELL_EJECTION_SPEED_VARIANCE);
-
-  return {
-    id: generateId(),
-    position: add(unit.position, scale(side, sideSign * SHELL_EJECTION_OFFSET)),
-    velocity: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
-    rotation: Math.random() * Math.PI * 2,
-    rotationSpeed: (Math.random() - 0.5) * 8,
-    createdAt: now,
-    lifetime: SHELL_LIFETIME,
-    mass: SHELL_MASS,
-    owner: unit.owner,
-  };
-}
-
 /**
  * Applies an instant marine ranged hit so bullets register immediately without travel time.
  * Creates impact feedback, damage numbers, and bounce particles at the target location.
@@ -1256,178 +1441,58 @@ function createEjectedShell(unit: Unit, firingDirection: Vector2): Shell {
  * @param target - Unit or base being hit
  * @param direction - Normalized direction of the shot for ricochet feedback
  */
-function applyInstantMarineHit(state: GameState, unit: Unit, target: Unit | Base, direction: Vector2): void {
+function applyInstantMarineHit(state: GameState, unit: Unit, target: Unit | Base | import('./types').Structure, direction: Vector2): void {
   const def = UNIT_DEFINITIONS[unit.type];
   const color = state.players[unit.owner].color;
   const impactPosition = { ...target.position };
   const incomingDirection = normalize(direction);
-  const baseDamage = def.attackDamage * unit.damageMultiplier;
+  const baseDamage = def.attackDamage * getUnitDamageMultiplier(unit);
 
   // Always show a small impact ring at the hit position for instantaneous feedback.
-  createImpactEffect(state, impactPosition, color, 0.8);
+  emitEffect(state, { type: 'impact', position: impactPosition, color, size: 0.8 });
 
-  if ('type' in target) {
+  if ('commandQueue' in target) {
     const targetUnit = target as Unit;
     const targetDef = UNIT_DEFINITIONS[targetUnit.type];
     const shieldMultiplier = getShieldDamageMultiplier(state, targetUnit, 'ranged');
-    const finalDamage = calculateDamageWithArmor(baseDamage, targetUnit.armor, false, targetDef.modifiers) * shieldMultiplier;
+    const finalDamage = calculateDamageWithArmor(baseDamage, getUnitArmor(targetUnit), false, targetDef.modifiers) * shieldMultiplier;
 
     targetUnit.hp -= finalDamage;
-    createDamageNumber(state, impactPosition, finalDamage, color);
-    createHitSparks(state, impactPosition, color, 6);
+    emitEffect(state, { type: 'damageDealt', position: impactPosition, color, damage: finalDamage });
+    emitEffect(state, { type: 'hitLanded', position: impactPosition, color, sparks: 6 });
     // Spawn ricochet bullets on every marine hit to keep the impact visible.
-    createBounceParticles(state, impactPosition, incomingDirection, color, 2);
+    emitEffect(state, { type: 'ricochet', position: impactPosition, direction: incomingDirection, color, count: 2 });
 
-    if (state.matchStats && unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += finalDamage;
-    }
+    reportDamage(state, unit, targetUnit, finalDamage);
+    return;
+  }
+
+  if (!('baseType' in target)) {
+    // Towers take plain armor-reduced damage
+    const finalDamage = calculateDamageWithArmor(baseDamage, target.armor, false);
+    target.hp -= finalDamage;
+    emitEffect(state, { type: 'damageDealt', position: impactPosition, color, damage: finalDamage });
+    emitEffect(state, { type: 'hitLanded', position: impactPosition, color, sparks: 6 });
+
+    reportDamage(state, unit, target, finalDamage);
     return;
   }
 
   const targetBase = target as Base;
 
   // Respect base shields so marine hits still flash without applying damage.
-  if (targetBase.shieldActive && Date.now() < targetBase.shieldActive.endTime) {
-    createHitSparks(state, impactPosition, state.players[targetBase.owner].color, 12);
+  if (targetBase.shieldActive && getSimulationTime(state) < targetBase.shieldActive.endTime) {
+    emitEffect(state, { type: 'hitLanded', position: impactPosition, color: state.players[targetBase.owner].color, sparks: 12 });
     return;
   }
 
   const finalDamage = calculateDamageWithArmor(baseDamage, targetBase.armor, false);
   targetBase.hp -= finalDamage;
-  createHitSparks(state, impactPosition, color, 8);
+  emitEffect(state, { type: 'hitLanded', position: impactPosition, color, sparks: 8 });
   // Show the ricochet at the base impact for marine shots as well.
-  createBounceParticles(state, impactPosition, incomingDirection, color, 2);
-
-  if (state.matchStats) {
-    if (targetBase.owner === 0) {
-      state.matchStats.damageToPlayerBase += finalDamage;
-    } else {
-      state.matchStats.damageToEnemyBase += finalDamage;
-    }
-
-    if (unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += finalDamage;
-    }
-  }
-}
-
-// Create an impact effect
-function createImpactEffect(state: GameState, position: Vector2, color: string, size: number = 1): void {
-  if (!state.impactEffects) {
-    state.impactEffects = [];
-  }
-  
-  state.impactEffects.push({
-    id: generateId(),
-    position: { ...position },
-    color,
-    startTime: Date.now(),
-    duration: IMPACT_EFFECT_DURATION,
-    size,
-  });
-  
-  // Clean up old effects
-  const now = Date.now();
-  state.impactEffects = state.impactEffects.filter((effect) => {
-    const age = (now - effect.startTime) / 1000;
-    return age < IMPACT_EFFECT_CLEANUP_TIME;
-  });
-}
-
-// Create a floating damage number
-function createDamageNumber(state: GameState, position: Vector2, damage: number, color: string): void {
-  if (!state.damageNumbers) {
-    state.damageNumbers = [];
-  }
-  
-  state.damageNumbers.push({
-    id: generateId(),
-    position: { ...position },
-    damage: Math.round(damage),
-    color,
-    startTime: Date.now(),
-    duration: DAMAGE_NUMBER_DURATION,
-  });
-  
-  // Clean up old damage numbers
-  const now = Date.now();
-  state.damageNumbers = state.damageNumbers.filter((num) => {
-    const age = (now - num.startTime) / 1000;
-    return age < DAMAGE_NUMBER_CLEANUP_TIME;
-  });
-}
-
-// Create screen shake effect
-function createScreenShake(state: GameState, intensity: number, duration: number): void {
-  // Only create new shake if current shake is weaker or expired
-  if (!state.screenShake || state.screenShake.intensity < intensity) {
-    state.screenShake = {
-      intensity,
-      duration,
-      startTime: Date.now(),
-    };
-  }
-}
-
-// Particle color constants for explosion effects
-const BRIGHT_BLUE_SPARK = 'oklch(0.85 0.25 240)';
-const BRIGHT_RED_SPARK = 'oklch(0.85 0.28 25)';
+  emitEffect(state, { type: 'ricochet', position: impactPosition, direction: incomingDirection, color, count: 2 });
 
-// Create explosion particles for unit death
-function createExplosionParticles(state: GameState, position: Vector2, color: string, count: number = 12): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-  
-  const now = Date.now();
-  for (let i = 0; i < count; i++) {
-    const angle = (Math.PI * 2 * i) / count + (Math.random() - 0.5) * 0.5;
-    const speed = 8 + Math.random() * 4;
-    state.explosionParticles.push({
-      id: generateId(),
-      position: { ...position },
-      velocity: {
-        x: Math.cos(angle) * speed,
-        y: Math.sin(angle) * speed,
-      },
-      color,
-      size: 0.2 + Math.random() * 0.3,
-      lifetime: 0.6 + Math.random() * 0.4,
-      createdAt: now,
-      alpha: 1.0,
-      rotation: Math.random() * Math.PI * 2,
-      rotationSpeed: (Math.random() - 0.5) * 8,
-    });
-  }
-  
-  // Add some colored sparks for variety
-  const sparkCount = Math.floor(count / 2);
-  const brightColor = color === 'oklch(0.65 0.25 240)' ? BRIGHT_BLUE_SPARK : BRIGHT_RED_SPARK;
-  for (let i = 0; i < sparkCount; i++) {
-    const angle = Math.random() * Math.PI * 2;
-    const speed = 12 + Math.random() * 8;
-    state.explosionParticles.push({
-      id: generateId(),
-      position: { ...position },
-      velocity: {
-        x: Math.cos(angle) * speed,
-        y: Math.sin(angle) * speed,
-      },
-      color: brightColor,
-      size: 0.15 + Math.random() * 0.15,
-      lifetime: 0.4 + Math.random() * 0.3,
-      createdAt: now,
-      alpha: 1.0,
-      rotation: 0,
-      rotationSpeed: 0,
-    });
-  }
-  
-  // Clean up old particles
-  state.explosionParticles = state.explosionParticles.filter((particle) => {
-    const age = (now - particle.createdAt) / 1000;
-    return age < particle.lifetime;
-  });
+  reportDamage(state, unit, targetBase, finalDamage);
 }
 
 // Create a resource orb when a non-mining-drone unit dies
@@ -1440,296 +1505,20 @@ function createResourceOrb(state: GameState, position: Vector2, ownerColor: stri
   const mixColor = 'oklch(0.70 0.20 150)'; // A neutral teal/purple glow
   
   state.resourceOrbs.push({
-    id: generateId(),
+    id: generateSimulationId(state),
     position: { ...position },
     color: mixColor,
-    createdAt: Date.now(),
-    glowPhase: Math.random() * Math.PI * 2,
+    createdAt: getSimulationTime(state),
+    glowPhase: nextRandom(state) * Math.PI * 2,
     ownerColor: ownerColor,
     killerColor: enemyColor,
   });
 }
 
-// Update explosion particles
-function updateExplosionParticles(state: GameState, deltaTime: number): void {
-  if (!state.explosionParticles) return;
-  
-  const now = Date.now();
-  state.explosionParticles.forEach((particle) => {
-    // Update position
-    particle.position.x += particle.velocity.x * deltaTime;
-    particle.position.y += particle.velocity.y * deltaTime;
-    
-    // Apply gravity/deceleration
-    particle.velocity.x *= 0.96;
-    particle.velocity.y *= 0.96;
-    
-    // Update rotation
-    if (particle.rotation !== undefined && particle.rotationSpeed !== undefined) {
-      particle.rotation += particle.rotationSpeed * deltaTime;
-    }
-    
-    // Update alpha based on lifetime
-    const age = (now - particle.createdAt) / 1000;
-    particle.alpha = Math.max(0, 1 - age / particle.lifetime);
-  });
-  
-  // Remove dead particles
-  state.explosionParticles = state.explosionParticles.filter((particle) => {
-    const age = (now - particle.createdAt) / 1000;
-    return age < particle.lifetime;
-  });
-}
-
-// Create energy pulse effect
-function createEnergyPulse(state: GameState, position: Vector2, color: string, maxRadius: number, duration: number = 0.8): void {
-  if (!state.energyPulses) {
-    state.energyPulses = [];
-  }
-  
-  state.energyPulses.push({
-    id: generateId(),
-    position: { ...position },
-    radius: 0,
-    color,
-    startTime: Date.now(),
-    duration,
-    maxRadius,
-  });
-}
-
-// Update energy pulses
-function updateEnergyPulses(state: GameState): void {
-  if (!state.energyPulses) return;
-  
-  const now = Date.now();
-  state.energyPulses.forEach((pulse) => {
-    const age = (now - pulse.startTime) / 1000;
-    const progress = age / pulse.duration;
-    pulse.radius = pulse.maxRadius * progress;
-  });
-  
-  // Remove expired pulses
-  state.energyPulses = state.energyPulses.filter((pulse) => {
-    const age = (now - pulse.startTime) / 1000;
-    return age < pulse.duration;
-  });
-}
-
-// Create spawn effect for units
-function createSpawnEffect(state: GameState, position: Vector2, color: string): void {
-  if (!state.spawnEffects) {
-    state.spawnEffects = [];
-  }
-  
-  state.spawnEffects.push({
-    id: generateId(),
-    position: { ...position },
-    color,
-    startTime: Date.now(),
-    duration: 0.6,
-  });
-  
-  // Clean up old effects
-  const now = Date.now();
-  state.spawnEffects = state.spawnEffects.filter((effect) => {
-    const age = (now - effect.startTime) / 1000;
-    return age < effect.duration;
-  });
-}
-
-// Create hit spark effects
-function createHitSparks(state: GameState, position: Vector2, color: string, count: number = 6): void {
-  if (!state.hitSparks) {
-    state.hitSparks = [];
-  }
-  
-  const now = Date.now();
-  for (let i = 0; i < count; i++) {
-    const angle = Math.random() * Math.PI * 2;
-    const speed = 3 + Math.random() * 4;
-    state.hitSparks.push({
-      id: generateId(),
-      position: { ...position },
-      velocity: {
-        x: Math.cos(angle) * speed,
-        y: Math.sin(angle) * speed,
-      },
-      color,
-      size: 0.1 + Math.random() * 0.1,
-      lifetime: 0.3 + Math.random() * 0.2,
-      createdAt: now,
-    });
-  }
-  
-  // Clean up old sparks
-  state.hitSparks = state.hitSparks.filter((spark) => {
-    const age = (now - spark.createdAt) / 1000;
-    return age < spark.lifetime;
-  });
-}
-
-// Update hit sparks
-function updateHitSparks(state: GameState, deltaTime: number): void {
-  if (!state.hitSparks) return;
-  
-  const now = Date.now();
-  state.hitSparks.forEach((spark) => {
-    // Update position
-    spark.position.x += spark.velocity.x * deltaTime;
-    spark.position.y += spark.velocity.y * deltaTime;
-    
-    // Apply deceleration
-    spark.velocity.x *= 0.92;
-    spark.velocity.y *= 0.92;
-  });
-  
-  // Remove dead sparks
-  state.hitSparks = state.hitSparks.filter((spark) => {
-    const age = (now - spark.createdAt) / 1000;
-    return age < spark.lifetime;
-  });
-}
-
-// Update motion trails for fast units
-function updateMotionTrails(state: GameState): void {
-  if (!state.motionTrails) {
-    state.motionTrails = [];
-  }
-  
-  const now = Date.now();
-  
-  // Update trails for each unit
-  state.units.forEach((unit) => {
-    // Only create trails for fast units (dagger, interceptor, snaker)
-    if (unit.type !== 'scout' && unit.type !== 'interceptor' && unit.type !== 'snaker') {
-      return;
-    }
-    
-    // Check if unit is moving
-    const isMoving = unit.commandQueue.length > 0;
-    if (!isMoving) return;
-    
-    let trail = state.motionTrails?.find(t => t.unitId === unit.id);
-    if (!trail) {
-      trail = {
-        unitId: unit.id,
-        positions: [],
-        color: state.players[unit.owner].color,
-      };
-      state.motionTrails!.push(trail);
-    }
-    
-    // Add current position
-    trail.positions.push({
-      pos: { ...unit.position },
-      timestamp: now,
-    });
-    
-    // Remove old positions
-    trail.positions = trail.positions.filter(p => (now - p.timestamp) / 1000 < MOTION_TRAIL_DURATION);
-  });
-  
-  // Clean up trails for dead units
-  const unitIds = new Set(state.units.map(u => u.id));
-  state.motionTrails = state.motionTrails.filter(t => unitIds.has(t.unitId));
-}
-
-// Update sprite corner trails for all units
-function updateSpriteCornerTrails(state: GameState): void {
-  if (!state.spriteCornerTrails) {
-    state.spriteCornerTrails = [];
-  }
-  
-  const now = Date.now();
-  const SPRITE_CORNER_TRAIL_DURATION = 0.3; // seconds - shorter than motion trails
-  const UNIT_SPRITE_HALF_SIZE = UNIT_SIZE_METERS * 1.55 / 2; // Half of sprite size (matches UNIT_SPRITE_SCALE * UNIT_SIZE_METERS)
-  const MINING_DRONE_SPRITE_HALF_SIZE = UNIT_SIZE_METERS * MINING_DRONE_SIZE_MULTIPLIER * 1.35 / 2; // For mining drones
-  
-  // Update trails for each unit
-  state.units.forEach((unit) => {
-    // Skip mining drones for now as they have different sprite scaling
-    if (unit.type === 'miningDrone') {
-      return;
-    }
-    
-    // Check if unit is moving
-    const isMoving = unit.commandQueue.length > 0 || (unit.currentSpeed && unit.currentSpeed > 0.5);
-    if (!isMoving) return;
-    
-    // Get or create trail for this unit
-    let trail = state.spriteCornerTrails?.find(t => t.unitId === unit.id);
-    if (!trail) {
-      trail = {
-        unitId: unit.id,
-        leftCornerPositions: [],
-        rightCornerPositions: [],
-        color: state.players[unit.owner].color,
-      };
-      state.spriteCornerTrails!.push(trail);
-    }
-    
-    // Calculate back corner positions based on unit rotation
-    // Sprite rendering adds a PI/2 offset to align sprite-forward (up) with unit-forward direction.
-    const rotation = unit.rotation || 0;
-    const playfieldRotation = getPlayfieldRotationRadians();
-    
-    // The total rotation determines which way the unit/sprite is facing
-    const totalRotation = rotation + playfieldRotation;
-    
-    // Get sprite size for this unit type
-    const spriteHalfSize = unit.type === 'miningDrone' ? MINING_DRONE_SPRITE_HALF_SIZE : UNIT_SPRITE_HALF_SIZE;
-    
-    // The back of the unit is opposite to its forward direction
-    // Since sprites are rendered with an additional PI/2 rotation offset, we need to account for that
-    const backDirection = totalRotation + Math.PI + Math.PI / 2; // Back of the sprite
-    const perpendicular = totalRotation + Math.PI / 2; // Left-right axis relative to sprite orientation
-    
-    // Back center point of the sprite
-    const backCenterX = unit.position.x + Math.cos(backDirection) * spriteHalfSize;
-    const backCenterY = unit.position.y + Math.sin(backDirection) * spriteHalfSize;
-    
-    // Calculate left and right corner offsets from back center
-    const cornerOffset = spriteHalfSize * 0.7; // Corners are 70% of the way to the side edges
-    
-    const leftCornerPos = {
-      x: backCenterX + Math.cos(perpendicular) * cornerOffset,
-      y: backCenterY + Math.sin(perpendicular) * cornerOffset,
-    };
-    
-    const rightCornerPos = {
-      x: backCenterX - Math.cos(perpendicular) * cornerOffset,
-      y: backCenterY - Math.sin(perpendicular) * cornerOffset,
-    };
-    
-    // Add current positions to trails
-    trail.leftCornerPositions.push({
-      pos: leftCornerPos,
-      timestamp: now,
-    });
-    
-    trail.rightCornerPositions.push({
-      pos: rightCornerPos,
-      timestamp: now,
-    });
-    
-    // Remove old positions
-    trail.leftCornerPositions = trail.leftCornerPositions.filter(
-      p => (now - p.timestamp) / 1000 < SPRITE_CORNER_TRAIL_DURATION
-    );
-    trail.rightCornerPositions = trail.rightCornerPositions.filter(
-      p => (now - p.timestamp) / 1000 < SPRITE_CORNER_TRAIL_DURATION
-    );
-  });
-  
-  // Clean up trails for dead units
-  const unitIds = new Set(state.units.map(u => u.id));
-  state.spriteCornerTrails = state.spriteCornerTrails.filter(t => unitIds.has(t.unitId));
-}
-
 // Pull enemy projectiles toward nearby tanks to simulate passive magnetic defense.
 function applyTankProjectileAttraction(state: GameState, projectile: Projectile, deltaTime: number): void {
-  const enemyTanks = state.units.filter((unit) => unit.type === 'tank' && unit.owner !== projectile.owner && unit.hp > 0);
+  const enemyTanks = getNearbyUnits(state, projectile.position, TANK_PROJECTILE_ATTRACTION_RADIUS)
+    .filter((unit) => unit.type === 'tank' && unit.owner !== projectile.owner && unit.hp > 0);
 
   let closestTank: Unit | null = null;
   let closestDistance = Infinity;
@@ -1756,7 +1545,7 @@ function applyTankProjectileAttraction(state: GameState, projectile: Projectile,
 
 // Update projectiles - movement and collision
 function updateProjectiles(state: GameState, deltaTime: number): void {
-  const now = Date.now();
+  const now = getSimulationTime(state);
   
   // Update positions
   state.projectiles.forEach((projectile) => {
@@ -1777,7 +1566,7 @@ function updateProjectiles(state: GameState, deltaTime: number): void {
       // Hit target or expired
       if (distToTarget < 0.5) {
         // Create impact effect
-        createImpactEffect(state, projectile.position, projectile.color, 0.8);
+        emitEffect(state, { type: 'impact', position: projectile.position, color: projectile.color, size: 0.8 });
         
         // Apply damage if target still exists
         if (projectile.targetUnit) {
@@ -1785,44 +1574,41 @@ function updateProjectiles(state: GameState, deltaTime: number): void {
           if (target && target.hp > 0) {
             const def = UNIT_DEFINITIONS[target.type];
             const shieldMultiplier = getShieldDamageMultiplier(state, target, 'ranged');
-            const finalDamage = calculateDamageWithArmor(projectile.damage, target.armor, false, def.modifiers) * shieldMultiplier;
+            const finalDamage = calculateDamageWithArmor(projectile.damage, getUnitArmor(target), false, def.modifiers) * shieldMultiplier;
             target.hp -= finalDamage;
-            createDamageNumber(state, projectile.position, finalDamage, projectile.color);
-            createHitSparks(state, projectile.position, projectile.color, 6);
+            emitEffect(state, { type: 'damageDealt', position: projectile.position, color: projectile.color, damage: finalDamage });
+            emitEffect(state, { type: 'hitLanded', position: projectile.position, color: projectile.color, sparks: 6 });
             
             // Create bounce particles if target has armor
-            if (target.armor > 0) {
+            if (getUnitArmor(target) > 0) {
               const incomingDirection = normalize(projectile.velocity);
-              createBounceParticles(state, projectile.position, incomingDirection, projectile.color, 3);
+              emitEffect(state, { type: 'ricochet', position: projectile.position, direction: incomingDirection, color: projectile.color, count: 3 });
             }
             
-            if (state.matchStats && projectile.owner === 0) {
-              state.matchStats.damageDealtByPlayer += finalDamage;
-            }
+            reportDamage(state, { id: projectile.sourceUnit, owner: projectile.owner }, target, finalDamage);
           }
         } else {
           // Check for any unit hit in the area - only hit the first one found
-          const enemies = state.units.filter((u) => u.owner !== projectile.owner && u.hp > 0);
+          const enemies = getNearbyUnits(state, projectile.position, UNIT_SIZE_METERS / 2)
+            .filter((u) => u.owner !== projectile.owner && u.hp > 0);
           let hitEnemy = false;
           
           for (const enemy of enemies) {
             if (distance(enemy.position, projectile.position) < UNIT_SIZE_METERS / 2) {
               const def = UNIT_DEFINITIONS[enemy.type];
               const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
-              const finalDamage = calculateDamageWithArmor(projectile.damage, enemy.armor, false, def.modifiers) * shieldMultiplier;
+              const finalDamage = calculateDamageWithArmor(projectile.damage, getUnitArmor(enemy), false, def.modifiers) * shieldMultiplier;
               enemy.hp -= finalDamage;
-              createDamageNumber(state, projectile.position, finalDamage, projectile.color);
-              createHitSparks(state, projectile.position, projectile.color, 6);
+              emitEffect(state, { type: 'damageDealt', position: projectile.position, color: projectile.color, damage: finalDamage });
+              emitEffect(state, { type: 'hitLanded', position: projectile.position, color: projectile.color, sparks: 6 });
               
               // Create bounce particles if enemy has armor
-              if (enemy.armor > 0) {
+              if (getUnitArmor(enemy) > 0) {
                 const incomingDirection = normalize(projectile.velocity);
-                createBounceParticles(state, projectile.position, incomingDirection, projectile.color, 3);
+                emitEffect(state, { type: 'ricochet', position: projectile.position, direction: incomingDirection, color: projectile.color, count: 3 });
               }
               
-              if (state.matchStats && projectile.owner === 0) {
-                state.matchStats.damageDealtByPlayer += finalDamage;
-              }
+              reportDamage(state, { id: projectile.sourceUnit, owner: projectile.owner }, enemy, finalDamage);
               hitEnemy = true;
               break; // Only hit one unit
             }
@@ -1834,25 +1620,15 @@ function updateProjectiles(state: GameState, deltaTime: number): void {
             for (const base of enemyBases) {
               if (distance(base.position, projectile.position) < BASE_SIZE_METERS / 2) {
                 // Check if base has active shield (mobile faction)
-                if (!base.shieldActive || Date.now() >= base.shieldActive.endTime) {
+                if (!base.shieldActive || getSimulationTime(state) >= base.shieldActive.endTime) {
                   const finalDamage = calculateDamageWithArmor(projectile.damage, base.armor, false);
                   base.hp -= finalDamage;
-                  createHitSparks(state, projectile.position, projectile.color, 8);
+                  emitEffect(state, { type: 'hitLanded', position: projectile.position, color: projectile.color, sparks: 8 });
                   
-                  if (state.matchStats) {
-                    if (base.owner === 0) {
-                      state.matchStats.damageToPlayerBase += finalDamage;
-                    } else {
-                      state.matchStats.damageToEnemyBase += finalDamage;
-                    }
-                    
-                    if (projectile.owner === 0) {
-                      state.matchStats.damageDealtByPlayer += finalDamage;
-                    }
-                  }
+                  reportDamage(state, { id: projectile.sourceUnit, owner: projectile.owner }, base, finalDamage);
                 } else {
                   // Shield blocked the damage - create visual feedback
-                  createHitSparks(state, projectile.position, state.players[base.owner].color, 12);
+                  emitEffect(state, { type: 'hitLanded', position: projectile.position, color: state.players[base.owner].color, sparks: 12 });
                 }
                 break; // Only hit one base
               }
@@ -1882,53 +1658,6 @@ function updateProjectiles(state: GameState, deltaTime: number): void {
   state.projectiles = remainingProjectiles;
 }
 
-// Update shell casings and handle collisions with field particles
-function updateShells(state: GameState, deltaTime: number): void {
-  if (!state.shells || state.shells.length === 0) return;
-
-  const now = Date.now();
-  const remainingShells: Shell[] = [];
-
-  state.shells.forEach((shell) => {
-    shell.position.x += shell.velocity.x * deltaTime;
-    shell.position.y += shell.velocity.y * deltaTime;
-    shell.rotation += shell.rotationSpeed * deltaTime;
-
-    if (state.fieldParticles && state.fieldParticles.length > 0) {
-      for (const particle of state.fieldParticles) {
-        const dist = distance(shell.position, particle.position);
-        const collisionDist = SHELL_COLLISION_RADIUS + particle.size;
-
-        if (dist > 0 && dist < collisionDist) {
-          const normal = normalize(subtract(shell.position, particle.position));
-          const preBounceVelocity = { ...shell.velocity };
-          const dot = shell.velocity.x * normal.x + shell.velocity.y * normal.y;
-
-          // Reflect shell velocity across the collision normal
-          shell.velocity.x = shell.velocity.x - 2 * dot * normal.x;
-          shell.velocity.y = shell.velocity.y - 2 * dot * normal.y;
-          shell.velocity.x *= SHELL_BOUNCE_DAMPING;
-          shell.velocity.y *= SHELL_BOUNCE_DAMPING;
-
-          // Transfer momentum into the ambient particle
-          particle.velocity.x += preBounceVelocity.x * SHELL_MOMENTUM_TRANSFER;
-          particle.velocity.y += preBounceVelocity.y * SHELL_MOMENTUM_TRANSFER;
-
-          // Push shell out of overlap to prevent sticking
-          shell.position = add(particle.position, scale(normal, collisionDist));
-        }
-      }
-    }
-
-    const age = (now - shell.createdAt) / 1000;
-    if (age <= shell.lifetime) {
-      remainingShells.push(shell);
-    }
-  });
-
-  state.shells = remainingShells;
-}
-
 /**
  * Update chess mode turn timer and execute pending commands when turn ends
  */
@@ -1961,7 +1690,7 @@ function updateChessMode(state: GameState, deltaTime: number): void {
     state.chessMode.pendingCommands.clear();
     
     // Play a sound to indicate turn transition
-    soundManager.playCountdown();
+    playSimulationSound(state, 'playCountdown');
   }
 }
 
@@ -1981,116 +1710,30 @@ function executeChessModeCommands(state: GameState): void {
       unit.commandQueue = [commands[0]]; // Only execute 1 command per turn as specified
       
       // Mark the start time for queue draw animation
-      unit.queueDrawStartTime = Date.now();
+      unit.queueDrawStartTime = getSimulationTime(state);
     }
   });
 }
 
-// Constants for floater physics
-const FLOATER_FRICTION = 0.95; // Friction to slow down floaters over time
-const FLOATER_MAX_SPEED = 2.0; // Maximum speed of floaters in pixels per second
-const FLOATER_PUSH_RADIUS = 30; // Radius in pixels within which units push floaters
-const FLOATER_PUSH_FORCE = 50; // Force applied to push floaters
-
-// Update background floaters with physics-based movement
-function updateFloaters(state: GameState, deltaTime: number): void {
-  if (!state.floaters || state.floaters.length === 0) return;
-  
-  // Use window dimensions as fallback if canvas dimensions not stored
-  const canvasWidth = (typeof window !== 'undefined') ? window.innerWidth : 1920;
-  const canvasHeight = (typeof window !== 'undefined') ? window.innerHeight : 1080;
-  
-  state.floaters.forEach(floater => {
-    // Apply forces from units and projectiles
-    state.units.forEach(unit => {
-      const unitScreenPos = {
-        x: unit.position.x * 20, // Convert to pixels (PIXELS_PER_METER)
-        y: unit.position.y * 20,
-      };
-      
-      const dx = floater.position.x - unitScreenPos.x;
-      const dy = floater.position.y - unitScreenPos.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      if (dist < FLOATER_PUSH_RADIUS && dist > 0) {
-        // Calculate push force (stronger when closer)
-        const forceMagnitude = (FLOATER_PUSH_FORCE / floater.mass) * (1 - dist / FLOATER_PUSH_RADIUS);
-        const forceX = (dx / dist) * forceMagnitude;
-        const forceY = (dy / dist) * forceMagnitude;
-        
-        // Apply force to velocity
-        floater.velocity.x += forceX * deltaTime;
-        floater.velocity.y += forceY * deltaTime;
-      }
-    });
-    
-    // Apply forces from projectiles (smaller push)
-    state.projectiles.forEach(projectile => {
-      const projScreenPos = {
-        x: projectile.position.x * 20,
-        y: projectile.position.y * 20,
-      };
-      
-      const dx = floater.position.x - projScreenPos.x;
-      const dy = floater.position.y - projScreenPos.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      if (dist < FLOATER_PUSH_RADIUS / 2 && dist > 0) {
-        const forceMagnitude = (FLOATER_PUSH_FORCE * 0.3 / floater.mass) * (1 - dist / (FLOATER_PUSH_RADIUS / 2));
-        const forceX = (dx / dist) * forceMagnitude;
-        const forceY = (dy / dist) * forceMagnitude;
-        
-        floater.velocity.x += forceX * deltaTime;
-        floater.velocity.y += forceY * deltaTime;
-      }
-    });
-    
-    // Apply friction
-    floater.velocity.x *= FLOATER_FRICTION;
-    floater.velocity.y *= FLOATER_FRICTION;
-    
-    // Limit max speed
-    const speed = Math.sqrt(floater.velocity.x ** 2 + floater.velocity.y ** 2);
-    if (speed > FLOATER_MAX_SPEED) {
-      floater.velocity.x = (floater.velocity.x / speed) * FLOATER_MAX_SPEED;
-      floater.velocity.y = (floater.velocity.y / speed) * FLOATER_MAX_SPEED;
-    }
-    
-    // Update position
-    floater.position.x += floater.velocity.x * deltaTime * 60; // Scale by 60 for frame independence
-    floater.position.y += floater.velocity.y * deltaTime * 60;
-    
-    // Wrap around screen edges
-    if (floater.position.x < 0) floater.position.x = canvasWidth;
-    if (floater.position.x > canvasWidth) floater.position.x = 0;
-    if (floater.position.y < 0) floater.position.y = canvasHeight;
-    if (floater.position.y > canvasHeight) floater.position.y = 0;
-  });
-}
-
-export function updateGame(state: GameState, deltaTime: number): void {
-  if (state.mode !== 'game') return;
+export function updateGame(state: GameState, deltaTime: number): void {
+  if (state.mode !== 'game') return;
 
   state.elapsedTime += deltaTime;
+  advanceSimulationClock(state, deltaTime); // Also runs scheduled ability callbacks that became due
 
   // Update chess mode turn timer if enabled
   updateChessMode(state, deltaTime);
 
   updateIncome(state, deltaTime);
-  updateFloaters(state, deltaTime); // Update background floaters
+  invalidateUnitIndex(state); // Commands may have moved units since the last tick
   updateUnits(state, deltaTime);
+  invalidateUnitIndex(state); // Later passes query the positions units moved to
   updateBases(state, deltaTime);
   updateStructures(state, deltaTime);
   updateProjectiles(state, deltaTime);
-  updateShells(state, deltaTime);
   updateCombat(state, deltaTime);
   cleanupDeadUnits(state); // Clean up dead units after combat
   cleanupDyingUnits(state); // Clean up dying units after animation completes
-  updateExplosionParticles(state, deltaTime);
-  updateEnergyPulses(state);
-  updateHitSparks(state, deltaTime);
-  updateMotionTrails(state);
-  updateSpriteCornerTrails(state);
   checkTimeLimit(state);
   checkVictory(state);
 }
@@ -2125,9 +1768,7 @@ function updateIncome(state: GameState, deltaTime: number): void {
     state.lastIncomeTime -= 1.0;
     state.players.forEach((player, index) => {
       player.photons += player.incomeRate;
-      if (index === 0) {
-        soundManager.playIncomeTick();
-      }
+      emitGameplayEvent(state, { type: 'resourceCollected', owner: index, resource: 'photons', amount: player.incomeRate });
     });
   }
 }
@@ -2157,11 +1798,11 @@ function updateUnits(state: GameState, deltaTime: number): void {
       return;
     }
     
-    // Skip units that are already moving
-    if (stationaryUnit.commandQueue.length > 0) return;
+    // Skip units that are already moving, and units holding their ground
+    if (stationaryUnit.commandQueue.length > 0 || getUnitStance(stationaryUnit).holdsGround) return;
     
     // Check for approaching friendly units
-    for (const movingUnit of state.units) {
+    for (const movingUnit of getNearbyUnits(state, stationaryUnit.position, AVOIDANCE_DETECTION_RANGE)) {
       // Skip self, different teams, or non-moving units
       if (movingUnit.id === stationaryUnit.id) continue;
       if (movingUnit.owner !== stationaryUnit.owner) continue;
@@ -2175,8 +1816,10 @@ function updateUnits(state: GameState, deltaTime: number): void {
       const distToStationary = distance(movingUnit.position, stationaryUnit.position);
       if (distToStationary > AVOIDANCE_DETECTION_RANGE) continue;
       
-      // Check if moving unit is moving towards stationary unit
-      const movementDirection = normalize(subtract(targetNode.position, movingUnit.position));
+      // Check if moving unit is moving towards stationary unit (along its route, if it has one)
+      const route = movingUnit.navigationPath;
+      const heading = route && distance(route.goal, targetNode.position) <= NAVIGATION_GOAL_TOLERANCE ? route.waypoints[0] : targetNode.position;
+      const movementDirection = normalize(subtract(heading, movingUnit.position));
       const toStationary = normalize(subtract(stationaryUnit.position, movingUnit.position));
       
       const dotProduct = movementDirection.x * toStationary.x + movementDirection.y * toStationary.y;
@@ -2208,14 +1851,14 @@ function updateUnits(state: GameState, deltaTime: number): void {
   
   // Second pass: update all units normally
   state.units.forEach((unit) => {
-    const frameTime = Date.now();
+    const frameTime = getSimulationTime(state);
     const finalizeBladeTrail = () => {
       recordBladeTrailHistory(unit, frameTime);
     };
 
     // Clean up faded command queues that have been marked for cancellation
     if (unit.queueFadeStartTime) {
-      const fadeElapsed = (Date.now() - unit.queueFadeStartTime) / 1000;
+      const fadeElapsed = (getSimulationTime(state) - unit.queueFadeStartTime) / 1000;
       if (fadeElapsed >= QUEUE_FADE_DURATION) {
         // Fade complete - clear the queue and reset stuck state
         unit.commandQueue = [];
@@ -2244,25 +1887,42 @@ function updateUnits(state: GameState, deltaTime: number): void {
     }
 
     updateAbilityEffects(unit, state, deltaTime);
+
+    if (promoteUnit(unit)) {
+      const rank = unit.veterancy!.rank;
+      recordVeteran(state, unit, false);
+      emitEffect(state, { type: 'unitPromoted', position: unit.position, color: state.players[unit.owner].color, rank });
+      emitGameplayEvent(state, { type: 'unitPromoted', unitId: unit.id, owner: unit.owner, unitType: unit.type, rank, position: { ...unit.position } });
+    }
     
     // Update particle physics for all units
-    updateParticles(unit, deltaTime);
+    updateParticles(state, unit, deltaTime);
     
     // Clean up expired melee attack effects
-    if (unit.meleeAttackEffect && Date.now() > unit.meleeAttackEffect.endTime) {
+    if (unit.meleeAttackEffect && getSimulationTime(state) > unit.meleeAttackEffect.endTime) {
       unit.meleeAttackEffect = undefined;
     }
 
-    if (unit.lineJumpTelegraph) {
-      const elapsed = Date.now() - unit.lineJumpTelegraph.startTime;
-      if (elapsed >= 500) {
-        executeLineJump(state, unit);
+    const lineJump = unit.lineJumpTelegraph && getAbilityComponent(unit.type, 'lineJump');
+    if (unit.lineJumpTelegraph && lineJump) {
+      const elapsed = getSimulationTime(state) - unit.lineJumpTelegraph.startTime;
+      if (elapsed >= lineJump.windupMs) {
+        executeLineJump(state, unit, lineJump);
         unit.lineJumpTelegraph = undefined;
       }
       finalizeBladeTrail();
       return;
     }
 
+    // Stunned units keep their orders and carry them out once the stun wears off
+    if (!canUnitAct(unit, 'move')) {
+      unit.currentSpeed = 0;
+      unit.stuckTimer = 0;
+      unit.lastPosition = undefined;
+      finalizeBladeTrail();
+      return;
+    }
+
     if (unit.commandQueue.length === 0) {
       // Mining drones automatically queue back and forth between depot and deposit
       if (unit.miningState) {
@@ -2290,6 +1950,12 @@ function updateUnits(state: GameState, deltaTime: number): void {
         }
       }
       
+      // Idle units act on their stance: chase enemies near their post, then walk back to it
+      if (updateIdleStance(state, unit, deltaTime)) {
+        finalizeBladeTrail();
+        return;
+      }
+
       // Reset stuck timer when no commands
       unit.stuckTimer = 0;
       unit.lastPosition = undefined;
@@ -2297,13 +1963,16 @@ function updateUnits(state: GameState, deltaTime: number): void {
       return;
     }
 
+    // A unit with orders takes a new post wherever they run out
+    unit.stancePost = undefined;
+
     const currentNode = unit.commandQueue[0];
 
     if (currentNode.type === 'move') {
       const dist = distance(unit.position, currentNode.position);
       const def = UNIT_DEFINITIONS[unit.type];
 
-      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state.units)) {
+      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state)) {
         unit.commandQueue.shift();
         // Decelerate when reaching destination
         unit.currentSpeed = 0;
@@ -2315,20 +1984,22 @@ function updateUnits(state: GameState, deltaTime: number): void {
         return;
       }
 
-      let direction = normalize(subtract(currentNode.position, unit.position));
+      // Steer along the planned route; the last waypoint is the destination itself
+      const steeringTarget = getNavigationTarget(state, unit, currentNode.position);
+      let direction = normalize(subtract(steeringTarget, unit.position));
       
       // Apply flocking behavior for smooth group movement (like StarCraft)
-      direction = applyFlockingBehavior(unit, direction, state.units);
+      direction = applyFlockingBehavior(unit, direction, state);
       
-      // Try pathfinding if direct path might be blocked
-      const alternativePath = findPathAroundObstacle(unit, currentNode.position, state.obstacles);
+      // Sidestep anything the route didn't account for
+      const alternativePath = findPathAroundObstacle(unit, steeringTarget, state.obstacles);
       if (alternativePath) {
         direction = alternativePath;
       }
       
       // If stuck, try jitter movement to wiggle out
       if (unit.jitterOffset !== undefined) {
-        const jitteredDirection = applyJitterMovement(unit, direction, state.units, state.obstacles);
+        const jitteredDirection = applyJitterMovement(unit, direction, state, state.obstacles);
         if (jitteredDirection) {
           direction = jitteredDirection;
         }
@@ -2338,13 +2009,13 @@ function updateUnits(state: GameState, deltaTime: number): void {
       updateUnitRotation(unit, direction, deltaTime);
       
       // Use constant top speed instead of acceleration
-      const movement = scale(direction, def.moveSpeed * deltaTime);
+      const movement = scale(direction, def.moveSpeed * getStatusModifiers(unit).speed * deltaTime);
 
-      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), dist);
+      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), distance(unit.position, steeringTarget));
       const newPosition = add(unit.position, scale(direction, moveDist));
 
       // Apply local collision push to keep units from stacking at shared goals.
-      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state.units);
+      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state);
 
       // Check for collisions with any obstacles (unit overlap handled by local push)
       const collisionResult = checkUnitCollisionBlocking(unit, adjustedPosition, state.units, state.obstacles);
@@ -2390,6 +2061,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
               state.players[unit.owner].secondaryResource = 0;
             }
             state.players[unit.owner].secondaryResource! += 1;
+            emitGameplayEvent(state, { type: 'resourceCollected', owner: unit.owner, resource: 'secondaryResource', amount: 1, unitId: unit.id });
             // Resume normal mining operations
             unit.miningState.atDepot = true;
           }
@@ -2404,7 +2076,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
         unit.currentSpeed = Math.max(0, (unit.currentSpeed || 0) * COLLISION_DECELERATION_FACTOR);
         
         // Track stuck state
-        updateStuckDetection(unit, deltaTime);
+        updateStuckDetection(state, unit, deltaTime);
         finalizeBladeTrail();
         return;
       }
@@ -2415,8 +2087,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
 
       while (unit.distanceCredit >= PROMOTION_DISTANCE_THRESHOLD) {
         unit.distanceCredit -= PROMOTION_DISTANCE_THRESHOLD;
-        // Damage multiplier from movement disabled
-        // unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+        addExperience(unit, VETERANCY_XP_PER_PROMOTION_DISTANCE);
       }
 
       unit.distanceTraveled += moveDist;
@@ -2428,8 +2099,13 @@ function updateUnits(state: GameState, deltaTime: number): void {
       let targetEnemy: Unit | null = null;
       let minDist = Infinity;
       
-      state.units.forEach((enemy) => {
+      getNearbyUnits(state, unit.position, def.attackRange).forEach((enemy) => {
         if (enemy.owner !== unit.owner && enemy.hp > 0) {
+          // Same sight and detection rules as every other target pick
+          if (!isVisibleToPlayer(enemy.position, state, unit.owner) || isHiddenFrom(state, enemy, unit.owner)) {
+            return;
+          }
+
           const enemyDef = UNIT_DEFINITIONS[enemy.type];
           // Flying units can only be hit by ability attacks, not normal attacks
           if (enemyDef.modifiers.includes('flying')) {
@@ -2445,15 +2121,15 @@ function updateUnits(state: GameState, deltaTime: number): void {
       });
       
       // If enemy in range, attack it
-      if (targetEnemy && (!unit.attackCooldown || unit.attackCooldown <= 0)) {
+      if (targetEnemy && (!unit.attackCooldown || unit.attackCooldown <= 0) && canUnitAct(unit, 'attack')) {
         performAttack(state, unit, targetEnemy);
-        unit.attackCooldown = 1 / def.attackRate;
+        unit.attackCooldown = 1 / (def.attackRate * getStatusModifiers(unit).attackRate);
       }
       
       // Continue moving towards destination
       const dist = distance(unit.position, currentNode.position);
       
-      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state.units)) {
+      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state)) {
         unit.commandQueue.shift();
         unit.currentSpeed = 0;
         unit.stuckTimer = 0;
@@ -2463,20 +2139,21 @@ function updateUnits(state: GameState, deltaTime: number): void {
         return;
       }
 
-      let direction = normalize(subtract(currentNode.position, unit.position));
+      const steeringTarget = getNavigationTarget(state, unit, currentNode.position);
+      let direction = normalize(subtract(steeringTarget, unit.position));
       
       // Apply flocking behavior for smooth group movement
-      direction = applyFlockingBehavior(unit, direction, state.units);
+      direction = applyFlockingBehavior(unit, direction, state);
 
-      // Try pathfinding if direct path might be blocked
-      const alternativePath = findPathAroundObstacle(unit, currentNode.position, state.obstacles);
+      // Sidestep anything the route didn't account for
+      const alternativePath = findPathAroundObstacle(unit, steeringTarget, state.obstacles);
       if (alternativePath) {
         direction = alternativePath;
       }
       
       // If stuck, try jitter movement
       if (unit.jitterOffset !== undefined) {
-        const jitteredDirection = applyJitterMovement(unit, direction, state.units, state.obstacles);
+        const jitteredDirection = applyJitterMovement(unit, direction, state, state.obstacles);
         if (jitteredDirection) {
           direction = jitteredDirection;
         }
@@ -2486,13 +2163,13 @@ function updateUnits(state: GameState, deltaTime: number): void {
       updateUnitRotation(unit, direction, deltaTime);
       
       // Use constant top speed instead of acceleration
-      const movement = scale(direction, def.moveSpeed * deltaTime);
+      const movement = scale(direction, def.moveSpeed * getStatusModifiers(unit).speed * deltaTime);
 
-      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), dist);
+      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), distance(unit.position, steeringTarget));
       const newPosition = add(unit.position, scale(direction, moveDist));
 
       // Apply local collision push to keep attack-move units flowing through crowds.
-      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state.units);
+      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state);
 
       // Check for collisions with any obstacles (unit overlap handled by local push)
       const collisionResult = checkUnitCollisionBlocking(unit, adjustedPosition, state.units, state.obstacles);
@@ -2509,7 +2186,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
         unit.currentSpeed = Math.max(0, (unit.currentSpeed || 0) * COLLISION_DECELERATION_FACTOR);
         
         // Track stuck state
-        updateStuckDetection(unit, deltaTime);
+        updateStuckDetection(state, unit, deltaTime);
         finalizeBladeTrail();
         return;
       }
@@ -2520,16 +2197,70 @@ function updateUnits(state: GameState, deltaTime: number): void {
 
       while (unit.distanceCredit >= PROMOTION_DISTANCE_THRESHOLD) {
         unit.distanceCredit -= PROMOTION_DISTANCE_THRESHOLD;
-        // Damage multiplier from movement disabled
-        // unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+        addExperience(unit, VETERANCY_XP_PER_PROMOTION_DISTANCE);
       }
 
       unit.distanceTraveled += moveDist;
+    } else if (currentNode.type === 'attack-unit') {
+      // Attack-unit: chase the ordered target into reach; updateCombat fires at it first
+      const target = getOrderedTarget(state, unit, currentNode);
+
+      if (!target) {
+        // Target destroyed or lost - fall back to the rest of the queue
+        unit.commandQueue.shift();
+        unit.currentSpeed = 0;
+        unit.stuckTimer = 0;
+        unit.lastPosition = undefined;
+        unit.jitterOffset = undefined;
+        finalizeBladeTrail();
+        return;
+      }
+
+      currentNode.position = { ...target.position };
+
+      if (distance(unit.position, target.position) > getAttackReach(unit.type, currentNode.targetKind, target)) {
+        moveUnitTowardPosition(state, unit, target.position, deltaTime, CHASE_GOAL_TOLERANCE);
+      } else {
+        // In reach - hold still; each attack turns the unit to face the target
+        unit.currentSpeed = 0;
+        unit.stuckTimer = 0;
+        unit.lastPosition = undefined;
+        unit.jitterOffset = undefined;
+      }
+    } else if (currentNode.type === 'follow' || currentNode.type === 'guard') {
+      // Follow/guard: keep the escort spot around a friendly unit or base; guards also go after its attacker
+      const escorted = findEscortTarget(state, unit, currentNode);
+
+      if (!escorted) {
+        // Escorted unit or base destroyed - fall back to the rest of the queue
+        unit.commandQueue.shift();
+        unit.currentSpeed = 0;
+        unit.stuckTimer = 0;
+        unit.lastPosition = undefined;
+        unit.jitterOffset = undefined;
+        finalizeBladeTrail();
+        return;
+      }
+
+      currentNode.position = add(escorted.position, currentNode.offset);
+      const threat = currentNode.type === 'guard' ? getGuardThreat(state, unit, escorted, currentNode.targetKind) : undefined;
+
+      if (threat && distance(unit.position, threat.target.position) > threat.reach) {
+        moveUnitTowardPosition(state, unit, threat.target.position, deltaTime, CHASE_GOAL_TOLERANCE);
+      } else if (!threat && distance(unit.position, currentNode.position) > ESCORT_SPOT_SLACK) {
+        moveUnitTowardPosition(state, unit, currentNode.position, deltaTime, CHASE_GOAL_TOLERANCE);
+      } else {
+        // At the escort spot, or in reach of the threat (updateCombat fires at it)
+        unit.currentSpeed = 0;
+        unit.stuckTimer = 0;
+        unit.lastPosition = undefined;
+        unit.jitterOffset = undefined;
+      }
     } else if (currentNode.type === 'ability') {
       const dist = distance(unit.position, currentNode.position);
 
       // Only execute the ability once the unit reaches the queued anchor.
-      if (!hasUnitArrivedAtPosition(unit, currentNode.position, dist, state.units)) {
+      if (!hasUnitArrivedAtPosition(unit, currentNode.position, dist, state)) {
         moveUnitTowardPosition(state, unit, currentNode.position, deltaTime);
         finalizeBladeTrail();
         return;
@@ -2541,14 +2272,17 @@ function updateUnits(state: GameState, deltaTime: number): void {
       unit.lastPosition = undefined;
       unit.jitterOffset = undefined;
 
+      // A silenced unit's cast fizzles; the rest of its orders carry on
       const abilityNode: CommandNode = { ...currentNode, position: currentNode.position };
-      executeAbility(state, unit, abilityNode);
+      if (canUnitAct(unit, 'cast')) {
+        executeAbility(state, unit, abilityNode);
+      }
       unit.commandQueue.shift();
     } else if (currentNode.type === 'patrol') {
       // Patrol: move to patrol point, then add return command to create loop
       const dist = distance(unit.position, currentNode.position);
       
-      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state.units)) {
+      if (hasUnitArrivedAtPosition(unit, currentNode.position, dist, state)) {
         // Reached patrol point - add return command and remove current
         unit.commandQueue.shift();
         // Add return patrol command if queue isn't full
@@ -2567,35 +2301,36 @@ function updateUnits(state: GameState, deltaTime: number): void {
       }
 
       const def = UNIT_DEFINITIONS[unit.type];
-      let direction = normalize(subtract(currentNode.position, unit.position));
+      const steeringTarget = getNavigationTarget(state, unit, currentNode.position);
+      let direction = normalize(subtract(steeringTarget, unit.position));
       
       // Apply flocking behavior for smooth group patrol movement
-      direction = applyFlockingBehavior(unit, direction, state.units);
+      direction = applyFlockingBehavior(unit, direction, state);
       
-      // Try pathfinding if direct path might be blocked
-      const alternativePath = findPathAroundObstacle(unit, currentNode.position, state.obstacles);
+      // Sidestep anything the route didn't account for
+      const alternativePath = findPathAroundObstacle(unit, steeringTarget, state.obstacles);
       if (alternativePath) {
         direction = alternativePath;
       }
       
       // If stuck, try jitter movement
       if (unit.jitterOffset !== undefined) {
-        const jitteredDirection = applyJitterMovement(unit, direction, state.units, state.obstacles);
+        const jitteredDirection = applyJitterMovement(unit, direction, state, state.obstacles);
         if (jitteredDirection) {
           direction = jitteredDirection;
         }
       }
       
-      const movement = scale(direction, def.moveSpeed * deltaTime);
+      const movement = scale(direction, def.moveSpeed * getStatusModifiers(unit).speed * deltaTime);
       
       // Update unit rotation to face movement direction
       updateUnitRotation(unit, direction, deltaTime);
       
-      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), dist);
+      const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), distance(unit.position, steeringTarget));
       const newPosition = add(unit.position, scale(direction, moveDist));
 
       // Apply local collision push to keep patrol units from clumping.
-      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state.units);
+      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state);
 
       // Check for collisions with any obstacles (unit overlap handled by local push)
       const collisionResult = checkUnitCollisionBlocking(unit, adjustedPosition, state.units, state.obstacles);
@@ -2608,7 +2343,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
         unit.jitterOffset = undefined;
       } else {
         // Track stuck state
-        updateStuckDetection(unit, deltaTime);
+        updateStuckDetection(state, unit, deltaTime);
         finalizeBladeTrail();
         return;
       }
@@ -2622,8 +2357,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
 
       while (unit.distanceCredit >= PROMOTION_DISTANCE_THRESHOLD) {
         unit.distanceCredit -= PROMOTION_DISTANCE_THRESHOLD;
-        // Damage multiplier from movement disabled
-        // unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+        addExperience(unit, VETERANCY_XP_PER_PROMOTION_DISTANCE);
       }
 
       unit.distanceTraveled += moveDist;
@@ -2670,7 +2404,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
       // Pass true for isFollowingPath and the path direction for path-aware separation
       // Note: pathDirection represents the tangent to the path at the current point
       // (direction from unit to lookahead target along the path)
-      let direction = applyFlockingBehavior(unit, pathDirection, state.units, true, pathDirection);
+      let direction = applyFlockingBehavior(unit, pathDirection, state, true, pathDirection);
       
       // Try pathfinding if direct path might be blocked
       const alternativePath = findPathAroundObstacle(unit, lookaheadTarget, state.obstacles);
@@ -2680,7 +2414,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
       
       // If stuck, try jitter movement
       if (unit.jitterOffset !== undefined) {
-        const jitteredDirection = applyJitterMovement(unit, direction, state.units, state.obstacles);
+        const jitteredDirection = applyJitterMovement(unit, direction, state, state.obstacles);
         if (jitteredDirection) {
           direction = jitteredDirection;
         }
@@ -2690,12 +2424,12 @@ function updateUnits(state: GameState, deltaTime: number): void {
       updateUnitRotation(unit, direction, deltaTime);
       
       // Use constant top speed
-      const movement = scale(direction, def.moveSpeed * deltaTime);
+      const movement = scale(direction, def.moveSpeed * getStatusModifiers(unit).speed * deltaTime);
       const moveDist = Math.min(distance(unit.position, add(unit.position, movement)), dist);
       const newPosition = add(unit.position, scale(direction, moveDist));
       
       // Apply local collision push
-      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state.units);
+      const adjustedPosition = applyLocalCollisionPush(unit, newPosition, state);
       
       // Check for collisions
       const collisionResult = checkUnitCollisionBlocking(unit, adjustedPosition, state.units, state.obstacles);
@@ -2708,7 +2442,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
       } else {
         // Collision detected - slow down
         unit.currentSpeed = Math.max(0, (unit.currentSpeed || 0) * COLLISION_DECELERATION_FACTOR);
-        updateStuckDetection(unit, deltaTime);
+        updateStuckDetection(state, unit, deltaTime);
         finalizeBladeTrail();
         return;
       }
@@ -2722,8 +2456,7 @@ function updateUnits(state: GameState, deltaTime: number): void {
       
       while (unit.distanceCredit >= PROMOTION_DISTANCE_THRESHOLD) {
         unit.distanceCredit -= PROMOTION_DISTANCE_THRESHOLD;
-        // Damage multiplier from movement disabled
-        // unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+        addExperience(unit, VETERANCY_XP_PER_PROMOTION_DISTANCE);
       }
       
       unit.distanceTraveled += moveDist;
@@ -2734,15 +2467,9 @@ function updateUnits(state: GameState, deltaTime: number): void {
 }
 
 function updateAbilityEffects(unit: Unit, state: GameState, deltaTime: number): void {
-  const now = Date.now();
-
-  if (unit.shieldActive && now > unit.shieldActive.endTime) {
-    unit.shieldActive = undefined;
-  }
+  const now = getSimulationTime(state);
 
-  if (unit.cloaked && now > unit.cloaked.endTime) {
-    unit.cloaked = undefined;
-  }
+  updateStatusEffects(state, unit);
 
   if (unit.swordSwing && now > unit.swordSwing.startTime + unit.swordSwing.duration * 1000) {
     const completedSwing = unit.swordSwing;
@@ -2803,43 +2530,46 @@ function updateAbilityEffects(unit: Unit, state: GameState, deltaTime: number):
     }
   }
 
-  if (unit.bladeVolley) {
+  const knifeVolley = unit.bladeVolley && getAbilityComponent(unit.type, 'knifeVolley');
+  if (unit.bladeVolley && knifeVolley) {
     const volley = unit.bladeVolley;
-    if (now >= volley.nextShotTime && volley.shotsFired < BLADE_KNIFE_ANGLES.length) {
+    if (now >= volley.nextShotTime && volley.shotsFired < knifeVolley.angles.length) {
       // Emit knives in quick succession using the stored volley direction and magnitude.
-      const angleOffset = BLADE_KNIFE_ANGLES[volley.shotsFired];
-      fireBladeKnife(state, unit, volley.direction, volley.magnitude, angleOffset);
+      const angleOffset = knifeVolley.angles[volley.shotsFired];
+      fireBladeKnife(state, unit, knifeVolley, volley.direction, volley.magnitude, angleOffset);
       volley.shotsFired += 1;
-      volley.nextShotTime = now + BLADE_KNIFE_SHOT_INTERVAL * 1000;
+      volley.nextShotTime = now + knifeVolley.intervalMs;
     }
 
-    if (volley.shotsFired >= BLADE_KNIFE_ANGLES.length && now > volley.nextShotTime) {
+    if (volley.shotsFired >= knifeVolley.angles.length && now > volley.nextShotTime) {
       unit.bladeVolley = undefined;
     }
   }
 
-  if (unit.daggerAmbush) {
+  const ambushThrow = unit.daggerAmbush && getAbilityComponent(unit.type, 'ambush');
+  if (unit.daggerAmbush && ambushThrow) {
     const ambush = unit.daggerAmbush;
 
     if (!ambush.knifeFired && now >= ambush.throwTime) {
       // Throw the ambush knife after the reveal delay.
-      fireDaggerKnife(state, unit, ambush.direction);
+      fireDaggerKnife(state, unit, ambushThrow, ambush.direction);
       ambush.knifeFired = true;
     }
 
     if (now >= ambush.recloakTime) {
       // Reapply permanent cloak after the post-throw reveal window.
       unit.daggerAmbush = undefined;
-      unit.cloaked = { endTime: Number.POSITIVE_INFINITY };
+      applyStatusEffect(state, unit, 'cloak', { durationMs: Number.POSITIVE_INFINITY, revealMs: ambushThrow.revealMs });
     }
   }
 
-  if (unit.bombardmentActive) {
+  const bombardment = unit.bombardmentActive && getAbilityComponent(unit.type, 'bombardment');
+  if (unit.bombardmentActive && bombardment) {
     if (now > unit.bombardmentActive.impactTime && now < unit.bombardmentActive.endTime) {
-      const enemies = state.units.filter((u) => u.owner !== unit.owner);
+      const enemies = getNearbyUnits(state, unit.bombardmentActive.targetPos, bombardment.radius).filter((u) => u.owner !== unit.owner);
       enemies.forEach((enemy) => {
-        if (distance(enemy.position, unit.bombardmentActive!.targetPos) <= 3) {
-          let damage = 40 * unit.damageMultiplier * deltaTime;
+        if (distance(enemy.position, unit.bombardmentActive!.targetPos) <= bombardment.radius) {
+          let damage = bombardment.damagePerSecond * getUnitDamageMultiplier(unit) * deltaTime;
           const def = UNIT_DEFINITIONS[enemy.type];
           
           // Small units take double damage from splash attacks
@@ -2849,28 +2579,24 @@ function updateAbilityEffects(unit: Unit, state: GameState, deltaTime: number):
           
           // Bombardment is a ranged attack, so it respects armor
           const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
-          const finalDamage = calculateDamageWithArmor(damage, enemy.armor, false, def.modifiers) * shieldMultiplier;
+          const finalDamage = calculateDamageWithArmor(damage, getUnitArmor(enemy), false, def.modifiers) * shieldMultiplier;
           enemy.hp -= finalDamage;
           
-          if (state.matchStats && unit.owner === 0) {
-            state.matchStats.damageDealtByPlayer += finalDamage;
-          }
+          reportDamage(state, unit, enemy, finalDamage);
         }
       });
 
       const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
       enemyBases.forEach((base) => {
-        if (distance(base.position, unit.bombardmentActive!.targetPos) <= 3) {
+        if (distance(base.position, unit.bombardmentActive!.targetPos) <= bombardment.radius) {
           // Check if base has active shield (mobile faction)
-          if (!base.shieldActive || Date.now() >= base.shieldActive.endTime) {
-            const damage = 80 * unit.damageMultiplier * deltaTime;
+          if (!base.shieldActive || getSimulationTime(state) >= base.shieldActive.endTime) {
+            const damage = bombardment.baseDamagePerSecond * getUnitDamageMultiplier(unit) * deltaTime;
             // Bombardment is a ranged attack, so it respects armor
             const finalDamage = calculateDamageWithArmor(damage, base.armor, false);
             base.hp -= finalDamage;
             
-            if (state.matchStats && unit.owner === 0) {
-              state.matchStats.damageDealtByPlayer += finalDamage;
-            }
+            reportDamage(state, unit, base, finalDamage);
           }
         }
       });
@@ -2886,21 +2612,18 @@ function updateAbilityEffects(unit: Unit, state: GameState, deltaTime: number):
   }
 
   if (unit.missileBarrageActive) {
-    const progress = Math.min(1, (now - (unit.missileBarrageActive.endTime - 1500)) / 1500);
-    
-    if (progress >= 1) {
+    // Missiles land together when the barrage ends
+    if (now >= unit.missileBarrageActive.endTime) {
       unit.missileBarrageActive.missiles.forEach((missile) => {
-        const enemies = state.units.filter((u) => u.owner !== unit.owner);
+        const enemies = getNearbyUnits(state, missile.target, 0.5).filter((u) => u.owner !== unit.owner);
         const target = enemies.find((e) => distance(e.position, missile.target) < 0.5);
         if (target) {
           const def = UNIT_DEFINITIONS[target.type];
           const shieldMultiplier = getShieldDamageMultiplier(state, target, 'ranged');
-          const finalDamage = calculateDamageWithArmor(missile.damage, target.armor, false, def.modifiers) * shieldMultiplier;
+          const finalDamage = calculateDamageWithArmor(missile.damage, getUnitArmor(target), false, def.modifiers) * shieldMultiplier;
           target.hp -= finalDamage;
           
-          if (state.matchStats && unit.owner === 0) {
-            state.matchStats.damageDealtByPlayer += finalDamage;
-          }
+          reportDamage(state, unit, target, finalDamage);
         }
       });
       unit.missileBarrageActive = undefined;
@@ -2931,7 +2654,7 @@ function updateBases(state: GameState, deltaTime: number): void {
       }
       
       // Continuous healing
-      state.units.forEach((unit) => {
+      getNearbyUnits(state, base.position, REGEN_RADIUS).forEach((unit) => {
         if (unit.owner === base.owner) {
           const dist = distance(base.position, unit.position);
           if (dist <= REGEN_RADIUS && unit.hp < unit.maxHp) {
@@ -2948,7 +2671,7 @@ function updateBases(state: GameState, deltaTime: number): void {
       // Create visual pulse effect
       if (base.autoAttackCooldown === 0) {
         base.regenerationPulse = {
-          endTime: Date.now() + 500, // 0.5 second pulse duration
+          endTime: getSimulationTime(state) + 500, // 0.5 second pulse duration
           radius: REGEN_RADIUS,
         };
         base.autoAttackCooldown = REGEN_PULSE_INTERVAL;
@@ -2975,7 +2698,7 @@ function updateBases(state: GameState, deltaTime: number): void {
           let closestDist = Infinity;
 
           // Check enemy units
-          state.units.forEach((unit) => {
+          getNearbyUnits(state, base.position, baseTypeDef.autoAttack!.range).forEach((unit) => {
             if (unit.owner !== base.owner) {
               const dist = distance(base.position, unit.position);
               if (dist <= baseTypeDef.autoAttack!.range && dist < closestDist) {
@@ -3007,7 +2730,7 @@ function updateBases(state: GameState, deltaTime: number): void {
             projectile.owner = base.owner;
             projectile.color = state.players[base.owner].color;
             projectile.lifetime = PROJECTILE_LIFETIME;
-            projectile.createdAt = Date.now();
+            projectile.createdAt = getSimulationTime(state);
             projectile.sourceUnit = base.id;
             if (closestTarget.isUnit) {
               projectile.targetUnit = closestTarget.id;
@@ -3056,7 +2779,7 @@ function updateBases(state: GameState, deltaTime: number): void {
 
     // Activate shield for assault base when moving
     if (base.baseType === 'assault' && !base.shieldActive) {
-      base.shieldActive = { endTime: Date.now() + 10000 }; // Shield lasts while moving
+      base.shieldActive = { endTime: getSimulationTime(state) + 10000 }; // Shield lasts while moving
     }
 
     const direction = normalize(subtract(base.movementTarget, base.position));
@@ -3092,7 +2815,7 @@ function updateBases(state: GameState, deltaTime: number): void {
     
     // Update shield endTime to keep it active while moving (assault base)
     if (base.shieldActive) {
-      base.shieldActive.endTime = Date.now() + 100; // Keep extending while moving
+      base.shieldActive.endTime = getSimulationTime(state) + 100; // Keep extending while moving
     }
   });
 }
@@ -3120,9 +2843,9 @@ function updateStructures(state: GameState, deltaTime: number): void {
         let closestTarget: { position: Vector2; isUnit: boolean; id: string } | null = null;
         let closestDist = Infinity;
         
-        // Check enemy units
-        state.units.forEach((unit) => {
-          if (unit.owner !== structure.owner && isVisibleToPlayer(unit.position, state)) {
+        // Check enemy units the tower's owner can see
+        getNearbyUnits(state, structure.position, structureDef.attackRange).forEach((unit) => {
+          if (unit.owner !== structure.owner && isVisibleToPlayer(unit.position, state, structure.owner) && !isHiddenFrom(state, unit, structure.owner)) {
             const dist = distance(structure.position, unit.position);
             if (dist <= structureDef.attackRange && dist < closestDist) {
               closestDist = dist;
@@ -3153,7 +2876,7 @@ function updateStructures(state: GameState, deltaTime: number): void {
           projectile.owner = structure.owner;
           projectile.color = state.players[structure.owner].color;
           projectile.lifetime = PROJECTILE_LIFETIME;
-          projectile.createdAt = Date.now();
+          projectile.createdAt = getSimulationTime(state);
           projectile.sourceUnit = structure.id;
           if (closestTarget.isUnit) {
             projectile.targetUnit = closestTarget.id;
@@ -3161,7 +2884,7 @@ function updateStructures(state: GameState, deltaTime: number): void {
           state.projectiles.push(projectile);
           
           // Add muzzle flash effect
-          createMuzzleFlash(state, structure.position, direction, state.players[structure.owner].color);
+          emitEffect(state, { type: 'structureFired', position: structure.position, direction, color: state.players[structure.owner].color });
           
           // Set cooldown
           structure.attackCooldown = 1 / structureDef.attackRate;
@@ -3177,23 +2900,26 @@ function updateStructures(state: GameState, deltaTime: number): void {
       // Activate shield periodically
       if (structure.attackCooldown === 0) {
         structure.shieldActive = {
-          endTime: Date.now() + SHIELD_DURATION * 1000,
+          endTime: getSimulationTime(state) + SHIELD_DURATION * 1000,
           radius: SHIELD_RADIUS,
         };
         
         // Apply shield damage reduction to nearby allies
-        state.units.forEach((unit) => {
+        getNearbyUnits(state, structure.position, SHIELD_RADIUS).forEach((unit) => {
           if (unit.owner === structure.owner) {
             const dist = distance(structure.position, unit.position);
             if (dist <= SHIELD_RADIUS) {
               // Give temporary shield buff
-              if (!unit.shieldActive || Date.now() > unit.shieldActive.endTime) {
-                unit.shieldActive = {
-                  endTime: Date.now() + SHIELD_DURATION * 1000,
-                  radius: 0,
-                  rangedDamageMultiplier: 0.5, // Reduce ranged damage by 50%
-                  meleeDamageMultiplier: 0.8, // Reduce melee damage by 20%
-                };
+              if (!hasStatusEffect(unit, 'shield')) {
+                applyStatusEffect(state, unit, 'shield', {
+                  durationMs: SHIELD_DURATION * 1000,
+                  source: structure,
+                  dome: {
+                    radius: 0,
+                    rangedDamageMultiplier: 0.5, // Reduce ranged damage by 50%
+                    meleeDamageMultiplier: 0.8, // Reduce melee damage by 20%
+                  },
+                });
               }
             }
           }
@@ -3207,1020 +2933,451 @@ function updateStructures(state: GameState, deltaTime: number): void {
   // Remove destroyed structures with explosion effects
   state.structures = state.structures.filter(s => {
     if (s.hp <= 0) {
-      // Create destruction explosion (2.5x scale for building explosions)
-      createEnhancedDeathExplosion(state, s.position, state.players[s.owner].color, 2.5);
+      emitEffect(state, { type: 'structureDestroyed', position: s.position, color: state.players[s.owner].color });
       return false;
     }
     return true;
   });
 }
 
+// Where a cast was aimed, resolved from its command node and the ability's targeting
+interface AbilityCast {
+  origin: Vector2; // Caster position when cast
+  aim: Vector2; // Unit vector along the drag (zero for a zero-length drag)
+  magnitude: number; // Drag length
+  target: Vector2; // Aimed point, clamped to the ability range; the caster's position for self casts
+}
+
 function executeAbility(state: GameState, unit: Unit, node: CommandNode): void {
   if (node.type !== 'ability') return;
 
-  soundManager.playAbility();
+  const ability = ABILITY_DEFINITIONS[unit.type];
+  emitGameplayEvent(state, { type: 'abilityCast', unitId: unit.id, owner: unit.owner, unitType: unit.type, position: { ...unit.position } });
 
-  // Execute generic laser ability for all units except the Blade (warrior) who throws knives instead
-  if (unit.type !== 'warrior') {
+  // Most abilities also fire the generic laser; the Blade (warrior) throws knives instead
+  if (ability.laser) {
     executeGenericLaser(state, unit, node.direction);
   }
   // Ability cooldowns are temporarily disabled, so keep cooldown cleared.
   unit.abilityCooldown = 0;
-  
-  // Keep existing specific abilities as additional effects
-  if (unit.type === 'marine') {
-    createAbilityEffect(state, unit, node.position, 'burst-fire');
-    executeBurstFire(state, unit, node.direction);
-  } else if (unit.type === 'warrior') {
-    createAbilityEffect(state, unit, node.position, 'blade-volley');
-    executeBladeVolley(state, unit, node.direction);
-  } else if (unit.type === 'snaker') {
-    createAbilityEffect(state, unit, node.position, 'line-jump');
-    unit.lineJumpTelegraph = {
-      startTime: Date.now(),
-      endPos: add(unit.position, scale(normalize(node.direction), Math.min(distance({ x: 0, y: 0 }, node.direction), 10))),
-      direction: normalize(node.direction),
-    };
-  } else if (unit.type === 'tank') {
-    createAbilityEffect(state, unit, node.position, 'shield-dome');
-    executeShieldDome(state, unit);
-  } else if (unit.type === 'scout') {
-    createAbilityEffect(state, unit, node.position, 'cloak');
-    executeDaggerAmbush(state, unit, node.direction);
-  } else if (unit.type === 'artillery') {
-    createAbilityEffect(state, unit, node.position, 'bombardment');
-    executeArtilleryBombardment(state, unit, node.position);
-  } else if (unit.type === 'medic') {
-    createAbilityEffect(state, unit, node.position, 'heal-pulse');
-    executeHealPulse(state, unit);
-  } else if (unit.type === 'interceptor') {
-    createAbilityEffect(state, unit, node.position, 'missile-barrage');
-    executeMissileBarrage(state, unit, node.direction);
-  } else if (unit.type === 'marksman') {
-    createAbilityEffect(state, unit, node.position, 'precision-shot');
-    executePrecisionShot(state, unit, node.direction);
-  } else if (unit.type === 'engineer') {
-    createAbilityEffect(state, unit, node.position, 'deploy-turret');
-    executeDeployTurret(state, unit, node.position);
-  } else if (unit.type === 'skirmisher') {
-    createAbilityEffect(state, unit, node.position, 'rapid-retreat');
-    executeRapidRetreat(state, unit, node.direction);
-  } else if (unit.type === 'paladin') {
-    createAbilityEffect(state, unit, node.position, 'holy-strike');
-    executeHolyStrike(state, unit, node.direction);
-  } else if (unit.type === 'gladiator') {
-    createAbilityEffect(state, unit, node.position, 'lethal-strike');
-    executeLethalStrike(state, unit, node.direction);
-  } else if (unit.type === 'ravager') {
-    createAbilityEffect(state, unit, node.position, 'blood-hunt');
-    executeBloodHunt(state, unit);
-  } else if (unit.type === 'warlord') {
-    createAbilityEffect(state, unit, node.position, 'battle-cry');
-    executeBattleCry(state, unit);
-  } else if (unit.type === 'duelist') {
-    createAbilityEffect(state, unit, node.position, 'riposte');
-    executeRiposte(state, unit);
-  } else if (unit.type === 'voidwalker') {
-    createAbilityEffect(state, unit, node.position, 'void-step');
-    executeVoidStep(state, unit, node.position);
-  } else if (unit.type === 'chronomancer') {
-    createAbilityEffect(state, unit, node.position, 'time-dilation');
-    executeTimeDilation(state, unit);
-  } else if (unit.type === 'nebula') {
-    createAbilityEffect(state, unit, node.position, 'cosmic-barrier');
-    executeCosmicBarrier(state, unit, node.position);
-  } else if (unit.type === 'quasar') {
-    createAbilityEffect(state, unit, node.position, 'stellar-convergence');
-    executeStellarConvergence(state, unit, node.position);
-  } else if (unit.type === 'luminary') {
-    createAbilityEffect(state, unit, node.position, 'gravity-well');
-    executeGravityWell(state, unit, node.position);
-  } else if (unit.type === 'photon') {
-    createAbilityEffect(state, unit, node.position, 'chain-lightning');
-    executeChainLightning(state, unit, node.direction);
-  } else if (unit.type === 'starborn') {
-    createAbilityEffect(state, unit, node.position, 'orbital-strike');
-    executeOrbitalStrike(state, unit, node.position);
-  } else if (unit.type === 'prism') {
-    createAbilityEffect(state, unit, node.position, 'light-refraction');
-    executeLightRefraction(state, unit, node.direction);
-  } else if (unit.type === 'berserker') {
-    createAbilityEffect(state, unit, node.position, 'rage');
-    executeRage(state, unit);
-  } else if (unit.type === 'assassin') {
-    createAbilityEffect(state, unit, node.position, 'shadow-strike');
-    executeShadowStrike(state, unit, node.position);
-  } else if (unit.type === 'juggernaut') {
-    createAbilityEffect(state, unit, node.position, 'ground-slam');
-    executeGroundSlam(state, unit);
-  } else if (unit.type === 'striker') {
-    createAbilityEffect(state, unit, node.position, 'whirlwind');
-    executeWhirlwind(state, unit);
-  } else if (unit.type === 'flare') {
-    createAbilityEffect(state, unit, node.position, 'solar-beam');
-    executeSolarBeam(state, unit, node.direction);
-  } else if (unit.type === 'nova') {
-    createAbilityEffect(state, unit, node.position, 'stellar-burst');
-    executeStellarBurst(state, unit);
-  } else if (unit.type === 'eclipse') {
-    createAbilityEffect(state, unit, node.position, 'shadow-veil');
-    executeShadowVeil(state, unit);
-  } else if (unit.type === 'corona') {
-    createAbilityEffect(state, unit, node.position, 'radiation-wave');
-    executeRadiationWave(state, unit, node.direction);
-  } else if (unit.type === 'supernova') {
-    createAbilityEffect(state, unit, node.position, 'cosmic-explosion');
-    executeCosmicExplosion(state, unit, node.position);
-  } else if (unit.type === 'guardian') {
-    createAbilityEffect(state, unit, node.position, 'protect-allies');
-    executeProtectAllies(state, unit);
-  } else if (unit.type === 'reaper') {
-    createAbilityEffect(state, unit, node.position, 'soul-strike');
-    executeSoulStrike(state, unit, node.direction);
-  } else if (unit.type === 'oracle') {
-    createAbilityEffect(state, unit, node.position, 'divine-restoration');
-    executeDivineRestoration(state, unit);
-  } else if (unit.type === 'harbinger') {
-    createAbilityEffect(state, unit, node.position, 'ethereal-strike');
-    executeEtherealStrike(state, unit, node.direction);
-  } else if (unit.type === 'zenith') {
-    createAbilityEffect(state, unit, node.position, 'solar-blessing');
-    executeSolarBlessing(state, unit);
-  } else if (unit.type === 'pulsar') {
-    createAbilityEffect(state, unit, node.position, 'stellar-dive');
-    executeStellarDive(state, unit, node.position);
-  } else if (unit.type === 'celestial') {
-    createAbilityEffect(state, unit, node.position, 'astral-charge');
-    executeAstralCharge(state, unit, node.position);
+
+  const cast = resolveAbilityCast(unit, ability, node.direction);
+  emitEffect(state, { type: 'abilityCast', ability: ability.visual, owner: unit.owner, origin: unit.position, target: cast.target });
+
+  // A component can end the cast early (a leap with nothing to leap at); its visuals are skipped too
+  const completed = ability.components.every((component) => applyAbilityComponent(state, unit, cast, component));
+  if (completed) {
+    ability.visuals.forEach((visual) => showAbilityVisual(state, unit, ability, cast, visual));
   }
+
+  // Blinks, dashes and charges teleport units further than the index query margin
+  invalidateUnitIndex(state);
 }
 
-function executeGenericLaser(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  // Calculate laser range based on the drag distance
-  const dragDistance = distance({ x: 0, y: 0 }, direction);
-  const laserRange = Math.min(dragDistance, ABILITY_MAX_RANGE);
-  
-  const dir = normalize(direction);
-  
-  // Store laser beam for visual effect
-  unit.laserBeam = {
-    endTime: Date.now() + ABILITY_LASER_DURATION,
-    direction: { ...dir },
-    range: laserRange
-  };
-  
-  // Create laser particle effects
-  const laserColor = state.players[unit.owner].color;
-  createLaserParticles(state, unit.position, dir, laserRange, laserColor);
-  
-  // Deal damage to enemies hit by the laser
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
-  
-  const damage = ABILITY_LASER_DAMAGE * unit.damageMultiplier;
-  const laserWidthHalf = ABILITY_LASER_WIDTH / 2;
-  
-  // Check units in the laser path (using perpendicular distance from laser line)
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x); // 2D cross product for perpendicular distance
-    
-    if (projectedDist > 0 && projectedDist < laserRange && perpDist < laserWidthHalf) {
-      const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
-      const finalDamage = damage * shieldMultiplier;
-      enemy.hp -= finalDamage;
-      createHitSparks(state, enemy.position, laserColor, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += finalDamage;
-      }
-    }
-  });
-  
-  // Check bases in the laser path
-  enemyBases.forEach((base) => {
-    const toBase = subtract(base.position, unit.position);
-    const projectedDist = toBase.x * dir.x + toBase.y * dir.y;
-    const perpDist = Math.abs(toBase.x * dir.y - toBase.y * dir.x);
-    
-    const baseRadius = BASE_SIZE_METERS / 2;
-    if (projectedDist > 0 && projectedDist < laserRange && perpDist < laserWidthHalf + baseRadius) {
-      const baseDamage = damage * ABILITY_LASER_BASE_DAMAGE_MULTIPLIER;
-      base.hp -= baseDamage;
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += baseDamage;
+function resolveAbilityCast(unit: Unit, ability: AbilityDefinition, direction: Vector2): AbilityCast {
+  const origin = { ...unit.position };
+  const magnitude = distance({ x: 0, y: 0 }, direction);
+  const aim = normalize(direction);
+  if (ability.targeting === 'self') {
+    return { origin, aim, magnitude, target: origin };
+  }
+  return { origin, aim, magnitude, target: add(origin, scale(aim, Math.min(magnitude, ability.range))) };
+}
+
+// Apply one effect component of a cast; returns false to end the cast
+function applyAbilityComponent(state: GameState, unit: Unit, cast: AbilityCast, component: AbilityComponent): boolean {
+  const now = getSimulationTime(state);
+
+  switch (component.kind) {
+    case 'damage':
+      scheduleAbilityDamage(state, unit, cast, component);
+      return true;
+    case 'strike':
+      executeAbilityStrike(state, unit, cast, component);
+      return true;
+    case 'chain':
+      executeChainLightning(state, unit, cast, component);
+      return true;
+    case 'heal':
+      executeAbilityHeal(state, unit, component);
+      return true;
+    case 'shield':
+      executeAbilityShield(state, unit, component);
+      return true;
+    case 'dash':
+      if (component.to === 'target') {
+        unit.position = { ...cast.target };
+      } else {
+        const dashDistance = component.to === 'forward' ? component.distance ?? 0 : -(component.distance ?? 0);
+        unit.position = add(unit.position, scale(cast.aim, dashDistance));
       }
-    }
-  });
+      return true;
+    case 'leap':
+      return executeAbilityLeap(state, unit, cast, component);
+    case 'summon':
+      executeAbilitySummon(state, unit, cast, component);
+      return true;
+    case 'status':
+      executeAbilityStatus(state, unit, component);
+      return true;
+    case 'pull':
+      executeGravityWell(state, unit, cast, component);
+      return true;
+    case 'bombardment':
+      unit.bombardmentActive = {
+        endTime: now + component.delayMs + component.durationMs,
+        targetPos: { ...cast.target },
+        impactTime: now + component.delayMs,
+      };
+      return true;
+    case 'missiles':
+      executeMissileBarrage(state, unit, cast, component);
+      return true;
+    case 'knifeVolley':
+      // Store volley timing so updateAbilityEffects can emit knives in sequence.
+      unit.bladeVolley = {
+        startTime: now,
+        direction: cast.aim,
+        magnitude: cast.magnitude,
+        scrunchEndTime: now + component.windupMs,
+        nextShotTime: now + component.windupMs,
+        shotsFired: 0,
+      };
+      return true;
+    case 'ambush':
+      // Reveal immediately, then schedule the delayed knife throw and recloak.
+      removeStatusEffect(unit, 'cloak');
+      unit.daggerAmbush = {
+        throwTime: now + component.delayMs,
+        recloakTime: now + component.delayMs + component.revealMs,
+        direction: cast.aim,
+        knifeFired: false,
+      };
+      return true;
+    case 'lineJump':
+      unit.lineJumpTelegraph = {
+        startTime: now,
+        endPos: cast.target,
+        direction: cast.aim,
+      };
+      return true;
+  }
 }
 
-function executeBladeVolley(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const now = Date.now();
-  const magnitude = distance({ x: 0, y: 0 }, direction);
-  const normalized = normalize(direction);
-
-  // Store volley timing so updateAbilityEffects can emit knives in sequence.
-  unit.bladeVolley = {
-    startTime: now,
-    direction: normalized,
-    magnitude,
-    scrunchEndTime: now + BLADE_KNIFE_SCRUNCH_DURATION * 1000,
-    nextShotTime: now + BLADE_KNIFE_SCRUNCH_DURATION * 1000,
-    shotsFired: 0,
+function showAbilityVisual(state: GameState, unit: Unit, ability: AbilityDefinition, cast: AbilityCast, visual: AbilityVisual): void {
+  const color = state.players[unit.owner].color;
+  const show = () => {
+    switch (visual.kind) {
+      case 'pulse': {
+        const position = visual.at === 'origin' ? cast.origin : visual.at === 'target' ? cast.target : unit.position;
+        emitEffect(state, { type: 'energyPulse', position, color, radius: visual.radius, duration: visual.duration });
+        break;
+      }
+      case 'flash':
+        emitEffect(state, { type: 'screenFlash', color, intensity: visual.intensity, duration: visual.duration });
+        break;
+      case 'beams':
+        ability.components.forEach((component) => {
+          if (component.kind !== 'damage' || component.area.shape !== 'line') return;
+          const range = component.area.length;
+          getLineDirections(component.area, cast.aim).forEach((direction) => {
+            emitEffect(state, { type: 'laserFired', origin: unit.position, direction, range, color });
+          });
+        });
+        break;
+      case 'shells':
+        for (let i = 0; i < visual.count; i++) {
+          emitEffect(state, { type: 'shellEjected', position: unit.position, direction: cast.aim, owner: unit.owner });
+        }
+        break;
+    }
   };
+
+  if (visual.delayMs) {
+    scheduleSimulationTask(state, visual.delayMs, show);
+  } else {
+    show();
+  }
 }
 
-// Spawn a single throwing knife projectile for the Blade volley.
-function fireBladeKnife(state: GameState, unit: Unit, direction: Vector2, magnitude: number, angleOffset: number): void {
-  const clampedMagnitude = Math.min(magnitude, ABILITY_MAX_RANGE);
-  const speedScale = clampedMagnitude / ABILITY_MAX_RANGE;
-  const baseAngle = direction.x === 0 && direction.y === 0 ? 0 : Math.atan2(direction.y, direction.x);
-  const angle = baseAngle + (angleOffset * Math.PI) / 180;
-  const throwDirection = { x: Math.cos(angle), y: Math.sin(angle) };
-  const throwRange = Math.max(0.5, clampedMagnitude);
-  const targetPos = add(unit.position, scale(throwDirection, throwRange));
-  const damage = BLADE_KNIFE_DAMAGE * unit.damageMultiplier;
-  const projectile = createProjectile(state, unit, targetPos, undefined, {
-    speed: BLADE_KNIFE_BASE_SPEED * speedScale,
-    damage,
-    kind: 'knife',
-    lifetime: BLADE_KNIFE_LIFETIME,
-    startOffset: BLADE_KNIFE_START_OFFSET,
-  });
+// Directions of the lines in a line area: the aim, or a fan centered on it
+function getLineDirections(area: Extract<AbilityArea, { shape: 'line' }>, aim: Vector2): Vector2[] {
+  const count = area.count ?? 1;
+  if (count <= 1) return [aim];
 
-  state.projectiles.push(projectile);
+  const baseAngle = Math.atan2(aim.y, aim.x);
+  const step = ((area.spread ?? 0) * Math.PI) / 180 / (count - 1);
+  return Array.from({ length: count }, (_, i) => {
+    const angle = baseAngle + (i - (count - 1) / 2) * step;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
 }
 
-// Spawn a single throwing knife projectile for the Dagger ambush ability.
-function fireDaggerKnife(state: GameState, unit: Unit, direction: Vector2): void {
-  const throwDirection = direction.x === 0 && direction.y === 0 ? { x: 1, y: 0 } : normalize(direction);
-  const targetPos = add(unit.position, scale(throwDirection, DAGGER_KNIFE_RANGE));
-  const damage = DAGGER_KNIFE_DAMAGE * unit.damageMultiplier;
-  const projectile = createProjectile(state, unit, targetPos, undefined, {
-    speed: DAGGER_KNIFE_SPEED,
-    damage,
-    kind: 'knife',
-    lifetime: DAGGER_KNIFE_LIFETIME,
-    startOffset: DAGGER_KNIFE_START_OFFSET,
-  });
+// One containment test per part of an area (each line of a fan hits separately).
+// Padding widens lines, paths and cones for targets with a footprint, like bases.
+function getAbilityAreaTests(unit: Unit, cast: AbilityCast, area: AbilityArea): Array<(position: Vector2, padding: number) => boolean> {
+  const origin = { ...unit.position };
+  const inLine = (direction: Vector2, length: number, halfWidth: number, widening: number) => (position: Vector2, padding: number) => {
+    const toTarget = subtract(position, origin);
+    const projectedDist = toTarget.x * direction.x + toTarget.y * direction.y;
+    const perpDist = Math.abs(toTarget.x * direction.y - toTarget.y * direction.x);
+    return projectedDist > 0 && distance(origin, position) <= length && perpDist < halfWidth + projectedDist * widening + padding;
+  };
 
-  state.projectiles.push(projectile);
+  switch (area.shape) {
+    case 'circle': {
+      const center = area.anchor === 'caster' ? origin : cast.target;
+      return [(position) => distance(position, center) <= area.radius];
+    }
+    case 'line':
+      return getLineDirections(area, cast.aim).map((direction) => inLine(direction, area.length, area.halfWidth, 0));
+    case 'path':
+      return [inLine(normalize(subtract(cast.target, origin)), distance(origin, cast.target), area.halfWidth, 0)];
+    case 'cone':
+      return [inLine(cast.aim, area.length, area.halfWidth, area.widening)];
+  }
 }
 
-function executeBurstFire(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const def = UNIT_DEFINITIONS.marine;
-  const shotDamage = 2 * unit.damageMultiplier;
-  const maxRange = def.attackRange;
+function scheduleAbilityDamage(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'damage' }>): void {
+  const { delayMs, durationMs, tickMs } = component;
+
+  if (tickMs && durationMs) {
+    // Spread the damage over ticks for the duration
+    const share = tickMs / durationMs;
+    const startTicks = () => {
+      scheduleSimulationTask(state, tickMs, () => dealAbilityDamage(state, unit, cast, component, share), tickMs, getSimulationTime(state) + durationMs);
+    };
+    if (delayMs) {
+      scheduleSimulationTask(state, delayMs, startTicks);
+    } else {
+      startTicks();
+    }
+  } else if (delayMs) {
+    scheduleSimulationTask(state, delayMs, () => dealAbilityDamage(state, unit, cast, component, 1));
+  } else {
+    dealAbilityDamage(state, unit, cast, component, 1);
+  }
+}
 
+function dealAbilityDamage(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'damage' }>, share: number): void {
+  const color = state.players[unit.owner].color;
   const enemies = state.units.filter((u) => u.owner !== unit.owner);
   const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
+  const baseRadius = component.area.shape === 'circle' ? 0 : BASE_SIZE_METERS / 2;
+  let totalDamage = 0;
 
-  const dir = normalize(direction);
-
-  for (let i = 0; i < 10; i++) {
-    if (!state.shells) {
-      state.shells = [];
-    }
-    state.shells.push(createEjectedShell(unit, dir));
+  getAbilityAreaTests(unit, cast, component.area).forEach((contains) => {
+    enemies.forEach((enemy) => {
+      if (!contains(enemy.position, 0)) return;
 
-    let hitTarget: Unit | Base | null = null;
-    let minDist = Infinity;
+      const damage = component.amount * share * getUnitDamageMultiplier(unit);
+      const finalDamage = component.respectsShields ? damage * getShieldDamageMultiplier(state, enemy, 'ranged') : damage;
+      enemy.hp -= finalDamage;
+      totalDamage += finalDamage;
+      if (component.sparkChance === undefined || nextRandom(state) < component.sparkChance) {
+        emitEffect(state, { type: 'hitLanded', position: enemy.position, color, sparks: component.sparks });
+      }
 
-    enemies.forEach((enemy) => {
-      const toEnemy = subtract(enemy.position, unit.position);
-      const dist = distance(unit.position, enemy.position);
-      if (dist > maxRange) return;
+      reportDamage(state, unit, enemy, finalDamage);
+    });
 
-      const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-      const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
+    if (component.baseAmount === undefined) return;
+    enemyBases.forEach((base) => {
+      if (!contains(base.position, baseRadius)) return;
 
-      if (projectedDist > 0 && perpDist < UNIT_SIZE_METERS / 2 && dist < minDist) {
-        minDist = dist;
-        hitTarget = enemy;
+      const baseDamage = component.baseAmount! * share * getUnitDamageMultiplier(unit);
+      base.hp -= baseDamage;
+      if (component.baseImpact && component.area.shape === 'circle') {
+        emitEffect(state, { type: 'impact', position: base.position, color, size: component.area.radius });
       }
+
+      reportDamage(state, unit, base, baseDamage);
     });
+  });
 
-    if (hitTarget) {
-      const targetUnit = hitTarget as Unit;
-      const shieldMultiplier = getShieldDamageMultiplier(state, targetUnit, 'ranged');
-      const finalDamage = shotDamage * shieldMultiplier;
-      targetUnit.hp -= finalDamage;
-      
-      // Create hit spark effect
-      createHitSparks(state, hitTarget.position, state.players[unit.owner].color, 4);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += finalDamage;
-      }
-    }
+  if (component.lifeSteal) {
+    unit.hp = Math.min(unit.hp + totalDamage * component.lifeSteal, unit.maxHp);
   }
 }
 
-function executeLineJump(state: GameState, unit: Unit): void {
-  if (!unit.lineJumpTelegraph) return;
+// Single-target hit on the nearest or furthest visible enemy along the aim
+function executeAbilityStrike(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'strike' }>): void {
+  const dir = cast.aim;
+  let target: Unit | null = null;
+  let bestDist = component.pick === 'nearest' ? Infinity : 0;
 
-  const { endPos, direction } = unit.lineJumpTelegraph;
-  const startPos = { ...unit.position };
+  for (const enemy of getTargetableEnemies(state, unit, component.reach)) {
+    const toEnemy = subtract(enemy.position, unit.position);
+    const dist = distance(unit.position, enemy.position);
+    if (dist > component.reach) continue;
 
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  const hitEnemies = new Set<string>();
+    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
+    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
+    const better = component.pick === 'nearest' ? dist < bestDist : dist > bestDist;
+    if (projectedDist > 0 && perpDist < component.halfWidth && better) {
+      bestDist = dist;
+      target = enemy;
+    }
+  }
 
-  const jumpDist = distance(startPos, endPos);
-  const steps = Math.ceil(jumpDist * 10);
+  if (!target) return;
 
-  for (let i = 0; i <= steps; i++) {
-    const t = i / steps;
-    const checkPos = {
-      x: startPos.x + (endPos.x - startPos.x) * t,
-      y: startPos.y + (endPos.y - startPos.y) * t,
-    };
+  const color = state.players[unit.owner].color;
+  for (let i = 0; i < (component.hits ?? 1); i++) {
+    const amount = component.currentHpFraction ? Math.min(target.hp * component.currentHpFraction, component.amount) : component.amount;
+    const damage = amount * getUnitDamageMultiplier(unit);
+    const finalDamage = component.respectsShields ? damage * getShieldDamageMultiplier(state, target, 'ranged') : damage;
+    target.hp -= finalDamage;
+    emitEffect(state, { type: 'hitLanded', position: target.position, color, sparks: component.sparks });
 
-    enemies.forEach((enemy) => {
-      if (hitEnemies.has(enemy.id)) return;
-      if (distance(enemy.position, checkPos) < UNIT_SIZE_METERS) {
-        const damage = 20 * unit.damageMultiplier;
-        enemy.hp -= damage;
-        hitEnemies.add(enemy.id);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += damage;
-        }
-      }
-    });
+    reportDamage(state, unit, target, finalDamage);
   }
 
-  unit.position = endPos;
+  if (component.hitPulse) {
+    emitEffect(state, { type: 'energyPulse', position: target.position, color, radius: component.hitPulse.radius, duration: component.hitPulse.duration });
+  }
 }
 
-function executeShieldDome(state: GameState, unit: Unit): void {
-  unit.shieldActive = {
-    endTime: Date.now() + 5000,
-    radius: 4,
-    rangedDamageMultiplier: 0.5,
-    meleeDamageMultiplier: 1,
-  };
-}
-
-function executeDaggerAmbush(state: GameState, unit: Unit, direction: Vector2): void {
-  const now = Date.now();
-
-  // Reveal immediately, then schedule the delayed knife throw and recloak.
-  unit.cloaked = undefined;
-  unit.daggerAmbush = {
-    throwTime: now + DAGGER_KNIFE_DELAY * 1000,
-    recloakTime: now + (DAGGER_KNIFE_DELAY + DAGGER_REVEAL_AFTER_THROW) * 1000,
-    direction: normalize(direction),
-    knifeFired: false,
-  };
-}
-
-function executeArtilleryBombardment(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  unit.bombardmentActive = {
-    endTime: Date.now() + 2000,
-    targetPos,
-    impactTime: Date.now() + 1500,
-  };
-}
-
-function executeHealPulse(state: GameState, unit: Unit): void {
-  const healAmount = 50;
-  const healRadius = 5;
-  
-  unit.healPulseActive = {
-    endTime: Date.now() + 1000,
-    radius: healRadius,
-  };
-
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= healRadius) {
-      ally.hp = Math.min(ally.hp + healAmount, ally.maxHp);
-    }
-  });
-
-  const allyBases = state.bases.filter((b) => b.owner === unit.owner);
-  allyBases.forEach((base) => {
-    if (distance(base.position, unit.position) <= healRadius) {
-      base.hp = Math.min(base.hp + healAmount * 2, base.maxHp);
-    }
-  });
-}
-
-function executeMissileBarrage(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const enemies = getTargetableEnemies(state, unit);
-  const dir = normalize(direction);
-  
-  const missiles: Array<{ position: Vector2; target: Vector2; damage: number }> = [];
-  
-  const enemiesInDirection = enemies.filter((e) => {
-    const toEnemy = subtract(e.position, unit.position);
-    const dist = distance(unit.position, e.position);
-    if (dist > 12) return false;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    return projectedDist > 0;
-  }).sort((a, b) => distance(unit.position, a.position) - distance(unit.position, b.position));
-
-  for (let i = 0; i < Math.min(6, enemiesInDirection.length); i++) {
-    missiles.push({
-      position: { ...unit.position },
-      target: { ...enemiesInDirection[i].position },
-      damage: 15 * unit.damageMultiplier,
-    });
-  }
-
-  unit.missileBarrageActive = {
-    endTime: Date.now() + 1500,
-    missiles,
-  };
-}
-
-// Radiant faction abilities
-function executePrecisionShot(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const enemies = getTargetableEnemies(state, unit);
-  
-  let target: Unit | Base | null = null;
-  let maxDist = 0;
-  
-  // Find furthest target in direction
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const dist = distance(unit.position, enemy.position);
-    if (dist > 18) return;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    if (projectedDist > 0 && perpDist < 1 && dist > maxDist) {
-      maxDist = dist;
-      target = enemy;
-    }
-  });
-  
-  if (target) {
-    const targetUnit = target as Unit;
-    const damage = 50 * unit.damageMultiplier;
-    const shieldMultiplier = getShieldDamageMultiplier(state, targetUnit, 'ranged');
-    const finalDamage = damage * shieldMultiplier;
-    targetUnit.hp -= finalDamage;
-    createHitSparks(state, target.position, state.players[unit.owner].color, 8);
-    createEnergyPulse(state, target.position, state.players[unit.owner].color, 1.5, 0.3);
-    
-    if (state.matchStats && unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += finalDamage;
-    }
-  }
-}
-
-function executeDeployTurret(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  // Create a temporary stationary unit that acts as a turret
-  const turret: Unit = {
-    id: `turret-${Date.now()}-${Math.random()}`,
-    type: 'scout', // Use scout as base type for turret
-    owner: unit.owner,
-    position: { ...targetPos },
-    hp: 30,
-    maxHp: 30,
-    armor: 0,
-    commandQueue: [],
-    damageMultiplier: 0.5,
-    distanceTraveled: 0,
-    distanceCredit: 0,
-    abilityCooldown: 999, // High cooldown to prevent turret from using ability
-  };
-  
-  state.units.push(turret);
-  createSpawnEffect(state, targetPos, state.players[unit.owner].color);
-  
-  // Remove turret after 10 seconds
-  setTimeout(() => {
-    const index = state.units.findIndex(u => u.id === turret.id);
-    if (index !== -1) {
-      state.units.splice(index, 1);
-    }
-  }, 10000);
-}
-
-function executeRapidRetreat(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const retreatDistance = 8;
-  const dir = normalize(direction);
-  const retreatPos = {
-    x: unit.position.x - dir.x * retreatDistance,
-    y: unit.position.y - dir.y * retreatDistance,
-  };
-  
-  unit.position = retreatPos;
-  unit.cloaked = {
-    endTime: Date.now() + 2000,
-  };
-  createEnergyPulse(state, retreatPos, state.players[unit.owner].color, 2, 0.3);
-}
-
-function executeHolyStrike(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const dist = distance(unit.position, enemy.position);
-    if (dist > 6) return;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    if (projectedDist > 0 && perpDist < 2) {
-      const damage = 40 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-}
-
-// Aurum faction abilities
-function executeLethalStrike(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const enemies = getTargetableEnemies(state, unit);
-  
-  let target: Unit | null = null;
-  let minDist = Infinity;
-  
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const dist = distance(unit.position, enemy.position);
-    if (dist > 3) return;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    
-    if (projectedDist > 0 && dist < minDist) {
-      minDist = dist;
-      target = enemy;
-    }
-  });
-  
-  if (target) {
-    // High damage, execution-style ability
-    const damage = Math.min(target.hp * 0.5, 100) * unit.damageMultiplier;
-    target.hp -= damage;
-    createHitSparks(state, target.position, state.players[unit.owner].color, 10);
-    createEnergyPulse(state, target.position, state.players[unit.owner].color, 2, 0.5);
-    
-    if (state.matchStats && unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += damage;
-    }
-  }
-}
-
-function executeBloodHunt(state: GameState, unit: Unit): void {
-  // Life steal ability - damage nearby enemies and heal
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  let totalDamage = 0;
-  
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 3) {
-      const damage = 15 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      totalDamage += damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 4);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-  
-  // Heal for half the damage dealt
-  unit.hp = Math.min(unit.hp + totalDamage * 0.5, unit.maxHp);
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 3, 0.4);
-}
-
-function executeBattleCry(state: GameState, unit: Unit): void {
-  // Buff nearby allies
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= 6) {
-      ally.damageMultiplier += 0.5;
-      createEnergyPulse(state, ally.position, state.players[unit.owner].color, 2, 0.3);
-      
-      // Reset buff after 5 seconds
-      setTimeout(() => {
-        ally.damageMultiplier = Math.max(1, ally.damageMultiplier - 0.5);
-      }, 5000);
-    }
-  });
-}
-
-function executeRiposte(state: GameState, unit: Unit): void {
-  // Counter-attack ability - briefly invulnerable and damages attackers
-  unit.shieldActive = {
-    endTime: Date.now() + 2000,
-    radius: 2,
-    meleeDamageMultiplier: 0.3,
-  };
-  
-  // Damage nearby enemies
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 2) {
-      const damage = 25 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-}
-
-// Solari faction abilities
-function executeVoidStep(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  // Teleport to location
-  const maxRange = 12;
-  const actualDistance = distance(unit.position, targetPos);
-  
-  if (actualDistance <= maxRange) {
-    createEnergyPulse(state, unit.position, state.players[unit.owner].color, 3, 0.4);
-    unit.position = { ...targetPos };
-    createEnergyPulse(state, targetPos, state.players[unit.owner].color, 3, 0.4);
-  }
-}
-
-function executeTimeDilation(state: GameState, unit: Unit): void {
-  // Slow enemies in area
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 7) {
-      const def = UNIT_DEFINITIONS[enemy.type];
-      // Temporarily reduce move speed
-      enemy.currentSpeed = def.moveSpeed * 0.3;
-      
-      createEnergyPulse(state, enemy.position, state.players[unit.owner].color, 2, 0.3);
-      
-      // Restore speed after 4 seconds
-      setTimeout(() => {
-        enemy.currentSpeed = undefined;
-      }, 4000);
-    }
-  });
-}
-
-function executeCosmicBarrier(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  // Create temporary obstacle/barrier effect
-  // This is simulated by creating a shield dome at target position
-  unit.shieldActive = {
-    endTime: Date.now() + 6000,
-    radius: 3,
-    meleeDamageMultiplier: 0.3,
-  };
-  
-  createEnergyPulse(state, targetPos, state.players[unit.owner].color, 3, 0.5);
-}
-
-function executeStellarConvergence(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  // Delayed area damage ability
-  unit.bombardmentActive = {
-    endTime: Date.now() + 3000,
-    targetPos,
-    impactTime: Date.now() + 2500,
-  };
-  
-  // Deal heavy damage at impact
-  setTimeout(() => {
-    const enemies = state.units.filter((u) => u.owner !== unit.owner);
-    const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
-    
-    enemies.forEach((enemy) => {
-      if (distance(enemy.position, targetPos) <= 4) {
-        const damage = 60 * unit.damageMultiplier;
-        enemy.hp -= damage;
-        createHitSparks(state, enemy.position, state.players[unit.owner].color, 8);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += damage;
-        }
-      }
-    });
-    
-    enemyBases.forEach((base) => {
-      if (distance(base.position, targetPos) <= 4) {
-        const baseDamage = 80 * unit.damageMultiplier;
-        base.hp -= baseDamage;
-        createImpactEffect(state, base.position, state.players[unit.owner].color, 4);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += baseDamage;
-        }
-      }
-    });
-    
-    createEnergyPulse(state, targetPos, state.players[unit.owner].color, 4, 0.8);
-  }, 2500);
-}
-
-// Luminary - Gravity Well: Pull enemies toward a point and hold them briefly
-function executeGravityWell(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  const PULL_RADIUS = 8; // Radius to detect enemies
-  const PULL_FORCE = 0.8; // Strength of pull per frame
-  const PULL_DURATION = 3000; // Duration in milliseconds
-  const HOLD_RADIUS = 2.5; // Enemies within this radius are held in place
-  
+// Lightning that jumps between enemies
+function executeChainLightning(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'chain' }>): void {
+  const dir = cast.aim;
+  const color = state.players[unit.owner].color;
   const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  const affectedEnemies: Unit[] = [];
-  
-  // Find enemies in range
-  enemies.forEach((enemy) => {
-    if (distance(enemy.position, targetPos) <= PULL_RADIUS) {
-      affectedEnemies.push(enemy);
-    }
-  });
-  
-  createEnergyPulse(state, targetPos, state.players[unit.owner].color, PULL_RADIUS, 0.5);
-  
-  // Apply pull effect over time
-  const pullInterval = setInterval(() => {
-    affectedEnemies.forEach((enemy) => {
-      // Check if enemy still exists
-      if (!state.units.includes(enemy)) return;
-      
-      const dist = distance(enemy.position, targetPos);
-      
-      // Hold enemies in place if they're at the center
-      if (dist < HOLD_RADIUS) {
-        enemy.currentSpeed = 0;
-      } else {
-        // Pull toward center
-        const direction = normalize(subtract(targetPos, enemy.position));
-        enemy.position.x += direction.x * PULL_FORCE;
-        enemy.position.y += direction.y * PULL_FORCE;
-        
-        // Visual feedback
-        if (Math.random() < 0.3) {
-          createHitSparks(state, enemy.position, state.players[unit.owner].color, 2);
-        }
-      }
-    });
-  }, 50); // Update every 50ms for smooth pulling
-  
-  // End pull effect after duration
-  setTimeout(() => {
-    clearInterval(pullInterval);
-    affectedEnemies.forEach((enemy) => {
-      if (state.units.includes(enemy)) {
-        enemy.currentSpeed = undefined; // Restore normal speed
-      }
-    });
-    createEnergyPulse(state, targetPos, state.players[unit.owner].color, 3, 0.3);
-  }, PULL_DURATION);
-}
 
-// Photon - Chain Lightning: Lightning that jumps between enemies
-function executeChainLightning(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const MAX_JUMPS = 5; // Maximum number of jumps
-  const JUMP_RANGE = 6; // Maximum distance for jumps
-  const BASE_DAMAGE = 30; // Base damage
-  const DAMAGE_FALLOFF = 0.8; // Damage multiplier per jump
-  
-  const dir = normalize(direction);
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
   // Find first target in direction
   let currentTarget: Unit | null = null;
   let shortestDist = Infinity;
-  
+
   enemies.forEach((enemy) => {
     const toEnemy = subtract(enemy.position, unit.position);
     const dist = distance(unit.position, enemy.position);
     const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
     const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    // Check if enemy is in the general direction (within a cone)
-    if (projectedDist > 0 && dist < 12 && perpDist < 3 && dist < shortestDist) {
+
+    // Check if enemy is in the general direction (within a band)
+    if (projectedDist > 0 && dist < component.reach && perpDist < component.halfWidth && dist < shortestDist) {
       currentTarget = enemy;
       shortestDist = dist;
     }
   });
-  
+
   if (!currentTarget) {
-    createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.3);
+    emitEffect(state, { type: 'energyPulse', position: unit.position, color, radius: 2, duration: 0.3 });
     return;
   }
-  
+
   // Chain through targets
   const hitTargets = new Set<string>();
-  let currentDamage = BASE_DAMAGE * unit.damageMultiplier;
-  let jumpsRemaining = MAX_JUMPS;
+  let currentDamage = component.amount * getUnitDamageMultiplier(unit);
+  let jumpsRemaining = component.jumps;
   let lastPosition = unit.position;
-  
+
   const processJump = (target: Unit) => {
     if (!target || hitTargets.has(target.id) || !state.units.includes(target)) {
       return null;
     }
-    
+
     // Deal damage
     const shieldMultiplier = getShieldDamageMultiplier(state, target, 'ranged');
     const finalDamage = currentDamage * shieldMultiplier;
     target.hp -= finalDamage;
     hitTargets.add(target.id);
-    
-    // Visual effect
-    createHitSparks(state, target.position, state.players[unit.owner].color, 8);
-    
-    // Track stats
-    if (state.matchStats && unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += finalDamage;
-    }
-    
+
+    emitEffect(state, { type: 'hitLanded', position: target.position, color, sparks: component.sparks });
+
+    reportDamage(state, unit, target, finalDamage);
+
     // Reduce damage for next jump
-    currentDamage *= DAMAGE_FALLOFF;
+    currentDamage *= component.falloff;
     jumpsRemaining--;
-    
+
     // Find next target
     if (jumpsRemaining > 0) {
       let nextTarget: Unit | null = null;
       let closestDist = Infinity;
-      
+
       enemies.forEach((enemy) => {
         if (!hitTargets.has(enemy.id)) {
           const dist = distance(target.position, enemy.position);
-          if (dist <= JUMP_RANGE && dist < closestDist) {
+          if (dist <= component.jumpRange && dist < closestDist) {
             nextTarget = enemy;
             closestDist = dist;
           }
         }
       });
-      
+
       lastPosition = target.position;
       return nextTarget;
     }
-    
+
     return null;
   };
-  
+
   // Execute the chain
   let current: Unit | null = currentTarget;
   while (current && jumpsRemaining > 0) {
     current = processJump(current);
   }
-  
-  createEnergyPulse(state, lastPosition, state.players[unit.owner].color, 3, 0.6);
+
+  emitEffect(state, { type: 'energyPulse', position: lastPosition, color, radius: 3, duration: 0.6 });
 }
 
-// Starborn - Orbital Strike: Call down a powerful beam from above at target location
-function executeOrbitalStrike(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  const BEAM_DELAY = 1500; // Delay before beam impacts
-  const BEAM_DURATION = 2000; // Duration of beam
-  const BEAM_RADIUS = 2; // Radius of the beam
-  const BEAM_DAMAGE = 50; // Base damage
-  const BEAM_TICK_INTERVAL = 200; // Damage tick interval in ms
-  
-  // Visual telegraph
-  unit.bombardmentActive = {
-    endTime: Date.now() + BEAM_DELAY + BEAM_DURATION,
-    targetPos,
-    impactTime: Date.now() + BEAM_DELAY,
+function executeAbilityHeal(state: GameState, unit: Unit, component: Extract<AbilityComponent, { kind: 'heal' }>): void {
+  unit.healPulseActive = {
+    endTime: getSimulationTime(state) + component.pulseMs,
+    radius: component.radius,
   };
-  
-  createEnergyPulse(state, targetPos, state.players[unit.owner].color, BEAM_RADIUS, 0.4);
-  
-  // Start dealing damage after delay
-  setTimeout(() => {
-    const damageInterval = setInterval(() => {
-      const enemies = state.units.filter((u) => u.owner !== unit.owner);
-      const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
-      
-      // Damage enemies in beam
-      enemies.forEach((enemy) => {
-        if (distance(enemy.position, targetPos) <= BEAM_RADIUS) {
-          const tickDamage = (BEAM_DAMAGE / (BEAM_DURATION / BEAM_TICK_INTERVAL)) * unit.damageMultiplier;
-          const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
-          const finalDamage = tickDamage * shieldMultiplier;
-          enemy.hp -= finalDamage;
-          
-          if (Math.random() < 0.4) {
-            createHitSparks(state, enemy.position, state.players[unit.owner].color, 3);
-          }
-          
-          if (state.matchStats && unit.owner === 0) {
-            state.matchStats.damageDealtByPlayer += finalDamage;
-          }
-        }
-      });
-      
-      // Damage bases in beam
-      enemyBases.forEach((base) => {
-        if (distance(base.position, targetPos) <= BEAM_RADIUS) {
-          const tickDamage = (BEAM_DAMAGE * 1.5) / (BEAM_DURATION / BEAM_TICK_INTERVAL) * unit.damageMultiplier;
-          base.hp -= tickDamage;
-          
-          if (state.matchStats && unit.owner === 0) {
-            state.matchStats.damageDealtByPlayer += tickDamage;
-          }
-        }
-      });
-      
-      // Visual feedback
-      if (Math.random() < 0.5) {
-        createEnergyPulse(state, targetPos, state.players[unit.owner].color, BEAM_RADIUS * 0.8, 0.3);
-      }
-    }, BEAM_TICK_INTERVAL);
-    
-    // Stop dealing damage after duration
-    setTimeout(() => {
-      clearInterval(damageInterval);
-      createEnergyPulse(state, targetPos, state.players[unit.owner].color, BEAM_RADIUS * 1.5, 0.6);
-    }, BEAM_DURATION);
-  }, BEAM_DELAY);
-}
 
-// Prism - Light Refraction: Split attacks into multiple beams that fan out
-function executeLightRefraction(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const NUM_BEAMS = 5; // Number of beams
-  const SPREAD_ANGLE = Math.PI / 4; // 45 degrees total spread
-  const BEAM_LENGTH = 9; // Length of each beam
-  const BEAM_DAMAGE = 15; // Damage per beam
-  
-  const dir = normalize(direction);
-  const baseAngle = Math.atan2(dir.y, dir.x);
-  
-  // Create multiple beams in a fan pattern
-  for (let i = 0; i < NUM_BEAMS; i++) {
-    const angleOffset = (i - (NUM_BEAMS - 1) / 2) * (SPREAD_ANGLE / (NUM_BEAMS - 1));
-    const beamAngle = baseAngle + angleOffset;
-    const beamDir = {
-      x: Math.cos(beamAngle),
-      y: Math.sin(beamAngle),
-    };
-    
-    // Check for hits along this beam
-    const enemies = state.units.filter((u) => u.owner !== unit.owner);
-    enemies.forEach((enemy) => {
-      const toEnemy = subtract(enemy.position, unit.position);
-      const dist = distance(unit.position, enemy.position);
-      
-      if (dist > BEAM_LENGTH) return;
-      
-      const projectedDist = toEnemy.x * beamDir.x + toEnemy.y * beamDir.y;
-      const perpDist = Math.abs(toEnemy.x * beamDir.y - toEnemy.y * beamDir.x);
-      
-      // Check if enemy is in this beam (narrow beam)
-      if (projectedDist > 0 && projectedDist <= BEAM_LENGTH && perpDist < 0.5) {
-        const damage = BEAM_DAMAGE * unit.damageMultiplier;
-        const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
-        const finalDamage = damage * shieldMultiplier;
-        enemy.hp -= finalDamage;
-        createHitSparks(state, enemy.position, state.players[unit.owner].color, 4);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += finalDamage;
-        }
+  const allies = state.units.filter((u) => u.owner === unit.owner);
+  allies.forEach((ally) => {
+    if (distance(ally.position, unit.position) <= component.radius) {
+      ally.hp = Math.min(ally.hp + component.amount, ally.maxHp);
+      if (component.highlight) {
+        emitEffect(state, { type: 'energyPulse', position: ally.position, color: state.players[unit.owner].color, radius: 2, duration: 0.3 });
       }
-    });
-    
-    // Visual effect for each beam
-    const beamEndPos = {
-      x: unit.position.x + beamDir.x * BEAM_LENGTH,
-      y: unit.position.y + beamDir.y * BEAM_LENGTH,
-    };
-    createLaserParticles(state, unit.position, beamDir, BEAM_LENGTH, state.players[unit.owner].color);
-  }
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.5);
+    }
+  });
+
+  const allyBases = state.bases.filter((b) => b.owner === unit.owner);
+  allyBases.forEach((base) => {
+    if (distance(base.position, unit.position) <= component.radius) {
+      base.hp = Math.min(base.hp + component.baseAmount, base.maxHp);
+    }
+  });
 }
 
-// Berserker - Rage: Temporary damage boost
-function executeRage(state: GameState, unit: Unit): void {
-  // Store original damage multiplier to reset correctly
-  const originalMultiplier = unit.damageMultiplier;
-  unit.damageMultiplier += 0.8;
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.5);
-  createHitSparks(state, unit.position, state.players[unit.owner].color, 10);
-  
-  // Reset buff after 6 seconds
-  setTimeout(() => {
-    unit.damageMultiplier = originalMultiplier;
-  }, 6000);
+function executeAbilityShield(state: GameState, unit: Unit, component: Extract<AbilityComponent, { kind: 'shield' }>): void {
+  const shielded =
+    component.affects === 'self'
+      ? [unit]
+      : state.units.filter((u) => u.owner === unit.owner && distance(u.position, unit.position) <= (component.radius ?? 0));
+
+  shielded.forEach((ally) => {
+    applyStatusEffect(state, ally, 'shield', {
+      durationMs: component.durationMs,
+      source: unit,
+      dome: {
+        radius: component.domeRadius,
+        rangedDamageMultiplier: component.rangedMultiplier,
+        meleeDamageMultiplier: component.meleeMultiplier,
+      },
+    });
+    if (component.highlight) {
+      emitEffect(state, { type: 'energyPulse', position: ally.position, color: state.players[unit.owner].color, radius: 2, duration: 0.3 });
+    }
+  });
 }
 
-// Assassin - Shadow Strike: Teleport to nearby enemy and deal high damage
-function executeShadowStrike(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
+// Teleport next to the enemy nearest the caster around the target point and strike it
+function executeAbilityLeap(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'leap' }>): boolean {
   const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  const nearbyEnemies = enemies.filter((e) => distance(e.position, targetPos) <= 3);
-  
-  if (nearbyEnemies.length === 0) return;
-  
+  const nearbyEnemies = enemies.filter((e) => distance(e.position, cast.target) <= component.searchRadius);
+
+  if (nearbyEnemies.length === 0) return false;
+
   let nearest = nearbyEnemies[0];
   let minDist = distance(unit.position, nearest.position);
-  
+
   nearbyEnemies.forEach((enemy) => {
     const dist = distance(unit.position, enemy.position);
     if (dist < minDist) {
@@ -4228,440 +3385,250 @@ function executeShadowStrike(state: GameState, unit: Unit, targetPos: { x: numbe
       nearest = enemy;
     }
   });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.3);
-  
-  // Position assassin next to target, not on top of it
+
+  // Land next to the target, not on top of it
   const direction = normalize(subtract(nearest.position, unit.position));
   unit.position = {
-    x: nearest.position.x - direction.x * 1.2,
-    y: nearest.position.y - direction.y * 1.2,
+    x: nearest.position.x - direction.x * component.standoff,
+    y: nearest.position.y - direction.y * component.standoff,
   };
-  
-  const damage = 45 * unit.damageMultiplier;
+
+  const damage = component.amount * getUnitDamageMultiplier(unit);
   nearest.hp -= damage;
-  
-  createHitSparks(state, nearest.position, state.players[unit.owner].color, 8);
-  createEnergyPulse(state, nearest.position, state.players[unit.owner].color, 2, 0.4);
-  
-  if (state.matchStats && unit.owner === 0) {
-    state.matchStats.damageDealtByPlayer += damage;
-  }
-  
-  // Brief cloak after strike
-  unit.cloaked = {
-    endTime: Date.now() + 1500,
+  emitEffect(state, { type: 'hitLanded', position: nearest.position, color: state.players[unit.owner].color, sparks: component.sparks });
+
+  reportDamage(state, unit, nearest, damage);
+  return true;
+}
+
+function executeAbilitySummon(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'summon' }>): void {
+  // Create a temporary stationary unit
+  const summoned: Unit = {
+    id: `turret-${generateSimulationId(state)}`,
+    type: component.unitType,
+    owner: unit.owner,
+    position: { ...cast.target },
+    hp: component.hp,
+    maxHp: component.hp,
+    armor: 0,
+    commandQueue: [],
+    damageMultiplier: component.damageMultiplier,
+    distanceTraveled: 0,
+    distanceCredit: 0,
+    abilityCooldown: 999, // High cooldown to prevent the summon from using its ability
+  };
+
+  state.units.push(summoned);
+  emitEffect(state, { type: 'unitSpawned', position: cast.target, color: state.players[unit.owner].color });
+
+  scheduleSimulationTask(state, component.lifetimeMs, () => {
+    const index = state.units.findIndex(u => u.id === summoned.id);
+    if (index !== -1) {
+      state.units.splice(index, 1);
+    }
+  });
+}
+
+function executeAbilityStatus(state: GameState, unit: Unit, component: Extract<AbilityComponent, { kind: 'status' }>): void {
+  const radius = component.radius ?? 0;
+  const affected =
+    component.affects === 'self'
+      ? [unit]
+      : state.units.filter(
+          (u) => (component.affects === 'allies' ? u.owner === unit.owner : u.owner !== unit.owner) && distance(u.position, unit.position) <= radius
+        );
+
+  affected.forEach((target) => {
+    applyStatusEffect(state, target, component.status, {
+      durationMs: component.durationMs,
+      strength: component.amount,
+      source: unit,
+      revealMs: component.revealMs,
+    });
+
+    if (component.highlight) {
+      emitEffect(state, { type: 'energyPulse', position: target.position, color: state.players[unit.owner].color, radius: 2, duration: 0.3 });
+    }
+  });
+}
+
+// Pull enemies toward a point and hold them briefly
+function executeGravityWell(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'pull' }>): void {
+  const targetPos = { ...cast.target };
+  const affectedEnemies = state.units.filter((u) => u.owner !== unit.owner && distance(u.position, targetPos) <= component.radius);
+
+  // Apply pull effect over time
+  const pullEndTime = getSimulationTime(state) + component.durationMs;
+  scheduleSimulationTask(state, component.intervalMs, () => {
+    affectedEnemies.forEach((enemy) => {
+      // Check if enemy still exists
+      if (!state.units.includes(enemy)) return;
+
+      // Hold enemies in place if they're at the center, until the next pull
+      if (distance(enemy.position, targetPos) < component.holdRadius) {
+        applyStatusEffect(state, enemy, 'slow', { durationMs: component.intervalMs, strength: 1, source: unit });
+      } else {
+        // Pull toward center
+        const direction = normalize(subtract(targetPos, enemy.position));
+        enemy.position.x += direction.x * component.force;
+        enemy.position.y += direction.y * component.force;
+
+        if (nextRandom(state) < component.sparkChance) {
+          emitEffect(state, { type: 'hitLanded', position: enemy.position, color: state.players[unit.owner].color, sparks: 2 });
+        }
+      }
+    });
+  }, component.intervalMs, pullEndTime);
+}
+
+function executeMissileBarrage(state: GameState, unit: Unit, cast: AbilityCast, component: Extract<AbilityComponent, { kind: 'missiles' }>): void {
+  const dir = cast.aim;
+  const enemiesInDirection = getTargetableEnemies(state, unit, component.reach).filter((e) => {
+    const toEnemy = subtract(e.position, unit.position);
+    if (distance(unit.position, e.position) > component.reach) return false;
+
+    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
+    return projectedDist > 0;
+  }).sort((a, b) => distance(unit.position, a.position) - distance(unit.position, b.position));
+
+  const missiles = enemiesInDirection.slice(0, component.count).map((enemy) => ({
+    position: { ...unit.position },
+    target: { ...enemy.position },
+    damage: component.amount * getUnitDamageMultiplier(unit),
+  }));
+
+  unit.missileBarrageActive = {
+    endTime: getSimulationTime(state) + component.flightMs,
+    missiles,
   };
 }
 
-// Juggernaut - Ground Slam: Area of effect damage and stun
-function executeGroundSlam(state: GameState, unit: Unit): void {
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
+function executeGenericLaser(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
+  // Calculate laser range based on the drag distance
+  const dragDistance = distance({ x: 0, y: 0 }, direction);
+  const laserRange = Math.min(dragDistance, ABILITY_MAX_RANGE);
   
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 4) {
-      const damage = 35 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      // Slow enemy temporarily - store original speed to restore properly
-      const def = UNIT_DEFINITIONS[enemy.type];
-      const originalSpeed = enemy.currentSpeed;
-      enemy.currentSpeed = def.moveSpeed * 0.2;
-      
-      setTimeout(() => {
-        enemy.currentSpeed = originalSpeed;
-      }, 3000);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
+  const dir = normalize(direction);
   
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 4, 0.7);
-  createScreenFlash(state, state.players[unit.owner].color, 0.3, 0.2);
-}
-
-// Striker - Whirlwind: Spin attack hitting all nearby enemies
-function executeWhirlwind(state: GameState, unit: Unit): void {
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
+  // Store laser beam for visual effect
+  unit.laserBeam = {
+    endTime: getSimulationTime(state) + ABILITY_LASER_DURATION,
+    direction: { ...dir },
+    range: laserRange
+  };
   
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 3) {
-      const damage = 30 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 5);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
+  // Create laser particle effects
+  const laserColor = state.players[unit.owner].color;
+  emitEffect(state, { type: 'laserFired', origin: unit.position, direction: dir, range: laserRange, color: laserColor });
   
-  // Create spinning energy pulse effect
-  for (let i = 0; i < 3; i++) {
-    setTimeout(() => {
-      createEnergyPulse(state, unit.position, state.players[unit.owner].color, 3, 0.4);
-    }, i * 200);
-  }
-}
-
-// Flare - Solar Beam: Focused beam dealing sustained damage
-function executeSolarBeam(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const beamRange = 7;
+  // Deal damage to enemies hit by the laser
   const enemies = state.units.filter((u) => u.owner !== unit.owner);
   const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
   
-  const damage = 35 * unit.damageMultiplier;
-  const beamWidthHalf = 0.3;
+  const damage = ABILITY_LASER_DAMAGE * getUnitDamageMultiplier(unit);
+  const laserWidthHalf = ABILITY_LASER_WIDTH / 2;
   
-  // Check units in beam path
+  // Check units in the laser path (using perpendicular distance from laser line)
   enemies.forEach((enemy) => {
     const toEnemy = subtract(enemy.position, unit.position);
     const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
+    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x); // 2D cross product for perpendicular distance
     
-    if (projectedDist > 0 && projectedDist < beamRange && perpDist < beamWidthHalf) {
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
+    if (projectedDist > 0 && projectedDist < laserRange && perpDist < laserWidthHalf) {
+      const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'ranged');
+      const finalDamage = damage * shieldMultiplier;
+      enemy.hp -= finalDamage;
+      emitEffect(state, { type: 'hitLanded', position: enemy.position, color: laserColor, sparks: 6 });
       
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
+      reportDamage(state, unit, enemy, finalDamage);
     }
   });
   
-  // Check bases in beam path
+  // Check bases in the laser path
   enemyBases.forEach((base) => {
     const toBase = subtract(base.position, unit.position);
     const projectedDist = toBase.x * dir.x + toBase.y * dir.y;
     const perpDist = Math.abs(toBase.x * dir.y - toBase.y * dir.x);
     
     const baseRadius = BASE_SIZE_METERS / 2;
-    if (projectedDist > 0 && projectedDist < beamRange && perpDist < beamWidthHalf + baseRadius) {
-      const baseDamage = damage * 0.5;
+    if (projectedDist > 0 && projectedDist < laserRange && perpDist < laserWidthHalf + baseRadius) {
+      const baseDamage = damage * ABILITY_LASER_BASE_DAMAGE_MULTIPLIER;
       base.hp -= baseDamage;
       
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += baseDamage;
-      }
+      reportDamage(state, unit, base, baseDamage);
     }
   });
-  
-  createLaserParticles(state, unit.position, dir, beamRange, state.players[unit.owner].color);
 }
 
-// Nova - Stellar Burst: Explode dealing damage around the unit
-function executeStellarBurst(state: GameState, unit: Unit): void {
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
-  enemies.forEach((enemy) => {
-    if (distance(unit.position, enemy.position) <= 3.5) {
-      const damage = 40 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 7);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
+// Spawn a single throwing knife projectile for the Blade volley.
+function fireBladeKnife(state: GameState, unit: Unit, volley: Extract<AbilityComponent, { kind: 'knifeVolley' }>, direction: Vector2, magnitude: number, angleOffset: number): void {
+  const clampedMagnitude = Math.min(magnitude, ABILITY_MAX_RANGE);
+  const speedScale = clampedMagnitude / ABILITY_MAX_RANGE;
+  const baseAngle = direction.x === 0 && direction.y === 0 ? 0 : Math.atan2(direction.y, direction.x);
+  const angle = baseAngle + (angleOffset * Math.PI) / 180;
+  const throwDirection = { x: Math.cos(angle), y: Math.sin(angle) };
+  const throwRange = Math.max(0.5, clampedMagnitude);
+  const targetPos = add(unit.position, scale(throwDirection, throwRange));
+  const damage = volley.amount * getUnitDamageMultiplier(unit);
+  const projectile = createProjectile(state, unit, targetPos, undefined, {
+    speed: volley.speed * speedScale,
+    damage,
+    kind: 'knife',
+    lifetime: volley.lifetimeMs / 1000,
+    startOffset: BLADE_KNIFE_START_OFFSET,
   });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 3.5, 0.6);
-  createScreenFlash(state, state.players[unit.owner].color, 0.2, 0.15);
-}
 
-// Eclipse - Shadow Veil: Cloak self and nearby allies
-function executeShadowVeil(state: GameState, unit: Unit): void {
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= 6) {
-      ally.cloaked = {
-        endTime: Date.now() + 5000,
-      };
-      createEnergyPulse(state, ally.position, state.players[unit.owner].color, 2, 0.3);
-    }
-  });
+  state.projectiles.push(projectile);
 }
 
-// Corona - Radiation Wave: Forward cone of damaging radiation
-function executeRadiationWave(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const dist = distance(unit.position, enemy.position);
-    if (dist > 7) return;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    // Cone shape: perpendicular distance proportional to forward distance
-    if (projectedDist > 0 && perpDist < projectedDist * 0.5 + 1) {
-      const damage = 32 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
+// Spawn a single throwing knife projectile for the Dagger ambush ability.
+function fireDaggerKnife(state: GameState, unit: Unit, ambush: Extract<AbilityComponent, { kind: 'ambush' }>, direction: Vector2): void {
+  const throwDirection = direction.x === 0 && direction.y === 0 ? { x: 1, y: 0 } : normalize(direction);
+  const targetPos = add(unit.position, scale(throwDirection, ambush.reach));
+  const damage = ambush.amount * getUnitDamageMultiplier(unit);
+  const projectile = createProjectile(state, unit, targetPos, undefined, {
+    speed: ambush.speed,
+    damage,
+    kind: 'knife',
+    lifetime: ambush.lifetimeMs / 1000,
+    startOffset: DAGGER_KNIFE_START_OFFSET,
   });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 3, 0.5);
-}
-
-// Supernova - Cosmic Explosion: Massive delayed explosion at target location
-function executeCosmicExplosion(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  const EXPLOSION_DELAY = 2000; // milliseconds
-  const EXPLOSION_DURATION = 2500; // milliseconds
-  
-  unit.bombardmentActive = {
-    endTime: Date.now() + EXPLOSION_DURATION,
-    targetPos,
-    impactTime: Date.now() + EXPLOSION_DELAY,
-  };
-  
-  setTimeout(() => {
-    const enemies = state.units.filter((u) => u.owner !== unit.owner);
-    const enemyBases = state.bases.filter((b) => b.owner !== unit.owner);
-    
-    enemies.forEach((enemy) => {
-      if (distance(enemy.position, targetPos) <= 5) {
-        const damage = 70 * unit.damageMultiplier;
-        enemy.hp -= damage;
-        createHitSparks(state, enemy.position, state.players[unit.owner].color, 10);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += damage;
-        }
-      }
-    });
-    
-    enemyBases.forEach((base) => {
-      if (distance(base.position, targetPos) <= 5) {
-        const baseDamage = 100 * unit.damageMultiplier;
-        base.hp -= baseDamage;
-        createImpactEffect(state, base.position, state.players[unit.owner].color, 5);
-        
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += baseDamage;
-        }
-      }
-    });
-    
-    createEnergyPulse(state, targetPos, state.players[unit.owner].color, 5, 1.0);
-    createScreenFlash(state, state.players[unit.owner].color, 0.4, 0.3);
-  }, EXPLOSION_DELAY);
-}
 
-// Guardian - Protect Allies: Grant temporary shield to nearby allies
-function executeProtectAllies(state: GameState, unit: Unit): void {
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= 5) {
-      ally.shieldActive = {
-        endTime: Date.now() + 6000,
-        radius: 3,
-        meleeDamageMultiplier: 0.3,
-      };
-      createEnergyPulse(state, ally.position, state.players[unit.owner].color, 2, 0.3);
-    }
-  });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 5, 0.5);
+  state.projectiles.push(projectile);
 }
 
-// Reaper - Soul Strike: Drain life from enemies in direction
-function executeSoulStrike(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  let totalDamage = 0;
-  
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const dist = distance(unit.position, enemy.position);
-    if (dist > 9) return;
-    
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    if (projectedDist > 0 && perpDist < 1.5) {
-      const damage = 25 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      totalDamage += damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-  
-  // Heal for portion of damage dealt
-  unit.hp = Math.min(unit.hp + totalDamage * 0.4, unit.maxHp);
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2.5, 0.4);
-}
+function executeLineJump(state: GameState, unit: Unit, jump: Extract<AbilityComponent, { kind: 'lineJump' }>): void {
+  if (!unit.lineJumpTelegraph) return;
 
-// Oracle - Divine Restoration: Powerful area heal for allies
-function executeDivineRestoration(state: GameState, unit: Unit): void {
-  const healAmount = 80;
-  const healRadius = 6;
-  
-  unit.healPulseActive = {
-    endTime: Date.now() + 1500,
-    radius: healRadius,
-  };
-  
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= healRadius) {
-      ally.hp = Math.min(ally.hp + healAmount, ally.maxHp);
-      createEnergyPulse(state, ally.position, state.players[unit.owner].color, 2, 0.3);
-    }
-  });
-  
-  const allyBases = state.bases.filter((b) => b.owner === unit.owner);
-  allyBases.forEach((base) => {
-    if (distance(base.position, unit.position) <= healRadius) {
-      base.hp = Math.min(base.hp + healAmount * 2, base.maxHp);
-    }
-  });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 6, 0.6);
-}
+  const { endPos } = unit.lineJumpTelegraph;
+  const startPos = { ...unit.position };
 
-// Harbinger - Ethereal Strike: Phase through enemies dealing damage
-function executeEtherealStrike(state: GameState, unit: Unit, direction: { x: number; y: number }): void {
-  const dir = normalize(direction);
-  const dashDistance = 8;
-  const dashPos = {
-    x: unit.position.x + dir.x * dashDistance,
-    y: unit.position.y + dir.y * dashDistance,
-  };
-  
   const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  
-  // Damage all enemies along the path
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const projectedDist = toEnemy.x * dir.x + toEnemy.y * dir.y;
-    const perpDist = Math.abs(toEnemy.x * dir.y - toEnemy.y * dir.x);
-    
-    if (projectedDist > 0 && projectedDist < dashDistance && perpDist < 1.5) {
-      const damage = 28 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.3);
-  unit.position = dashPos;
-  createEnergyPulse(state, dashPos, state.players[unit.owner].color, 2, 0.3);
-}
+  const hitEnemies = new Set<string>();
 
-// Zenith - Solar Blessing: Heal and boost nearby allies
-function executeSolarBlessing(state: GameState, unit: Unit): void {
-  const healAmount = 60;
-  const healRadius = 5.5;
-  
-  unit.healPulseActive = {
-    endTime: Date.now() + 1200,
-    radius: healRadius,
-  };
-  
-  const allies = state.units.filter((u) => u.owner === unit.owner);
-  allies.forEach((ally) => {
-    if (distance(ally.position, unit.position) <= healRadius) {
-      ally.hp = Math.min(ally.hp + healAmount, ally.maxHp);
-      // Small damage boost - store original to reset correctly
-      const originalMultiplier = ally.damageMultiplier;
-      ally.damageMultiplier += 0.2;
-      createEnergyPulse(state, ally.position, state.players[unit.owner].color, 2, 0.3);
-      
-      setTimeout(() => {
-        ally.damageMultiplier = originalMultiplier;
-      }, 4000);
-    }
-  });
-  
-  const allyBases = state.bases.filter((b) => b.owner === unit.owner);
-  allyBases.forEach((base) => {
-    if (distance(base.position, unit.position) <= healRadius) {
-      base.hp = Math.min(base.hp + healAmount * 1.5, base.maxHp);
-    }
-  });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 5.5, 0.5);
-}
+  const jumpDist = distance(startPos, endPos);
+  const steps = Math.ceil(jumpDist * 10);
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const checkPos = {
+      x: startPos.x + (endPos.x - startPos.x) * t,
+      y: startPos.y + (endPos.y - startPos.y) * t,
+    };
 
-// Pulsar - Stellar Dive: Rapid dive attack at target location
-function executeStellarDive(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  const maxRange = 10;
-  const actualDistance = distance(unit.position, targetPos);
-  
-  if (actualDistance <= maxRange) {
-    createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.3);
-    
-    // Damage enemies near target
-    const enemies = state.units.filter((u) => u.owner !== unit.owner);
     enemies.forEach((enemy) => {
-      if (distance(enemy.position, targetPos) <= 2.5) {
-        const damage = 35 * unit.damageMultiplier;
+      if (hitEnemies.has(enemy.id)) return;
+      if (distance(enemy.position, checkPos) < UNIT_SIZE_METERS) {
+        const damage = jump.amount * getUnitDamageMultiplier(unit);
         enemy.hp -= damage;
-        createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
+        hitEnemies.add(enemy.id);
         
-        if (state.matchStats && unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += damage;
-        }
+        reportDamage(state, unit, enemy, damage);
       }
     });
-    
-    unit.position = { ...targetPos };
-    createEnergyPulse(state, targetPos, state.players[unit.owner].color, 2.5, 0.5);
   }
-}
 
-// Celestial - Astral Charge: Charge forward damaging enemies
-function executeAstralCharge(state: GameState, unit: Unit, targetPos: { x: number; y: number }): void {
-  const enemies = state.units.filter((u) => u.owner !== unit.owner);
-  const direction = normalize(subtract(targetPos, unit.position));
-  const chargeDistance = Math.min(distance(unit.position, targetPos), 8);
-  
-  const newPos = {
-    x: unit.position.x + direction.x * chargeDistance,
-    y: unit.position.y + direction.y * chargeDistance,
-  };
-  
-  // Damage enemies along the path
-  enemies.forEach((enemy) => {
-    const toEnemy = subtract(enemy.position, unit.position);
-    const projectedDist = toEnemy.x * direction.x + toEnemy.y * direction.y;
-    const perpDist = Math.abs(toEnemy.x * direction.y - toEnemy.y * direction.x);
-    
-    if (projectedDist > 0 && projectedDist < chargeDistance && perpDist < 1.5) {
-      const damage = 38 * unit.damageMultiplier;
-      enemy.hp -= damage;
-      createHitSparks(state, enemy.position, state.players[unit.owner].color, 7);
-      
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
-    }
-  });
-  
-  createEnergyPulse(state, unit.position, state.players[unit.owner].color, 2, 0.3);
-  unit.position = newPos;
-  createEnergyPulse(state, newPos, state.players[unit.owner].color, 2, 0.4);
+  unit.position = endPos;
 }
 
 function updateCombat(state: GameState, deltaTime: number): void {
@@ -4679,9 +3646,21 @@ function updateCombat(state: GameState, deltaTime: number): void {
       return;
     }
 
+    if (!canUnitAct(unit, 'attack')) return;
+
+    // An attack-unit order's target, or the attacker a guard is engaging, comes first whenever it's in reach
+    const focus = getCombatFocus(state, unit);
+    if (focus && distance(unit.position, focus.target.position) <= focus.reach) {
+      performAttack(state, unit, focus.target);
+      return;
+    }
+
+    // Passive units only fire when ordered to
+    if (!getUnitStance(unit).autoAttack) return;
+
     // Find target
-    const enemies = state.units.filter((u) => {
-      if (u.owner === unit.owner || u.cloaked) return false;
+    const enemies = getNearbyUnits(state, unit.position, def.attackRange).filter((u) => {
+      if (u.owner === unit.owner || isHiddenFrom(state, u, unit.owner)) return false;
       
       const enemyDef = UNIT_DEFINITIONS[u.type];
       // Flying units can only be hit by ability attacks, not normal attacks
@@ -4746,8 +3725,8 @@ function getBladeSwingSettings(swingNumber: number): { swingType: 'first' | 'sec
 }
 
 // Helper function to queue the Blade sword swing animation with a 3-swing combo.
-function createBladeSwing(unit: Unit, direction: Vector2): void {
-  const now = Date.now();
+function createBladeSwing(state: GameState, unit: Unit, direction: Vector2): void {
+  const now = getSimulationTime(state);
 
   // If a combo is already running or cooling down, avoid restarting the swing sequence.
   if (unit.swordSwingCombo && now < unit.swordSwingCombo.resetAvailableTime) {
@@ -4774,14 +3753,14 @@ function applyBladeSwingDamage(state: GameState, unit: Unit, swing: { direction:
   const swingDirection = swing.direction.x === 0 && swing.direction.y === 0
     ? { x: Math.cos(unit.rotation ?? 0), y: Math.sin(unit.rotation ?? 0) }
     : normalize(swing.direction);
-  const damage = def.attackDamage * unit.damageMultiplier;
+  const damage = def.attackDamage * getUnitDamageMultiplier(unit);
   const useFullCircle = swing.swingNumber === 3;
   let closestTargetPos: Vector2 | null = null;
   let closestTargetDist = Number.POSITIVE_INFINITY;
 
-  // Damage enemy units within the swing radius, filtering out cloaked and flying targets.
-  state.units.forEach((enemy) => {
-    if (enemy.owner === unit.owner || enemy.cloaked) {
+  // Damage enemy units within the swing radius, filtering out undetected cloaked and flying targets.
+  getNearbyUnits(state, unit.position, def.attackRange).forEach((enemy) => {
+    if (enemy.owner === unit.owner || isHiddenFrom(state, enemy, unit.owner)) {
       return;
     }
 
@@ -4804,16 +3783,14 @@ function applyBladeSwingDamage(state: GameState, unit: Unit, swing: { direction:
     const shieldMultiplier = getShieldDamageMultiplier(state, enemy, 'melee');
     const finalDamage = damage * shieldMultiplier;
     enemy.hp -= finalDamage;
-    createHitSparks(state, enemy.position, state.players[unit.owner].color, 6);
+    emitEffect(state, { type: 'hitLanded', position: enemy.position, color: state.players[unit.owner].color, sparks: 6 });
 
     if (dist < closestTargetDist) {
       closestTargetDist = dist;
       closestTargetPos = { ...enemy.position };
     }
 
-    if (state.matchStats && unit.owner === 0) {
-      state.matchStats.damageDealtByPlayer += finalDamage;
-    }
+    reportDamage(state, unit, enemy, finalDamage);
   });
 
   // Damage enemy bases if the Blade can damage structures.
@@ -4836,8 +3813,8 @@ function applyBladeSwingDamage(state: GameState, unit: Unit, swing: { direction:
       }
 
       // Skip damage when the base shield is active.
-      if (base.shieldActive && Date.now() < base.shieldActive.endTime) {
-        createHitSparks(state, base.position, state.players[base.owner].color, 12);
+      if (base.shieldActive && getSimulationTime(state) < base.shieldActive.endTime) {
+        emitEffect(state, { type: 'hitLanded', position: base.position, color: state.players[base.owner].color, sparks: 12 });
         return;
       }
 
@@ -4845,20 +3822,10 @@ function applyBladeSwingDamage(state: GameState, unit: Unit, swing: { direction:
       base.hp -= damage;
 
       if (prevHp > 0 && base.hp < prevHp) {
-        createImpactEffect(state, base.position, state.players[unit.owner].color, 2.5);
+        emitEffect(state, { type: 'impact', position: base.position, color: state.players[unit.owner].color, size: 2.5 });
       }
 
-      if (state.matchStats) {
-        if (base.owner === 0) {
-          state.matchStats.damageToPlayerBase += damage;
-        } else {
-          state.matchStats.damageToEnemyBase += damage;
-        }
-
-        if (unit.owner === 0) {
-          state.matchStats.damageDealtByPlayer += damage;
-        }
-      }
+      reportDamage(state, unit, base, damage);
 
       if (dist < closestTargetDist) {
         closestTargetDist = dist;
@@ -4870,7 +3837,7 @@ function applyBladeSwingDamage(state: GameState, unit: Unit, swing: { direction:
   // Trigger a melee impact effect toward the nearest valid target for feedback.
   if (closestTargetPos) {
     unit.meleeAttackEffect = {
-      endTime: Date.now() + MELEE_EFFECT_DURATION * 1000,
+      endTime: getSimulationTime(state) + MELEE_EFFECT_DURATION * 1000,
       targetPos: { ...closestTargetPos },
     };
   }
@@ -4886,7 +3853,7 @@ function performAttack(state: GameState, unit: Unit, target: Unit | Base | impor
   const isStructure = (t: typeof target): t is import('./types').Structure => !isUnit(t) && !isBase(t);
   
   // Reset attack cooldown
-  unit.attackCooldown = 1.0 / def.attackRate;
+  unit.attackCooldown = 1.0 / (def.attackRate * getStatusModifiers(unit).attackRate);
   
   // Update rotation to face target
   const direction = normalize(subtract(target.position, unit.position));
@@ -4907,28 +3874,26 @@ function performAttack(state: GameState, unit: Unit, target: Unit | Base | impor
 
     // Always eject a shell casing when a marine fires.
     if (unit.type === 'marine') {
-      if (!state.shells) {
-        state.shells = [];
-      }
-      state.shells.push(createEjectedShell(unit, direction));
+      emitEffect(state, { type: 'shellEjected', position: unit.position, direction, owner: unit.owner });
     }
     
     // Create muzzle flash effect for visual feedback
     const color = state.players[unit.owner].color;
-    createHitSparks(state, unit.position, color, 3);
+    emitEffect(state, { type: 'hitLanded', position: unit.position, color, sparks: 3 });
     
-    if (unit.owner === 0 && Math.random() < 0.3) {
-      soundManager.playAttack();
+    // Sound variety is presentation-only, so it stays off the seeded RNG
+    if (unit.owner === getLocalPlayerIndex(state) && Math.random() < 0.3) {
+      playSimulationSound(state, 'playAttack');
     }
   } else if (def.attackType === 'melee') {
     if (unit.type === 'warrior') {
       // Blade uses a combo swing sequence, so damage is applied per swing instead of per target.
-      createBladeSwing(unit, direction);
+      createBladeSwing(state, unit, direction);
       return;
     }
 
     // Apply instant damage for melee and create visual effect
-    let damage = def.attackDamage * unit.damageMultiplier;
+    let damage = def.attackDamage * getUnitDamageMultiplier(unit);
 
     if (isUnit(target)) {
       const targetUnit = target;
@@ -4938,58 +3903,50 @@ function performAttack(state: GameState, unit: Unit, target: Unit | Base | impor
 
       targetUnit.hp -= damage;
       
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
+      reportDamage(state, unit, targetUnit, damage);
       
       // Create melee attack visual effect
       unit.meleeAttackEffect = {
-        endTime: Date.now() + MELEE_EFFECT_DURATION * 1000,
+        endTime: getSimulationTime(state) + MELEE_EFFECT_DURATION * 1000,
         targetPos: { ...targetUnit.position },
       };
 
       if (unit.type === 'warrior') {
-        createBladeSwing(unit, direction);
+        createBladeSwing(state, unit, direction);
       }
     } else if (isBase(target)) {
       const targetBase = target;
       // Check if base has active shield (mobile faction)
-      if (!targetBase.shieldActive || Date.now() >= targetBase.shieldActive.endTime) {
+      if (!targetBase.shieldActive || getSimulationTime(state) >= targetBase.shieldActive.endTime) {
         const prevHp = targetBase.hp;
         targetBase.hp -= damage;
         
         // Create impact effect and screen shake for base damage
         if (prevHp > 0 && targetBase.hp < prevHp) {
           const color = state.players[unit.owner].color;
-          createImpactEffect(state, targetBase.position, color, 2.5);
+          emitEffect(state, { type: 'impact', position: targetBase.position, color, size: 2.5 });
           // Stronger shake for base damage (scales with damage)
-          createScreenShake(state, Math.min(damage / SCREEN_SHAKE_BASE_DAMAGE, SCREEN_SHAKE_MAX_INTENSITY), SCREEN_SHAKE_DURATION_MEDIUM);
+          emitEffect(state, {
+            type: 'screenShake',
+            intensity: Math.min(damage / SCREEN_SHAKE_BASE_DAMAGE, SCREEN_SHAKE_MAX_INTENSITY),
+            duration: SCREEN_SHAKE_DURATION_MEDIUM,
+          });
         }
         
-        if (state.matchStats) {
-          if (targetBase.owner === 0) {
-            state.matchStats.damageToPlayerBase += damage;
-          } else {
-            state.matchStats.damageToEnemyBase += damage;
-          }
-          
-          if (unit.owner === 0) {
-            state.matchStats.damageDealtByPlayer += damage;
-          }
-        }
+        reportDamage(state, unit, targetBase, damage);
       } else {
         // Shield blocked the damage - create visual feedback
-        createHitSparks(state, targetBase.position, state.players[targetBase.owner].color, 12);
+        emitEffect(state, { type: 'hitLanded', position: targetBase.position, color: state.players[targetBase.owner].color, sparks: 12 });
       }
       
       // Create melee attack visual effect
       unit.meleeAttackEffect = {
-        endTime: Date.now() + MELEE_EFFECT_DURATION * 1000,
+        endTime: getSimulationTime(state) + MELEE_EFFECT_DURATION * 1000,
         targetPos: { ...targetBase.position },
       };
 
       if (unit.type === 'warrior') {
-        createBladeSwing(unit, direction);
+        createBladeSwing(state, unit, direction);
       }
     } else {
       // Target is a structure
@@ -5000,22 +3957,21 @@ function performAttack(state: GameState, unit: Unit, target: Unit | Base | impor
       // Create impact effect
       if (prevHp > 0 && targetStructure.hp < prevHp) {
         const color = state.players[unit.owner].color;
-        createImpactEffect(state, targetStructure.position, color, 1.5);
+        emitEffect(state, { type: 'impact', position: targetStructure.position, color, size: 1.5 });
       }
       
-      if (state.matchStats && unit.owner === 0) {
-        state.matchStats.damageDealtByPlayer += damage;
-      }
+      reportDamage(state, unit, targetStructure, damage);
       
       // Create melee attack visual effect
       unit.meleeAttackEffect = {
-        endTime: Date.now() + MELEE_EFFECT_DURATION * 1000,
+        endTime: getSimulationTime(state) + MELEE_EFFECT_DURATION * 1000,
         targetPos: { ...targetStructure.position },
       };
     }
     
-    if (unit.owner === 0 && Math.random() < 0.3) {
-      soundManager.playAttack();
+    // Sound variety is presentation-only, so it stays off the seeded RNG
+    if (unit.owner === getLocalPlayerIndex(state) && Math.random() < 0.3) {
+      playSimulationSound(state, 'playAttack');
     }
   }
 }
@@ -5024,12 +3980,6 @@ function cleanupDeadUnits(state: GameState): void {
   
   const oldUnits = [...state.units];
   
-  // Count units by owner before filtering
-  const unitsByOwner = oldUnits.reduce((acc, u) => {
-    acc[u.owner] = (acc[u.owner] || 0) + 1;
-    return acc;
-  }, {} as Record<number, number>);
-  
   // Identify dead units and move them to dyingUnits array for queue animation
   const deadUnits = oldUnits.filter(u => u.hp <= 0);
   if (deadUnits.length > 0) {
@@ -5041,7 +3991,7 @@ function cleanupDeadUnits(state: GameState): void {
     deadUnits.forEach(u => {
       // Trigger reverse un-draw animation if unit has queued commands
       if (u.commandQueue.length > 0) {
-        u.queueDrawStartTime = Date.now();
+        u.queueDrawStartTime = getSimulationTime(state);
         u.queueDrawReverse = true;
         state.dyingUnits!.push(u);
       }
@@ -5054,10 +4004,9 @@ function cleanupDeadUnits(state: GameState): void {
   if (deadUnits.length > 0) {
     deadUnits.forEach(u => {
       const color = state.players[u.owner].color;
-      createImpactEffect(state, u.position, color, 1.2);
-      // Enhanced death explosion with multiple layers
-      createEnhancedDeathExplosion(state, u.position, color, 1.0);
-      soundManager.playUnitDeath();
+      emitEffect(state, { type: 'unitDied', position: u.position, color });
+      recordVeteran(state, u, true);
+      emitGameplayEvent(state, { type: 'unitKilled', unitId: u.id, owner: u.owner, unitType: u.type, position: { ...u.position }, killerId: u.lastAttackerId });
       
       // Create resource orb for all non-mining-drone units
       if (u.type !== 'miningDrone') {
@@ -5069,19 +4018,9 @@ function cleanupDeadUnits(state: GameState): void {
     
     // Shake screen if multiple units died at once
     if (deadUnits.length >= SCREEN_SHAKE_MULTI_KILL_THRESHOLD) {
-      createScreenShake(state, deadUnits.length * SCREEN_SHAKE_MULTI_KILL_MULTIPLIER, SCREEN_SHAKE_DURATION_SHORT);
+      emitEffect(state, { type: 'screenShake', intensity: deadUnits.length * SCREEN_SHAKE_MULTI_KILL_MULTIPLIER, duration: SCREEN_SHAKE_DURATION_SHORT });
     }
   }
-  
-  if (state.matchStats) {
-    const afterUnitsByOwner = state.units.reduce((acc, u) => {
-      acc[u.owner] = (acc[u.owner] || 0) + 1;
-      return acc;
-    }, {} as Record<number, number>);
-    
-    const enemyUnitsKilled = (unitsByOwner[1] || 0) - (afterUnitsByOwner[1] || 0);
-    state.matchStats.unitsKilledByPlayer += enemyUnitsKilled;
-  }
 }
 
 function cleanupDyingUnits(state: GameState): void {
@@ -5089,7 +4028,7 @@ function cleanupDyingUnits(state: GameState): void {
   if (state.dyingUnits && state.dyingUnits.length > 0) {
     state.dyingUnits = state.dyingUnits.filter(unit => {
       if (unit.queueDrawStartTime && unit.queueDrawReverse) {
-        const elapsed = (Date.now() - unit.queueDrawStartTime) / 1000;
+        const elapsed = (getSimulationTime(state) - unit.queueDrawStartTime) / 1000;
         // Keep unit until animation completes
         return elapsed < QUEUE_UNDRAW_DURATION;
       }
@@ -5102,20 +4041,16 @@ function cleanupDyingUnits(state: GameState): void {
 function checkVictory(state: GameState): void {
   state.bases.forEach((base) => {
     if (base.hp <= 0) {
-      soundManager.playBaseDestroyed();
-      // Big screen shake for base destruction
-      createScreenShake(state, SCREEN_SHAKE_BASE_DESTROY_INTENSITY, SCREEN_SHAKE_DURATION_LONG);
-      // Screen flash effect for dramatic impact
-      const flashColor = base.owner === 0 ? 'oklch(0.62 0.28 25 / 0.7)' : 'oklch(0.65 0.25 240 / 0.7)';
-      createScreenFlash(state, flashColor, 0.7, 0.6);
-      // Big impact effect for base destruction with enhanced explosion
-      const color = state.players[base.owner === 0 ? 1 : 0].color; // Use attacker's color
-      createImpactEffect(state, base.position, color, 4.0);
-      createEnhancedDeathExplosion(state, base.position, color, 2.5); // Much larger explosion for bases
+      // Screen shake, flash and a large explosion
+      emitEffect(state, { type: 'baseDestroyed', position: base.position, owner: base.owner });
       state.winner = base.owner === 0 ? 1 : 0;
       state.mode = 'victory';
     }
   });
+
+  if (state.winner !== null) {
+    emitGameplayEvent(state, { type: 'matchEnded', winner: state.winner, reason: 'baseDestroyed' });
+  }
 }
 
 function checkTimeLimit(state: GameState): void {
@@ -5163,6 +4098,8 @@ function checkTimeLimit(state: GameState): void {
         state.mode = 'victory';
       }
     }
+
+    emitGameplayEvent(state, { type: 'matchEnded', winner: state.winner, reason: 'timeLimit' });
   }
 }
 
@@ -5174,22 +4111,13 @@ export function spawnUnit(state: GameState, owner: number, type: UnitType, spawn
 
   state.players[owner].photons -= def.cost;
 
-  if (state.matchStats && owner === 0) {
-    state.matchStats.unitsTrainedByPlayer += 1;
-    state.matchStats.photonsSpentByPlayer += def.cost;
-  }
-
-  if (owner === 0) {
-    soundManager.playUnitTrain();
-  }
-
   // Clamp the rally point so new units don't get stuck on boundaries or obstacles.
   const safeRallyPos = getSafeRallyPosition(state, spawnPos, rallyPos);
 
   // Add a random offset to the rally point to spread out spawned units
   // This prevents units from all targeting the exact same point and piling up
-  const angle = Math.random() * Math.PI * 2; // Random angle in radians
-  const distance = Math.random() * RALLY_POINT_SPREAD_RADIUS; // Random distance within spread radius
+  const angle = nextRandom(state) * Math.PI * 2; // Random angle in radians
+  const distance = nextRandom(state) * RALLY_POINT_SPREAD_RADIUS; // Random distance within spread radius
   const offsetRallyPos = {
     x: safeRallyPos.x + Math.cos(angle) * distance,
     y: safeRallyPos.y + Math.sin(angle) * distance
@@ -5199,7 +4127,7 @@ export function spawnUnit(state: GameState, owner: number, type: UnitType, spawn
   const finalRallyPos = getSafeRallyPosition(state, spawnPos, offsetRallyPos);
 
   const unit: Unit = {
-    id: generateId(),
+    id: generateSimulationId(state),
     type,
     owner,
     position: spawnPos,
@@ -5214,9 +4142,9 @@ export function spawnUnit(state: GameState, owner: number, type: UnitType, spawn
     attackCooldown: 0, // Initialize attack cooldown
   };
   
-  // Dagger units start permanently cloaked until they reveal for ambush attacks.
+  // Dagger units start permanently cloaked until they reveal for ambush attacks; other damage they deal reveals them briefly.
   if (type === 'scout') {
-    unit.cloaked = { endTime: Number.POSITIVE_INFINITY };
+    applyStatusEffect(state, unit, 'cloak', { durationMs: Number.POSITIVE_INFINITY, revealMs: getAbilityComponent(type, 'ambush')?.revealMs });
   }
 
   // Initialize particles only for Solari faction units
@@ -5245,11 +4173,12 @@ export function spawnUnit(state: GameState, owner: number, type: UnitType, spawn
   }
 
   state.units.push(unit);
+  emitGameplayEvent(state, { type: 'unitSpawned', unitId: unit.id, owner, unitType: type, cost: def.cost, position: { ...spawnPos } });
   
   // Create spawn effect
   const color = state.players[owner].color;
-  createSpawnEffect(state, spawnPos, color);
-  createEnergyPulse(state, spawnPos, color, 2.0, 0.5);
+  emitEffect(state, { type: 'unitSpawned', position: spawnPos, color });
+  emitEffect(state, { type: 'energyPulse', position: spawnPos, color, radius: 2.0, duration: 0.5 });
   
   return true;
 }
@@ -0,0 +1,165 @@
+/**
+ * Simulation snapshots - the messages passed between the main thread and the simulation worker.
+ * The worker owns the match simulation; its RNG, clock, scheduled tasks and AI memory exist only
+ * there. After every batch of ticks it posts a snapshot of what the main thread draws and reads
+ * input against, and the main thread sends player commands back.
+ */
+
+import { GameState, SimulationSound, EffectEvent, GameplayEvent } from './types';
+import { GameplayCommand } from './commands';
+import { RecordedCommand } from './replay';
+import { SavedMatch, SavedLocalState } from './savedMatch';
+
+// Match state handed to the worker when it takes over a match. Camera, input, menu and
+// background layers stay on the main thread.
+export const WORKER_STATE_KEYS = [
+  'mode',
+  'vsMode',
+  'localPlayerIndex',
+  'units',
+  'dyingUnits',
+  'bases',
+  'structures',
+  'miningDepots',
+  'obstacles',
+  'projectiles',
+  'resourceOrbs',
+  'players',
+  'selectedUnits',
+  'elapsedTime',
+  'lastIncomeTime',
+  'rngSeed',
+  'rngState',
+  'simulationTime',
+  'nextScheduledTaskId',
+  'winner',
+  'settings',
+  'matchStats',
+  'matchTimeLimit',
+  'timeoutWarningShown',
+  'aiActionTimer',
+  'aiPlayers',
+  'replayRecorder',
+  'isPortrait',
+  'chessMode',
+] as const satisfies readonly (keyof GameState)[];
+
+// Everything the simulation writes (besides scheduled tasks). Re-running a match's replay
+// recording rebuilds these, which is how the main thread takes over from a failed worker.
+export const SIMULATED_STATE_KEYS = [
+  'units',
+  'dyingUnits',
+  'bases',
+  'structures',
+  'miningDepots',
+  'projectiles',
+  'resourceOrbs',
+  'players',
+  'elapsedTime',
+  'lastIncomeTime',
+  'rngState',
+  'simulationTime',
+  'nextScheduledTaskId',
+  'winner',
+  'matchStats',
+  'aiActionTimer',
+  'aiPlayers',
+  'chessMode',
+] as const satisfies readonly (keyof GameState)[];
+
+// The part of the simulated state the main thread renders, interpolates, shows in the HUD and
+// checks input against, sent with every snapshot to replace its copy. The RNG, clock and AI
+// memory stay in the worker.
+export const SNAPSHOT_STATE_KEYS = [
+  'units',
+  'dyingUnits',
+  'bases',
+  'structures',
+  'miningDepots',
+  'projectiles',
+  'resourceOrbs',
+  'players',
+  'elapsedTime',
+  'simulationTime',
+  'winner',
+  'matchStats',
+  'chessMode',
+] as const satisfies readonly (typeof SIMULATED_STATE_KEYS)[number][];
+
+export type WorkerState = Pick<GameState, (typeof WORKER_STATE_KEYS)[number]>;
+export type SnapshotState = Pick<GameState, (typeof SNAPSHOT_STATE_KEYS)[number]>;
+
+export interface SimulationSnapshot {
+  type: 'snapshot';
+  state: SnapshotState;
+  effectEvents: EffectEvent[]; // Cosmetic events emitted since the previous snapshot
+  sounds: SimulationSound[]; // Sounds triggered since the previous snapshot
+  gameplayEvents: GameplayEvent[]; // Gameplay events emitted since the previous snapshot
+  scheduledTaskCount: number; // Simulation tasks pending in the worker; the match can't be saved until there are none
+  replayFrames: number[]; // Replay frame deltas recorded since the previous snapshot
+  replayCommands: RecordedCommand[]; // Replay commands recorded since the previous snapshot
+}
+
+// Messages from the main thread to the worker
+export type SimulationWorkerRequest =
+  | { type: 'start'; state: WorkerState; bothPlayersAI: boolean }
+  | { type: 'commands'; commands: GameplayCommand[] }
+  | { type: 'pause' } // The page is hidden; stop stepping until 'resume'
+  | { type: 'resume' }
+  | { type: 'save'; arenaHeight: number; localState: SavedLocalState }; // Answered with 'saved'
+
+// Messages from the worker to the main thread
+export type SimulationWorkerResponse =
+  | SimulationSnapshot
+  | { type: 'saved'; saved: SavedMatch | null } // Null while scheduled tasks are pending or after the match ended
+  | { type: 'error'; message: string };
+
+// How much of the worker's replay recording has already been sent
+export interface SnapshotCursor {
+  replayFrames: number;
+  replayCommands: number;
+}
+
+/**
+ * Copy the listed fields of a game state into a plain object
+ * @param state - Source state
+ * @param keys - Fields to copy (shallow)
+ * @returns Object with only those fields
+ */
+export function pickState<K extends keyof GameState>(state: GameState, keys: readonly K[]): Pick<GameState, K> {
+  const picked = {} as Pick<GameState, K>;
+  keys.forEach((key) => {
+    picked[key] = state[key];
+  });
+  return picked;
+}
+
+/**
+ * Build the next snapshot in the worker. Drains emitted effect and gameplay events and queued sounds from the state,
+ * and advances the cursor past the replay data it includes.
+ * @param state - Worker simulation state
+ * @param cursor - Replay data already sent
+ * @returns Snapshot ready to post (structured clone copies it)
+ */
+export function takeSimulationSnapshot(state: GameState, cursor: SnapshotCursor): SimulationSnapshot {
+  const snapshot: SimulationSnapshot = {
+    type: 'snapshot',
+    state: pickState(state, SNAPSHOT_STATE_KEYS),
+    effectEvents: state.effectEvents ? state.effectEvents.splice(0) : [],
+    sounds: state.pendingSounds ? state.pendingSounds.splice(0) : [],
+    gameplayEvents: state.pendingGameplayEvents ? state.pendingGameplayEvents.splice(0) : [],
+    scheduledTaskCount: state.scheduledTasks?.length ?? 0,
+    replayFrames: [],
+    replayCommands: [],
+  };
+
+  const recorder = state.replayRecorder;
+  if (recorder) {
+    snapshot.replayFrames = recorder.frameDeltasMs.slice(cursor.replayFrames);
+    snapshot.replayCommands = recorder.commands.slice(cursor.replayCommands);
+    cursor.replayFrames = recorder.frameDeltasMs.length;
+    cursor.replayCommands = recorder.commands.length;
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,266 @@
+/**
+ * Main-thread side of the simulation worker. Offline matches hand their simulation to
+ * simulationWorker.ts; this module forwards player commands to it, applies the snapshots it
+ * posts to the displayed GameState and interpolates positions between snapshots so movement
+ * stays smooth at any frame rate. The worker is paused while the page is hidden. When workers
+ * are unavailable or the worker fails, the match is stepped here instead, on the same fixed
+ * timestep (the menu background battle always is).
+ */
+
+import { GameState } from './types';
+import { executeGameplayCommand } from './commands';
+import { updateGame } from './simulation';
+import { updateAI } from './ai';
+import { recordReplayFrame, resimulateRecording } from './replay';
+import { soundManager } from './sound';
+import { dispatchGameplayEvents } from './gameplayEvents';
+import {
+  FIXED_TIME_STEP_MS,
+  FixedStepClock,
+  PositionInterpolator,
+  createFixedStepClock,
+  takeFixedSteps,
+  createPositionInterpolator,
+  restoreSimulatedPositions,
+  captureSimulatedPositions,
+  interpolatePositions,
+} from './fixedTimestep';
+import {
+  WORKER_STATE_KEYS,
+  SimulationSnapshot,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+  pickState,
+} from './simulationSnapshot';
+import { SAVED_LOCAL_STATE_KEYS, SavedMatch, saveMatch } from './savedMatch';
+
+export interface SimulationThread {
+  state: GameState; // Displayed match state; the simulated one while stepping on the main thread
+  worker: Worker | null; // Null when the match is stepped on the main thread
+  pendingSnapshot: SimulationSnapshot | null; // Latest snapshot not applied yet, merged with any it replaced
+  onVisibilityChange: (() => void) | null; // Pauses and resumes the worker with the page
+  clock: FixedStepClock; // Fixed-step clock for main-thread stepping
+  interpolator: PositionInterpolator;
+  bothPlayersAI: boolean; // The AI plays both sides (menu background battle)
+  workerScheduledTaskCount: number; // Simulation tasks pending in the worker, as of its last snapshot
+  onSaved: ((saved: SavedMatch) => void) | null; // Waiting for the worker's answer to a save request
+}
+
+export interface SimulationThreadOptions {
+  useWorker?: boolean; // Defaults to true
+  bothPlayersAI?: boolean;
+}
+
+/**
+ * Hand a match that is about to start simulating to a worker
+ * @param state - Match state; it becomes the display copy while the worker runs
+ * @param options - Whether to use a worker and who the AI plays
+ * @returns The thread; `worker` is null if no worker could be started
+ */
+export function startSimulationThread(state: GameState, options: SimulationThreadOptions = {}): SimulationThread {
+  const thread: SimulationThread = {
+    state,
+    worker: null,
+    pendingSnapshot: null,
+    onVisibilityChange: null,
+    clock: createFixedStepClock(),
+    interpolator: createPositionInterpolator(),
+    bothPlayersAI: options.bothPlayersAI ?? false,
+    workerScheduledTaskCount: 0,
+    onSaved: null,
+  };
+  // Player commands are applied at the start of the next step in both modes
+  state.simulationOutbox = [];
+
+  if (options.useWorker === false || typeof Worker === 'undefined') return thread;
+
+  try {
+    thread.worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+    thread.worker.addEventListener('message', (event: MessageEvent<SimulationWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'snapshot') {
+        thread.pendingSnapshot = thread.pendingSnapshot ? mergeSnapshots(thread.pendingSnapshot, response) : response;
+      } else if (response.type === 'saved') {
+        const onSaved = thread.onSaved;
+        thread.onSaved = null;
+        if (response.saved) onSaved?.(response.saved);
+      } else {
+        console.warn('Simulation worker failed, continuing on the main thread:', response.message);
+        stopSimulationWorker(thread);
+      }
+    });
+    thread.worker.addEventListener('error', (event) => {
+      console.warn('Simulation worker failed, continuing on the main thread:', event.message);
+      stopSimulationWorker(thread);
+    });
+    postRequest(thread, { type: 'start', state: pickState(state, WORKER_STATE_KEYS), bothPlayersAI: thread.bothPlayersAI });
+
+    // A hidden page doesn't draw, so the match would otherwise play on without the player
+    thread.onVisibilityChange = () => postRequest(thread, { type: document.hidden ? 'pause' : 'resume' });
+    document.addEventListener('visibilitychange', thread.onVisibilityChange);
+    if (document.hidden) thread.onVisibilityChange();
+  } catch (error) {
+    console.warn('Could not start the simulation worker, simulating on the main thread:', error);
+    detachWorker(thread);
+  }
+
+  return thread;
+}
+
+/**
+ * Per-frame update: hand queued commands to the worker and apply its snapshots, or step the
+ * match on the main thread, then interpolate drawn positions
+ * @param thread - Simulation thread of the current match
+ * @param realDeltaMs - Real milliseconds since the last frame
+ */
+export function updateSimulationThread(thread: SimulationThread, realDeltaMs: number): void {
+  const state = thread.state;
+
+  if (thread.worker) {
+    if (state.simulationOutbox && state.simulationOutbox.length > 0) {
+      postRequest(thread, { type: 'commands', commands: state.simulationOutbox.splice(0) });
+    }
+    applyPendingSnapshot(thread);
+  } else {
+    stepOnMainThread(thread, realDeltaMs);
+  }
+
+  interpolatePositions(thread.interpolator);
+}
+
+/**
+ * Save the match as last simulated (see savedMatch.ts). The worker holds the simulation, so it
+ * saves there and answers later; on the main thread the save is taken right away.
+ * @param thread - Simulation thread of the current match
+ * @param arenaHeight - Arena height the match was built with
+ * @param onSaved - Called with the saved match; not called while scheduled simulation tasks are pending
+ */
+export function saveSimulationThread(thread: SimulationThread, arenaHeight: number, onSaved: (saved: SavedMatch) => void): void {
+  if (thread.worker) {
+    // One request at a time; the worker answers before its next step
+    if (thread.onSaved || thread.workerScheduledTaskCount > 0) return;
+    thread.onSaved = onSaved;
+    postRequest(thread, { type: 'save', arenaHeight, localState: pickState(thread.state, SAVED_LOCAL_STATE_KEYS) });
+    return;
+  }
+
+  if ((thread.state.scheduledTasks?.length ?? 0) > 0) return;
+  // Save simulated positions, not the blended ones being drawn
+  restoreSimulatedPositions(thread.interpolator);
+  const saved = saveMatch(thread.state, arenaHeight);
+  interpolatePositions(thread.interpolator);
+  onSaved(saved);
+}
+
+/**
+ * Stop the worker when its match ends or is abandoned
+ * @param thread - Simulation thread to stop
+ */
+export function stopSimulationThread(thread: SimulationThread): void {
+  detachWorker(thread);
+  thread.pendingSnapshot = null;
+}
+
+// The worker failed: apply what it already sent, rebuild the simulated state it kept to itself
+// from the replay recording, and carry on from there on the main thread. Queued commands stay in
+// the outbox for the next main-thread step.
+function stopSimulationWorker(thread: SimulationThread): void {
+  detachWorker(thread);
+  applyPendingSnapshot(thread);
+
+  restoreSimulatedPositions(thread.interpolator);
+  if (!resimulateRecording(thread.state)) {
+    console.warn('Match is not being recorded; continuing from the last snapshot without the simulation state');
+  }
+  captureSimulatedPositions(thread.interpolator, thread.state, FIXED_TIME_STEP_MS);
+}
+
+function detachWorker(thread: SimulationThread): void {
+  thread.worker?.terminate();
+  thread.worker = null;
+  thread.onSaved = null;
+  if (thread.onVisibilityChange) {
+    document.removeEventListener('visibilitychange', thread.onVisibilityChange);
+    thread.onVisibilityChange = null;
+  }
+}
+
+function stepOnMainThread(thread: SimulationThread, realDeltaMs: number): void {
+  const state = thread.state;
+  const steps = takeFixedSteps(thread.clock, realDeltaMs);
+  if (steps === 0 || state.mode !== 'game') return;
+
+  restoreSimulatedPositions(thread.interpolator);
+  const deltaTime = FIXED_TIME_STEP_MS / 1000;
+  for (let step = 0; step < steps && state.mode === 'game'; step++) {
+    // Same order as the worker, so the replay records commands on the frame they affected
+    (state.simulationOutbox ?? []).splice(0).forEach((command) => executeGameplayCommand(state, command));
+    recordReplayFrame(state, deltaTime);
+    updateGame(state, deltaTime);
+    updateAI(state, deltaTime, thread.bothPlayersAI);
+  }
+  captureSimulatedPositions(thread.interpolator, state, FIXED_TIME_STEP_MS);
+}
+
+function postRequest(thread: SimulationThread, request: SimulationWorkerRequest): void {
+  thread.worker?.postMessage(request);
+}
+
+// Fold an unapplied snapshot into the next one: the later state replaces the earlier, while
+// gameplay events and replay data are kept in order. Sounds and effects that were never shown are
+// stale by now and dropped.
+function mergeSnapshots(earlier: SimulationSnapshot, later: SimulationSnapshot): SimulationSnapshot {
+  return {
+    ...later,
+    gameplayEvents: [...earlier.gameplayEvents, ...later.gameplayEvents],
+    replayFrames: [...earlier.replayFrames, ...later.replayFrames],
+    replayCommands: [...earlier.replayCommands, ...later.replayCommands],
+  };
+}
+
+function applyPendingSnapshot(thread: SimulationThread): void {
+  const snapshot = thread.pendingSnapshot;
+  if (!snapshot) return;
+  thread.pendingSnapshot = null;
+  applySnapshot(thread, snapshot);
+}
+
+function applySnapshot(thread: SimulationThread, snapshot: SimulationSnapshot): void {
+  const state = thread.state;
+  const previousSimulationTime = state.simulationTime;
+  const selectedBaseIds = new Set(state.bases.filter((base) => base.isSelected).map((base) => base.id));
+
+  Object.assign(state, snapshot.state);
+  thread.workerScheduledTaskCount = snapshot.scheduledTaskCount;
+
+  // Base selection is local UI state kept on the bases themselves
+  state.bases.forEach((base) => {
+    base.isSelected = selectedBaseIds.has(base.id);
+  });
+
+  // Drop selected units that died
+  const unitIds = new Set(state.units.map((unit) => unit.id));
+  state.selectedUnits.forEach((id) => {
+    if (!unitIds.has(id)) state.selectedUnits.delete(id);
+  });
+
+  // The effects layer turns the worker's effect events into effects on this thread
+  state.effectEvents?.push(...snapshot.effectEvents);
+
+  snapshot.sounds.forEach((sound) => soundManager[sound]());
+  // The worker already ran the simulation listeners; only this thread's subscribers are left
+  dispatchGameplayEvents(state, snapshot.gameplayEvents);
+
+  if (state.replayRecorder) {
+    state.replayRecorder.frameDeltasMs.push(...snapshot.replayFrames);
+    state.replayRecorder.commands.push(...snapshot.replayCommands);
+  }
+
+  if (state.winner !== null && state.mode === 'game') {
+    state.mode = 'victory';
+  }
+
+  // The next snapshot is due after about as much time as this one covered
+  const spanMs = state.simulationTime - previousSimulationTime;
+  captureSimulatedPositions(thread.interpolator, state, spanMs > 0 ? spanMs : FIXED_TIME_STEP_MS);
+}
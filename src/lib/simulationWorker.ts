@@ -0,0 +1,137 @@
+/**
+ * Simulation worker - runs an offline match (simulation and AI) off the main thread on the
+ * fixed timestep and posts a snapshot after every batch of steps. Started by simulationThread.ts,
+ * which pauses it while the page is hidden so the match waits for the player like it did when
+ * it was stepped from requestAnimationFrame.
+ */
+
+import { GameState } from './types';
+import { GameplayCommand, executeGameplayCommand } from './commands';
+import { updateGame } from './simulation';
+import { updateAI } from './ai';
+import { recordReplayFrame } from './replay';
+import { FIXED_TIME_STEP_MS, FixedStepClock, createFixedStepClock, takeFixedSteps } from './fixedTimestep';
+import { SimulationWorkerRequest, SimulationWorkerResponse, SnapshotCursor, takeSimulationSnapshot } from './simulationSnapshot';
+import { SavedLocalState, SavedMatch, saveMatch } from './savedMatch';
+
+// The project compiles against the DOM library, so describe the worker scope by what it uses
+const workerScope = self as unknown as {
+  postMessage(message: SimulationWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<SimulationWorkerRequest>) => void): void;
+};
+
+let state: GameState | null = null;
+let pendingCommands: GameplayCommand[] = [];
+let cursor: SnapshotCursor = { replayFrames: 0, replayCommands: 0 };
+let clock: FixedStepClock = createFixedStepClock();
+let stepTimer: ReturnType<typeof setInterval> | null = null;
+let lastStepAt = 0;
+let bothPlayersAI = false;
+
+function start(initialState: GameState, aiPlaysBothSides: boolean): void {
+  stop();
+  state = initialState;
+  bothPlayersAI = aiPlaysBothSides;
+  // Sounds and effects are played by the main thread, which has the audio context and the canvas
+  state.pendingSounds = [];
+  state.effectEvents = [];
+  // Simulation listeners (match statistics) run here; subscribers are told on the main thread
+  state.pendingGameplayEvents = [];
+  pendingCommands = [];
+  cursor = {
+    replayFrames: state.replayRecorder?.frameDeltasMs.length ?? 0,
+    replayCommands: state.replayRecorder?.commands.length ?? 0,
+  };
+  resume();
+}
+
+function stop(): void {
+  pause();
+  state = null;
+}
+
+// Stop stepping but keep the match; resume() carries on from the same step
+function pause(): void {
+  if (stepTimer !== null) {
+    clearInterval(stepTimer);
+    stepTimer = null;
+  }
+}
+
+function resume(): void {
+  if (!state || stepTimer !== null) return;
+  // Time spent paused is not caught up
+  clock = createFixedStepClock();
+  lastStepAt = performance.now();
+  stepTimer = setInterval(() => {
+    try {
+      step();
+    } catch (error) {
+      fail(error);
+    }
+  }, FIXED_TIME_STEP_MS);
+}
+
+// Stop simulating and let the main thread take over from the last snapshot
+function fail(error: unknown): void {
+  stop();
+  workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+}
+
+// Run every step that is due, then post one snapshot covering them
+function step(): void {
+  if (!state) return;
+
+  const now = performance.now();
+  const steps = takeFixedSteps(clock, now - lastStepAt);
+  lastStepAt = now;
+  if (steps === 0) return;
+
+  const deltaTime = FIXED_TIME_STEP_MS / 1000;
+  for (let i = 0; i < steps && state.winner === null; i++) {
+    // Apply commands at the start of a step so the replay records them on the frame they affect
+    pendingCommands.splice(0).forEach((command) => executeGameplayCommand(state!, command));
+    recordReplayFrame(state, deltaTime);
+    updateGame(state, deltaTime);
+    updateAI(state, deltaTime, bothPlayersAI);
+  }
+
+  workerScope.postMessage(takeSimulationSnapshot(state, cursor));
+
+  // The match is over; this snapshot carried the winner
+  if (state.winner !== null) {
+    stop();
+  }
+}
+
+// Save between steps, where the worker's positions are the simulated ones; the main thread only draws interpolated ones
+function save(arenaHeight: number, localState: SavedLocalState): SavedMatch | null {
+  if (!state || (state.scheduledTasks?.length ?? 0) > 0) return null;
+  return saveMatch({ ...state, ...localState }, arenaHeight);
+}
+
+workerScope.addEventListener('message', (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        // Fields the main thread keeps to itself are absent; the simulation never reads them
+        start(request.state as GameState, request.bothPlayersAI);
+        break;
+      case 'commands':
+        pendingCommands.push(...request.commands);
+        break;
+      case 'pause':
+        pause();
+        break;
+      case 'resume':
+        resume();
+        break;
+      case 'save':
+        workerScope.postMessage({ type: 'saved', saved: save(request.arenaHeight, request.localState) });
+        break;
+    }
+  } catch (error) {
+    fail(error);
+  }
+});
@@ -1,3 +1,6 @@
+import { GameState, GameplayEvent } from './types';
+import { getLocalPlayerIndex } from './gameUtils';
+
 export class SoundManager {
   private audioContext: AudioContext | null = null;
   private sfxVolume = 0.7;
@@ -126,6 +129,12 @@ export class SoundManager {
     setTimeout(() => this.playTone(880, 0.1, 'square', 0.15), 80);
   }
 
+  playUnitPromoted() {
+    this.playTone(523, 0.12, 'triangle', 0.2);
+    setTimeout(() => this.playTone(659, 0.12, 'triangle', 0.2), 100);
+    setTimeout(() => this.playTone(784, 0.2, 'triangle', 0.2), 200);
+  }
+
   playUnitDeath() {
     this.playTone(200, 0.3, 'sawtooth', 0.25);
   }
@@ -276,3 +285,41 @@ export class SoundManager {
 }
 
 export const soundManager = new SoundManager();
+
+/**
+ * Gameplay event subscriber that plays the sound for what happened in a match
+ * @param state - Match the event happened in
+ * @param event - Gameplay event
+ */
+export function playGameplayEventSound(state: GameState, event: GameplayEvent): void {
+  const localPlayer = getLocalPlayerIndex(state);
+  switch (event.type) {
+    case 'unitSpawned':
+      // Mining drones are bought at depots, which give their own feedback
+      if (event.owner === localPlayer && event.unitType !== 'miningDrone') {
+        soundManager.playUnitTrain();
+      }
+      break;
+    case 'unitKilled':
+      soundManager.playUnitDeath();
+      break;
+    case 'unitPromoted':
+      if (event.owner === localPlayer) {
+        soundManager.playUnitPromoted();
+      }
+      break;
+    case 'abilityCast':
+      soundManager.playAbility();
+      break;
+    case 'resourceCollected':
+      if (event.resource === 'photons' && event.owner === localPlayer) {
+        soundManager.playIncomeTick();
+      }
+      break;
+    case 'matchEnded':
+      if (event.reason === 'baseDestroyed') {
+        soundManager.playBaseDestroyed();
+      }
+      break;
+  }
+}
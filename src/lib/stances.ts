@@ -0,0 +1,102 @@
+/**
+ * Stances - how a unit fights when it has no orders. Idle units go after enemies that come within
+ * their stance's acquire range, follow them only so far from their post (where they ran out of
+ * orders) and may walk back to it afterwards. Hold position never moves on its own and passive
+ * units don't fire without orders. Orders don't change a unit's stance; it applies again whenever
+ * the queue runs out. Units nobody set a stance for keep the original idle behavior (fire at
+ * enemies in range, never chase), so matches play as they always have until a player picks one.
+ * The simulation applies the rules in updateUnits and updateCombat.
+ */
+
+import { Unit, UnitStance } from './types';
+
+export interface StanceDefinition {
+  name: string;
+  icon: string; // Drawn next to the unit and on the stance buttons
+  color: string;
+  description: string;
+  autoAttack: boolean; // Fires at enemies in range without being ordered to
+  acquireRange: number; // Meters beyond attack reach within which an idle unit goes after enemies
+  chaseDistance: number; // Meters from its post the unit follows a target
+  returnToPost: boolean; // Walks back to its post once no target is left
+  holdsGround: boolean; // Doesn't even step aside for friendly units passing through
+}
+
+export const UNIT_STANCES: UnitStance[] = ['aggressive', 'defensive', 'hold', 'passive'];
+
+// Rules for units without a stance: fire at enemies in range without chasing, returning or holding ground
+export const DEFAULT_STANCE_DEFINITION: StanceDefinition = {
+  name: 'Default',
+  icon: '',
+  color: 'oklch(0.80 0.02 250)',
+  description: 'Fires at enemies in range and stays put',
+  autoAttack: true,
+  acquireRange: 0,
+  chaseDistance: 0,
+  returnToPost: false,
+  holdsGround: false,
+};
+
+export const STANCE_DEFINITIONS: Record<UnitStance, StanceDefinition> = {
+  aggressive: {
+    name: 'Aggressive',
+    icon: '▲',
+    color: 'oklch(0.62 0.28 25)',
+    description: 'Hunts down nearby enemies and stays where the fight ends',
+    autoAttack: true,
+    acquireRange: 6,
+    chaseDistance: 12,
+    returnToPost: false,
+    holdsGround: false,
+  },
+  defensive: {
+    name: 'Defensive',
+    icon: '◆',
+    color: 'oklch(0.75 0.18 200)',
+    description: 'Engages enemies close to its post, then returns to it',
+    autoAttack: true,
+    acquireRange: 3,
+    chaseDistance: 5,
+    returnToPost: true,
+    holdsGround: false,
+  },
+  hold: {
+    name: 'Hold Position',
+    icon: '■',
+    color: 'oklch(0.85 0.20 95)',
+    description: 'Never moves without orders; fires at enemies in range',
+    autoAttack: true,
+    acquireRange: 0,
+    chaseDistance: 0,
+    returnToPost: false,
+    holdsGround: true,
+  },
+  passive: {
+    name: 'Passive',
+    icon: '○',
+    color: 'oklch(0.80 0.02 250)',
+    description: 'Only attacks when ordered to',
+    autoAttack: false,
+    acquireRange: 0,
+    chaseDistance: 0,
+    returnToPost: false,
+    holdsGround: false,
+  },
+};
+
+// Distance from its post at which a returning unit counts as back
+export const STANCE_POST_TOLERANCE = 0.5;
+
+/**
+ * Rules for a unit's current stance
+ */
+export function getUnitStance(unit: Unit): StanceDefinition {
+  return unit.stance ? STANCE_DEFINITIONS[unit.stance] : DEFAULT_STANCE_DEFINITION;
+}
+
+/**
+ * Stance after the given one, for the cycle hotkey; units without a stance start the cycle
+ */
+export function getNextStance(stance: UnitStance | undefined): UnitStance {
+  return stance ? UNIT_STANCES[(UNIT_STANCES.indexOf(stance) + 1) % UNIT_STANCES.length] : UNIT_STANCES[0];
+}
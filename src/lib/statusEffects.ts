@@ -0,0 +1,271 @@
+/**
+ * Status effects - timed buffs and debuffs on units (shields, cloaks, slows, stuns, burns).
+ * Each unit carries a list of StatusEffect instances; STATUS_EFFECT_DEFINITIONS holds the rules
+ * for each type: how reapplying it stacks, which stats it modifies, what it stops the unit doing
+ * and what it does on every tick. Modifiers are read when used, so nothing has to be undone when
+ * an effect wears off.
+ */
+
+import { GameState, StatusEffect, StatusEffectType, Unit } from './types';
+import { getSimulationTime } from './determinism';
+import { emitGameplayEvent } from './gameplayEvents';
+
+/**
+ * How reapplying an effect the unit already has combines with it
+ * - refresh: one instance; the new strength replaces the old, and the later end time wins
+ * - stack: one instance gaining a stack per application up to maxStacks; the duration restarts
+ * - perSource: one refreshing instance per source unit; all of them apply
+ * - strongest: one refreshing instance per source unit; only the strongest applies
+ */
+export type StatusStacking = 'refresh' | 'stack' | 'perSource' | 'strongest';
+
+// Stat changes from status effects. Speed and attack rate multiply; damage and armor add.
+export interface StatusModifiers {
+  speed: number; // Move speed multiplier
+  damage: number; // Added to the unit's damage multiplier
+  armor: number; // Added to the unit's armor
+  attackRate: number; // Attack rate multiplier
+}
+
+// Actions a status effect can prevent
+export type StatusRestriction = 'move' | 'attack' | 'cast';
+
+export interface StatusEffectDefinition {
+  name: string;
+  debuff: boolean;
+  stacking: StatusStacking;
+  maxStacks?: number; // For 'stack'
+  icon?: string; // Glyph drawn over the unit; effects with their own visuals have none
+  color: string;
+  modifiers?: (strength: number) => Partial<StatusModifiers>; // Strength includes stacks
+  prevents?: StatusRestriction[];
+  tickMs?: number;
+  onTick?: (state: GameState, unit: Unit, effect: StatusEffect) => void;
+  describe: (strength: number) => string; // For ability stat lines
+}
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+  shield: {
+    name: 'Shield',
+    debuff: false,
+    stacking: 'refresh',
+    color: '#66ccff',
+    describe: () => 'Shield',
+  },
+  cloak: {
+    name: 'Cloak',
+    debuff: false,
+    stacking: 'refresh',
+    color: '#aaaaff',
+    describe: () => 'Cloak',
+  },
+  revealed: {
+    name: 'Revealed',
+    debuff: true,
+    stacking: 'refresh',
+    icon: '◉',
+    color: '#ff66aa',
+    describe: () => 'Reveal cloaked units',
+  },
+  damageBoost: {
+    name: 'Damage Boost',
+    debuff: false,
+    stacking: 'perSource', // Different casters' boosts add up; recasting only refreshes
+    icon: '▲',
+    color: '#ff8844',
+    modifiers: (strength) => ({ damage: strength }),
+    describe: (strength) => `+${Math.round(strength * 100)}% damage`,
+  },
+  slow: {
+    name: 'Slow',
+    debuff: true,
+    stacking: 'strongest',
+    icon: '▼',
+    color: '#66aaff',
+    modifiers: (strength) => ({ speed: Math.max(0, 1 - strength) }),
+    describe: (strength) => (strength >= 1 ? 'Hold in place' : `−${Math.round(strength * 100)}% speed`),
+  },
+  stun: {
+    name: 'Stun',
+    debuff: true,
+    stacking: 'refresh',
+    icon: '✦',
+    color: '#ffee55',
+    prevents: ['move', 'attack', 'cast'],
+    describe: () => 'Stun',
+  },
+  burn: {
+    name: 'Burn',
+    debuff: true,
+    stacking: 'stack',
+    maxStacks: 5,
+    icon: '♨',
+    color: '#ff5522',
+    tickMs: 500,
+    // True damage: burns ignore armor and shields
+    onTick: (state, unit, effect) => {
+      const amount = effect.strength * effect.stacks;
+      unit.hp -= amount;
+      emitGameplayEvent(state, {
+        type: 'damageDealt',
+        sourceId: effect.sourceId,
+        sourceOwner: effect.sourceOwner,
+        targetId: unit.id,
+        targetOwner: unit.owner,
+        targetKind: 'unit',
+        amount,
+      });
+    },
+    describe: (strength) => `Burn for ${strength} damage per tick, stacking`,
+  },
+  silence: {
+    name: 'Silence',
+    debuff: true,
+    stacking: 'refresh',
+    icon: '⊘',
+    color: '#cc66ff',
+    prevents: ['cast'],
+    describe: () => 'Silence',
+  },
+};
+
+const NO_MODIFIERS: StatusModifiers = { speed: 1, damage: 0, armor: 0, attackRate: 1 };
+
+export interface StatusEffectOptions {
+  durationMs: number; // Infinity for permanent effects
+  strength?: number;
+  source?: { id?: string; owner: number };
+  dome?: StatusEffect['dome'];
+  revealMs?: number; // Cloak only
+}
+
+/**
+ * Apply a status effect, combining it with ones already on the unit by the type's stacking rule
+ * @param state - Game state being simulated
+ * @param unit - Unit receiving the effect
+ * @param type - Effect to apply
+ * @param options - Duration, strength per stack and who applied it
+ */
+export function applyStatusEffect(state: GameState, unit: Unit, type: StatusEffectType, options: StatusEffectOptions): void {
+  const def = STATUS_EFFECT_DEFINITIONS[type];
+  const now = getSimulationTime(state);
+  const endTime = now + options.durationMs;
+  const strength = options.strength ?? 1;
+  const sourceId = options.source?.id;
+  const effects = (unit.statusEffects ??= []);
+
+  const bySource = def.stacking === 'perSource' || def.stacking === 'strongest';
+  const existing = effects.find((effect) => effect.type === type && (!bySource || effect.sourceId === sourceId));
+
+  if (!existing) {
+    effects.push({
+      type,
+      endTime,
+      strength,
+      stacks: 1,
+      sourceId,
+      sourceOwner: options.source?.owner ?? unit.owner,
+      nextTickTime: def.tickMs !== undefined ? now + def.tickMs : undefined,
+      dome: options.dome,
+      revealMs: options.revealMs,
+    });
+    return;
+  }
+
+  existing.strength = strength;
+  existing.sourceId = sourceId;
+  existing.sourceOwner = options.source?.owner ?? existing.sourceOwner;
+  existing.dome = options.dome;
+  existing.revealMs = options.revealMs;
+  if (def.stacking === 'stack') {
+    existing.stacks = Math.min(existing.stacks + 1, def.maxStacks ?? Number.POSITIVE_INFINITY);
+    existing.endTime = endTime;
+  } else {
+    existing.endTime = Math.max(existing.endTime, endTime);
+  }
+}
+
+/**
+ * Remove every effect of a type, such as a cloak broken by attacking
+ */
+export function removeStatusEffect(unit: Unit, type: StatusEffectType): void {
+  if (!unit.statusEffects) return;
+  unit.statusEffects = unit.statusEffects.filter((effect) => effect.type !== type);
+}
+
+/**
+ * Get the unit's effect of a type; for per-source types, the strongest one
+ */
+export function getStatusEffect(unit: Unit, type: StatusEffectType): StatusEffect | undefined {
+  let found: StatusEffect | undefined;
+  unit.statusEffects?.forEach((effect) => {
+    if (effect.type === type && (!found || effect.strength * effect.stacks > found.strength * found.stacks)) {
+      found = effect;
+    }
+  });
+  return found;
+}
+
+export function hasStatusEffect(unit: Unit, type: StatusEffectType): boolean {
+  return !!unit.statusEffects?.some((effect) => effect.type === type);
+}
+
+/**
+ * Check whether the unit's status effects allow an action
+ */
+export function canUnitAct(unit: Unit, action: StatusRestriction): boolean {
+  return !unit.statusEffects?.some((effect) => STATUS_EFFECT_DEFINITIONS[effect.type].prevents?.includes(action));
+}
+
+/**
+ * Combine the stat changes of every effect on the unit
+ */
+export function getStatusModifiers(unit: Unit): StatusModifiers {
+  if (!unit.statusEffects || unit.statusEffects.length === 0) return NO_MODIFIERS;
+
+  const modifiers = { ...NO_MODIFIERS };
+  unit.statusEffects.forEach((effect) => {
+    const def = STATUS_EFFECT_DEFINITIONS[effect.type];
+    if (!def.modifiers) return;
+    // Only the strongest instance of a 'strongest' type counts
+    if (def.stacking === 'strongest' && getStatusEffect(unit, effect.type) !== effect) return;
+
+    const change = def.modifiers(effect.strength * effect.stacks);
+    modifiers.speed *= change.speed ?? 1;
+    modifiers.damage += change.damage ?? 0;
+    modifiers.armor += change.armor ?? 0;
+    modifiers.attackRate *= change.attackRate ?? 1;
+  });
+  return modifiers;
+}
+
+// The unit's damage multiplier including buffs and debuffs
+export function getUnitDamageMultiplier(unit: Unit): number {
+  return unit.damageMultiplier + getStatusModifiers(unit).damage;
+}
+
+// The unit's armor including buffs and debuffs
+export function getUnitArmor(unit: Unit): number {
+  return Math.max(0, unit.armor + getStatusModifiers(unit).armor);
+}
+
+/**
+ * Run due ticks and drop expired effects. Called once per unit per simulation step.
+ * @param state - Game state being simulated
+ * @param unit - Unit whose effects to update
+ */
+export function updateStatusEffects(state: GameState, unit: Unit): void {
+  if (!unit.statusEffects || unit.statusEffects.length === 0) return;
+  const now = getSimulationTime(state);
+
+  unit.statusEffects.forEach((effect) => {
+    const def = STATUS_EFFECT_DEFINITIONS[effect.type];
+    if (!def.onTick || def.tickMs === undefined || effect.nextTickTime === undefined) return;
+    while (effect.nextTickTime <= now && effect.nextTickTime <= effect.endTime) {
+      def.onTick(state, unit, effect);
+      effect.nextTickTime += def.tickMs;
+    }
+  });
+
+  unit.statusEffects = unit.statusEffects.filter((effect) => effect.endTime > now);
+}
@@ -0,0 +1,106 @@
+/**
+ * Stealth - cloaked units can't be seen or targeted by enemies unless detected. Detectors (units
+ * and structures with a detectionRange) reveal cloaked enemies around them. A cloaked unit that
+ * deals damage loses its cloak, or is revealed for a while if its cloak has a revealMs (the
+ * Dagger's permanent cloak). An undetected cloaked unit is invisible to enemies, except for a
+ * shimmer just after its reveal ends or while it sits at the edge of a detector's range.
+ */
+
+import { GameState, GameplayEvent, STRUCTURE_DEFINITIONS, UNIT_DEFINITIONS, Structure, Unit } from './types';
+import { distance } from './gameUtils';
+import { hasLineOfSight } from './vision';
+import { applyStatusEffect, getStatusEffect, hasStatusEffect, removeStatusEffect } from './statusEffects';
+
+// A unit or structure that can detect, with its detection range
+interface Detector {
+  entity: Unit | Structure;
+  range: number;
+}
+
+// Each player's detectors, rebuilt when units or structures are added or removed. Derived from the
+// entity lists alone, so it is safe to cache outside the state.
+interface DetectorIndex {
+  units: Unit[];
+  unitCount: number;
+  structures: Structure[];
+  structureCount: number;
+  byOwner: Map<number, Detector[]>;
+}
+
+const detectorIndexes = new WeakMap<GameState, DetectorIndex>();
+
+function getDetectors(state: GameState, playerIndex: number): Detector[] {
+  let index = detectorIndexes.get(state);
+  if (
+    !index ||
+    index.units !== state.units ||
+    index.unitCount !== state.units.length ||
+    index.structures !== state.structures ||
+    index.structureCount !== state.structures.length
+  ) {
+    index = {
+      units: state.units,
+      unitCount: state.units.length,
+      structures: state.structures,
+      structureCount: state.structures.length,
+      byOwner: new Map(),
+    };
+    const add = (entity: Unit | Structure, range: number | undefined) => {
+      if (range === undefined) return;
+      const detectors = index!.byOwner.get(entity.owner) ?? [];
+      detectors.push({ entity, range });
+      index!.byOwner.set(entity.owner, detectors);
+    };
+    state.units.forEach((unit) => add(unit, UNIT_DEFINITIONS[unit.type].detectionRange));
+    state.structures.forEach((structure) => add(structure, STRUCTURE_DEFINITIONS[structure.type].detectionRange));
+    detectorIndexes.set(state, index);
+  }
+  return index.byOwner.get(playerIndex) ?? [];
+}
+
+/**
+ * Check whether a player has a detector in range of the unit with a clear line of sight
+ * @param state - Game state
+ * @param unit - Unit to check
+ * @param playerIndex - Player whose detectors to use
+ * @param rangeBonus - Meters added to every detection range; the renderer uses it to find units
+ *   just outside detection
+ */
+export function isDetectedBy(state: GameState, unit: Unit, playerIndex: number, rangeBonus: number = 0): boolean {
+  return getDetectors(state, playerIndex).some(
+    ({ entity, range }) =>
+      distance(entity.position, unit.position) <= range + rangeBonus && hasLineOfSight(state, entity.position, unit.position)
+  );
+}
+
+/**
+ * Check whether a unit's cloak hides it from a player: cloaked, not revealed and not detected
+ * @param state - Game state
+ * @param unit - Unit to check
+ * @param playerIndex - Player looking; a player's own units are never hidden from them
+ */
+export function isHiddenFrom(state: GameState, unit: Unit, playerIndex: number): boolean {
+  if (unit.owner === playerIndex || !hasStatusEffect(unit, 'cloak') || hasStatusEffect(unit, 'revealed')) {
+    return false;
+  }
+  return !isDetectedBy(state, unit, playerIndex);
+}
+
+/**
+ * Simulation listener that breaks or reveals the cloak of units dealing damage
+ * @param state - Game state being simulated
+ * @param event - Event just emitted
+ */
+export function revealAttackers(state: GameState, event: GameplayEvent): void {
+  if (event.type !== 'damageDealt' || !event.sourceId || event.sourceOwner === event.targetOwner) return;
+
+  const attacker = state.units.find((u) => u.id === event.sourceId);
+  const cloak = attacker && getStatusEffect(attacker, 'cloak');
+  if (!attacker || !cloak) return;
+
+  if (cloak.revealMs) {
+    applyStatusEffect(state, attacker, 'revealed', { durationMs: cloak.revealMs, source: { owner: event.targetOwner } });
+  } else {
+    removeStatusEffect(attacker, 'cloak');
+  }
+}
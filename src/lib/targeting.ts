@@ -0,0 +1,66 @@
+/**
+ * Targeting - shared rules for attack-unit orders: finding the ordered target, whether a unit can
+ * attack it with normal attacks, and how close it has to get. The simulation chases and fires at
+ * the target, input only orders units that can hurt it, and the renderer draws the target line.
+ */
+
+import {
+  AttackTargetKind,
+  BASE_SIZE_METERS,
+  Base,
+  GameState,
+  STRUCTURE_DEFINITIONS,
+  Structure,
+  UNIT_DEFINITIONS,
+  Unit,
+  UnitType,
+} from './types';
+
+export type AttackTarget = Unit | Base | Structure;
+
+/**
+ * Find the target of an attack-unit order
+ * @param state - Game state
+ * @param targetId - Id of the unit, structure or base
+ * @param targetKind - Which list the id belongs to
+ * @returns The target, or undefined once it's destroyed
+ */
+export function findAttackTarget(state: GameState, targetId: string, targetKind: AttackTargetKind): AttackTarget | undefined {
+  const target =
+    targetKind === 'unit'
+      ? state.units.find((u) => u.id === targetId)
+      : targetKind === 'structure'
+        ? state.structures.find((s) => s.id === targetId)
+        : state.bases.find((b) => b.id === targetId);
+  return target && target.hp > 0 ? target : undefined;
+}
+
+/**
+ * Check whether a unit type's normal attack can hurt a target. Flying units are only hit by
+ * abilities, and bases and structures need canDamageStructures.
+ * @param unitType - Attacking unit type
+ * @param targetKind - Kind of target
+ * @param target - The target, to check whether a unit flies
+ */
+export function canAttackTarget(unitType: UnitType, targetKind: AttackTargetKind, target: AttackTarget): boolean {
+  const def = UNIT_DEFINITIONS[unitType];
+  if (def.attackType === 'none') return false;
+  if (targetKind === 'unit') {
+    return !UNIT_DEFINITIONS[(target as Unit).type].modifiers.includes('flying');
+  }
+  return !!def.canDamageStructures;
+}
+
+/**
+ * Distance between centers from which a unit type's normal attack reaches a target; bases and
+ * structures can be hit anywhere on their footprint
+ * @param unitType - Attacking unit type
+ * @param targetKind - Kind of target
+ * @param target - The target, for a structure's size
+ */
+export function getAttackReach(unitType: UnitType, targetKind: AttackTargetKind, target: AttackTarget): number {
+  const range = UNIT_DEFINITIONS[unitType].attackRange;
+  if (targetKind === 'base') return range + BASE_SIZE_METERS / 2;
+  if (targetKind === 'structure') return range + STRUCTURE_DEFINITIONS[(target as Structure).type].size / 2;
+  return range;
+}
@@ -38,8 +38,8 @@ export const ABILITY_LASER_WIDTH = 0.5;
 export const ABILITY_LASER_DURATION = 1000; // milliseconds
 export const ABILITY_LASER_BASE_DAMAGE_MULTIPLIER = 0.5;
 
-export const PROMOTION_DISTANCE_THRESHOLD = 10;
-export const PROMOTION_MULTIPLIER = 1.1;
+export const PROMOTION_DISTANCE_THRESHOLD = 10; // Meters of movement credit per veterancy experience award
+export const PROMOTION_MULTIPLIER = 1.1; // Damage and max HP multiplier gained per veterancy rank
 export const QUEUE_BONUS_PER_NODE = 0.1;
 
 // Fog of war vision range in meters
@@ -111,7 +111,63 @@ export type CommandNode =
   | { type: 'ability'; position: Vector2; direction: Vector2 }
   | { type: 'attack-move'; position: Vector2 }
   | { type: 'patrol'; position: Vector2; returnPosition: Vector2 }
-  | { type: 'follow-path'; path: Vector2[] };
+  | { type: 'follow-path'; path: Vector2[] }
+  | { type: 'attack-unit'; targetId: string; targetKind: AttackTargetKind; position: Vector2 } // position: where the target was last seen
+  | { type: 'follow'; targetId: string; targetKind: EscortTargetKind; offset: Vector2; position: Vector2 } // position: target position plus offset
+  | { type: 'guard'; targetId: string; targetKind: EscortTargetKind; offset: Vector2; position: Vector2 };
+
+// What an attack-unit command is aimed at
+export type AttackTargetKind = 'unit' | 'structure' | 'base';
+
+// What a follow or guard command escorts
+export type EscortTargetKind = 'unit' | 'base';
+
+// Last enemy hit on a unit or base, which units guarding it respond to for a short while
+export interface EnemyHit {
+  attackerId: string;
+  time: number; // Simulation time of the hit in milliseconds
+}
+
+// How a unit fights without orders; the rules for each live in stances.ts
+export type UnitStance = 'aggressive' | 'defensive' | 'hold' | 'passive';
+
+// Veterancy progress of a unit; ranks and their bonuses live in veterancy.ts
+export interface UnitVeterancy {
+  experience: number;
+  rank: number; // Index into VETERANCY_RANKS; bonuses for every rank up to it are applied
+  kills: number;
+  damageDealt: number;
+}
+
+// A local player's unit that ranked up, for the match-end breakdown
+export interface VeteranRecord {
+  unitId: string;
+  unitType: UnitType;
+  rank: number;
+  kills: number;
+  damageDealt: number;
+  fallen: boolean;
+}
+
+// Timed buffs and debuffs; their rules live in STATUS_EFFECT_DEFINITIONS (statusEffects.ts)
+export type StatusEffectType = 'shield' | 'cloak' | 'revealed' | 'damageBoost' | 'slow' | 'stun' | 'burn' | 'silence';
+
+// One status effect on a unit. Plain data, so it survives snapshots, saves and replays.
+export interface StatusEffect {
+  type: StatusEffectType;
+  endTime: number; // Simulation time it wears off; Infinity for permanent effects
+  strength: number; // Per stack; what it means depends on the type
+  stacks: number;
+  sourceId?: string; // Unit that applied it
+  sourceOwner: number;
+  nextTickTime?: number; // Simulation time of the next tick, for types that tick
+  dome?: {
+    radius: number; // Allies within this many meters are protected
+    rangedDamageMultiplier?: number;
+    meleeDamageMultiplier?: number;
+  }; // Shield only
+  revealMs?: number; // Cloak only: dealing damage reveals the unit for this long; without it the cloak breaks
+}
 
 export interface Unit {
   id: string;
@@ -126,15 +182,14 @@ export interface Unit {
   damageMultiplier: number;
   distanceTraveled: number;
   distanceCredit: number;
+  veterancy?: UnitVeterancy; // Absent until the unit earns experience
+  lastAttackerId?: string; // Unit that last damaged it, credited with the kill
+  lastEnemyHit?: EnemyHit; // Set by recordGuardThreats
+  stance?: UnitStance; // Absent means DEFAULT_STANCE_DEFINITION (fire in range, never chase)
+  stancePost?: Vector2; // Where the unit ran out of orders; idle units chase and return relative to it
   abilityCooldown: number;
   lineJumpTelegraph?: { startTime: number; endPos: Vector2; direction: Vector2 };
-  shieldActive?: {
-    endTime: number;
-    radius: number;
-    rangedDamageMultiplier?: number;
-    meleeDamageMultiplier?: number;
-  };
-  cloaked?: { endTime: number };
+  statusEffects?: StatusEffect[]; // Shields, cloaks, buffs and debuffs; see statusEffects.ts
   bombardmentActive?: { endTime: number; targetPos: Vector2; impactTime: number };
   healPulseActive?: { endTime: number; radius: number };
   missileBarrageActive?: { endTime: number; missiles: Array<{ position: Vector2; target: Vector2; damage: number }> };
@@ -150,6 +205,7 @@ export interface Unit {
   stuckTimer?: number; // Time in seconds that unit has been stuck (unable to move with commands queued)
   lastPosition?: Vector2; // Last recorded position for stuck detection
   jitterOffset?: number; // Offset for jitter/wiggle movement when stuck
+  navigationPath?: { goal: Vector2; waypoints: Vector2[] }; // Route around obstacles to the current command's destination
   queueFadeStartTime?: number; // Timestamp when queue fade animation started (for cancelled commands)
   queueDrawStartTime?: number; // Timestamp when queue drawing animation started (for new commands)
   queueDrawReverse?: boolean; // Whether queue should un-draw in reverse (true when unit dies)
@@ -322,6 +378,7 @@ export interface Base {
   autoAttackCooldown?: number; // Cooldown for auto-attack (defense base)
   regenerationPulse?: { endTime: number; radius: number }; // Visual effect for regeneration pulse
   currentSpeed?: number; // Current movement speed for acceleration/deceleration
+  lastEnemyHit?: EnemyHit; // Set by recordGuardThreats
 }
 
 // Mining depot for resource gathering
@@ -355,6 +412,15 @@ export interface Structure {
   shieldActive?: { endTime: number; radius: number }; // For defensive towers
 }
 
+// An enemy base or structure as the player last saw it, drawn as a ghost under fog of war
+export interface LastSeenMarker {
+  kind: 'base' | 'structure';
+  owner: number;
+  position: Vector2;
+  structureType?: StructureType;
+  seenAt: number; // Simulation time
+}
+
 export interface StructureDefinition {
   name: string;
   description: string;
@@ -368,6 +434,7 @@ export interface StructureDefinition {
   abilityName: string;
   abilityCooldown: number;
   size: number; // Size in meters for collision detection
+  detectionRange?: number; // Reveals cloaked enemies within this many meters (stealth.ts)
 }
 
 export const STRUCTURE_DEFINITIONS: Record<StructureType, StructureDefinition> = {
@@ -398,6 +465,7 @@ export const STRUCTURE_DEFINITIONS: Record<StructureType, StructureDefinition> =
     abilityName: 'Shield Barrier',
     abilityCooldown: 15,
     size: 1.25,
+    detectionRange: 10,
   },
   'faction-radiant': {
     name: 'Photon Spire',
@@ -455,10 +523,10 @@ export interface UnitDefinition {
   attackDamage: number;
   attackRate: number;
   cost: number;
-  abilityName: string;
-  abilityCooldown: number;
   canDamageStructures: boolean;
   modifiers: UnitModifier[]; // Unit modifiers (ranged, melee, flying, small, healing)
+  detectionRange?: number; // Reveals cloaked enemies within this many meters (stealth.ts)
+  // The unit's ability lives in ABILITY_DEFINITIONS (abilities.ts)
 }
 
 export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
@@ -472,8 +540,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 2,
     attackRate: 6,
     cost: 25,
-    abilityName: 'Burst Fire',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -487,8 +553,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 18,
     attackRate: 1,
     cost: 40,
-    abilityName: 'Blade Volley',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -502,8 +566,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 0,
     attackRate: 0,
     cost: 30,
-    abilityName: 'Line Jump',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: false,
     modifiers: ['small'],
   },
@@ -517,8 +579,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 12,
     attackRate: 0.8,
     cost: 60,
-    abilityName: 'Shield Dome',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -532,8 +592,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 4,
     attackRate: 3,
     cost: 20,
-    abilityName: 'Ambush Throw',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['ranged', 'small'],
   },
@@ -547,8 +605,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 8,
     attackRate: 0.5,
     cost: 50,
-    abilityName: 'Bombardment',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -562,8 +618,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 0,
     attackRate: 0,
     cost: 35,
-    abilityName: 'Heal Pulse',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['healing'],
   },
@@ -577,10 +631,9 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 5,
     attackRate: 2.5,
     cost: 45,
-    abilityName: 'Missile Barrage',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged', 'flying'],
+    detectionRange: 7,
   },
   berserker: {
     name: 'Berserker',
@@ -592,8 +645,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 25,
     attackRate: 0.8,
     cost: 50,
-    abilityName: 'Rage',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -607,8 +658,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 15,
     attackRate: 2,
     cost: 35,
-    abilityName: 'Shadow Strike',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: false,
     modifiers: ['melee'],
   },
@@ -622,8 +671,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 30,
     attackRate: 0.6,
     cost: 70,
-    abilityName: 'Ground Slam',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -637,8 +684,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 20,
     attackRate: 1.2,
     cost: 45,
-    abilityName: 'Whirlwind',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -652,8 +697,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 10, // Increased from 7 for melee
     attackRate: 3, // Increased from 2.5 for fast attacks
     cost: 30,
-    abilityName: 'Solar Beam',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee', 'small'], // Changed from ranged
   },
@@ -667,8 +710,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 22,
     attackRate: 1.3, // Increased from 1 for faster attacks
     cost: 45,
-    abilityName: 'Stellar Burst',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -682,8 +723,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 12, // Increased from 5 for melee
     attackRate: 2.5, // Reduced from 3 but increased damage
     cost: 35,
-    abilityName: 'Shadow Veil',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -697,8 +736,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 18, // Increased from 10 for melee
     attackRate: 1.2, // Increased from 1 for faster attacks
     cost: 55,
-    abilityName: 'Radiation Wave',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -712,8 +749,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 25, // Increased from 15 for melee
     attackRate: 0.9, // Increased from 0.7 for faster attacks
     cost: 65,
-    abilityName: 'Cosmic Explosion',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -727,8 +762,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 16,
     attackRate: 1,
     cost: 55,
-    abilityName: 'Protect Allies',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -742,8 +775,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 8,
     attackRate: 2,
     cost: 40,
-    abilityName: 'Soul Strike',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -757,10 +788,9 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 0,
     attackRate: 0,
     cost: 40,
-    abilityName: 'Divine Restoration',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: false,
     modifiers: ['healing'],
+    detectionRange: 8,
   },
   harbinger: {
     name: 'Harbinger',
@@ -772,8 +802,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 6,
     attackRate: 2.5,
     cost: 50,
-    abilityName: 'Ethereal Strike',
-    abilityCooldown: 4, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['ranged', 'flying'],
   },
@@ -787,8 +815,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 0,
     attackRate: 0,
     cost: 40,
-    abilityName: 'Solar Blessing',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['healing'],
   },
@@ -802,8 +828,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 14, // Increased from 7 for melee
     attackRate: 2.8, // Increased from 2.5 for faster attacks
     cost: 48,
-    abilityName: 'Stellar Dive',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee', 'flying', 'small'], // Changed from ranged
   },
@@ -817,8 +841,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 20,
     attackRate: 1.4, // Increased from 1.1 for faster attacks
     cost: 50,
-    abilityName: 'Astral Charge',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -833,8 +855,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 12,
     attackRate: 0.6,
     cost: 55,
-    abilityName: 'Precision Shot',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -848,8 +868,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 5,
     attackRate: 1.5,
     cost: 45,
-    abilityName: 'Deploy Turret',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged'],
   },
@@ -863,8 +881,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 6,
     attackRate: 2,
     cost: 35,
-    abilityName: 'Rapid Retreat',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['ranged', 'small'],
   },
@@ -878,8 +894,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 10,
     attackRate: 1,
     cost: 60,
-    abilityName: 'Holy Strike',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['ranged', 'melee'],
   },
@@ -894,8 +908,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 28,
     attackRate: 0.9,
     cost: 55,
-    abilityName: 'Lethal Strike',
-    abilityCooldown: 3, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -909,8 +921,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 18,
     attackRate: 1.5,
     cost: 45,
-    abilityName: 'Blood Hunt',
-    abilityCooldown: 3, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -924,8 +934,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 35,
     attackRate: 0.5,
     cost: 80,
-    abilityName: 'Battle Cry',
-    abilityCooldown: 3, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: true,
     modifiers: ['melee'],
   },
@@ -939,8 +947,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 16,
     attackRate: 1.8,
     cost: 40,
-    abilityName: 'Riposte',
-    abilityCooldown: 3, // Reduced from 5 for more strategic spell-casting
     canDamageStructures: false,
     modifiers: ['melee'],
   },
@@ -955,8 +961,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 16, // Increased from 8 for melee
     attackRate: 2.3, // Increased from 2 for faster attacks
     cost: 50,
-    abilityName: 'Void Step',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -970,8 +974,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 12, // Increased from 6 for melee
     attackRate: 1.8, // Increased from 1.5 for faster attacks
     cost: 55,
-    abilityName: 'Time Dilation',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -985,8 +987,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 14, // Increased from 7 for melee
     attackRate: 1.5, // Increased from 1.2 for faster attacks
     cost: 50,
-    abilityName: 'Cosmic Barrier',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -1000,8 +1000,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 18, // Increased from 9 for melee
     attackRate: 1.3, // Increased from 1 for faster attacks
     cost: 60,
-    abilityName: 'Stellar Convergence',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -1015,10 +1013,9 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 12, // Increased from 6 for melee
     attackRate: 2.1, // Increased from 1.8 for faster attacks
     cost: 50,
-    abilityName: 'Gravity Well',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee'], // Changed from ranged
+    detectionRange: 7,
   },
   photon: {
     name: 'Photon',
@@ -1030,8 +1027,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 10, // Increased from 5 for melee
     attackRate: 3.5, // Increased from 3 for faster attacks
     cost: 45,
-    abilityName: 'Chain Lightning',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee', 'small'], // Changed from ranged
   },
@@ -1045,8 +1040,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 16, // Increased from 8 for melee
     attackRate: 1.8, // Increased from 1.5 for faster attacks
     cost: 55,
-    abilityName: 'Orbital Strike',
-    abilityCooldown: 5,
     canDamageStructures: true,
     modifiers: ['melee'], // Changed from ranged
   },
@@ -1060,8 +1053,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 8, // Increased from 4 for melee
     attackRate: 3, // Increased from 2.5 for faster attacks
     cost: 40,
-    abilityName: 'Light Refraction',
-    abilityCooldown: 5,
     canDamageStructures: false,
     modifiers: ['melee', 'small'], // Changed from ranged
   },
@@ -1075,8 +1066,6 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitDefinition> = {
     attackDamage: 0,
     attackRate: 0,
     cost: 10,
-    abilityName: 'Mine Resources',
-    abilityCooldown: 0,
     canDamageStructures: false,
     modifiers: ['small', 'flying'],
   },
@@ -1115,10 +1104,233 @@ export interface ResourceOrb {
   killerColor: string; // Killer's color
 }
 
+// Delayed or repeating gameplay callback driven by the simulation clock instead of setTimeout
+export interface ScheduledSimulationTask {
+  id: number; // Insertion order, used as a tie-breaker for tasks due at the same time
+  dueTime: number; // Simulation time (ms) when the task runs next
+  intervalMs?: number; // Repeat interval in ms (omit for one-shot tasks)
+  endTime?: number; // Simulation time (ms) after which a repeating task stops
+  run: () => void;
+}
+
+// Sound effects the simulation triggers (SoundManager method names)
+export type SimulationSound =
+  | 'playCountdown'
+  | 'playAttack';
+
+// Cosmetic events the simulation emits for the effects layer (effects.ts) instead of creating
+// particles itself. Plain data, so the simulation worker can post them to the main thread.
+export type EffectEvent =
+  | { type: 'unitSpawned'; position: Vector2; color: string }
+  | { type: 'unitDied'; position: Vector2; color: string }
+  | { type: 'structureBuilt'; position: Vector2; color: string }
+  | { type: 'structureDestroyed'; position: Vector2; color: string }
+  | { type: 'baseDestroyed'; position: Vector2; owner: number }
+  | { type: 'hitLanded'; position: Vector2; color: string; sparks: number }
+  | { type: 'damageDealt'; position: Vector2; color: string; damage: number }
+  | { type: 'impact'; position: Vector2; color: string; size: number }
+  | { type: 'ricochet'; position: Vector2; direction: Vector2; color: string; count: number } // direction: incoming shot
+  | { type: 'abilityCast'; ability: string; owner: number; origin: Vector2; target: Vector2 }
+  | { type: 'energyPulse'; position: Vector2; color: string; radius: number; duration: number } // duration in seconds
+  | { type: 'laserFired'; origin: Vector2; direction: Vector2; range: number; color: string }
+  | { type: 'structureFired'; position: Vector2; direction: Vector2; color: string }
+  | { type: 'shellEjected'; position: Vector2; direction: Vector2; owner: number } // direction: the shot, not the shell
+  | { type: 'screenShake'; intensity: number; duration: number }
+  | { type: 'screenFlash'; color: string; intensity: number; duration: number }
+  | { type: 'unitPromoted'; position: Vector2; color: string; rank: number };
+
+// What happened in a simulation step, for listeners outside the simulation (gameplayEvents.ts).
+// Entities are referred to by id, so the simulation worker can post events to the main thread.
+export type GameplayEvent =
+  | { type: 'unitSpawned'; unitId: string; owner: number; unitType: UnitType; cost: number; position: Vector2 }
+  | { type: 'damageDealt'; sourceId?: string; sourceOwner: number; targetId: string; targetOwner: number; targetKind: 'unit' | 'base' | 'structure'; amount: number }
+  | { type: 'unitKilled'; unitId: string; owner: number; unitType: UnitType; position: Vector2; killerId?: string }
+  | { type: 'unitPromoted'; unitId: string; owner: number; unitType: UnitType; rank: number; position: Vector2 }
+  | { type: 'abilityCast'; unitId: string; owner: number; unitType: UnitType; position: Vector2 }
+  | { type: 'structureBuilt'; structureId: string; owner: number; structureType: StructureType; position: Vector2 }
+  | { type: 'baseDamaged'; baseId: string; owner: number; attackerOwner: number; amount: number; hp: number } // hp after the hit
+  | { type: 'resourceCollected'; owner: number; resource: 'photons' | 'secondaryResource'; amount: number; unitId?: string } // unitId: the drone that delivered it
+  | { type: 'matchEnded'; winner: number; reason: 'baseDestroyed' | 'timeLimit' | 'forfeit' }; // winner -1: draw
+
+// What a computer-controlled squad is currently doing
+export type AISquadMode = 'rallying' | 'attacking' | 'defending' | 'retreating';
+
+// Group of AI combat units that receives orders together
+export interface AISquad {
+  id: number;
+  unitIds: string[];
+  mode: AISquadMode;
+  target?: Vector2; // Where the squad was last ordered to go
+}
+
+// Strategic memory for one computer-controlled player. Kept on the game state rather than in the AI
+// module so replay playback and batch simulations re-run the AI from the same memory.
+export interface AIPlayerMemory {
+  buildStep: number; // Next entry in the faction build order
+  squads: AISquad[];
+  nextSquadId: number;
+  scoutId?: string; // Unit currently out scouting
+  scoutLeg: number; // 0 = not sent yet, 1 = outbound through the enemy side, 2 = heading home
+  nextScoutTime: number; // Simulation time (ms) before which no new scout is sent
+  lastBaseHp: number; // Base hp at the previous decision, to notice attacks on the base itself
+  knownEnemyStrength: number; // Army value of enemy units seen recently (decays while out of sight)
+  homePosition: Vector2; // Where the base started; mobile bases are kept on a leash around it
+  builder?: { unitId: string; structureType: StructureType; site: Vector2; orderedAt: number }; // Drone on its way to build a tower
+  cloakSpotted?: boolean; // Has seen a cloaked enemy, so it wants a detector
+}
+
+// Cosmetic state of a drawn match, owned by the effects layer (effects.ts) rather than the GameState.
+// Nothing in it affects the simulation, so the authoritative state serializes and hashes without it.
+export interface EffectsState {
+  // Background floaters for water-like physics
+  floaters: Floater[];
+  
+  // Field particles for mid-field physics effects (between 1st and 3rd quartiles)
+  fieldParticles: FieldParticle[];
+  
+  // Fog of war particles for swirling purple effects
+  fogParticles: Array<{
+    id: string;
+    position: Vector2;
+    velocity: Vector2;
+    angle: number; // Current rotation angle
+    orbitRadius: number; // Distance from orbit center
+    orbitCenter: Vector2; // Point this particle orbits around
+    orbitSpeed: number; // Angular velocity
+    size: number;
+    opacity: number;
+    phase: number; // Phase offset for wave motion
+  }>;
+  
+  shells: Shell[]; // Ejected shell casings from marine shots
+  
+  // Explosion particles for unit deaths
+  explosionParticles: Array<{
+    id: string;
+    position: Vector2;
+    velocity: Vector2;
+    color: string;
+    size: number;
+    lifetime: number;
+    createdAt: number;
+    alpha: number;
+    rotation?: number; // Rotation angle for debris
+    rotationSpeed?: number; // Speed of rotation
+  }>;
+  
+  // Hit spark effects
+  hitSparks: Array<{
+    id: string;
+    position: Vector2;
+    velocity: Vector2;
+    color: string;
+    size: number;
+    lifetime: number;
+    createdAt: number;
+  }>;
+  
+  // Bounce particles for armored units
+  bounceParticles: Array<{
+    id: string;
+    position: Vector2;
+    velocity: Vector2;
+    color: string;
+    size: number;
+    lifetime: number;
+    createdAt: number;
+  }>;
+  
+  // Enhanced visual effects
+  energyPulses: Array<{
+    id: string;
+    position: Vector2;
+    radius: number;
+    color: string;
+    startTime: number;
+    duration: number;
+    maxRadius: number;
+  }>;
+  
+  // Spawn effects for units
+  spawnEffects: Array<{
+    id: string;
+    position: Vector2;
+    color: string;
+    startTime: number;
+    duration: number;
+  }>;
+  
+  // Impact effects for hits and explosions
+  impactEffects: Array<{
+    id: string;
+    position: Vector2;
+    color: string;
+    startTime: number;
+    duration: number;
+    size: number;
+  }>;
+  
+  // Floating damage numbers
+  damageNumbers: Array<{
+    id: string;
+    position: Vector2;
+    damage: number;
+    color: string;
+    startTime: number;
+    duration: number;
+  }>;
+  
+  // Motion trails for fast units
+  motionTrails: Array<{
+    unitId: string;
+    positions: Array<{ pos: Vector2; timestamp: number }>;
+    color: string;
+  }>;
+  
+  // Sprite corner trails - thin trails from back corners of unit sprites
+  spriteCornerTrails: Array<{
+    unitId: string;
+    leftCornerPositions: Array<{ pos: Vector2; timestamp: number }>;
+    rightCornerPositions: Array<{ pos: Vector2; timestamp: number }>;
+    color: string;
+  }>;
+  
+  // Victory celebration particles
+  celebrationParticles: Array<{
+    id: string;
+    position: Vector2;
+    velocity: Vector2;
+    color: string;
+    size: number;
+    lifetime: number;
+    createdAt: number;
+    rotation: number;
+    rotationSpeed: number;
+  }>;
+  
+  // Screen shake effect
+  screenShake?: {
+    intensity: number;
+    duration: number;
+    startTime: number;
+  };
+  
+  // Screen flash effect for critical events
+  screenFlash?: {
+    color: string;
+    intensity: number; // 0 to 1
+    duration: number; // seconds
+    startTime: number;
+  };
+}
+
 export interface GameState {
-  mode: 'menu' | 'game' | 'settings' | 'unitSelection' | 'victory' | 'mapSelection' | 'multiplayerLobby' | 'countdown' | 'statistics' | 'levelSelection' | 'onlineMode' | 'modifierHelp' | 'unitInformation' | 'lanMode' | 'tutorial';
+  mode: 'menu' | 'game' | 'settings' | 'unitSelection' | 'victory' | 'mapSelection' | 'multiplayerLobby' | 'countdown' | 'statistics' | 'levelSelection' | 'onlineMode' | 'modifierHelp' | 'unitInformation' | 'lanMode' | 'tutorial' | 'replay';
   backgroundBattle?: GameState; // Background AI battle for menu
+  replayPlayback?: import('./replay').ReplayPlayback; // Replay being watched while in 'replay' mode
   vsMode: 'ai' | 'player' | 'online' | null;
+  localPlayerIndex?: number; // Player slot controlled on this device (online guests play slot 1; defaults to 0)
+  spectating?: boolean; // Watching an online match without a slot: no input, no fog of war, localPlayerIndex is only the viewpoint
   menuTransitionDirection?: 'forward' | 'back'; // Track menu navigation direction for slide animations
   
   units: Unit[];
@@ -1128,7 +1340,6 @@ export interface GameState {
   miningDepots: MiningDepot[]; // Mining depots for resource gathering
   obstacles: import('./maps').Obstacle[];
   projectiles: Projectile[]; // Active projectiles in the game
-  shells?: Shell[]; // Ejected shell casings from marine shots
   resourceOrbs?: ResourceOrb[]; // Glowing orbs dropped by units on death (secondary resource)
   
   players: {
@@ -1142,10 +1353,17 @@ export interface GameState {
   controlGroups: Record<number, Set<string>>; // Number keys 1-8 to unit IDs
   currentFormation: import('./formations').FormationType; // Current formation type for movement commands
   patrolMode: boolean; // Whether patrol mode is active (P key held)
+  escortMode?: 'follow' | 'guard'; // The next tap on a friendly unit or base escorts it (T or G pressed)
   
   elapsedTime: number;
   lastIncomeTime: number;
-  
+
+  rngSeed: number; // Seed the simulation RNG was created from (shared by peers and replays)
+  rngState: number; // Current seeded RNG state - advanced only by gameplay code via nextRandom()
+  simulationTime: number; // Simulation clock in milliseconds since match start - replaces Date.now() in gameplay code
+  scheduledTasks?: ScheduledSimulationTask[]; // Delayed/repeating ability callbacks driven by the simulation clock
+  nextScheduledTaskId?: number; // Insertion counter used to order tasks due at the same time
+
   winner: number | null;
   
   settings: {
@@ -1192,10 +1410,18 @@ export interface GameState {
     photonsSpentByPlayer: number;
     damageToPlayerBase: number;
     damageToEnemyBase: number;
+    veterans: VeteranRecord[]; // Local player's units that ranked up, updated on promotion and death
   };
 
   matchTimeLimit?: number;
   timeoutWarningShown?: boolean;
+  headless?: boolean; // Running without DOM, audio or canvas (batch simulations) - skips sound playback
+  pendingSounds?: SimulationSound[]; // Set inside the simulation worker: sounds are queued for the main thread to play
+  effectEvents?: EffectEvent[]; // Cosmetic events not yet turned into effects; absent for states nothing draws
+  pendingGameplayEvents?: GameplayEvent[]; // Set inside the simulation worker: events are queued for the main thread's listeners
+  aiActionTimer?: number; // Seconds accumulated since the AI last acted (per state so concurrent matches don't share timing)
+  aiPlayers?: Record<number, AIPlayerMemory>; // Strategic AI memory keyed by player index
+  replayRecorder?: import('./replay').ReplayRecorder; // Records frame timings and player commands for the match replay
   
   topographyLines?: Array<{ x1: number; y1: number; x2: number; y2: number }>;
   
@@ -1247,69 +1473,17 @@ export interface GameState {
     driftSpeed: number;
   }>;
   
-  // Background floaters for water-like physics
-  floaters?: Floater[];
-  
-  // Field particles for mid-field physics effects (between 1st and 3rd quartiles)
-  fieldParticles?: FieldParticle[];
-  
-  // Fog of war particles for swirling purple effects
-  fogParticles?: Array<{
-    id: string;
-    position: Vector2;
-    velocity: Vector2;
-    angle: number; // Current rotation angle
-    orbitRadius: number; // Distance from orbit center
-    orbitCenter: Vector2; // Point this particle orbits around
-    orbitSpeed: number; // Angular velocity
-    size: number;
-    opacity: number;
-    phase: number; // Phase offset for wave motion
-  }>;
-  
   // Fog of war exploration grid - tracks which areas have been explored
   fogExploredGrid?: boolean[][];
-  
-  // Impact effects for hits and explosions
-  impactEffects?: Array<{
-    id: string;
-    position: Vector2;
-    color: string;
-    startTime: number;
-    duration: number;
-    size: number;
-  }>;
-  
-  // Floating damage numbers
-  damageNumbers?: Array<{
-    id: string;
-    position: Vector2;
-    damage: number;
-    color: string;
-    startTime: number;
-    duration: number;
-  }>;
+  fogVisibleGrid?: boolean[][]; // Cells the local player sees right now, same layout as fogExploredGrid
+  fogLastSeen?: Map<string, LastSeenMarker>; // Enemy bases and structures by id, where the local player last saw them
+  fogUpdatedAt?: number; // Simulation time the fog grids were last updated
   
   // Performance metrics
   fps?: number;
   lastFpsUpdate?: number;
   frameCount?: number;
   
-  // Screen shake effect
-  screenShake?: {
-    intensity: number;
-    duration: number;
-    startTime: number;
-  };
-  
-  // Screen flash effect for critical events
-  screenFlash?: {
-    color: string;
-    intensity: number; // 0 to 1
-    duration: number; // seconds
-    startTime: number;
-  };
-  
   // Hovered unit for showing range indicators
   hoveredUnit?: Unit | null;
   
@@ -1341,90 +1515,6 @@ export interface GameState {
     avgFrameTime: number;
   };
   
-  // Explosion particles for unit deaths
-  explosionParticles?: Array<{
-    id: string;
-    position: Vector2;
-    velocity: Vector2;
-    color: string;
-    size: number;
-    lifetime: number;
-    createdAt: number;
-    alpha: number;
-    rotation?: number; // Rotation angle for debris
-    rotationSpeed?: number; // Speed of rotation
-  }>;
-  
-  // Enhanced visual effects
-  energyPulses?: Array<{
-    id: string;
-    position: Vector2;
-    radius: number;
-    color: string;
-    startTime: number;
-    duration: number;
-    maxRadius: number;
-  }>;
-  
-  // Spawn effects for units
-  spawnEffects?: Array<{
-    id: string;
-    position: Vector2;
-    color: string;
-    startTime: number;
-    duration: number;
-  }>;
-  
-  // Hit spark effects
-  hitSparks?: Array<{
-    id: string;
-    position: Vector2;
-    velocity: Vector2;
-    color: string;
-    size: number;
-    lifetime: number;
-    createdAt: number;
-  }>;
-  
-  // Bounce particles for armored units
-  bounceParticles?: Array<{
-    id: string;
-    position: Vector2;
-    velocity: Vector2;
-    color: string;
-    size: number;
-    lifetime: number;
-    createdAt: number;
-  }>;
-  
-  // Motion trails for fast units
-  motionTrails?: Array<{
-    unitId: string;
-    positions: Array<{ pos: Vector2; timestamp: number }>;
-    color: string;
-  }>;
-  
-  // Sprite corner trails - thin trails from back corners of unit sprites
-  spriteCornerTrails?: Array<{
-    unitId: string;
-    leftCornerPositions: Array<{ pos: Vector2; timestamp: number }>;
-    rightCornerPositions: Array<{ pos: Vector2; timestamp: number }>;
-    color: string;
-  }>;
-  
-  // Victory celebration particles
-  celebrationParticles?: Array<{
-    id: string;
-    position: Vector2;
-    velocity: Vector2;
-    color: string;
-    size: number;
-    lifetime: number;
-    createdAt: number;
-    rotation: number;
-    rotationSpeed: number;
-  }>;
-  
   // Ability cast preview for vector-based input
   abilityCastPreview?: {
     commandOrigin: Vector2; // Position where arrow starts (unit's last queued position or current position)
@@ -1471,7 +1561,18 @@ export interface GameState {
     connected: boolean;
     lastSync: number;
     latency?: number;
+    waitingForOpponent?: boolean; // Lockstep is stalled until the opponent's next turn arrives
+    waitingSince?: number; // When the current stall began, or our connection last failed during it (Date.now()); drives the forfeit timer
+    resuming?: boolean; // Fast-forwarding through the command log after rejoining a match
+    opponentForfeited?: boolean; // Match ended because the opponent stopped responding or left
+    desync?: { turn: number; localChecksum: number; remoteChecksum: number }; // Set when peers' state checksums disagree
   };
+
+  // Commands issued locally in an online match, waiting to be scheduled on the next lockstep turn
+  lockstepOutbox?: import('./commands').GameplayCommand[];
+
+  // Commands issued locally while the simulation runs in a Web Worker, waiting to be posted to it
+  simulationOutbox?: import('./commands').GameplayCommand[];
   
   // Chess mode state - queue commands during planning phase, execute all at once
   chessMode?: {
@@ -0,0 +1,148 @@
+/**
+ * Veterancy - units earn experience from damage dealt, kills and distance traveled, and rank up
+ * through VETERANCY_RANKS, gaining damage, max HP and armor with each rank. Experience is counted
+ * by a simulation listener (gameplayEvents.ts) and by the movement code; the simulation applies
+ * rank-ups once per step (promoteUnit) so it can show and announce them.
+ */
+
+import {
+  GameState,
+  GameplayEvent,
+  PROMOTION_MULTIPLIER,
+  Unit,
+  UnitVeterancy,
+  VeteranRecord,
+} from './types';
+import { getLocalPlayerIndex } from './gameUtils';
+
+export interface VeterancyRank {
+  name: string;
+  experience: number; // Total experience needed
+  chevrons: number; // Drawn under the unit
+}
+
+export const VETERANCY_RANKS: VeterancyRank[] = [
+  { name: 'Recruit', experience: 0, chevrons: 0 },
+  { name: 'Veteran', experience: 100, chevrons: 1 },
+  { name: 'Elite', experience: 250, chevrons: 2 },
+  { name: 'Heroic', experience: 500, chevrons: 3 },
+];
+
+// Experience awards
+export const VETERANCY_XP_PER_DAMAGE = 0.2; // Per point of damage dealt to enemies
+export const VETERANCY_XP_PER_KILL = 25;
+export const VETERANCY_XP_PER_PROMOTION_DISTANCE = 2; // Per PROMOTION_DISTANCE_THRESHOLD of movement credit
+
+// Bonuses per rank; damage and max HP grow by PROMOTION_MULTIPLIER
+export const VETERANCY_ARMOR_PER_RANK = 2;
+
+/**
+ * Give a unit experience. Mining drones don't fight, so they don't rank up.
+ * @param unit - Unit earning experience
+ * @param amount - Experience to add
+ */
+export function addExperience(unit: Unit, amount: number): void {
+  if (unit.type === 'miningDrone' || amount <= 0) return;
+  getVeterancy(unit).experience += amount;
+}
+
+/**
+ * Apply every rank the unit has earned but not received yet
+ * @param unit - Unit to promote
+ * @returns Whether the unit ranked up
+ */
+export function promoteUnit(unit: Unit): boolean {
+  const veterancy = unit.veterancy;
+  if (!veterancy) return false;
+
+  const startRank = veterancy.rank;
+  while (veterancy.rank < VETERANCY_RANKS.length - 1 && veterancy.experience >= VETERANCY_RANKS[veterancy.rank + 1].experience) {
+    veterancy.rank += 1;
+    const hpGain = unit.maxHp * (PROMOTION_MULTIPLIER - 1);
+    unit.maxHp += hpGain;
+    unit.hp += hpGain;
+    unit.damageMultiplier *= PROMOTION_MULTIPLIER;
+    unit.armor += VETERANCY_ARMOR_PER_RANK;
+  }
+  return veterancy.rank > startRank;
+}
+
+/**
+ * Simulation listener that credits attackers with damage and kills
+ * @param state - Game state being simulated
+ * @param event - Event just emitted
+ */
+export function recordVeterancy(state: GameState, event: GameplayEvent): void {
+  switch (event.type) {
+    case 'damageDealt': {
+      if (!event.sourceId || event.sourceOwner === event.targetOwner) return;
+      if (event.targetKind === 'unit') {
+        const target = state.units.find((u) => u.id === event.targetId);
+        if (target) {
+          target.lastAttackerId = event.sourceId;
+        }
+      }
+      const attacker = state.units.find((u) => u.id === event.sourceId);
+      if (attacker && attacker.type !== 'miningDrone') {
+        getVeterancy(attacker).damageDealt += event.amount;
+        addExperience(attacker, event.amount * VETERANCY_XP_PER_DAMAGE);
+      }
+      break;
+    }
+    case 'unitKilled': {
+      const killer = event.killerId ? state.units.find((u) => u.id === event.killerId) : undefined;
+      if (killer && killer.owner !== event.owner && killer.type !== 'miningDrone') {
+        getVeterancy(killer).kills += 1;
+        addExperience(killer, VETERANCY_XP_PER_KILL);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Keep the match-end record of a local player's ranked unit up to date
+ * @param state - Game state being simulated
+ * @param unit - Unit that just ranked up or died
+ * @param fallen - Whether the unit died
+ */
+export function recordVeteran(state: GameState, unit: Unit, fallen: boolean): void {
+  const stats = state.matchStats;
+  if (!stats || !unit.veterancy || unit.veterancy.rank === 0 || unit.owner !== getLocalPlayerIndex(state)) return;
+
+  const record = stats.veterans.find((veteran) => veteran.unitId === unit.id);
+  const update: VeteranRecord = {
+    unitId: unit.id,
+    unitType: unit.type,
+    rank: unit.veterancy.rank,
+    kills: unit.veterancy.kills,
+    damageDealt: unit.veterancy.damageDealt,
+    fallen,
+  };
+  if (record) {
+    Object.assign(record, update);
+  } else {
+    stats.veterans.push(update);
+  }
+}
+
+/**
+ * Veterans of the local player for the match-end screen, with surviving units' latest numbers
+ * @param state - Finished match
+ * @returns Veterans, highest rank and most kills first
+ */
+export function getVeteranBreakdown(state: GameState): VeteranRecord[] {
+  const veterans = state.matchStats?.veterans ?? [];
+  return veterans
+    .map((veteran) => {
+      const unit = veteran.fallen ? undefined : state.units.find((u) => u.id === veteran.unitId);
+      return unit?.veterancy
+        ? { ...veteran, rank: unit.veterancy.rank, kills: unit.veterancy.kills, damageDealt: unit.veterancy.damageDealt }
+        : veteran;
+    })
+    .sort((a, b) => b.rank - a.rank || b.kills - a.kills);
+}
+
+function getVeterancy(unit: Unit): UnitVeterancy {
+  return (unit.veterancy ??= { experience: 0, rank: 0, kills: 0, damageDealt: 0 });
+}
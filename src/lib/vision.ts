@@ -0,0 +1,163 @@
+/**
+ * Vision - what each player can see under fog of war. Bases, units and structures see
+ * FOG_OF_WAR_VISION_RANGE around themselves unless a wall or pillar is in the way. The simulation
+ * asks for a specific player (towers only fire at what their owner sees, the AI only learns what
+ * it sees), so it gives the same answers on every peer. The main thread also keeps the local
+ * player's fog grids and where enemy bases and structures were last seen, for drawing the fog.
+ */
+
+import { ARENA_WIDTH_METERS, FOG_OF_WAR_VISION_RANGE, GameState, LastSeenMarker, Vector2 } from './types';
+import { Obstacle, ObstacleType, lineIntersectsObstacle } from './maps';
+import { distance, getLocalPlayerIndex } from './gameUtils';
+import { getSimulationTime } from './determinism';
+
+// Obstacles that block line of sight; debris is low enough to see over
+const SIGHT_BLOCKING_OBSTACLES: ObstacleType[] = ['wall', 'pillar'];
+
+// Size of a fog grid cell in meters
+export const FOG_GRID_CELL_METERS = 2;
+
+// Simulation time between updates of the local player's fog grids
+const FOG_UPDATE_INTERVAL_MS = 200;
+
+const sightBlockersByObstacles = new WeakMap<Obstacle[], Obstacle[]>();
+
+/**
+ * Check that no wall or pillar stands between two points
+ */
+export function hasLineOfSight(state: GameState, from: Vector2, to: Vector2): boolean {
+  return !lineIntersectsObstacle(from, to, getSightBlockers(state));
+}
+
+/**
+ * Check whether a player's bases, units or structures see a position, whatever the fog setting
+ * @param state - Game state
+ * @param playerIndex - Player whose vision to use
+ * @param position - Position to check
+ * @returns true if something the player owns is in range with a clear line of sight
+ */
+export function canPlayerSee(state: GameState, playerIndex: number, position: Vector2): boolean {
+  return isSeenFrom(state, getVisionSources(state, playerIndex), position);
+}
+
+/**
+ * Check if a position is visible to a player under fog of war
+ * @param position - The position to check
+ * @param state - The game state containing player units and bases
+ * @param playerIndex - Player whose vision to use; defaults to the local player, and spectators
+ *   then see everything. The simulation always passes one so every peer agrees.
+ * @returns true if the position is visible to the player
+ */
+export function isVisibleToPlayer(position: Vector2, state: GameState, playerIndex?: number): boolean {
+  if (!state.settings.enableFogOfWar) {
+    return true; // Fog of war disabled, everything is visible
+  }
+  if (playerIndex === undefined) {
+    if (state.spectating) return true;
+    playerIndex = getLocalPlayerIndex(state);
+  }
+  return canPlayerSee(state, playerIndex, position);
+}
+
+/**
+ * Per-frame update of the local player's fog grids and last-seen enemy buildings.
+ * Runs a few times per second of simulation time; it's for drawing only.
+ * @param state - State being drawn
+ * @param arenaHeight - Arena height in meters
+ */
+export function updateFogOfWar(state: GameState, arenaHeight: number): void {
+  if (!state.settings.enableFogOfWar || state.spectating) return;
+
+  const now = getSimulationTime(state);
+  if (state.fogVisibleGrid && state.fogUpdatedAt !== undefined && now - state.fogUpdatedAt < FOG_UPDATE_INTERVAL_MS) return;
+  state.fogUpdatedAt = now;
+
+  const player = getLocalPlayerIndex(state);
+  const sources = getVisionSources(state, player);
+  const cols = Math.ceil(ARENA_WIDTH_METERS / FOG_GRID_CELL_METERS);
+  const rows = Math.ceil(arenaHeight / FOG_GRID_CELL_METERS);
+  if (state.fogExploredGrid?.length !== rows || state.fogExploredGrid[0]?.length !== cols) {
+    state.fogExploredGrid = createGrid(rows, cols);
+  }
+  const explored = state.fogExploredGrid;
+  const visible = createGrid(rows, cols);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = { x: (col + 0.5) * FOG_GRID_CELL_METERS, y: (row + 0.5) * FOG_GRID_CELL_METERS };
+      if (isSeenFrom(state, sources, center)) {
+        visible[row][col] = true;
+        explored[row][col] = true;
+      }
+    }
+  }
+  state.fogVisibleGrid = visible;
+
+  updateLastSeen(state, player, sources, now);
+}
+
+// Remember enemy bases and structures in sight, and forget ones found gone when their spot is seen again
+function updateLastSeen(state: GameState, player: number, sources: Vector2[], now: number): void {
+  const lastSeen = (state.fogLastSeen ??= new Map());
+  const present = new Set<string>();
+
+  const remember = (id: string, marker: LastSeenMarker) => {
+    present.add(id);
+    if (isSeenFrom(state, sources, marker.position)) {
+      lastSeen.set(id, marker);
+    }
+  };
+  state.bases.forEach((base) => {
+    if (base.owner === player) return;
+    remember(base.id, { kind: 'base', owner: base.owner, position: { ...base.position }, seenAt: now });
+  });
+  state.structures.forEach((structure) => {
+    if (structure.owner === player) return;
+    remember(structure.id, {
+      kind: 'structure',
+      owner: structure.owner,
+      position: { ...structure.position },
+      structureType: structure.type,
+      seenAt: now,
+    });
+  });
+
+  lastSeen.forEach((marker, id) => {
+    if (!present.has(id) && isSeenFrom(state, sources, marker.position)) {
+      lastSeen.delete(id);
+    }
+  });
+}
+
+function getVisionSources(state: GameState, playerIndex: number): Vector2[] {
+  const sources: Vector2[] = [];
+  state.bases.forEach((base) => {
+    if (base.owner === playerIndex) sources.push(base.position);
+  });
+  state.units.forEach((unit) => {
+    if (unit.owner === playerIndex) sources.push(unit.position);
+  });
+  state.structures.forEach((structure) => {
+    if (structure.owner === playerIndex) sources.push(structure.position);
+  });
+  return sources;
+}
+
+function isSeenFrom(state: GameState, sources: Vector2[], position: Vector2): boolean {
+  return sources.some((source) =>
+    distance(source, position) <= FOG_OF_WAR_VISION_RANGE && hasLineOfSight(state, source, position)
+  );
+}
+
+function getSightBlockers(state: GameState): Obstacle[] {
+  let blockers = sightBlockersByObstacles.get(state.obstacles);
+  if (!blockers) {
+    blockers = state.obstacles.filter((obstacle) => SIGHT_BLOCKING_OBSTACLES.includes(obstacle.type));
+    sightBlockersByObstacles.set(state.obstacles, blockers);
+  }
+  return blockers;
+}
+
+function createGrid(rows: number, cols: number): boolean[][] {
+  return Array.from({ length: rows }, () => new Array<boolean>(cols).fill(false));
+}
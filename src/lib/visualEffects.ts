@@ -2,8 +2,8 @@
  * Enhanced visual effects system for aesthetic improvements
  */
 
-import { GameState, Vector2, Unit } from './types';
-import { generateId } from './gameUtils';
+import { EffectsState, GameState, Shell, Vector2, UNIT_SIZE_METERS, MINING_DRONE_SIZE_MULTIPLIER } from './types';
+import { generateId, normalize, add, scale, subtract, distance, getPlayfieldRotationRadians } from './gameUtils';
 
 // Performance limits
 const MAX_EXPLOSION_PARTICLES = 500; // Maximum particles to prevent performance issues
@@ -19,14 +19,30 @@ const SPAWN_EFFECT_RADIUS = 2; // meters
 const ENERGY_PULSE_DURATION = 0.6; // seconds
 const ENERGY_PULSE_MAX_RADIUS = 3; // meters
 
+// Impact and damage number constants
+const IMPACT_EFFECT_DURATION = 0.5; // seconds for impact ring animation
+const IMPACT_EFFECT_CLEANUP_TIME = 1.0; // seconds before old effects are removed
+const DAMAGE_NUMBER_DURATION = 0.8; // seconds for damage number animation
+const DAMAGE_NUMBER_CLEANUP_TIME = 1.0; // seconds before old numbers are removed
+
+// Shell casing constants for marine firing
+const SHELL_EJECTION_SPEED = 3.8; // meters per second
+const SHELL_EJECTION_OFFSET = UNIT_SIZE_METERS * 0.4; // offset from unit center
+const SHELL_EJECTION_ANGLE_VARIANCE = 0.25; // radians for ejection wobble
+const SHELL_EJECTION_SPEED_VARIANCE = 0.35; // percent variance in speed
+const SHELL_LIFETIME = 1.2; // seconds before shell disappears
+const SHELL_COLLISION_RADIUS = 0.18; // meters for shell-field particle collision
+const SHELL_BOUNCE_DAMPING = 0.6; // velocity damping after bounce
+const SHELL_MOMENTUM_TRANSFER = 0.4; // velocity transfer factor to field particles
+const SHELL_MASS = 0.02; // small mass for shell physics
+
+// Motion trail constants - exported for use in renderer
+export const MOTION_TRAIL_DURATION = 0.5; // seconds for motion trail fade
+
 /**
  * Create a spawn effect when a unit is created
  */
-export function createSpawnEffect(state: GameState, position: Vector2, color: string): void {
-  if (!state.spawnEffects) {
-    state.spawnEffects = [];
-  }
-
+export function createSpawnEffect(effects: EffectsState, position: Vector2, color: string): void {
   const spawnEffect = {
     id: generateId(),
     position: { ...position },
@@ -35,29 +51,25 @@ export function createSpawnEffect(state: GameState, position: Vector2, color: st
     duration: SPAWN_EFFECT_DURATION,
   };
 
-  state.spawnEffects.push(spawnEffect);
+  effects.spawnEffects.push(spawnEffect);
 
   // Create energy pulse for spawn
-  createEnergyPulse(state, position, color, ENERGY_PULSE_DURATION, ENERGY_PULSE_MAX_RADIUS);
+  createEnergyPulse(effects, position, color, ENERGY_PULSE_DURATION, ENERGY_PULSE_MAX_RADIUS);
 
   // Create particle burst
-  createParticleBurst(state, position, color, SPAWN_EFFECT_PARTICLE_COUNT);
+  createParticleBurst(effects, position, color, SPAWN_EFFECT_PARTICLE_COUNT);
 }
 
 /**
  * Create an energy pulse effect
  */
 export function createEnergyPulse(
-  state: GameState, 
+  effects: EffectsState, 
   position: Vector2, 
   color: string, 
   duration: number = ENERGY_PULSE_DURATION,
   maxRadius: number = ENERGY_PULSE_MAX_RADIUS
 ): void {
-  if (!state.energyPulses) {
-    state.energyPulses = [];
-  }
-
   const pulse = {
     id: generateId(),
     position: { ...position },
@@ -68,28 +80,24 @@ export function createEnergyPulse(
     maxRadius,
   };
 
-  state.energyPulses.push(pulse);
+  effects.energyPulses.push(pulse);
 }
 
 /**
  * Create a burst of particles from a position
  */
 export function createParticleBurst(
-  state: GameState, 
+  effects: EffectsState, 
   position: Vector2, 
   color: string, 
   count: number,
   speed: number = 5
 ): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-
   // Check particle limit and skip if at max
-  if (state.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
+  if (effects.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
     // Remove oldest particles to make room
-    const toRemove = Math.max(0, state.explosionParticles.length + count - MAX_EXPLOSION_PARTICLES);
-    state.explosionParticles.splice(0, toRemove);
+    const toRemove = Math.max(0, effects.explosionParticles.length + count - MAX_EXPLOSION_PARTICLES);
+    effects.explosionParticles.splice(0, toRemove);
   }
 
   for (let i = 0; i < count; i++) {
@@ -112,7 +120,7 @@ export function createParticleBurst(
       rotationSpeed: (Math.random() - 0.5) * 10,
     };
 
-    state.explosionParticles.push(particle);
+    effects.explosionParticles.push(particle);
   }
 }
 
@@ -120,40 +128,33 @@ export function createParticleBurst(
  * Create hit spark effects when damage is dealt
  */
 export function createHitSparks(
-  state: GameState, 
+  effects: EffectsState, 
   position: Vector2, 
   color: string, 
-  count: number = 8
+  count: number = 6
 ): void {
-  if (!state.hitSparks) {
-    state.hitSparks = [];
-  }
-
   // Check particle limit
-  if (state.hitSparks.length >= MAX_HIT_SPARKS) {
-    const toRemove = Math.max(0, state.hitSparks.length + count - MAX_HIT_SPARKS);
-    state.hitSparks.splice(0, toRemove);
+  if (effects.hitSparks.length >= MAX_HIT_SPARKS) {
+    const toRemove = Math.max(0, effects.hitSparks.length + count - MAX_HIT_SPARKS);
+    effects.hitSparks.splice(0, toRemove);
   }
 
+  const now = Date.now();
   for (let i = 0; i < count; i++) {
-    const angle = (i / count) * Math.PI * 2 + Math.random() * 0.3;
-    const speed = 3 + Math.random() * 2;
-    const velocity = {
-      x: Math.cos(angle) * speed,
-      y: Math.sin(angle) * speed,
-    };
-
-    const spark = {
+    const angle = Math.random() * Math.PI * 2;
+    const speed = 3 + Math.random() * 4;
+    effects.hitSparks.push({
       id: generateId(),
       position: { ...position },
-      velocity,
+      velocity: {
+        x: Math.cos(angle) * speed,
+        y: Math.sin(angle) * speed,
+      },
       color,
-      size: 0.05 + Math.random() * 0.1,
-      lifetime: 0.2 + Math.random() * 0.2,
-      createdAt: Date.now(),
-    };
-
-    state.hitSparks.push(spark);
+      size: 0.1 + Math.random() * 0.1,
+      lifetime: 0.3 + Math.random() * 0.2,
+      createdAt: now,
+    });
   }
 }
 
@@ -162,16 +163,12 @@ export function createHitSparks(
  * Bullets bounce off randomly within a 60-degree arc
  */
 export function createBounceParticles(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   incomingDirection: Vector2,
   color: string,
   count: number = 3
 ): void {
-  if (!state.bounceParticles) {
-    state.bounceParticles = [];
-  }
-
   // Calculate the reflection direction (opposite of incoming)
   const reflectionAngle = Math.atan2(-incomingDirection.y, -incomingDirection.x);
   
@@ -200,7 +197,7 @@ export function createBounceParticles(
       createdAt: Date.now(),
     };
 
-    state.bounceParticles.push(particle);
+    effects.bounceParticles.push(particle);
   }
 }
 
@@ -208,22 +205,22 @@ export function createBounceParticles(
  * Create enhanced death explosion with multiple layers
  */
 export function createEnhancedDeathExplosion(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   color: string,
   scale: number = 1.0
 ): void {
   // Create multiple particle bursts with varying speeds for layered effect
-  createParticleBurst(state, position, color, 16 * scale, 8 * scale); // Fast burst
-  createParticleBurst(state, position, color, 12 * scale, 4 * scale); // Medium burst
-  createParticleBurst(state, position, color, 8 * scale, 2 * scale);  // Slow burst
+  createParticleBurst(effects, position, color, 16 * scale, 8 * scale); // Fast burst
+  createParticleBurst(effects, position, color, 12 * scale, 4 * scale); // Medium burst
+  createParticleBurst(effects, position, color, 8 * scale, 2 * scale);  // Slow burst
   
   // Create expanding energy rings
-  createEnergyPulse(state, position, color, 0.8, 2.5 * scale);
+  createEnergyPulse(effects, position, color, 0.8, 2.5 * scale);
   
   // Secondary delayed pulse for extra impact
   setTimeout(() => {
-    createEnergyPulse(state, position, color, 0.6, 1.8 * scale);
+    createEnergyPulse(effects, position, color, 0.6, 1.8 * scale);
   }, 150);
 }
 
@@ -231,16 +228,12 @@ export function createEnhancedDeathExplosion(
  * Create laser particle effects along a beam
  */
 export function createLaserParticles(
-  state: GameState,
+  effects: EffectsState,
   startPos: Vector2,
   direction: Vector2,
   length: number,
   color: string = 'oklch(0.70 0.30 320)'
 ): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-
   const particleCount = Math.min(Math.floor(length * 3), 50); // Limit to 50 particles max
   
   for (let i = 0; i < particleCount; i++) {
@@ -277,36 +270,30 @@ export function createLaserParticles(
       rotationSpeed: (Math.random() - 0.5) * 15,
     };
 
-    state.explosionParticles.push(particle);
+    effects.explosionParticles.push(particle);
   }
 
   // Create energy pulse at start
-  createEnergyPulse(state, startPos, color, 0.8, 3.0);
+  createEnergyPulse(effects, startPos, color, 0.8, 3.0);
   
   // Create impact effect at end
   const endPos = {
     x: startPos.x + direction.x * length,
     y: startPos.y + direction.y * length,
   };
-  createEnergyPulse(state, endPos, color, 0.6, 2.5);
-  createParticleBurst(state, endPos, color, 25, 10);
+  createEnergyPulse(effects, endPos, color, 0.6, 2.5);
+  createParticleBurst(effects, endPos, color, 25, 10);
 }
 
 /**
  * Create muzzle flash effect when a structure fires
  */
 export function createMuzzleFlash(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   direction: Vector2,
   color: string
 ): void {
-  if (!state.impactEffects) {
-    state.impactEffects = [];
-  }
-
-  if (!state.settings?.enableParticleEffects) return;
-
   // Create bright flash at firing position
   const flashEffect = {
     id: generateId(),
@@ -320,12 +307,9 @@ export function createMuzzleFlash(
     size: 1.5,
   };
 
-  state.impactEffects.push(flashEffect);
+  effects.impactEffects.push(flashEffect);
 
   // Create a few spark particles
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
 
   for (let i = 0; i < 5; i++) {
     const spread = 0.3;
@@ -343,8 +327,8 @@ export function createMuzzleFlash(
       alpha: 1,
     };
 
-    if (state.explosionParticles.length < MAX_EXPLOSION_PARTICLES) {
-      state.explosionParticles.push(particle);
+    if (effects.explosionParticles.length < MAX_EXPLOSION_PARTICLES) {
+      effects.explosionParticles.push(particle);
     }
   }
 }
@@ -353,12 +337,12 @@ export function createMuzzleFlash(
  * Create a screen flash effect for critical events
  */
 export function createScreenFlash(
-  state: GameState,
+  effects: EffectsState,
   color: string,
   intensity: number = 0.6,
   duration: number = 0.5
 ): void {
-  state.screenFlash = {
+  effects.screenFlash = {
     color,
     intensity,
     duration,
@@ -367,13 +351,113 @@ export function createScreenFlash(
 }
 
 /**
- * Create celebration particles for victory screen
+ * Create the lighter spawn ring used when units are trained or deployed
+ */
+export function createUnitSpawnEffect(effects: EffectsState, position: Vector2, color: string): void {
+  effects.spawnEffects.push({
+    id: generateId(),
+    position: { ...position },
+    color,
+    startTime: Date.now(),
+    duration: 0.6,
+  });
+  
+  // Clean up old effects
+  const now = Date.now();
+  effects.spawnEffects = effects.spawnEffects.filter((effect) => {
+    const age = (now - effect.startTime) / 1000;
+    return age < effect.duration;
+  });
+}
+
+/**
+ * Create an impact effect
+ */
+export function createImpactEffect(effects: EffectsState, position: Vector2, color: string, size: number = 1): void {
+  effects.impactEffects.push({
+    id: generateId(),
+    position: { ...position },
+    color,
+    startTime: Date.now(),
+    duration: IMPACT_EFFECT_DURATION,
+    size,
+  });
+  
+  // Clean up old effects
+  const now = Date.now();
+  effects.impactEffects = effects.impactEffects.filter((effect) => {
+    const age = (now - effect.startTime) / 1000;
+    return age < IMPACT_EFFECT_CLEANUP_TIME;
+  });
+}
+
+/**
+ * Create a floating damage number
  */
-export function createCelebrationParticles(state: GameState, canvasWidth: number, canvasHeight: number): void {
-  if (!state.celebrationParticles) {
-    state.celebrationParticles = [];
+export function createDamageNumber(effects: EffectsState, position: Vector2, damage: number, color: string): void {
+  effects.damageNumbers.push({
+    id: generateId(),
+    position: { ...position },
+    damage: Math.round(damage),
+    color,
+    startTime: Date.now(),
+    duration: DAMAGE_NUMBER_DURATION,
+  });
+  
+  // Clean up old damage numbers
+  const now = Date.now();
+  effects.damageNumbers = effects.damageNumbers.filter((num) => {
+    const age = (now - num.startTime) / 1000;
+    return age < DAMAGE_NUMBER_CLEANUP_TIME;
+  });
+}
+
+/**
+ * Create screen shake effect
+ */
+export function createScreenShake(effects: EffectsState, intensity: number, duration: number): void {
+  // Only create new shake if current shake is weaker or expired
+  if (!effects.screenShake || effects.screenShake.intensity < intensity) {
+    effects.screenShake = {
+      intensity,
+      duration,
+      startTime: Date.now(),
+    };
   }
+}
 
+/**
+ * Create a shell casing ejected from a marine shot
+ */
+export function createEjectedShell(position: Vector2, firingDirection: Vector2, owner: number): Shell {
+  const now = Date.now();
+  const fallbackDirection = firingDirection.x === 0 && firingDirection.y === 0 ? { x: 1, y: 0 } : firingDirection;
+  const forward = normalize(fallbackDirection);
+  const side = normalize({ x: -forward.y, y: forward.x });
+  // Always eject shells to the marine's right-hand side for consistent feedback.
+  const sideSign = 1;
+  const baseEjection = normalize(add(scale(side, sideSign), scale(forward, 0.25)));
+  const baseAngle = Math.atan2(baseEjection.y, baseEjection.x);
+  const angle = baseAngle + (Math.random() - 0.5) * 2 * SHELL_EJECTION_ANGLE_VARIANCE;
+  const speed = SHELL_EJECTION_SPEED * (1 + (Math.random() - 0.5) * SHELL_EJECTION_SPEED_VARIANCE);
+
+  return {
+    id: generateId(),
+    position: add(position, scale(side, sideSign * SHELL_EJECTION_OFFSET)),
+    velocity: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+    rotation: Math.random() * Math.PI * 2,
+    rotationSpeed: (Math.random() - 0.5) * 8,
+    createdAt: now,
+    lifetime: SHELL_LIFETIME,
+    mass: SHELL_MASS,
+    owner,
+  };
+}
+
+/**
+ * Create celebration particles for victory screen
+ */
+export function createCelebrationParticles(effects: EffectsState, canvasWidth: number, canvasHeight: number): void {
   // Create bursts of celebration particles from multiple positions
   const burstCount = 5;
   const particlesPerBurst = 20;
@@ -413,7 +497,7 @@ export function createCelebrationParticles(state: GameState, canvasWidth: number
         rotationSpeed: (Math.random() - 0.5) * 8,
       };
 
-      state.celebrationParticles.push(particle);
+      effects.celebrationParticles.push(particle);
     }
   }
 
@@ -437,7 +521,7 @@ export function createCelebrationParticles(state: GameState, canvasWidth: number
     ];
     const color = colors[Math.floor(Math.random() * colors.length)];
 
-    state.celebrationParticles.push({
+    effects.celebrationParticles.push({
       id: generateId(),
       position,
       velocity,
@@ -454,176 +538,337 @@ export function createCelebrationParticles(state: GameState, canvasWidth: number
 /**
  * Update all visual effects
  */
-export function updateVisualEffects(state: GameState, deltaTime: number): void {
+export function updateVisualEffects(effects: EffectsState, deltaTime: number): void {
   const now = Date.now();
 
   // Update energy pulses
-  if (state.energyPulses) {
-    state.energyPulses = state.energyPulses.filter((pulse) => {
-      const elapsed = (now - pulse.startTime) / 1000;
-      if (elapsed >= pulse.duration) {
-        return false;
-      }
-      
-      // Update pulse radius
-      const progress = elapsed / pulse.duration;
-      pulse.radius = pulse.maxRadius * progress;
-      
-      return true;
-    });
-  }
+  effects.energyPulses = effects.energyPulses.filter((pulse) => {
+    const elapsed = (now - pulse.startTime) / 1000;
+    if (elapsed >= pulse.duration) {
+      return false;
+    }
+    
+    // Update pulse radius
+    const progress = elapsed / pulse.duration;
+    pulse.radius = pulse.maxRadius * progress;
+    
+    return true;
+  });
 
   // Update spawn effects
-  if (state.spawnEffects) {
-    state.spawnEffects = state.spawnEffects.filter((effect) => {
-      const elapsed = (now - effect.startTime) / 1000;
-      return elapsed < effect.duration;
-    });
-  }
+  effects.spawnEffects = effects.spawnEffects.filter((effect) => {
+    const elapsed = (now - effect.startTime) / 1000;
+    return elapsed < effect.duration;
+  });
 
   // Update explosion particles
-  if (state.explosionParticles) {
-    state.explosionParticles = state.explosionParticles.filter((particle) => {
-      const elapsed = (now - particle.createdAt) / 1000;
-      if (elapsed >= particle.lifetime) {
-        return false;
-      }
+  effects.explosionParticles = effects.explosionParticles.filter((particle) => {
+    const elapsed = (now - particle.createdAt) / 1000;
+    if (elapsed >= particle.lifetime) {
+      return false;
+    }
 
-      // Update position
-      particle.position.x += particle.velocity.x * deltaTime;
-      particle.position.y += particle.velocity.y * deltaTime;
+    // Update position
+    particle.position.x += particle.velocity.x * deltaTime;
+    particle.position.y += particle.velocity.y * deltaTime;
 
-      // Apply gravity
-      particle.velocity.y += 2 * deltaTime;
+    // Apply gravity
+    particle.velocity.y += 2 * deltaTime;
 
-      // Apply damping
-      particle.velocity.x *= 0.98;
-      particle.velocity.y *= 0.98;
+    // Apply damping
+    particle.velocity.x *= 0.98;
+    particle.velocity.y *= 0.98;
 
-      // Update rotation
-      if (particle.rotation !== undefined && particle.rotationSpeed !== undefined) {
-        particle.rotation += particle.rotationSpeed * deltaTime;
-      }
+    // Update rotation
+    if (particle.rotation !== undefined && particle.rotationSpeed !== undefined) {
+      particle.rotation += particle.rotationSpeed * deltaTime;
+    }
 
-      // Fade out
-      particle.alpha = 1.0 - (elapsed / particle.lifetime);
+    // Fade out
+    particle.alpha = 1.0 - (elapsed / particle.lifetime);
 
-      return true;
-    });
-  }
+    return true;
+  });
 
   // Update hit sparks
-  if (state.hitSparks) {
-    state.hitSparks = state.hitSparks.filter((spark) => {
-      const elapsed = (now - spark.createdAt) / 1000;
-      if (elapsed >= spark.lifetime) {
-        return false;
-      }
+  effects.hitSparks = effects.hitSparks.filter((spark) => {
+    const elapsed = (now - spark.createdAt) / 1000;
+    if (elapsed >= spark.lifetime) {
+      return false;
+    }
 
-      // Update position
-      spark.position.x += spark.velocity.x * deltaTime;
-      spark.position.y += spark.velocity.y * deltaTime;
+    // Update position
+    spark.position.x += spark.velocity.x * deltaTime;
+    spark.position.y += spark.velocity.y * deltaTime;
 
-      // Apply damping
-      spark.velocity.x *= 0.95;
-      spark.velocity.y *= 0.95;
+    // Apply damping
+    spark.velocity.x *= 0.95;
+    spark.velocity.y *= 0.95;
 
-      return true;
-    });
-  }
+    return true;
+  });
 
   // Update bounce particles
-  if (state.bounceParticles) {
-    state.bounceParticles = state.bounceParticles.filter((particle) => {
-      const elapsed = (now - particle.createdAt) / 1000;
-      if (elapsed >= particle.lifetime) {
-        return false;
-      }
+  effects.bounceParticles = effects.bounceParticles.filter((particle) => {
+    const elapsed = (now - particle.createdAt) / 1000;
+    if (elapsed >= particle.lifetime) {
+      return false;
+    }
 
-      // Update position
-      particle.position.x += particle.velocity.x * deltaTime;
-      particle.position.y += particle.velocity.y * deltaTime;
+    // Update position
+    particle.position.x += particle.velocity.x * deltaTime;
+    particle.position.y += particle.velocity.y * deltaTime;
 
-      // Apply gravity
-      particle.velocity.y += 3 * deltaTime;
+    // Apply gravity
+    particle.velocity.y += 3 * deltaTime;
 
-      // Apply damping
-      particle.velocity.x *= 0.96;
-      particle.velocity.y *= 0.96;
+    // Apply damping
+    particle.velocity.x *= 0.96;
+    particle.velocity.y *= 0.96;
 
-      return true;
-    });
-  }
+    return true;
+  });
 
   // Update impact effects
-  if (state.impactEffects) {
-    state.impactEffects = state.impactEffects.filter((effect) => {
-      const elapsed = (now - effect.startTime) / 1000;
-      return elapsed < effect.duration;
-    });
-  }
+  effects.impactEffects = effects.impactEffects.filter((effect) => {
+    const elapsed = (now - effect.startTime) / 1000;
+    return elapsed < effect.duration;
+  });
 
   // Update damage numbers
-  if (state.damageNumbers) {
-    state.damageNumbers = state.damageNumbers.filter((dmg) => {
-      const elapsed = (now - dmg.startTime) / 1000;
-      if (elapsed >= dmg.duration) {
-        return false;
-      }
+  effects.damageNumbers = effects.damageNumbers.filter((dmg) => {
+    const elapsed = (now - dmg.startTime) / 1000;
+    if (elapsed >= dmg.duration) {
+      return false;
+    }
 
-      // Float upward
-      dmg.position.y -= 1 * deltaTime;
+    // Float upward
+    dmg.position.y -= 1 * deltaTime;
 
-      return true;
-    });
-  }
+    return true;
+  });
   
   // Update celebration particles
-  if (state.celebrationParticles) {
-    state.celebrationParticles = state.celebrationParticles.filter((particle) => {
-      const elapsed = (now - particle.createdAt) / 1000;
-      if (elapsed >= particle.lifetime || elapsed < 0) {
-        return false;
-      }
+  effects.celebrationParticles = effects.celebrationParticles.filter((particle) => {
+    const elapsed = (now - particle.createdAt) / 1000;
+    if (elapsed >= particle.lifetime || elapsed < 0) {
+      return false;
+    }
 
-      // Update position
-      particle.position.x += particle.velocity.x * deltaTime;
-      particle.position.y += particle.velocity.y * deltaTime;
+    // Update position
+    particle.position.x += particle.velocity.x * deltaTime;
+    particle.position.y += particle.velocity.y * deltaTime;
 
-      // Apply gravity
-      particle.velocity.y += 8 * deltaTime;
+    // Apply gravity
+    particle.velocity.y += 8 * deltaTime;
 
-      // Apply damping
-      particle.velocity.x *= 0.98;
-      particle.velocity.y *= 0.98;
+    // Apply damping
+    particle.velocity.x *= 0.98;
+    particle.velocity.y *= 0.98;
 
-      // Update rotation
-      particle.rotation += particle.rotationSpeed * deltaTime;
+    // Update rotation
+    particle.rotation += particle.rotationSpeed * deltaTime;
+
+    return true;
+  });
+}
+
+/**
+ * Update shell casings and handle collisions with field particles
+ */
+export function updateShells(effects: EffectsState, deltaTime: number): void {
+  if (effects.shells.length === 0) return;
+
+  const now = Date.now();
+  const remainingShells: Shell[] = [];
+
+  effects.shells.forEach((shell) => {
+    shell.position.x += shell.velocity.x * deltaTime;
+    shell.position.y += shell.velocity.y * deltaTime;
+    shell.rotation += shell.rotationSpeed * deltaTime;
+
+    if (effects.fieldParticles.length > 0) {
+      for (const particle of effects.fieldParticles) {
+        const dist = distance(shell.position, particle.position);
+        const collisionDist = SHELL_COLLISION_RADIUS + particle.size;
+
+        if (dist > 0 && dist < collisionDist) {
+          const normal = normalize(subtract(shell.position, particle.position));
+          const preBounceVelocity = { ...shell.velocity };
+          const dot = shell.velocity.x * normal.x + shell.velocity.y * normal.y;
+
+          // Reflect shell velocity across the collision normal
+          shell.velocity.x = shell.velocity.x - 2 * dot * normal.x;
+          shell.velocity.y = shell.velocity.y - 2 * dot * normal.y;
+          shell.velocity.x *= SHELL_BOUNCE_DAMPING;
+          shell.velocity.y *= SHELL_BOUNCE_DAMPING;
+
+          // Transfer momentum into the ambient particle
+          particle.velocity.x += preBounceVelocity.x * SHELL_MOMENTUM_TRANSFER;
+          particle.velocity.y += preBounceVelocity.y * SHELL_MOMENTUM_TRANSFER;
+
+          // Push shell out of overlap to prevent sticking
+          shell.position = add(particle.position, scale(normal, collisionDist));
+        }
+      }
+    }
+
+    const age = (now - shell.createdAt) / 1000;
+    if (age <= shell.lifetime) {
+      remainingShells.push(shell);
+    }
+  });
+
+  effects.shells = remainingShells;
+}
+
+/**
+ * Update motion trails for fast units
+ */
+export function updateMotionTrails(effects: EffectsState, state: GameState): void {
+  const now = Date.now();
+  
+  // Update trails for each unit
+  state.units.forEach((unit) => {
+    // Only create trails for fast units (dagger, interceptor, snaker)
+    if (unit.type !== 'scout' && unit.type !== 'interceptor' && unit.type !== 'snaker') {
+      return;
+    }
+    
+    // Check if unit is moving
+    const isMoving = unit.commandQueue.length > 0;
+    if (!isMoving) return;
+    
+    let trail = effects.motionTrails.find(t => t.unitId === unit.id);
+    if (!trail) {
+      trail = {
+        unitId: unit.id,
+        positions: [],
+        color: state.players[unit.owner].color,
+      };
+      effects.motionTrails.push(trail);
+    }
+    
+    // Add current position
+    trail.positions.push({
+      pos: { ...unit.position },
+      timestamp: now,
+    });
+    
+    // Remove old positions
+    trail.positions = trail.positions.filter(p => (now - p.timestamp) / 1000 < MOTION_TRAIL_DURATION);
+  });
+  
+  // Clean up trails for dead units
+  const unitIds = new Set(state.units.map(u => u.id));
+  effects.motionTrails = effects.motionTrails.filter(t => unitIds.has(t.unitId));
+}
 
-      return true;
+/**
+ * Update sprite corner trails for all units
+ */
+export function updateSpriteCornerTrails(effects: EffectsState, state: GameState): void {
+  const now = Date.now();
+  const SPRITE_CORNER_TRAIL_DURATION = 0.3; // seconds - shorter than motion trails
+  const UNIT_SPRITE_HALF_SIZE = UNIT_SIZE_METERS * 1.55 / 2; // Half of sprite size (matches UNIT_SPRITE_SCALE * UNIT_SIZE_METERS)
+  const MINING_DRONE_SPRITE_HALF_SIZE = UNIT_SIZE_METERS * MINING_DRONE_SIZE_MULTIPLIER * 1.35 / 2; // For mining drones
+  
+  // Update trails for each unit
+  state.units.forEach((unit) => {
+    // Skip mining drones for now as they have different sprite scaling
+    if (unit.type === 'miningDrone') {
+      return;
+    }
+    
+    // Check if unit is moving
+    const isMoving = unit.commandQueue.length > 0 || (unit.currentSpeed && unit.currentSpeed > 0.5);
+    if (!isMoving) return;
+    
+    // Get or create trail for this unit
+    let trail = effects.spriteCornerTrails.find(t => t.unitId === unit.id);
+    if (!trail) {
+      trail = {
+        unitId: unit.id,
+        leftCornerPositions: [],
+        rightCornerPositions: [],
+        color: state.players[unit.owner].color,
+      };
+      effects.spriteCornerTrails.push(trail);
+    }
+    
+    // Calculate back corner positions based on unit rotation
+    // Sprite rendering adds a PI/2 offset to align sprite-forward (up) with unit-forward direction.
+    const rotation = unit.rotation || 0;
+    const playfieldRotation = getPlayfieldRotationRadians();
+    
+    // The total rotation determines which way the unit/sprite is facing
+    const totalRotation = rotation + playfieldRotation;
+    
+    // Get sprite size for this unit type
+    const spriteHalfSize = unit.type === 'miningDrone' ? MINING_DRONE_SPRITE_HALF_SIZE : UNIT_SPRITE_HALF_SIZE;
+    
+    // The back of the unit is opposite to its forward direction
+    // Since sprites are rendered with an additional PI/2 rotation offset, we need to account for that
+    const backDirection = totalRotation + Math.PI + Math.PI / 2; // Back of the sprite
+    const perpendicular = totalRotation + Math.PI / 2; // Left-right axis relative to sprite orientation
+    
+    // Back center point of the sprite
+    const backCenterX = unit.position.x + Math.cos(backDirection) * spriteHalfSize;
+    const backCenterY = unit.position.y + Math.sin(backDirection) * spriteHalfSize;
+    
+    // Calculate left and right corner offsets from back center
+    const cornerOffset = spriteHalfSize * 0.7; // Corners are 70% of the way to the side edges
+    
+    const leftCornerPos = {
+      x: backCenterX + Math.cos(perpendicular) * cornerOffset,
+      y: backCenterY + Math.sin(perpendicular) * cornerOffset,
+    };
+    
+    const rightCornerPos = {
+      x: backCenterX - Math.cos(perpendicular) * cornerOffset,
+      y: backCenterY - Math.sin(perpendicular) * cornerOffset,
+    };
+    
+    // Add current positions to trails
+    trail.leftCornerPositions.push({
+      pos: leftCornerPos,
+      timestamp: now,
     });
-  }
+    
+    trail.rightCornerPositions.push({
+      pos: rightCornerPos,
+      timestamp: now,
+    });
+    
+    // Remove old positions
+    trail.leftCornerPositions = trail.leftCornerPositions.filter(
+      p => (now - p.timestamp) / 1000 < SPRITE_CORNER_TRAIL_DURATION
+    );
+    trail.rightCornerPositions = trail.rightCornerPositions.filter(
+      p => (now - p.timestamp) / 1000 < SPRITE_CORNER_TRAIL_DURATION
+    );
+  });
+  
+  // Clean up trails for dead units
+  const unitIds = new Set(state.units.map(u => u.id));
+  effects.spriteCornerTrails = effects.spriteCornerTrails.filter(t => unitIds.has(t.unitId));
 }
 
 /**
  * Create charging/windup particle effect for abilities
  */
 export function createAbilityCharge(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   color: string,
   duration: number = 0.5
 ): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-
   const particleCount = 12;
   
   // Check particle limit and skip if at max
-  if (state.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
-    const toRemove = Math.max(0, state.explosionParticles.length + particleCount - MAX_EXPLOSION_PARTICLES);
-    state.explosionParticles.splice(0, toRemove);
+  if (effects.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
+    const toRemove = Math.max(0, effects.explosionParticles.length + particleCount - MAX_EXPLOSION_PARTICLES);
+    effects.explosionParticles.splice(0, toRemove);
   }
 
   // Create converging particles that spiral into the position
@@ -655,7 +900,7 @@ export function createAbilityCharge(
       rotationSpeed: 10,
     };
 
-    state.explosionParticles.push(particle);
+    effects.explosionParticles.push(particle);
   }
 }
 
@@ -663,17 +908,13 @@ export function createAbilityCharge(
  * Create trail effect for fast-moving projectiles
  */
 export function createTrailEffect(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   velocity: Vector2,
   color: string
 ): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-
   // Check particle limit before adding
-  if (state.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
+  if (effects.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
     // Skip creating trail if at limit (trails are less critical than other effects)
     return;
   }
@@ -692,23 +933,20 @@ export function createTrailEffect(
     rotationSpeed: 0,
   };
 
-  state.explosionParticles.push(trailParticle);
+  effects.explosionParticles.push(trailParticle);
 }
 
 /**
  * Create impact ripple effect
  */
 export function createImpactRipple(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   color: string,
   size: number = 2.0
 ): void {
   // Create multiple expanding rings with staggered start times
   for (let i = 0; i < 3; i++) {
-    if (!state.energyPulses) {
-      state.energyPulses = [];
-    }
     
     const pulse = {
       id: generateId(),
@@ -720,31 +958,27 @@ export function createImpactRipple(
       maxRadius: size,
     };
     
-    state.energyPulses.push(pulse);
+    effects.energyPulses.push(pulse);
   }
   
   // Add impact particles
-  createParticleBurst(state, position, color, 20, 8);
+  createParticleBurst(effects, position, color, 20, 8);
 }
 
 /**
  * Create healing sparkle particles
  */
 export function createHealSparkles(
-  state: GameState,
+  effects: EffectsState,
   position: Vector2,
   radius: number
 ): void {
-  if (!state.explosionParticles) {
-    state.explosionParticles = [];
-  }
-
   const sparkleCount = 15;
   
   // Check particle limit before adding sparkles
-  if (state.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
-    const toRemove = Math.max(0, state.explosionParticles.length + sparkleCount - MAX_EXPLOSION_PARTICLES);
-    state.explosionParticles.splice(0, toRemove);
+  if (effects.explosionParticles.length >= MAX_EXPLOSION_PARTICLES) {
+    const toRemove = Math.max(0, effects.explosionParticles.length + sparkleCount - MAX_EXPLOSION_PARTICLES);
+    effects.explosionParticles.splice(0, toRemove);
   }
   
   const now = Date.now();
@@ -783,7 +1017,7 @@ export function createHealSparkles(
       rotationSpeed: (Math.random() - 0.5) * 5,
     };
 
-    state.explosionParticles.push(sparkle);
+    effects.explosionParticles.push(sparkle);
   }
 }
 
@@ -791,94 +1025,95 @@ export function createHealSparkles(
  * Create enhanced ability effect based on unit type
  */
 export function createAbilityEffect(
-  state: GameState,
-  unit: Unit,
+  effects: EffectsState,
+  owner: number,
+  unitPosition: Vector2,
   position: Vector2,
   abilityType: string
 ): void {
-  const color = unit.owner === 0 
+  const color = owner === 0 
     ? 'oklch(0.65 0.25 240)' 
     : 'oklch(0.62 0.28 25)';
 
   switch (abilityType) {
     case 'burst-fire':
       // Create rapid fire effect with charge-up
-      createAbilityCharge(state, unit.position, color, 0.3);
-      createEnergyPulse(state, unit.position, color, 0.3, 1.5);
-      triggerBackgroundPush(unit.position, 8);
+      createAbilityCharge(effects, unitPosition, color, 0.3);
+      createEnergyPulse(effects, unitPosition, color, 0.3, 1.5);
+      triggerBackgroundPush(unitPosition, 8);
       break;
     
     case 'blade-volley':
       // Create a tight charge pulse to sell the blade compression
-      createAbilityCharge(state, unit.position, color, 0.25);
-      createEnergyPulse(state, unit.position, color, 0.4, 1.2);
-      triggerBackgroundPush(unit.position, 6);
+      createAbilityCharge(effects, unitPosition, color, 0.25);
+      createEnergyPulse(effects, unitPosition, color, 0.4, 1.2);
+      triggerBackgroundPush(unitPosition, 6);
       break;
     
     case 'line-jump':
       // Create jump telegraph with charge particles
-      createAbilityCharge(state, unit.position, 'oklch(0.75 0.18 200)', 0.4);
-      createEnergyPulse(state, unit.position, 'oklch(0.75 0.18 200)', 0.5, 1);
-      triggerBackgroundPush(unit.position, 6);
+      createAbilityCharge(effects, unitPosition, 'oklch(0.75 0.18 200)', 0.4);
+      createEnergyPulse(effects, unitPosition, 'oklch(0.75 0.18 200)', 0.5, 1);
+      triggerBackgroundPush(unitPosition, 6);
       break;
     
     case 'shield-dome':
       // Create shield activation with multiple pulses
-      createEnergyPulse(state, unit.position, color, 0.5, 4);
-      createEnergyPulse(state, unit.position, color, 0.7, 3.5);
-      createParticleBurst(state, unit.position, color, 16, 4);
-      triggerBackgroundPush(unit.position, 10);
+      createEnergyPulse(effects, unitPosition, color, 0.5, 4);
+      createEnergyPulse(effects, unitPosition, color, 0.7, 3.5);
+      createParticleBurst(effects, unitPosition, color, 16, 4);
+      triggerBackgroundPush(unitPosition, 10);
       break;
     
     case 'cloak':
       // Create cloaking shimmer with inward particles
-      createAbilityCharge(state, unit.position, color, 0.5);
-      createParticleBurst(state, unit.position, color, 25, 3);
-      triggerBackgroundPush(unit.position, 5);
+      createAbilityCharge(effects, unitPosition, color, 0.5);
+      createParticleBurst(effects, unitPosition, color, 25, 3);
+      triggerBackgroundPush(unitPosition, 5);
       break;
     
     case 'bombardment':
       // Create targeting reticle effect with charge particles
-      createAbilityCharge(state, position, 'oklch(0.70 0.30 25)', 0.6);
-      createEnergyPulse(state, position, 'oklch(0.70 0.30 25)', 0.8, 3);
+      createAbilityCharge(effects, position, 'oklch(0.70 0.30 25)', 0.6);
+      createEnergyPulse(effects, position, 'oklch(0.70 0.30 25)', 0.8, 3);
       triggerBackgroundPush(position, 12);
       break;
     
     case 'heal-pulse':
       // Create healing wave with sparkles
-      createEnergyPulse(state, unit.position, 'oklch(0.70 0.20 140)', 0.6, 5);
-      createEnergyPulse(state, unit.position, 'oklch(0.80 0.18 150)', 0.8, 4.5);
-      createHealSparkles(state, unit.position, 3);
-      triggerBackgroundPush(unit.position, 8);
+      createEnergyPulse(effects, unitPosition, 'oklch(0.70 0.20 140)', 0.6, 5);
+      createEnergyPulse(effects, unitPosition, 'oklch(0.80 0.18 150)', 0.8, 4.5);
+      createHealSparkles(effects, unitPosition, 3);
+      triggerBackgroundPush(unitPosition, 8);
       break;
     
     case 'missile-barrage':
       // Create launch effect with enhanced particles
-      createEnergyPulse(state, unit.position, color, 0.4, 2);
-      createParticleBurst(state, unit.position, color, 18, 8);
-      createAbilityCharge(state, unit.position, color, 0.3);
-      triggerBackgroundPush(unit.position, 10);
+      createEnergyPulse(effects, unitPosition, color, 0.4, 2);
+      createParticleBurst(effects, unitPosition, color, 18, 8);
+      createAbilityCharge(effects, unitPosition, color, 0.3);
+      triggerBackgroundPush(unitPosition, 10);
       break;
       
     case 'precision-shot':
       // Sniper-like charging effect
-      createAbilityCharge(state, unit.position, color, 0.5);
-      createEnergyPulse(state, unit.position, color, 0.3, 1.2);
-      triggerBackgroundPush(unit.position, 7);
+      createAbilityCharge(effects, unitPosition, color, 0.5);
+      createEnergyPulse(effects, unitPosition, color, 0.3, 1.2);
+      triggerBackgroundPush(unitPosition, 7);
       break;
       
     case 'ground-slam':
       // Heavy impact effect
-      createEnergyPulse(state, unit.position, color, 0.5, 3);
-      createParticleBurst(state, unit.position, color, 30, 12);
-      triggerBackgroundPush(unit.position, 15);
+      createEnergyPulse(effects, unitPosition, color, 0.5, 3);
+      createParticleBurst(effects, unitPosition, color, 30, 12);
+      triggerBackgroundPush(unitPosition, 15);
       break;
       
     case 'whirlwind':
       // Spinning particle effect
-      createParticleBurst(state, unit.position, color, 25, 8);
-      createEnergyPulse(state, unit.position, color, 0.6, 2.5);
-      triggerBackgroundPush(unit.position, 9);
+      createParticleBurst(effects, unitPosition, color, 25, 8);
+      createEnergyPulse(effects, unitPosition, color, 0.6, 2.5);
+      triggerBackgroundPush(unitPosition, 9);
       break;
   }
 }
@@ -963,12 +1198,10 @@ export function initializeFogParticles(arenaWidth: number, arenaHeight: number):
 /**
  * Update fog particles with swirling orbital motion
  */
-export function updateFogParticles(state: GameState, deltaTime: number, arenaWidth: number, arenaHeight: number): void {
-  if (!state.fogParticles) return;
-  
+export function updateFogParticles(effects: EffectsState, deltaTime: number, arenaWidth: number, arenaHeight: number): void {
   const time = Date.now() / 1000; // Current time in seconds
   
-  for (const particle of state.fogParticles) {
+  for (const particle of effects.fogParticles) {
     // Update angle based on orbit speed
     particle.angle += particle.orbitSpeed * deltaTime;
     